@@ -0,0 +1,87 @@
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import {
+  summarizeAuthFileBatch,
+  type AuthFileBatchAction,
+  type AuthFileBatchItem,
+} from '@/utils/authFiles';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+export interface AuthFileBatchProgressModalProps {
+  action: AuthFileBatchAction | null;
+  items: AuthFileBatchItem[];
+  running: boolean;
+  onClose: () => void;
+}
+
+const STATUS_CLASS: Record<AuthFileBatchItem['status'], string> = {
+  pending: styles.batchStatusPending,
+  running: styles.batchStatusRunning,
+  success: styles.batchStatusSuccess,
+  error: styles.batchStatusError,
+  skipped: styles.batchStatusSkipped,
+};
+
+export function AuthFileBatchProgressModal({
+  action,
+  items,
+  running,
+  onClose,
+}: AuthFileBatchProgressModalProps) {
+  const { t } = useTranslation();
+  const summary = summarizeAuthFileBatch(items);
+
+  // 执行过程中不允许关闭，避免误以为操作已中止
+  const handleClose = () => {
+    if (!running) onClose();
+  };
+
+  return (
+    <Modal
+      open={action !== null}
+      onClose={handleClose}
+      title={action ? t(`auth_files.batch.actions.${action}`) : ''}
+      width={560}
+      footer={
+        <Button onClick={handleClose} disabled={running} loading={running}>
+          {running ? t('auth_files.batch.running') : t('common.close')}
+        </Button>
+      }
+    >
+      <div className={styles.batchProgress}>
+        <div className={styles.batchSummary}>
+          {t('auth_files.batch.progress', { done: summary.done, total: summary.total })}
+          {summary.done > 0 &&
+            ` · ${t('auth_files.batch.result', {
+              success: summary.success,
+              error: summary.error,
+              skipped: summary.skipped,
+            })}`}
+        </div>
+        <progress
+          className={styles.batchProgressBar}
+          value={summary.done}
+          max={Math.max(summary.total, 1)}
+        />
+        <div className={styles.batchList}>
+          {items.map((item) => (
+            <div key={item.name} className={styles.batchRow}>
+              <span className={styles.batchName} title={item.name}>
+                {item.name}
+              </span>
+              <span className={`${styles.batchStatus} ${STATUS_CLASS[item.status]}`}>
+                {t(`auth_files.batch.status.${item.status}`)}
+              </span>
+              {item.message && (
+                <span className={styles.batchMessage} title={item.message}>
+                  {item.message}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+}
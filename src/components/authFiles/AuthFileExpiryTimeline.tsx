@@ -0,0 +1,166 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import type { OAuthProvider } from '@/services/api/oauth';
+import {
+  getAuthFileExpiryGroup,
+  getRelativeTimeParts,
+  sortAuthFileExpiries,
+  type AuthFileExpiry,
+  type AuthFileExpiryGroup,
+} from '@/utils/authFiles';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+export interface AuthFileExpiryTimelineProps {
+  entries: AuthFileExpiry[];
+  loading: boolean;
+  checkedAt: number;
+}
+
+const GROUPS: AuthFileExpiryGroup[] = ['expired', 'day', 'week', 'later', 'unknown'];
+
+// 认证文件类型 → OAuth 页面的登录流程
+const RELOGIN_PROVIDERS: Record<string, OAuthProvider> = {
+  codex: 'codex',
+  claude: 'anthropic',
+  gemini: 'gemini-cli',
+  'gemini-cli': 'gemini-cli',
+  antigravity: 'antigravity',
+  kiro: 'kiro',
+  qwen: 'qwen',
+};
+
+const STATUS_CLASS: Record<AuthFileExpiry['status'], string> = {
+  expired: styles.expiryDotExpired,
+  expiring: styles.expiryDotExpiring,
+  valid: styles.expiryDotValid,
+  unknown: styles.expiryDotUnknown,
+};
+
+const buildReloginPath = (entry: AuthFileExpiry, provider: OAuthProvider) => {
+  const params = new URLSearchParams({ provider });
+  if (entry.email) params.set('account', entry.email);
+  if (provider === 'gemini-cli' && entry.projectId) params.set('project_id', entry.projectId);
+  return `/oauth?${params.toString()}`;
+};
+
+export function AuthFileExpiryTimeline({
+  entries,
+  loading,
+  checkedAt,
+}: AuthFileExpiryTimelineProps) {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+
+  const relativeFormat = useMemo(
+    () => new Intl.RelativeTimeFormat(i18n.language, { numeric: 'auto' }),
+    [i18n.language]
+  );
+  const formatRelative = (time: number) => {
+    const { value, unit } = getRelativeTimeParts(time - checkedAt);
+    return relativeFormat.format(value, unit);
+  };
+
+  const grouped = useMemo(() => {
+    const result = new Map<AuthFileExpiryGroup, AuthFileExpiry[]>();
+    sortAuthFileExpiries(entries).forEach((entry) => {
+      const group = getAuthFileExpiryGroup(entry, checkedAt);
+      result.set(group, [...(result.get(group) ?? []), entry]);
+    });
+    return result;
+  }, [entries, checkedAt]);
+  const reminders = entries.filter((entry) => entry.needsRelogin);
+
+  const renderRelogin = (entry: AuthFileExpiry) => {
+    const provider = RELOGIN_PROVIDERS[entry.type];
+    if (!provider) return null;
+    return (
+      <Button
+        variant={entry.needsRelogin ? 'primary' : 'secondary'}
+        size="sm"
+        onClick={() => navigate(buildReloginPath(entry, provider))}
+      >
+        {t('auth_files.expiry.relogin')}
+      </Button>
+    );
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return <div className={styles.hint}>{t('common.loading')}</div>;
+    }
+    if (!entries.length) {
+      return <div className={styles.hint}>{t('auth_files.expiry.empty')}</div>;
+    }
+    return (
+      <>
+        {reminders.length > 0 && (
+          <div className={styles.expiryReminder}>
+            {t('auth_files.expiry.reminder', { count: reminders.length })}
+          </div>
+        )}
+        <div className={styles.expiryTimeline}>
+          {GROUPS.filter((group) => grouped.has(group)).map((group) => (
+            <div key={group} className={styles.expiryGroup}>
+              <div className={styles.expiryGroupTitle}>
+                {t(`auth_files.expiry.groups.${group}`)}
+              </div>
+              {(grouped.get(group) ?? []).map((entry) => (
+                <div key={entry.name} className={styles.expiryRow}>
+                  <span className={`${styles.expiryDot} ${STATUS_CLASS[entry.status]}`} />
+                  <div className={styles.expiryInfo}>
+                    <span className={styles.expiryName} title={entry.name}>
+                      {entry.email || entry.name}
+                    </span>
+                    <span className={styles.expiryMeta}>
+                      {entry.expiresAt !== null && (
+                        <span title={new Date(entry.expiresAt).toLocaleString()}>
+                          {entry.status === 'expired'
+                            ? t('auth_files.expiry.expired_at', {
+                                time: formatRelative(entry.expiresAt),
+                              })
+                            : t('auth_files.expiry.expires_at', {
+                                time: formatRelative(entry.expiresAt),
+                              })}
+                        </span>
+                      )}
+                      {entry.lastRefresh !== null && (
+                        <span title={new Date(entry.lastRefresh).toLocaleString()}>
+                          {t('auth_files.expiry.last_refresh', {
+                            time: formatRelative(entry.lastRefresh),
+                          })}
+                        </span>
+                      )}
+                      {!entry.hasRefreshToken && (
+                        <span className={styles.expiryNoRefresh}>
+                          {t('auth_files.expiry.no_refresh_token')}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  {renderRelogin(entry)}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className={styles.expiryHint}>{t('auth_files.expiry.hint')}</div>
+      </>
+    );
+  };
+
+  return (
+    <Card
+      title={
+        <div className={styles.titleWrapper}>
+          <span>{t('auth_files.expiry.title')}</span>
+          {reminders.length > 0 && <span className={styles.countBadge}>{reminders.length}</span>}
+        </div>
+      }
+    >
+      {renderBody()}
+    </Card>
+  );
+}
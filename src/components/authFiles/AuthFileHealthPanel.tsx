@@ -0,0 +1,101 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/Button';
+import type { AuthFileItem } from '@/types';
+import type { AuthFileHealth } from '@/utils/authFiles';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+export interface AuthFileHealthEntry {
+  file: AuthFileItem;
+  health: AuthFileHealth;
+}
+
+export interface AuthFileHealthPanelProps {
+  /** 需要处理的认证文件，按健康分从低到高排列 */
+  entries: AuthFileHealthEntry[];
+  disabled: boolean;
+  onDisable: (file: AuthFileItem) => void;
+  onDelete: (name: string) => void;
+}
+
+const HEALTH_LEVEL_CLASS: Record<AuthFileHealth['level'], string> = {
+  healthy: styles.healthHealthy,
+  warning: styles.healthWarning,
+  critical: styles.healthCritical,
+};
+
+/**
+ * 健康分徽标，悬停显示问题列表
+ */
+export function AuthFileHealthBadge({ health }: { health: AuthFileHealth }) {
+  const { t } = useTranslation();
+  const issues = health.issues.map((issue) => t(`auth_files.health.issues.${issue}`));
+  return (
+    <span
+      className={`${styles.healthBadge} ${HEALTH_LEVEL_CLASS[health.level]}`}
+      title={[t('auth_files.health.score', { score: health.score }), ...issues].join('\n')}
+    >
+      {health.score}
+    </span>
+  );
+}
+
+export function AuthFileHealthPanel({
+  entries,
+  disabled,
+  onDisable,
+  onDelete,
+}: AuthFileHealthPanelProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  if (!entries.length) return null;
+
+  return (
+    <div className={styles.healthPanel}>
+      <div className={styles.healthPanelTitle}>
+        {t('auth_files.health.attention_title', { count: entries.length })}
+      </div>
+      <div className={styles.healthPanelList}>
+        {entries.map(({ file, health }) => (
+          <div key={file.name} className={styles.healthPanelRow}>
+            <AuthFileHealthBadge health={health} />
+            <div className={styles.healthPanelInfo}>
+              <span className={styles.healthPanelName} title={file.name}>
+                {file.name}
+              </span>
+              <span className={styles.healthPanelIssues}>
+                {health.issues.map((issue) => t(`auth_files.health.issues.${issue}`)).join(' · ')}
+              </span>
+            </div>
+            {health.suggestion === 'relogin' && (
+              <Button variant="secondary" size="sm" onClick={() => navigate('/oauth')}>
+                {t('auth_files.health.suggestions.relogin')}
+              </Button>
+            )}
+            {health.suggestion === 'disable' && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => onDisable(file)}
+                disabled={disabled}
+              >
+                {t('auth_files.health.suggestions.disable')}
+              </Button>
+            )}
+            {health.suggestion === 'delete' && (
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={() => onDelete(file.name)}
+                disabled={disabled}
+              >
+                {t('auth_files.health.suggestions.delete')}
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { authFilesApi } from '@/services/api';
+import { useNotificationStore } from '@/stores';
+import type { AuthFileItem } from '@/types';
+import { formatFileSize } from '@/utils/format';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_AUTH_FILE_SIZE,
+  expandAuthFileSources,
+  hashAuthFileContent,
+  reviewAuthFileImports,
+  runAuthFileBatch,
+  runWithConcurrency,
+  selectExistingForHashing,
+  summarizeAuthFileBatch,
+  type AuthFileBatchItem,
+  type AuthFileImportRow,
+  type AuthFileImportSource,
+  type AuthFileImportStatus,
+  type ExistingAuthFileForReview,
+  type ExpandedAuthFileImport,
+} from '@/utils/authFiles';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+export interface AuthFileImportModalProps {
+  /** 待导入的文件（选择或拖放），为 null 时关闭 */
+  sources: AuthFileImportSource[] | null;
+  onClose: () => void;
+  /** 至少上传成功一个文件后回调，用于刷新列表 */
+  onImported: () => void;
+}
+
+interface LoadedReview {
+  sources: AuthFileImportSource[];
+  rows: AuthFileImportRow[];
+  ignored: string[];
+  failed: ExpandedAuthFileImport['failed'];
+  error?: string;
+}
+
+const IMPORT_STATUSES: AuthFileImportStatus[] = ['new', 'duplicate', 'conflicting', 'invalid'];
+
+const STATUS_CLASS: Record<AuthFileImportStatus, string> = {
+  new: styles.importStatusNew,
+  duplicate: styles.importStatusDuplicate,
+  conflicting: styles.importStatusConflicting,
+  invalid: styles.importStatusInvalid,
+};
+
+const UPLOAD_STATUS_CLASS: Record<AuthFileBatchItem['status'], string> = {
+  pending: styles.batchStatusPending,
+  running: styles.batchStatusRunning,
+  success: styles.batchStatusSuccess,
+  error: styles.batchStatusError,
+  skipped: styles.batchStatusSkipped,
+};
+
+const isRuntimeOnly = (file: AuthFileItem) => {
+  const raw = file['runtime_only'] ?? file.runtimeOnly;
+  return typeof raw === 'boolean' ? raw : String(raw ?? '').toLowerCase() === 'true';
+};
+
+// 行 ID 使用序号，同一批次中可能出现同名文件
+const rowId = (index: number) => String(index);
+
+// 下载大小可能相同的已有认证文件并计算哈希，用于按内容判断重复
+const loadExistingForReview = async (
+  candidates: ExpandedAuthFileImport['candidates']
+): Promise<ExistingAuthFileForReview[]> => {
+  const data = await authFilesApi.list();
+  const existing = (data?.files || []).filter((file) => !isRuntimeOnly(file));
+  const toHash = new Set(selectExistingForHashing(candidates, existing));
+  return runWithConcurrency(existing, DEFAULT_BATCH_CONCURRENCY, async (item) => {
+    if (!toHash.has(item)) return { item };
+    try {
+      return { item, hash: hashAuthFileContent(await authFilesApi.downloadText(item.name)) };
+    } catch {
+      // 下载失败时仅按账号和文件名比较
+      return { item };
+    }
+  });
+};
+
+export function AuthFileImportModal({ sources, onClose, onImported }: AuthFileImportModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [loaded, setLoaded] = useState<LoadedReview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [uploads, setUploads] = useState<Record<string, AuthFileBatchItem>>({});
+  const [running, setRunning] = useState(false);
+  const [prevSources, setPrevSources] = useState(sources);
+
+  // 每次打开时清空上一批次的上传结果
+  if (sources !== prevSources) {
+    setPrevSources(sources);
+    setUploads({});
+  }
+
+  useEffect(() => {
+    if (!sources) return;
+    let cancelled = false;
+    const review = async (): Promise<LoadedReview> => {
+      let expanded: ExpandedAuthFileImport = { candidates: [], ignored: [], failed: [] };
+      try {
+        // 文件在选择后被移动或删除时读取会失败，需同样展示错误
+        expanded = await expandAuthFileSources(sources);
+        const existing = expanded.candidates.length
+          ? await loadExistingForReview(expanded.candidates)
+          : [];
+        return { sources, ...expanded, rows: reviewAuthFileImports(expanded.candidates, existing) };
+      } catch (err: unknown) {
+        const error = err instanceof Error ? err.message : String(err);
+        return { sources, ...expanded, rows: [], error };
+      }
+    };
+    review().then((result) => {
+      if (cancelled) return;
+      setLoaded(result);
+      // 默认只勾选新增的文件，重复与冲突的文件需手动勾选
+      setSelected(
+        new Set(result.rows.flatMap((row, index) => (row.status === 'new' ? [rowId(index)] : [])))
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sources]);
+
+  const current = loaded && loaded.sources === sources ? loaded : null;
+  const rows = useMemo(() => current?.rows ?? [], [current]);
+  const selectableIds = useMemo(
+    () => rows.flatMap((row, index) => (row.status === 'invalid' ? [] : [rowId(index)])),
+    [rows]
+  );
+  const counts = useMemo(() => {
+    const result: Record<AuthFileImportStatus, number> = {
+      new: 0,
+      duplicate: 0,
+      conflicting: 0,
+      invalid: 0,
+    };
+    rows.forEach((row) => {
+      result[row.status] += 1;
+    });
+    return result;
+  }, [rows]);
+  const uploadSummary = summarizeAuthFileBatch(Object.values(uploads));
+  const allSelected = selectableIds.length > 0 && selectableIds.every((id) => selected.has(id));
+
+  const toggleRow = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(selectableIds) : new Set());
+  };
+
+  // 上传过程中不允许关闭，避免误以为上传已中止
+  const handleClose = () => {
+    if (!running) onClose();
+  };
+
+  const handleUpload = async () => {
+    const ids = selectableIds.filter((id) => selected.has(id));
+    if (!ids.length) return;
+    setRunning(true);
+    setUploads((prev) => {
+      const next = { ...prev };
+      ids.forEach((id) => {
+        next[id] = { name: id, status: 'pending' };
+      });
+      return next;
+    });
+    const results = await runAuthFileBatch(
+      ids,
+      async (id) => {
+        const row = rows[Number(id)];
+        await authFilesApi.upload(new File([row.text], row.name, { type: 'application/json' }));
+      },
+      (id, item) => setUploads((prev) => ({ ...prev, [id]: item }))
+    );
+    const summary = summarizeAuthFileBatch(results);
+    // 已上传成功的文件不再勾选，便于重试失败的文件
+    setSelected((prev) => {
+      const next = new Set(prev);
+      results.forEach((item) => {
+        if (item.status === 'success') next.delete(item.name);
+      });
+      return next;
+    });
+    setRunning(false);
+    showNotification(
+      t('auth_files.import.uploaded', { success: summary.success, total: summary.total }),
+      summary.error ? (summary.success ? 'warning' : 'error') : 'success'
+    );
+    if (summary.success > 0) onImported();
+  };
+
+  const formatReasons = (row: AuthFileImportRow) =>
+    row.reasons
+      .map((reason) =>
+        t(`auth_files.import.reasons.${reason}`, { maxSize: formatFileSize(MAX_AUTH_FILE_SIZE) })
+      )
+      .join('; ') + (row.matches.length ? `: ${row.matches.join(', ')}` : '');
+
+  const selectedCount = selectableIds.filter((id) => selected.has(id)).length;
+
+  return (
+    <Modal
+      open={sources !== null}
+      onClose={handleClose}
+      title={t('auth_files.import.title')}
+      width={880}
+      footer={
+        <>
+          <Button variant="secondary" onClick={handleClose} disabled={running}>
+            {uploadSummary.success > 0 ? t('common.close') : t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleUpload}
+            disabled={!current || running || selectedCount === 0}
+            loading={running}
+          >
+            {t('auth_files.import.upload_selected', { count: selectedCount })}
+          </Button>
+        </>
+      }
+    >
+      {!current ? (
+        <div className={styles.hint}>{t('auth_files.import.reviewing')}</div>
+      ) : (
+        <div className={styles.importReview}>
+          {current.error && <div className={styles.errorBox}>{current.error}</div>}
+          {current.failed.map((item) => (
+            <div key={item.path} className={styles.errorBox}>
+              {t('auth_files.import.archive_failed', { path: item.path, message: item.message })}
+            </div>
+          ))}
+
+          <div className={styles.importSummary}>
+            {IMPORT_STATUSES.map((status) => (
+              <span key={status} className={`${styles.importStatus} ${STATUS_CLASS[status]}`}>
+                {t(`auth_files.import.status.${status}`)} {counts[status]}
+              </span>
+            ))}
+            {current.ignored.length > 0 && (
+              <span className={styles.importHint} title={current.ignored.join('\n')}>
+                {t('auth_files.import.ignored', { count: current.ignored.length })}
+              </span>
+            )}
+          </div>
+
+          {uploadSummary.total > 0 && (
+            <div className={styles.batchSummary}>
+              {t('auth_files.batch.progress', {
+                done: uploadSummary.done,
+                total: uploadSummary.total,
+              })}
+              {` · ${t('auth_files.batch.result', {
+                success: uploadSummary.success,
+                error: uploadSummary.error,
+                skipped: uploadSummary.skipped,
+              })}`}
+            </div>
+          )}
+
+          {rows.length === 0 ? (
+            <div className={styles.hint}>{t('auth_files.import.empty')}</div>
+          ) : (
+            <div className={styles.importTableWrapper}>
+              <table className={styles.importTable}>
+                <thead>
+                  <tr>
+                    <th>
+                      <input
+                        type="checkbox"
+                        className={styles.selectCheckbox}
+                        checked={allSelected}
+                        disabled={running || selectableIds.length === 0}
+                        onChange={(event) => toggleAll(event.target.checked)}
+                        aria-label={t('auth_files.import.select_all')}
+                      />
+                    </th>
+                    <th>{t('auth_files.import.columns.file')}</th>
+                    <th>{t('auth_files.import.columns.type')}</th>
+                    <th>{t('auth_files.import.columns.account')}</th>
+                    <th>{t('auth_files.import.columns.status')}</th>
+                    <th>{t('auth_files.import.columns.upload')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => {
+                    const id = rowId(index);
+                    const upload = uploads[id];
+                    return (
+                      <tr key={id}>
+                        <td>
+                          <input
+                            type="checkbox"
+                            className={styles.selectCheckbox}
+                            checked={selected.has(id)}
+                            disabled={running || row.status === 'invalid'}
+                            onChange={(event) => toggleRow(id, event.target.checked)}
+                            aria-label={row.path}
+                          />
+                        </td>
+                        <td className={styles.importPath} title={row.path}>
+                          {row.path}
+                        </td>
+                        <td>{row.type ?? '-'}</td>
+                        <td className={styles.importPath} title={row.account}>
+                          {row.account ?? '-'}
+                        </td>
+                        <td>
+                          <span className={`${styles.importStatus} ${STATUS_CLASS[row.status]}`}>
+                            {t(`auth_files.import.status.${row.status}`)}
+                          </span>
+                          {row.reasons.length > 0 && (
+                            <div className={styles.importReason}>{formatReasons(row)}</div>
+                          )}
+                        </td>
+                        <td>
+                          {upload && (
+                            <span
+                              className={`${styles.batchStatus} ${UPLOAD_STATUS_CLASS[upload.status]}`}
+                              title={upload.message}
+                            >
+                              {t(`auth_files.batch.status.${upload.status}`)}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className={styles.importHint}>{t('auth_files.import.overwrite_hint')}</div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { authFilesApi } from '@/services/api';
+import { useNotificationStore } from '@/stores';
+import type { AuthFileItem } from '@/types';
+import {
+  applyAuthFileEdits,
+  inspectAuthFile,
+  maskAuthFileSecrets,
+  parseAuthFileTime,
+  validateAuthFileEdits,
+  type AuthFileEdits,
+  type AuthFileField,
+  type AuthFileInspection,
+} from '@/utils/authFiles';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+export interface AuthFileInspectorModalProps {
+  /** 要查看的认证文件，为 null 时关闭 */
+  file: AuthFileItem | null;
+  onClose: () => void;
+  /** 重新上传成功后回调，用于刷新列表 */
+  onSaved: () => void;
+}
+
+interface LoadedAuthFile {
+  name: string;
+  loadedAt: number;
+  text?: string;
+  error?: string;
+}
+
+type InspectResult = { inspection: AuthFileInspection } | { parseError: string };
+
+const EMPTY_EDITS: AuthFileEdits = { projectId: '', priority: '' };
+
+const getInitialEdits = (inspection: AuthFileInspection): AuthFileEdits => ({
+  projectId: typeof inspection.data.project_id === 'string' ? inspection.data.project_id : '',
+  priority: typeof inspection.data.priority === 'number' ? String(inspection.data.priority) : '',
+});
+
+const formatFieldValue = (field: AuthFileField) => {
+  if (field.kind !== 'date') return field.value;
+  const time = parseAuthFileTime(field.value);
+  return time === null ? field.value : new Date(time).toLocaleString();
+};
+
+export function AuthFileInspectorModal({ file, onClose, onSaved }: AuthFileInspectorModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [loaded, setLoaded] = useState<LoadedAuthFile | null>(null);
+  const [edits, setEdits] = useState<AuthFileEdits>(EMPTY_EDITS);
+  const [showErrors, setShowErrors] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [prevLoaded, setPrevLoaded] = useState(loaded);
+
+  const fileName = file?.name ?? null;
+  const fileType = file?.type;
+
+  useEffect(() => {
+    if (!fileName) return;
+    let cancelled = false;
+    authFilesApi.downloadText(fileName).then(
+      (text) => {
+        if (!cancelled) setLoaded({ name: fileName, loadedAt: Date.now(), text });
+      },
+      (err: unknown) => {
+        if (cancelled) return;
+        const error = err instanceof Error ? err.message : String(err);
+        setLoaded({ name: fileName, loadedAt: Date.now(), error });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [fileName]);
+
+  const current = loaded && loaded.name === fileName ? loaded : null;
+  const result = useMemo<InspectResult | null>(() => {
+    if (current?.text === undefined) return null;
+    try {
+      return { inspection: inspectAuthFile(current.text, fileType, current.loadedAt) };
+    } catch (err: unknown) {
+      return { parseError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [current, fileType]);
+  const inspection = result && 'inspection' in result ? result.inspection : null;
+
+  // 内容加载完成后以文件中的值初始化编辑表单
+  if (loaded !== prevLoaded) {
+    setPrevLoaded(loaded);
+    setShowErrors(false);
+    setEdits(inspection ? getInitialEdits(inspection) : EMPTY_EDITS);
+  }
+
+  const errors = inspection ? validateAuthFileEdits(inspection, edits) : {};
+  const initialEdits = inspection ? getInitialEdits(inspection) : EMPTY_EDITS;
+  const changed =
+    edits.projectId.trim() !== initialEdits.projectId ||
+    edits.priority.trim() !== initialEdits.priority;
+
+  const handleClose = () => {
+    if (saving) return;
+    setLoaded(null);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (!inspection || !fileName) return;
+    if (Object.keys(errors).length) {
+      setShowErrors(true);
+      return;
+    }
+    setSaving(true);
+    try {
+      const text = applyAuthFileEdits(inspection, edits);
+      await authFilesApi.upload(new File([text], fileName, { type: 'application/json' }));
+      showNotification(t('auth_files.inspector.save_success'), 'success');
+      setLoaded(null);
+      onSaved();
+      onClose();
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : '';
+      showNotification(`${t('notification.upload_failed')}: ${errorMessage}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (!current) {
+      return <div className={styles.hint}>{t('common.loading')}</div>;
+    }
+    if (current.error !== undefined) {
+      return (
+        <div className={styles.errorBox}>
+          {t('notification.load_failed')}: {current.error}
+        </div>
+      );
+    }
+    if (!inspection) {
+      return <div className={styles.errorBox}>{t('auth_files.inspector.parse_error')}</div>;
+    }
+    return (
+      <div className={styles.inspector}>
+        {inspection.warnings.map((warning) => (
+          <div key={warning} className={styles.inspectorWarning}>
+            {t(`auth_files.inspector.warnings.${warning}`, {
+              time:
+                inspection.expiresAt === null
+                  ? '-'
+                  : new Date(inspection.expiresAt).toLocaleString(),
+            })}
+          </div>
+        ))}
+
+        <div className={styles.inspectorFields}>
+          {inspection.fields.map((field) => (
+            <div key={field.path} className={styles.inspectorField}>
+              <span className={styles.inspectorFieldName}>{field.path}</span>
+              <span
+                className={`${styles.inspectorFieldValue} ${
+                  field.kind === 'secret' ? styles.inspectorSecret : ''
+                }`}
+                title={field.kind === 'date' ? field.value : undefined}
+              >
+                {formatFieldValue(field)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className={styles.inspectorEdit}>
+          <div className={styles.inspectorEditTitle}>{t('auth_files.inspector.edit_title')}</div>
+          {inspection.projectIdEditable && (
+            <Input
+              label="project_id"
+              value={edits.projectId}
+              onChange={(e) => setEdits((prev) => ({ ...prev, projectId: e.target.value }))}
+              hint={t('auth_files.inspector.project_id_hint')}
+              error={
+                showErrors && errors.projectId
+                  ? t(`auth_files.inspector.errors.${errors.projectId}`)
+                  : undefined
+              }
+              disabled={saving}
+            />
+          )}
+          <Input
+            label="priority"
+            value={edits.priority}
+            inputMode="numeric"
+            onChange={(e) => setEdits((prev) => ({ ...prev, priority: e.target.value }))}
+            hint={t('auth_files.inspector.priority_hint')}
+            error={
+              showErrors && errors.priority
+                ? t(`auth_files.inspector.errors.${errors.priority}`)
+                : undefined
+            }
+            disabled={saving}
+          />
+        </div>
+
+        <details className={styles.inspectorRaw}>
+          <summary>{t('auth_files.inspector.raw_title')}</summary>
+          <pre className={styles.jsonContent}>
+            {JSON.stringify(maskAuthFileSecrets(inspection.data), null, 2)}
+          </pre>
+        </details>
+      </div>
+    );
+  };
+
+  return (
+    <Modal
+      open={file !== null}
+      onClose={handleClose}
+      title={fileName ? `${t('auth_files.inspector.title')} - ${fileName}` : ''}
+      width={640}
+      footer={
+        <>
+          <Button variant="secondary" onClick={handleClose} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={!inspection || !changed} loading={saving}>
+            {t('auth_files.inspector.save')}
+          </Button>
+        </>
+      }
+    >
+      {renderBody()}
+    </Modal>
+  );
+}
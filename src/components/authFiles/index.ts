@@ -0,0 +1,17 @@
+/**
+ * Auth file components barrel export.
+ */
+
+export { AuthFileBatchProgressModal } from './AuthFileBatchProgressModal';
+export { useAuthFileBatch } from './useAuthFileBatch';
+export type { AuthFileBatchOptions, UseAuthFileBatchReturn } from './useAuthFileBatch';
+export { AuthFileExpiryTimeline } from './AuthFileExpiryTimeline';
+export type { AuthFileExpiryTimelineProps } from './AuthFileExpiryTimeline';
+export { useAuthFileExpiries } from './useAuthFileExpiries';
+export type { UseAuthFileExpiriesReturn } from './useAuthFileExpiries';
+export { AuthFileInspectorModal } from './AuthFileInspectorModal';
+export type { AuthFileInspectorModalProps } from './AuthFileInspectorModal';
+export { AuthFileHealthBadge, AuthFileHealthPanel } from './AuthFileHealthPanel';
+export type { AuthFileHealthEntry, AuthFileHealthPanelProps } from './AuthFileHealthPanel';
+export { AuthFileImportModal } from './AuthFileImportModal';
+export type { AuthFileImportModalProps } from './AuthFileImportModal';
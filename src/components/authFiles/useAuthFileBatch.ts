@@ -0,0 +1,188 @@
+/**
+ * Runs batch actions (enable/disable, delete, zip download, quota refresh, priority)
+ * over the selected auth files and tracks per-file progress.
+ */
+
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import {
+  ANTIGRAVITY_CONFIG,
+  CODEX_CONFIG,
+  GEMINI_CLI_CONFIG,
+  KIRO_CONFIG,
+  type QuotaConfig,
+} from '@/components/quota';
+import { authFilesApi } from '@/services/api';
+import { useQuotaStore } from '@/stores';
+import type { AuthFileItem } from '@/types';
+import {
+  AuthFileBatchSkip,
+  runAuthFileBatch,
+  setAuthFilePriority,
+  type AuthFileBatchAction,
+  type AuthFileBatchItem,
+} from '@/utils/authFiles';
+import { getStatusFromError } from '@/utils/quota';
+import { createZip } from '@/utils/zip';
+
+type QuotaSetter<T> = (updater: T | ((prev: T) => T)) => void;
+
+interface QuotaRefresher {
+  matches: (file: AuthFileItem) => boolean;
+  refresh: (file: AuthFileItem, t: TFunction) => Promise<void>;
+}
+
+// 刷新单个文件的额度并写入额度页面共用的 store
+const createQuotaRefresher = <TState, TData>(
+  config: QuotaConfig<TState, TData>
+): QuotaRefresher => ({
+  matches: config.filterFn,
+  refresh: async (file, t) => {
+    const setQuota = useQuotaStore.getState()[config.storeSetter] as QuotaSetter<
+      Record<string, TState>
+    >;
+    setQuota((prev) => ({ ...prev, [file.name]: config.buildLoadingState() }));
+    try {
+      const data = await config.fetchQuota(file, t);
+      setQuota((prev) => ({ ...prev, [file.name]: config.buildSuccessState(data) }));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : t('common.unknown_error');
+      setQuota((prev) => ({
+        ...prev,
+        [file.name]: config.buildErrorState(message, getStatusFromError(err)),
+      }));
+      throw err;
+    }
+  },
+});
+
+const QUOTA_REFRESHERS: QuotaRefresher[] = [
+  createQuotaRefresher(ANTIGRAVITY_CONFIG),
+  createQuotaRefresher(CODEX_CONFIG),
+  createQuotaRefresher(GEMINI_CLI_CONFIG),
+  createQuotaRefresher(KIRO_CONFIG),
+];
+
+// 需要读写磁盘文件的操作，虚拟（runtime-only）认证文件不支持
+const FILE_ACTIONS = new Set<AuthFileBatchAction>(['delete', 'download', 'priority']);
+
+export interface AuthFileBatchOptions {
+  /** priority 操作的目标值，null 表示移除 priority 字段 */
+  priority?: number | null;
+}
+
+export interface UseAuthFileBatchReturn {
+  action: AuthFileBatchAction | null;
+  items: AuthFileBatchItem[];
+  running: boolean;
+  run: (
+    action: AuthFileBatchAction,
+    files: AuthFileItem[],
+    options?: AuthFileBatchOptions
+  ) => Promise<AuthFileBatchItem[]>;
+  reset: () => void;
+}
+
+const isRuntimeOnly = (file: AuthFileItem) => {
+  const raw = file['runtime_only'] ?? file.runtimeOnly;
+  if (typeof raw === 'string') return raw.trim().toLowerCase() === 'true';
+  return raw === true;
+};
+
+const downloadZip = (data: Uint8Array<ArrayBuffer>, filename: string) => {
+  const blob = new Blob([data], { type: 'application/zip' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const buildZipFilename = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `auth-files-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(
+    date.getHours()
+  )}${pad(date.getMinutes())}${pad(date.getSeconds())}.zip`;
+};
+
+export function useAuthFileBatch(): UseAuthFileBatchReturn {
+  const { t } = useTranslation();
+  const [action, setAction] = useState<AuthFileBatchAction | null>(null);
+  const [items, setItems] = useState<AuthFileBatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const run = useCallback(
+    async (
+      nextAction: AuthFileBatchAction,
+      files: AuthFileItem[],
+      options: AuthFileBatchOptions = {}
+    ) => {
+      const byName = new Map(files.map((file) => [file.name, file]));
+      const names = files.map((file) => file.name);
+      const downloaded = new Map<string, string>();
+
+      const task = async (name: string) => {
+        const file = byName.get(name);
+        if (!file) return;
+        if (FILE_ACTIONS.has(nextAction) && isRuntimeOnly(file)) {
+          throw new AuthFileBatchSkip(t('auth_files.batch.skip_runtime_only'));
+        }
+        switch (nextAction) {
+          case 'enable':
+          case 'disable':
+            await authFilesApi.setDisabled(file.id ?? file.name, nextAction === 'disable');
+            return;
+          case 'delete':
+            await authFilesApi.deleteFile(file.name);
+            return;
+          case 'download':
+            downloaded.set(file.name, await authFilesApi.downloadText(file.name));
+            return;
+          case 'refreshQuota': {
+            const refresher = QUOTA_REFRESHERS.find((item) => item.matches(file));
+            if (!refresher) {
+              throw new AuthFileBatchSkip(t('auth_files.batch.skip_no_quota'));
+            }
+            await refresher.refresh(file, t);
+            return;
+          }
+          case 'priority': {
+            const text = await authFilesApi.downloadText(file.name);
+            const updated = setAuthFilePriority(text, options.priority ?? null);
+            await authFilesApi.upload(new File([updated], file.name, { type: 'application/json' }));
+            return;
+          }
+        }
+      };
+
+      setAction(nextAction);
+      setItems(names.map((name) => ({ name, status: 'pending' })));
+      setRunning(true);
+      try {
+        const results = await runAuthFileBatch(names, task, (name, item) => {
+          setItems((prev) => prev.map((entry) => (entry.name === name ? item : entry)));
+        });
+        if (nextAction === 'download' && downloaded.size > 0) {
+          const now = new Date();
+          const entries = names
+            .filter((name) => downloaded.has(name))
+            .map((name) => ({ name, data: downloaded.get(name) ?? '' }));
+          downloadZip(createZip(entries, now), buildZipFilename(now));
+        }
+        return results;
+      } finally {
+        setRunning(false);
+      }
+    },
+    [t]
+  );
+
+  const reset = useCallback(() => {
+    setAction(null);
+    setItems([]);
+  }, []);
+
+  return { action, items, running, run, reset };
+}
@@ -0,0 +1,77 @@
+/**
+ * Downloads OAuth auth file contents in the background to extract token expiry for the timeline.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { authFilesApi } from '@/services/api';
+import type { AuthFileItem } from '@/types';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  extractAuthFileExpiry,
+  runWithConcurrency,
+  type AuthFileExpiry,
+} from '@/utils/authFiles';
+
+export interface UseAuthFileExpiriesReturn {
+  entries: AuthFileExpiry[];
+  loading: boolean;
+  /** 提取完成的时间，作为时间轴的当前时间 */
+  checkedAt: number;
+}
+
+interface LoadedExpiries {
+  signature: string;
+  entries: AuthFileExpiry[];
+  checkedAt: number;
+}
+
+const getModifiedKey = (file: AuthFileItem) => String(file['modtime'] ?? file.modified ?? '');
+
+/**
+ * @param targets 需要检查的认证文件（调用方已筛选出 OAuth 类型的磁盘文件）
+ */
+export function useAuthFileExpiries(
+  targets: AuthFileItem[],
+  enabled: boolean = true
+): UseAuthFileExpiriesReturn {
+  const [loaded, setLoaded] = useState<LoadedExpiries | null>(null);
+  // 列表刷新会生成新的 targets 数组，通过 ref 读取，避免内容未变时重复下载
+  const targetsRef = useRef(targets);
+  // 文件名或修改时间变化时才需要重新提取
+  const signature = targets.map((file) => `${file.name}:${getModifiedKey(file)}`).join('|');
+
+  useEffect(() => {
+    targetsRef.current = targets;
+  }, [targets]);
+
+  useEffect(() => {
+    if (!enabled || !signature) return;
+    let cancelled = false;
+    runWithConcurrency(targetsRef.current, DEFAULT_BATCH_CONCURRENCY, async (file) => {
+      try {
+        const text = await authFilesApi.downloadText(file.name);
+        return extractAuthFileExpiry(file.name, text, file.type, Date.now());
+      } catch {
+        // 单个文件下载或解析失败时不影响其他文件
+        return null;
+      }
+    }).then((results) => {
+      if (cancelled) return;
+      setLoaded({
+        signature,
+        entries: results.filter((entry): entry is AuthFileExpiry => entry !== null),
+        checkedAt: Date.now(),
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [signature, enabled]);
+
+  const current = loaded && loaded.signature === signature ? loaded : null;
+  return {
+    entries: current?.entries ?? [],
+    loading: enabled && Boolean(signature) && !current,
+    checkedAt: current?.checkedAt ?? 0,
+  };
+}
@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  collapseUnchangedRows,
+  diffLines,
+  getDiffStats,
+  toSideBySideRows,
+  type SideBySideRow
+} from '@/utils/diff';
+import styles from '@/pages/ConfigPage.module.scss';
+
+interface ConfigDiffViewProps {
+  oldText: string;
+  newText: string;
+  oldLabel?: string;
+  newLabel?: string;
+  /** 仅展示改动附近的上下文行 */
+  collapse?: boolean;
+}
+
+const ROW_CLASS: Record<SideBySideRow['type'], string> = {
+  equal: '',
+  change: styles.diffChange,
+  add: styles.diffAdd,
+  remove: styles.diffRemove
+};
+
+export function ConfigDiffView({
+  oldText,
+  newText,
+  oldLabel,
+  newLabel,
+  collapse = true
+}: ConfigDiffViewProps) {
+  const { t } = useTranslation();
+
+  const { rows, stats } = useMemo(() => {
+    const ops = diffLines(oldText, newText);
+    const sideBySide = toSideBySideRows(ops);
+    return {
+      rows: collapse ? collapseUnchangedRows(sideBySide) : sideBySide,
+      stats: getDiffStats(ops)
+    };
+  }, [oldText, newText, collapse]);
+
+  const identical = stats.added === 0 && stats.removed === 0;
+
+  return (
+    <div className={styles.diffView}>
+      <div className={styles.diffHeader}>
+        <span className={styles.diffLabel}>{oldLabel}</span>
+        <span className={styles.diffStats}>
+          <span className={styles.diffStatsAdded}>+{stats.added}</span>
+          <span className={styles.diffStatsRemoved}>-{stats.removed}</span>
+        </span>
+        <span className={styles.diffLabel}>{newLabel}</span>
+      </div>
+      {identical ? (
+        <div className={styles.diffEmpty}>{t('config_management.history.no_changes')}</div>
+      ) : (
+        <div className={styles.diffBody}>
+          <table className={styles.diffTable}>
+            <tbody>
+              {rows.map((row, index) =>
+                row.type === 'collapsed' ? (
+                  <tr key={index} className={styles.diffCollapsed}>
+                    <td colSpan={4}>
+                      {t('config_management.history.unchanged_lines', { count: row.count })}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={index} className={ROW_CLASS[row.type]}>
+                    <td className={styles.diffLineNumber}>{row.left?.line ?? ''}</td>
+                    <td className={`${styles.diffCell} ${row.left ? styles.diffOld : styles.diffBlank}`}>
+                      {row.left?.text ?? ''}
+                    </td>
+                    <td className={styles.diffLineNumber}>{row.right?.line ?? ''}</td>
+                    <td className={`${styles.diffCell} ${row.right ? styles.diffNew : styles.diffBlank}`}>
+                      {row.right?.text ?? ''}
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { useConfigHistoryStore } from '@/stores';
+import { configFileApi } from '@/services/api/configFile';
+import type { ConfigRevision } from '@/types';
+import { normalizeApiBase } from '@/utils/connection';
+import { splitLines } from '@/utils/diff';
+import { ConfigDiffView } from './ConfigDiffView';
+import styles from '@/pages/ConfigPage.module.scss';
+
+interface ConfigHistoryModalProps {
+  open: boolean;
+  onClose: () => void;
+  apiBase: string;
+  /** 编辑器中的当前内容，可作为对比的一侧 */
+  currentContent: string;
+  /** 编辑器中是否有未保存的修改，回滚会覆盖这些修改 */
+  dirty: boolean;
+  /** 将指定版本写回服务器；每次打开应通过 key 重新挂载以重置选择 */
+  onRestore: (revision: ConfigRevision) => Promise<void>;
+}
+
+const EDITOR_OPTION = 'editor';
+
+interface RestoreState {
+  revision: ConfigRevision;
+  serverContent: string | null;
+  loading: boolean;
+  error: string;
+}
+
+export function ConfigHistoryModal({
+  open,
+  onClose,
+  apiBase,
+  currentContent,
+  dirty,
+  onRestore
+}: ConfigHistoryModalProps) {
+  const { t, i18n } = useTranslation();
+  const histories = useConfigHistoryStore((state) => state.histories);
+  const removeRevision = useConfigHistoryStore((state) => state.removeRevision);
+  const clearHistory = useConfigHistoryStore((state) => state.clearHistory);
+
+  // 最新的版本排在最前
+  const revisions = useMemo(
+    () => [...(histories[normalizeApiBase(apiBase)] ?? [])].reverse(),
+    [histories, apiBase]
+  );
+
+  const [leftId, setLeftId] = useState<string>(() => revisions[0]?.id ?? EDITOR_OPTION);
+  const [rightId, setRightId] = useState<string>(EDITOR_OPTION);
+  const [restoring, setRestoring] = useState<RestoreState | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(i18n.language);
+
+  const describeRevision = (revision: ConfigRevision) =>
+    `${formatTime(revision.savedAt)} · ${t(`config_management.history.source_${revision.source}`)}`;
+
+  const resolveSide = (id: string) => {
+    if (id === EDITOR_OPTION) {
+      return { text: currentContent, label: t('config_management.history.editor_content') };
+    }
+    const revision = revisions.find((item) => item.id === id);
+    if (!revision) return { text: '', label: '-' };
+    return { text: revision.content, label: describeRevision(revision) };
+  };
+
+  const left = resolveSide(leftId);
+  const right = resolveSide(rightId);
+
+  const startRestore = async (revision: ConfigRevision) => {
+    setRestoring({ revision, serverContent: null, loading: true, error: '' });
+    try {
+      const serverContent = await configFileApi.fetchConfigYaml();
+      setRestoring({ revision, serverContent, loading: false, error: '' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : t('notification.refresh_failed');
+      setRestoring({ revision, serverContent: null, loading: false, error: message });
+    }
+  };
+
+  const confirmRestore = async () => {
+    if (!restoring) return;
+    setSubmitting(true);
+    try {
+      await onRestore(restoring.revision);
+      onClose();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      setRestoring({ ...restoring, error: message || t('notification.save_failed') });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = (revision: ConfigRevision) => {
+    if (!window.confirm(t('config_management.history.delete_confirm'))) return;
+    removeRevision(apiBase, revision.id);
+    if (leftId === revision.id) setLeftId(EDITOR_OPTION);
+    if (rightId === revision.id) setRightId(EDITOR_OPTION);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(t('config_management.history.clear_confirm'))) return;
+    clearHistory(apiBase);
+    setLeftId(EDITOR_OPTION);
+    setRightId(EDITOR_OPTION);
+  };
+
+  const renderSideSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <div className={styles.historySelect}>
+      <label>{label}</label>
+      <select className="input" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value={EDITOR_OPTION}>{t('config_management.history.editor_content')}</option>
+        {revisions.map((revision) => (
+          <option key={revision.id} value={revision.id}>
+            {describeRevision(revision)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const restoreFooter = restoring && (
+    <>
+      <Button variant="secondary" onClick={() => setRestoring(null)} disabled={submitting}>
+        {t('common.cancel')}
+      </Button>
+      <Button
+        variant="danger"
+        onClick={confirmRestore}
+        loading={submitting}
+        disabled={restoring.loading || restoring.serverContent === null}
+      >
+        {t('config_management.history.restore_confirm_button')}
+      </Button>
+    </>
+  );
+
+  const listFooter = (
+    <>
+      {revisions.length > 0 && (
+        <Button variant="secondary" onClick={handleClear}>
+          {t('config_management.history.clear')}
+        </Button>
+      )}
+      <Button variant="secondary" onClick={onClose}>
+        {t('common.close')}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      width={1100}
+      title={
+        restoring
+          ? t('config_management.history.restore_title', {
+              time: formatTime(restoring.revision.savedAt)
+            })
+          : t('config_management.history.title')
+      }
+      footer={restoring ? restoreFooter : listFooter}
+    >
+      {restoring ? (
+        <div className={styles.historyRestore}>
+          <div className="hint">{t('config_management.history.restore_hint')}</div>
+          {dirty && (
+            <div className={styles.historyWarning}>
+              {t('config_management.history.restore_dirty_warning')}
+            </div>
+          )}
+          {restoring.error && <div className="error-box">{restoring.error}</div>}
+          {restoring.loading ? (
+            <div className="hint">{t('config_management.history.loading_server')}</div>
+          ) : (
+            restoring.serverContent !== null && (
+              <ConfigDiffView
+                oldText={restoring.serverContent}
+                newText={restoring.revision.content}
+                oldLabel={t('config_management.history.server_content')}
+                newLabel={describeRevision(restoring.revision)}
+              />
+            )
+          )}
+        </div>
+      ) : revisions.length === 0 ? (
+        <EmptyState
+          title={t('config_management.history.empty_title')}
+          description={t('config_management.history.empty_desc')}
+        />
+      ) : (
+        <div className={styles.historyLayout}>
+          <div className={styles.historyList}>
+            {revisions.map((revision) => (
+              <div
+                key={revision.id}
+                className={`${styles.historyItem} ${
+                  leftId === revision.id || rightId === revision.id ? styles.historyItemActive : ''
+                }`}
+              >
+                <div className={styles.historyItemMeta}>
+                  <div className={styles.historyItemTime}>{formatTime(revision.savedAt)}</div>
+                  <div className={styles.historyItemInfo}>
+                    <span className="pill">
+                      {t(`config_management.history.source_${revision.source}`)}
+                    </span>
+                    <span>
+                      {t('config_management.history.line_count', {
+                        count: splitLines(revision.content).length
+                      })}
+                    </span>
+                  </div>
+                </div>
+                <div className={styles.historyItemActions}>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => {
+                      setLeftId(revision.id);
+                      setRightId(EDITOR_OPTION);
+                    }}
+                  >
+                    {t('config_management.history.compare')}
+                  </Button>
+                  <Button size="sm" onClick={() => startRestore(revision)}>
+                    {t('config_management.history.restore')}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(revision)}>
+                    {t('common.delete')}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className={styles.historyCompare}>
+            <div className={styles.historySelects}>
+              {renderSideSelect(leftId, setLeftId, t('config_management.history.compare_from'))}
+              {renderSideSelect(rightId, setRightId, t('config_management.history.compare_to'))}
+            </div>
+            <ConfigDiffView
+              oldText={left.text}
+              newText={right.text}
+              oldLabel={left.label}
+              newLabel={right.label}
+            />
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
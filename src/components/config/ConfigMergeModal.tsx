@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import {
+  buildMergedText,
+  mergeThreeWay,
+  type MergeChunk,
+  type MergeResolution
+} from '@/utils/merge';
+import { ConfigDiffView } from './ConfigDiffView';
+import styles from '@/pages/ConfigPage.module.scss';
+
+export interface ConfigMergeSources {
+  /** 载入编辑器时的服务器版本 */
+  base: string;
+  /** 保存前重新读取到的服务器版本 */
+  theirs: string;
+  /** 编辑器中的内容 */
+  mine: string;
+}
+
+interface ConfigMergeModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** 每次出现新的冲突应通过 key 重新挂载以重置处理方式 */
+  sources: ConfigMergeSources | null;
+  /** 保存已无冲突的合并结果 */
+  onSaveMerged: (merged: string, theirs: string) => Promise<void>;
+  /** 把带冲突标记的合并结果放回编辑器，由用户继续处理 */
+  onEditMerged: (merged: string, theirs: string) => void;
+  /** 忽略服务器上的修改，直接保存编辑器内容 */
+  onOverwrite: (mine: string) => Promise<void>;
+  /** 放弃本地修改，载入服务器上的版本 */
+  onDiscardMine: (theirs: string) => void;
+}
+
+type MergeTab = 'merge' | 'theirs' | 'mine';
+
+const CONTEXT_LINES = 2;
+
+export function ConfigMergeModal({
+  open,
+  onClose,
+  sources,
+  onSaveMerged,
+  onEditMerged,
+  onOverwrite,
+  onDiscardMine
+}: ConfigMergeModalProps) {
+  const { t } = useTranslation();
+  const [tab, setTab] = useState<MergeTab>('merge');
+  const [resolutions, setResolutions] = useState<Record<number, MergeResolution>>({});
+  const [submitting, setSubmitting] = useState<'merged' | 'overwrite' | null>(null);
+
+  const result = useMemo(
+    () => (sources ? mergeThreeWay(sources.base, sources.theirs, sources.mine) : null),
+    [sources]
+  );
+  const merged = useMemo(
+    () => (result ? buildMergedText(result, resolutions) : ''),
+    [result, resolutions]
+  );
+  // 每个区块对应的冲突序号，非冲突区块为 -1
+  const conflictIndexes = useMemo(() => {
+    let next = 0;
+    return (result?.chunks ?? []).map((chunk) => (chunk.type === 'conflict' ? next++ : -1));
+  }, [result]);
+
+  if (!sources || !result) {
+    return null;
+  }
+
+  const unresolved = result.conflicts - Object.keys(resolutions).length;
+
+  const resolve = (index: number, resolution: MergeResolution) => {
+    setResolutions((prev) => ({ ...prev, [index]: resolution }));
+  };
+
+  const handleSaveMerged = async () => {
+    setSubmitting('merged');
+    try {
+      await onSaveMerged(merged, sources.theirs);
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const handleOverwrite = async () => {
+    if (!window.confirm(t('config_management.merge.overwrite_confirm'))) return;
+    setSubmitting('overwrite');
+    try {
+      await onOverwrite(sources.mine);
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const handleDiscardMine = () => {
+    if (!window.confirm(t('config_management.merge.discard_confirm'))) return;
+    onDiscardMine(sources.theirs);
+  };
+
+  const renderLines = (lines: string[], className = '') => (
+    <pre className={`${styles.mergeLines} ${className}`}>
+      {lines.length ? lines.join('\n') : t('config_management.merge.empty_side')}
+    </pre>
+  );
+
+  const renderStable = (chunk: Extract<MergeChunk, { type: 'stable' }>, index: number, total: number) => {
+    const { lines } = chunk;
+    const head = index > 0 ? lines.slice(0, CONTEXT_LINES) : [];
+    const tail = index < total - 1 ? lines.slice(-CONTEXT_LINES) : [];
+    if (lines.length <= head.length + tail.length + 1) {
+      return renderLines(lines, styles.mergeContext);
+    }
+    return (
+      <>
+        {head.length > 0 && renderLines(head, styles.mergeContext)}
+        <div className={styles.mergeCollapsed}>
+          {t('config_management.history.unchanged_lines', {
+            count: lines.length - head.length - tail.length
+          })}
+        </div>
+        {tail.length > 0 && renderLines(tail, styles.mergeContext)}
+      </>
+    );
+  };
+
+  const footer = (
+    <>
+      <Button variant="secondary" onClick={onClose} disabled={submitting !== null}>
+        {t('common.cancel')}
+      </Button>
+      <Button variant="secondary" onClick={handleDiscardMine} disabled={submitting !== null}>
+        {t('config_management.merge.discard_mine')}
+      </Button>
+      <Button
+        variant="danger"
+        onClick={handleOverwrite}
+        loading={submitting === 'overwrite'}
+        disabled={submitting !== null}
+      >
+        {t('config_management.merge.overwrite')}
+      </Button>
+      {unresolved > 0 ? (
+        <Button onClick={() => onEditMerged(merged, sources.theirs)} disabled={submitting !== null}>
+          {t('config_management.merge.edit_merged')}
+        </Button>
+      ) : (
+        <Button
+          onClick={handleSaveMerged}
+          loading={submitting === 'merged'}
+          disabled={submitting !== null}
+        >
+          {t('config_management.merge.save_merged')}
+        </Button>
+      )}
+    </>
+  );
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      width={1100}
+      title={t('config_management.merge.title')}
+      footer={footer}
+    >
+      <div className={styles.mergeContent}>
+        <div className={styles.historyWarning}>
+          {result.conflicts > 0
+            ? t('config_management.merge.summary_conflicts', { count: result.conflicts })
+            : t('config_management.merge.summary_clean')}
+        </div>
+        <div className="hint">{t('config_management.merge.hint')}</div>
+
+        <div className={styles.mergeTabs}>
+          {(['merge', 'theirs', 'mine'] as MergeTab[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              className={`${styles.mergeTab} ${tab === key ? styles.mergeTabActive : ''}`}
+              onClick={() => setTab(key)}
+            >
+              {t(`config_management.merge.tab_${key}`)}
+            </button>
+          ))}
+          {result.conflicts > 0 && (
+            <span className={styles.mergeUnresolved}>
+              {t('config_management.merge.unresolved', { count: unresolved })}
+            </span>
+          )}
+        </div>
+
+        {tab === 'theirs' && (
+          <ConfigDiffView
+            oldText={sources.base}
+            newText={sources.theirs}
+            oldLabel={t('config_management.merge.base')}
+            newLabel={t('config_management.merge.theirs')}
+          />
+        )}
+        {tab === 'mine' && (
+          <ConfigDiffView
+            oldText={sources.base}
+            newText={sources.mine}
+            oldLabel={t('config_management.merge.base')}
+            newLabel={t('config_management.merge.mine')}
+          />
+        )}
+        {tab === 'merge' && (
+          <div className={styles.mergeView}>
+            {result.chunks.map((chunk, index) => {
+              if (chunk.type === 'stable') {
+                return <div key={index}>{renderStable(chunk, index, result.chunks.length)}</div>;
+              }
+              if (chunk.type === 'resolved') {
+                return (
+                  <div key={index} className={styles.mergeResolved}>
+                    <div className={styles.mergeChunkHeader}>
+                      {t(`config_management.merge.auto_${chunk.origin}`)}
+                    </div>
+                    {renderLines(chunk.lines)}
+                  </div>
+                );
+              }
+
+              const current = conflictIndexes[index];
+              const resolution = resolutions[current];
+              return (
+                <div key={index} className={styles.mergeConflict}>
+                  <div className={styles.mergeChunkHeader}>
+                    <span>
+                      {t('config_management.merge.conflict_label', { index: current + 1 })}
+                    </span>
+                    <div className={styles.mergeChunkActions}>
+                      {(['mine', 'theirs', 'both'] as MergeResolution[]).map((option) => (
+                        <Button
+                          key={option}
+                          size="sm"
+                          variant={resolution === option ? 'primary' : 'secondary'}
+                          onClick={() => resolve(current, option)}
+                        >
+                          {t(`config_management.merge.use_${option}`)}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className={styles.mergeColumns}>
+                    <div>
+                      <div className={styles.mergeColumnTitle}>{t('config_management.merge.base')}</div>
+                      {renderLines(chunk.base)}
+                    </div>
+                    <div>
+                      <div className={styles.mergeColumnTitle}>
+                        {t('config_management.merge.theirs')}
+                      </div>
+                      {renderLines(chunk.theirs, styles.mergeTheirs)}
+                    </div>
+                    <div>
+                      <div className={styles.mergeColumnTitle}>{t('config_management.merge.mine')}</div>
+                      {renderLines(chunk.mine, styles.mergeMine)}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * 配置文件相关组件 barrel export.
+ */
+
+export { ConfigDiffView } from './ConfigDiffView';
+export { ConfigHistoryModal } from './ConfigHistoryModal';
+export { ConfigMergeModal } from './ConfigMergeModal';
+export type { ConfigMergeSources } from './ConfigMergeModal';
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { IconRefreshCw } from '@/components/ui/icons';
+import { useAuthStore, useNotificationStore, useProfilesStore } from '@/stores';
+import type { FleetServerHealth } from '@/services/api';
+import type { ConnectionProfile } from '@/types';
+import { CONNECTION_PROFILE_COLORS } from '@/utils/constants';
+import { formatCompactNumber } from '@/utils/usage';
+import { useFleetStatus } from './useFleetStatus';
+import styles from '@/pages/DashboardPage.module.scss';
+
+const HEALTH_BADGE: Record<FleetServerHealth, string> = {
+  healthy: 'success',
+  degraded: 'warning',
+  unreachable: 'error'
+};
+
+const formatVersion = (version: string | null) =>
+  version ? `v${version.trim().replace(/^[vV]+/, '')}` : '-';
+
+const hasValue = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined;
+
+export function FleetOverviewCard() {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { showNotification } = useNotificationStore();
+  const profiles = useProfilesStore((state) => state.profiles);
+  const activeProfileId = useProfilesStore((state) => state.activeProfileId);
+  const switchProfile = useAuthStore((state) => state.switchProfile);
+  const { snapshots, loading, lastUpdated, refresh } = useFleetStatus(profiles);
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+
+  const handleOpen = async (profile: ConnectionProfile) => {
+    if (profile.id === activeProfileId) {
+      navigate('/');
+      return;
+    }
+    setSwitchingId(profile.id);
+    try {
+      await switchProfile(profile);
+      showNotification(t('profiles.switch_success', { label: profile.label }), 'success');
+      navigate('/');
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : '';
+      showNotification(`${t('profiles.switch_failed')}: ${message}`, 'error');
+    } finally {
+      setSwitchingId(null);
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.fleetHeader}>
+        <h2 className={styles.sectionTitle}>{t('fleet.title')}</h2>
+        <div className={styles.fleetHeaderActions}>
+          {lastUpdated && (
+            <span className={styles.fleetUpdated}>
+              {t('fleet.last_updated', {
+                time: new Date(lastUpdated).toLocaleTimeString(i18n.language)
+              })}
+            </span>
+          )}
+          <Button variant="secondary" size="sm" onClick={() => void refresh()} loading={loading}>
+            {!loading && <IconRefreshCw size={14} />}
+          </Button>
+        </div>
+      </div>
+
+      <div className={styles.fleetTableWrapper}>
+        <table className={styles.fleetTable}>
+          <thead>
+            <tr>
+              <th>{t('fleet.server')}</th>
+              <th>{t('fleet.health')}</th>
+              <th>{t('fleet.version')}</th>
+              <th>{t('fleet.latency')}</th>
+              <th>{t('fleet.requests')}</th>
+              <th>{t('fleet.failures')}</th>
+              <th>{t('fleet.auth_files')}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((profile) => {
+              const snapshot = snapshots[profile.id];
+              const isActive = profile.id === activeProfileId;
+              const failureRate =
+                snapshot?.totalRequests && hasValue(snapshot.failedRequests)
+                  ? (snapshot.failedRequests / snapshot.totalRequests) * 100
+                  : null;
+
+              return (
+                <tr key={profile.id} className={isActive ? styles.fleetRowActive : undefined}>
+                  <td>
+                    <div className={styles.fleetServer}>
+                      <span
+                        className="profile-color-dot"
+                        style={{ background: CONNECTION_PROFILE_COLORS[profile.color] }}
+                      />
+                      <div className={styles.fleetServerText}>
+                        <span className={styles.fleetServerLabel}>{profile.label}</span>
+                        <span className={styles.fleetServerBase}>{profile.apiBase}</span>
+                      </div>
+                    </div>
+                  </td>
+                  <td>
+                    {snapshot ? (
+                      <span
+                        className={`status-badge ${HEALTH_BADGE[snapshot.health]} ${styles.fleetBadge}`}
+                        title={snapshot.error ?? undefined}
+                      >
+                        {t(`fleet.health_${snapshot.health}`)}
+                      </span>
+                    ) : (
+                      <span className={`status-badge muted ${styles.fleetBadge}`}>
+                        {t('fleet.health_pending')}
+                      </span>
+                    )}
+                  </td>
+                  <td>{snapshot ? formatVersion(snapshot.version) : '-'}</td>
+                  <td>{hasValue(snapshot?.latencyMs) ? `${snapshot.latencyMs} ms` : '-'}</td>
+                  <td>
+                    {hasValue(snapshot?.totalRequests)
+                      ? formatCompactNumber(snapshot.totalRequests)
+                      : snapshot?.usageEnabled === false
+                        ? t('fleet.usage_disabled')
+                        : '-'}
+                  </td>
+                  <td>
+                    {hasValue(snapshot?.failedRequests)
+                      ? `${formatCompactNumber(snapshot.failedRequests)}${
+                          failureRate !== null ? ` (${failureRate.toFixed(1)}%)` : ''
+                        }`
+                      : '-'}
+                  </td>
+                  <td>
+                    {hasValue(snapshot?.authFiles) ? (
+                      <span
+                        title={t('fleet.auth_files_detail', {
+                          disabled: snapshot.disabledAuthFiles ?? 0,
+                          unavailable: snapshot.unavailableAuthFiles ?? 0
+                        })}
+                      >
+                        {snapshot.authFiles}
+                        {(snapshot.unavailableAuthFiles ?? 0) > 0 && (
+                          <span className={styles.fleetWarn}>
+                            {' '}
+                            {t('fleet.unavailable_count', { count: snapshot.unavailableAuthFiles ?? 0 })}
+                          </span>
+                        )}
+                      </span>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className={styles.fleetActionCell}>
+                    <Button
+                      variant={isActive ? 'ghost' : 'secondary'}
+                      size="sm"
+                      onClick={() => handleOpen(profile)}
+                      loading={switchingId === profile.id}
+                      disabled={Boolean(switchingId) || snapshot?.health === 'unreachable'}
+                    >
+                      {isActive ? t('fleet.current') : t('fleet.open')}
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
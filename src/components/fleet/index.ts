@@ -0,0 +1,7 @@
+/**
+ * Fleet overview components barrel export.
+ */
+
+export { FleetOverviewCard } from './FleetOverviewCard';
+export { useFleetStatus, FLEET_POLL_INTERVAL_MS } from './useFleetStatus';
+export type { UseFleetStatusReturn } from './useFleetStatus';
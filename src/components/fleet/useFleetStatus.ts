@@ -0,0 +1,65 @@
+/**
+ * Polls every saved connection profile concurrently for the fleet overview.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fleetApi, type FleetServerSnapshot } from '@/services/api';
+import { useInterval } from '@/hooks/useInterval';
+import type { ConnectionProfile } from '@/types';
+
+export const FLEET_POLL_INTERVAL_MS = 60 * 1000;
+
+export interface UseFleetStatusReturn {
+  snapshots: Record<string, FleetServerSnapshot>;
+  loading: boolean;
+  lastUpdated: number | null;
+  refresh: () => Promise<void>;
+}
+
+export function useFleetStatus(
+  profiles: ConnectionProfile[],
+  enabled: boolean = true
+): UseFleetStatusReturn {
+  const [snapshots, setSnapshots] = useState<Record<string, FleetServerSnapshot>>({});
+  const [loading, setLoading] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const requestIdRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    if (!profiles.length) return;
+    const requestId = (requestIdRef.current += 1);
+    setLoading(true);
+
+    // Each server updates its own row as soon as it answers, so one slow host does not block the rest.
+    await Promise.all(
+      profiles.map(async (profile) => {
+        const snapshot = await fleetApi.fetchServerSnapshot({
+          apiBase: profile.apiBase,
+          managementKey: profile.managementKey
+        });
+        if (requestId !== requestIdRef.current) return;
+        setSnapshots((prev) => ({ ...prev, [profile.id]: snapshot }));
+      })
+    );
+
+    if (requestId === requestIdRef.current) {
+      setLoading(false);
+      setLastUpdated(Date.now());
+    }
+  }, [profiles]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    void refresh();
+  }, [enabled, refresh]);
+
+  useInterval(
+    () => {
+      void refresh();
+    },
+    enabled && profiles.length ? FLEET_POLL_INTERVAL_MS : null
+  );
+
+  return { snapshots, loading, lastUpdated, refresh };
+}
@@ -1,4 +1,5 @@
 import {
+  CSSProperties,
   ReactNode,
   SVGProps,
   useCallback,
@@ -13,6 +14,7 @@ import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import { PageTransition } from '@/components/common/PageTransition';
+import { ProfileSwitcher } from '@/components/profiles';
 import { MainRoutes } from '@/router/MainRoutes';
 import {
   IconBot,
@@ -33,10 +35,13 @@ import {
   useConfigStore,
   useLanguageStore,
   useNotificationStore,
+  useProfilesStore,
   useThemeStore,
 } from '@/stores';
 import { configApi, versionApi } from '@/services/api';
 import { triggerHeaderRefresh } from '@/hooks/useHeaderRefresh';
+import { CONNECTION_PROFILE_COLORS } from '@/utils/constants';
+import { isMockApiBase } from '@/utils/connection';
 
 const sidebarIcons: Record<string, ReactNode> = {
   dashboard: <IconLayoutDashboard size={18} />,
@@ -185,6 +190,9 @@ export function MainLayout() {
   const serverBuildDate = useAuthStore((state) => state.serverBuildDate);
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
   const logout = useAuthStore((state) => state.logout);
+  const activeProfile = useProfilesStore(
+    (state) => state.profiles.find((profile) => profile.id === state.activeProfileId) ?? null
+  );
 
   const config = useConfigStore((state) => state.config);
   const fetchConfig = useConfigStore((state) => state.fetchConfig);
@@ -215,6 +223,8 @@ export function MainLayout() {
   const requestLogDirty = requestLogDraft !== requestLogEnabled;
   const canEditRequestLog = connectionStatus === 'connected' && Boolean(config);
   const isLogsPage = location.pathname.startsWith('/logs');
+  // 切换连接后重新挂载页面，避免页面内部状态残留另一台服务器的数据
+  const connectionKey = `${activeProfile?.id ?? ''}|${apiBase}`;
 
   // 将顶栏高度写入 CSS 变量，确保侧栏/内容区计算一致，防止滚动时抖动
   useLayoutEffect(() => {
@@ -434,7 +444,17 @@ export function MainLayout() {
 
   return (
     <div className="app-shell">
-      <header className="main-header" ref={headerRef}>
+      <header
+        className={`main-header${activeProfile ? ' has-profile-color' : ''}`}
+        ref={headerRef}
+        style={
+          activeProfile
+            ? ({
+                '--profile-color': CONNECTION_PROFILE_COLORS[activeProfile.color],
+              } as CSSProperties)
+            : undefined
+        }
+      >
         <div className="left">
           <button
             className="sidebar-toggle-header"
@@ -459,6 +479,8 @@ export function MainLayout() {
         </div>
 
         <div className="right">
+          <ProfileSwitcher />
+
           <div className="connection">
             <span className={`status-badge ${statusClass}`}>
               {t(
@@ -469,7 +491,9 @@ export function MainLayout() {
                     : 'common.disconnected_status'
               )}
             </span>
-            <span className="base">{apiBase || '-'}</span>
+            <span className="base">
+              {isMockApiBase(apiBase) ? t('login.demo_server_label') : apiBase || '-'}
+            </span>
           </div>
 
           <div className="header-actions">
@@ -538,6 +562,7 @@ export function MainLayout() {
         <div className={`content${isLogsPage ? ' content-logs' : ''}`} ref={contentRef}>
           <main className={`main-content${isLogsPage ? ' main-content-logs' : ''}`}>
             <PageTransition
+              key={connectionKey}
               render={(location) => <MainRoutes location={location} />}
               getRouteOrder={getRouteOrder}
               scrollContainerRef={contentRef}
@@ -0,0 +1,251 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ChartOptions } from 'chart.js';
+import { Bar, Line } from 'react-chartjs-2';
+import { Card } from '@/components/ui/Card';
+import { useMediaQuery } from '@/hooks/useMediaQuery';
+import { useThemeStore } from '@/stores';
+import {
+  buildLogAnalytics,
+  formatDurationMs,
+  getStatusClass,
+  type LogRankedItem,
+  type LogStatusClass,
+  type ParsedLogLine,
+} from '@/utils/logs';
+import { buildChartOptions } from '@/utils/usage/chartConfig';
+import styles from '@/pages/LogsPage.module.scss';
+
+interface LogAnalyticsPanelProps {
+  /** 已应用搜索与字段过滤的日志行 */
+  lines: ParsedLogLine[];
+}
+
+const STATUS_COLORS: Record<LogStatusClass, string> = {
+  '1xx': '#6b7280',
+  '2xx': '#22c55e',
+  '3xx': '#3b82f6',
+  '4xx': '#f59e0b',
+  '5xx': '#ef4444',
+};
+
+const PERCENTILE_COLORS = {
+  p50: '#3b82f6',
+  p95: '#f59e0b',
+  p99: '#ef4444',
+};
+
+const formatLatency = (value?: number) => (value === undefined ? '--' : formatDurationMs(value));
+
+const formatPercent = (part: number, total: number) =>
+  total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '--';
+
+export function LogAnalyticsPanel({ lines }: LogAnalyticsPanelProps) {
+  const { t } = useTranslation();
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const isDark = useThemeStore((state) => state.resolvedTheme) === 'dark';
+
+  const analytics = useMemo(() => buildLogAnalytics(lines), [lines]);
+  const labels = useMemo(() => analytics.buckets.map((bucket) => bucket.label), [analytics]);
+
+  const rateData = useMemo(
+    () => ({
+      labels,
+      datasets: [
+        {
+          label: t('logs.analytics.requests_per_minute'),
+          data: analytics.buckets.map((bucket) => Number(bucket.rpm.toFixed(2))),
+          borderColor: '#3b82f6',
+          backgroundColor: 'rgba(59, 130, 246, 0.15)',
+          pointBackgroundColor: '#3b82f6',
+          fill: true,
+          tension: 0.35,
+        },
+      ],
+    }),
+    [analytics, labels, t]
+  );
+
+  const latencyData = useMemo(
+    () => ({
+      labels,
+      datasets: (['p50', 'p95', 'p99'] as const).map((key) => ({
+        label: key.toUpperCase(),
+        // 没有请求的时间桶留空，不画成 0
+        data: analytics.buckets.map((bucket) => bucket[key] ?? null),
+        borderColor: PERCENTILE_COLORS[key],
+        backgroundColor: PERCENTILE_COLORS[key],
+        pointBackgroundColor: PERCENTILE_COLORS[key],
+        fill: false,
+        tension: 0.35,
+        spanGaps: true,
+      })),
+    }),
+    [analytics, labels]
+  );
+
+  const statusData = useMemo(
+    () => ({
+      labels: analytics.statusCodes.map((item) => String(item.code)),
+      datasets: [
+        {
+          label: t('logs.analytics.requests'),
+          data: analytics.statusCodes.map((item) => item.count),
+          backgroundColor: analytics.statusCodes.map(
+            (item) => STATUS_COLORS[getStatusClass(item.code) ?? '5xx']
+          ),
+          borderRadius: 4,
+        },
+      ],
+    }),
+    [analytics, t]
+  );
+
+  const rateOptions = useMemo(
+    () => buildChartOptions({ period: 'hour', labels, isDark, isMobile }),
+    [labels, isDark, isMobile]
+  );
+
+  const latencyOptions = useMemo<ChartOptions<'line'>>(() => {
+    const base = buildChartOptions({ period: 'hour', labels, isDark, isMobile });
+    return {
+      ...base,
+      plugins: {
+        ...base.plugins,
+        legend: { display: true, position: 'top', labels: { usePointStyle: true, boxWidth: 8 } },
+        tooltip: {
+          ...base.plugins?.tooltip,
+          callbacks: {
+            label: (context) =>
+              `${context.dataset.label}: ${formatLatency(context.parsed.y ?? undefined)}`,
+          },
+        },
+      },
+      scales: {
+        ...base.scales,
+        y: {
+          ...base.scales?.y,
+          ticks: {
+            ...base.scales?.y?.ticks,
+            callback: (value) => formatLatency(Number(value)),
+          },
+        },
+      },
+    };
+  }, [labels, isDark, isMobile]);
+
+  const statusOptions = useMemo<ChartOptions<'bar'>>(() => {
+    const base = buildChartOptions({
+      period: 'day',
+      labels: statusData.labels,
+      isDark,
+      isMobile,
+    });
+    return {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: { legend: { display: false }, tooltip: base.plugins?.tooltip },
+      scales: { x: base.scales?.x, y: base.scales?.y },
+    } as ChartOptions<'bar'>;
+  }, [statusData.labels, isDark, isMobile]);
+
+  if (analytics.totalRequests === 0) {
+    return (
+      <Card>
+        <div className="hint">{t('logs.analytics.empty')}</div>
+      </Card>
+    );
+  }
+
+  const renderRanking = (title: string, keyLabel: string, items: LogRankedItem[]) => (
+    <Card title={title}>
+      <div className={styles.analyticsTableWrapper}>
+        <table className={styles.analyticsTable}>
+          <thead>
+            <tr>
+              <th>{keyLabel}</th>
+              <th>{t('logs.analytics.requests')}</th>
+              <th>{t('logs.analytics.error_rate')}</th>
+              <th>P95</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.key}>
+                <td className={styles.analyticsKey} title={item.key}>
+                  {item.key}
+                </td>
+                <td>{item.requests.toLocaleString()}</td>
+                <td className={item.errors > 0 ? styles.analyticsError : undefined}>
+                  {formatPercent(item.errors, item.requests)}
+                </td>
+                <td>{formatLatency(item.p95)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+
+  const stats = [
+    { label: t('logs.analytics.total_requests'), value: analytics.totalRequests.toLocaleString() },
+    {
+      label: t('logs.analytics.error_rate'),
+      value: formatPercent(analytics.errorRequests, analytics.totalRequests),
+    },
+    { label: 'P50', value: formatLatency(analytics.latency.p50) },
+    { label: 'P95', value: formatLatency(analytics.latency.p95) },
+    { label: 'P99', value: formatLatency(analytics.latency.p99) },
+  ];
+
+  return (
+    <div className={styles.analytics}>
+      <div className={styles.analyticsStats}>
+        {stats.map((stat) => (
+          <div key={stat.label} className={styles.analyticsStat}>
+            <span className={styles.analyticsStatLabel}>{stat.label}</span>
+            <span className={styles.analyticsStatValue}>{stat.value}</span>
+          </div>
+        ))}
+      </div>
+      <div className="hint">
+        {t('logs.analytics.bucket_hint', { count: analytics.bucketMinutes })}
+      </div>
+
+      <div className={styles.analyticsGrid}>
+        <Card title={t('logs.analytics.requests_per_minute')}>
+          <div className={styles.analyticsChart}>
+            <Line data={rateData} options={rateOptions} />
+          </div>
+        </Card>
+        <Card title={t('logs.analytics.latency_percentiles')}>
+          <div className={styles.analyticsChart}>
+            <Line data={latencyData} options={latencyOptions} />
+          </div>
+        </Card>
+        <Card title={t('logs.analytics.status_distribution')}>
+          <div className={styles.statusClassSummary}>
+            {(Object.keys(analytics.statusClasses) as LogStatusClass[])
+              .filter((key) => analytics.statusClasses[key] > 0)
+              .map((key) => (
+                <span key={key} className="pill">
+                  <span
+                    className={styles.statusDot}
+                    style={{ backgroundColor: STATUS_COLORS[key] }}
+                  />
+                  {key} · {analytics.statusClasses[key].toLocaleString()} (
+                  {formatPercent(analytics.statusClasses[key], analytics.totalRequests)})
+                </span>
+              ))}
+          </div>
+          <div className={styles.analyticsChart}>
+            <Bar data={statusData} options={statusOptions} />
+          </div>
+        </Card>
+        {renderRanking(t('logs.analytics.top_paths'), t('logs.columns.path'), analytics.topPaths)}
+        {renderRanking(t('logs.analytics.top_ips'), t('logs.columns.ip'), analytics.topIps)}
+      </div>
+    </div>
+  );
+}
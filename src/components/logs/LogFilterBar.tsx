@@ -0,0 +1,99 @@
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import {
+  HTTP_METHODS,
+  LOG_LEVELS,
+  LOG_STATUS_CLASSES,
+  countActiveLogFilters,
+  type LogFieldFilters,
+} from '@/utils/logs';
+import styles from '@/pages/LogsPage.module.scss';
+
+interface LogFilterBarProps {
+  filters: LogFieldFilters;
+  onChange: (filters: LogFieldFilters) => void;
+  onReset: () => void;
+}
+
+type ListFilterKey = 'levels' | 'methods' | 'statusClasses';
+
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+export function LogFilterBar({ filters, onChange, onReset }: LogFilterBarProps) {
+  const { t } = useTranslation();
+  const activeCount = countActiveLogFilters(filters);
+
+  const renderChips = <K extends ListFilterKey>(
+    key: K,
+    label: string,
+    options: readonly LogFieldFilters[K][number][],
+    format: (value: LogFieldFilters[K][number]) => string = (value) => value
+  ) => (
+    <div className={styles.chipGroup}>
+      <span className={styles.chipGroupLabel}>{label}</span>
+      {options.map((option) => {
+        const active = (filters[key] as string[]).includes(option);
+        return (
+          <button
+            key={option}
+            type="button"
+            className={`${styles.filterChip} ${active ? styles.filterChipActive : ''}`}
+            aria-pressed={active}
+            onClick={() =>
+              onChange({ ...filters, [key]: toggleValue(filters[key] as string[], option) })
+            }
+          >
+            {format(option)}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className={styles.fieldFilters}>
+      {renderChips('levels', t('logs.filters.level'), LOG_LEVELS, (level) => level.toUpperCase())}
+      {renderChips('methods', t('logs.filters.method'), HTTP_METHODS)}
+      {renderChips('statusClasses', t('logs.filters.status'), LOG_STATUS_CLASSES)}
+
+      <div className={styles.chipGroup}>
+        <input
+          className={`input ${styles.fieldFilterInput}`}
+          value={filters.pathPrefix}
+          onChange={(e) => onChange({ ...filters, pathPrefix: e.target.value })}
+          placeholder={t('logs.filters.path_placeholder')}
+          aria-label={t('logs.filters.path')}
+        />
+        <input
+          className={`input ${styles.fieldFilterInput}`}
+          value={filters.ip}
+          onChange={(e) => onChange({ ...filters, ip: e.target.value })}
+          placeholder={t('logs.filters.ip_placeholder')}
+          aria-label={t('logs.filters.ip')}
+        />
+        <input
+          className={`input ${styles.fieldFilterInput} ${styles.latencyInput}`}
+          type="number"
+          min={0}
+          step={100}
+          value={filters.minLatencyMs ?? ''}
+          onChange={(e) => {
+            const value = e.target.value === '' ? null : Number(e.target.value);
+            onChange({
+              ...filters,
+              minLatencyMs: value !== null && Number.isFinite(value) && value >= 0 ? value : null,
+            });
+          }}
+          placeholder={t('logs.filters.latency_placeholder')}
+          aria-label={t('logs.filters.latency')}
+        />
+        {activeCount > 0 && (
+          <Button variant="secondary" size="sm" onClick={onReset}>
+            {t('logs.filters.reset', { count: activeCount })}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
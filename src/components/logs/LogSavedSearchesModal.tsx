@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { useLogSearchesStore, useNotificationStore } from '@/stores';
+import { formatUnixTimestamp } from '@/utils/format';
+import { countActiveLogFilters, type LogFieldFilters, type SavedLogSearch } from '@/utils/logs';
+import styles from '@/pages/LogsPage.module.scss';
+
+interface LogSavedSearchesModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** 当前页面上的关键字与字段过滤，用于“保存当前搜索” */
+  query: string;
+  filters: LogFieldFilters;
+  onApply: (search: SavedLogSearch) => void;
+}
+
+const describeSearch = (
+  search: Pick<SavedLogSearch, 'query' | 'filters'>,
+  t: TFunction
+): string[] => {
+  const { filters } = search;
+  const parts: string[] = [];
+  if (search.query.trim()) parts.push(`"${search.query.trim()}"`);
+  if (filters.levels.length) parts.push(`${t('logs.filters.level')}: ${filters.levels.join(', ')}`);
+  if (filters.methods.length) {
+    parts.push(`${t('logs.filters.method')}: ${filters.methods.join(', ')}`);
+  }
+  if (filters.statusClasses.length) {
+    parts.push(`${t('logs.filters.status')}: ${filters.statusClasses.join(', ')}`);
+  }
+  if (filters.pathPrefix) parts.push(`${t('logs.filters.path')}: ${filters.pathPrefix}`);
+  if (filters.ip) parts.push(`${t('logs.filters.ip')}: ${filters.ip}`);
+  if (filters.minLatencyMs !== null) parts.push(`≥ ${filters.minLatencyMs}ms`);
+  return parts;
+};
+
+const parsePositiveInt = (value: string): number | null => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const supportsDesktopNotification = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export function LogSavedSearchesModal({
+  open,
+  onClose,
+  query,
+  filters,
+  onApply,
+}: LogSavedSearchesModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const searches = useLogSearchesStore((state) => state.searches);
+  const saveSearch = useLogSearchesStore((state) => state.saveSearch);
+  const updateAlert = useLogSearchesStore((state) => state.updateAlert);
+  const removeSearch = useLogSearchesStore((state) => state.removeSearch);
+  const [name, setName] = useState('');
+
+  const hasCurrentSearch = query.trim().length > 0 || countActiveLogFilters(filters) > 0;
+  const currentSummary = describeSearch({ query, filters }, t);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !hasCurrentSearch) return;
+    const overwritten = searches.some((search) => search.name === trimmed);
+    saveSearch(trimmed, query, filters);
+    setName('');
+    showNotification(
+      t(overwritten ? 'logs.saved_searches.updated' : 'logs.saved_searches.saved', {
+        name: trimmed,
+      }),
+      'success'
+    );
+  };
+
+  const handleDesktopToggle = async (search: SavedLogSearch, enabled: boolean) => {
+    if (!enabled) {
+      updateAlert(search.id, { desktop: false });
+      return;
+    }
+    if (!supportsDesktopNotification()) {
+      showNotification(t('logs.saved_searches.desktop_unsupported'), 'error');
+      return;
+    }
+    const permission =
+      Notification.permission === 'default'
+        ? await Notification.requestPermission()
+        : Notification.permission;
+    if (permission !== 'granted') {
+      showNotification(t('logs.saved_searches.desktop_denied'), 'error');
+      return;
+    }
+    updateAlert(search.id, { desktop: true });
+  };
+
+  const handleDelete = (search: SavedLogSearch) => {
+    if (!window.confirm(t('logs.saved_searches.delete_confirm', { name: search.name }))) return;
+    removeSearch(search.id);
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('logs.saved_searches.title')}
+      width={720}
+      footer={
+        <Button variant="secondary" onClick={onClose}>
+          {t('common.close')}
+        </Button>
+      }
+    >
+      <div className={styles.savedSearches}>
+        <div className={styles.savedSearchForm}>
+          <input
+            className="input"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') handleSave();
+            }}
+            placeholder={t('logs.saved_searches.name_placeholder')}
+            aria-label={t('logs.saved_searches.name_placeholder')}
+            disabled={!hasCurrentSearch}
+          />
+          <Button size="sm" onClick={handleSave} disabled={!hasCurrentSearch || !name.trim()}>
+            {t('logs.saved_searches.save_current')}
+          </Button>
+        </div>
+        <div className="hint">
+          {hasCurrentSearch
+            ? t('logs.saved_searches.current', { summary: currentSummary.join(' · ') })
+            : t('logs.saved_searches.current_empty')}
+        </div>
+
+        {searches.length === 0 ? (
+          <div className="hint">{t('logs.saved_searches.empty')}</div>
+        ) : (
+          <div className="item-list">
+            {searches.map((search) => (
+              <div key={search.id} className={styles.savedSearchItem}>
+                <div className="item-row">
+                  <div className="item-meta">
+                    <div className="item-title">{search.name}</div>
+                    <div className="item-subtitle">{describeSearch(search, t).join(' · ')}</div>
+                  </div>
+                  <div className="item-actions">
+                    <Button size="sm" onClick={() => onApply(search)}>
+                      {t('logs.saved_searches.apply')}
+                    </Button>
+                    <Button variant="danger" size="sm" onClick={() => handleDelete(search)}>
+                      {t('common.delete')}
+                    </Button>
+                  </div>
+                </div>
+                <div className={styles.alertRule}>
+                  <ToggleSwitch
+                    checked={search.alert.enabled}
+                    onChange={(enabled) => updateAlert(search.id, { enabled })}
+                    label={t('logs.saved_searches.alert_enabled')}
+                  />
+                  <label className={styles.alertField}>
+                    <span>{t('logs.saved_searches.threshold')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      className={`input ${styles.alertNumber}`}
+                      value={search.alert.threshold}
+                      onChange={(event) => {
+                        const threshold = parsePositiveInt(event.target.value);
+                        if (threshold !== null) updateAlert(search.id, { threshold });
+                      }}
+                    />
+                  </label>
+                  <label className={styles.alertField}>
+                    <span>{t('logs.saved_searches.window')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      className={`input ${styles.alertNumber}`}
+                      value={search.alert.windowMinutes}
+                      onChange={(event) => {
+                        const windowMinutes = parsePositiveInt(event.target.value);
+                        if (windowMinutes !== null) updateAlert(search.id, { windowMinutes });
+                      }}
+                    />
+                  </label>
+                  <ToggleSwitch
+                    checked={search.alert.desktop}
+                    onChange={(enabled) => {
+                      void handleDesktopToggle(search, enabled);
+                    }}
+                    label={t('logs.saved_searches.desktop')}
+                  />
+                  {search.lastTriggeredAt && (
+                    <span className={styles.alertLastTriggered}>
+                      {t('logs.saved_searches.last_triggered', {
+                        time: formatUnixTimestamp(search.lastTriggeredAt),
+                      })}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="hint">{t('logs.saved_searches.alert_hint')}</div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import type { LogSort, LogSortKey, ParsedLogLine } from '@/utils/logs';
+import { getLevelClassName, getStatusClassName } from './logBadges';
+import styles from '@/pages/LogsPage.module.scss';
+
+interface LogTableProps {
+  /** 已过滤、已排序的日志行 */
+  lines: ParsedLogLine[];
+  sort: LogSort | null;
+  onSortChange: (sort: LogSort | null) => void;
+  onCopy: (raw: string) => void;
+  /** 点击请求 ID 时触发，未提供时请求 ID 仅作展示 */
+  onRequestIdClick?: (id: string) => void;
+}
+
+const PAGE_SIZE = 200;
+
+const COLUMNS: LogSortKey[] = [
+  'timestamp',
+  'level',
+  'requestId',
+  'statusCode',
+  'latency',
+  'ip',
+  'method',
+  'path',
+  'source',
+  'message',
+];
+
+// 点击列头依次切换：升序 → 降序 → 取消排序
+const nextSort = (current: LogSort | null, key: LogSortKey): LogSort | null => {
+  if (!current || current.key !== key) return { key, direction: 'asc' };
+  if (current.direction === 'asc') return { key, direction: 'desc' };
+  return null;
+};
+
+export function LogTable({ lines, sort, onSortChange, onCopy, onRequestIdClick }: LogTableProps) {
+  const { t } = useTranslation();
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const visible = lines.slice(0, limit);
+
+  const renderCell = (line: ParsedLogLine, key: LogSortKey) => {
+    switch (key) {
+      case 'level':
+        return line.level ? (
+          <span className={`${styles.badge} ${getLevelClassName(line.level)}`}>
+            {line.level.toUpperCase()}
+          </span>
+        ) : null;
+      case 'requestId': {
+        const { requestId } = line;
+        if (!requestId) return null;
+        return onRequestIdClick ? (
+          <button
+            type="button"
+            className={`${styles.badge} ${styles.requestIdBadge} ${styles.requestIdButton}`}
+            onClick={() => onRequestIdClick(requestId)}
+          >
+            {requestId}
+          </button>
+        ) : (
+          <span className={`${styles.badge} ${styles.requestIdBadge}`}>{requestId}</span>
+        );
+      }
+      case 'statusCode':
+        return typeof line.statusCode === 'number' ? (
+          <span
+            className={`${styles.badge} ${styles.statusBadge} ${getStatusClassName(line.statusCode)}`}
+          >
+            {line.statusCode}
+          </span>
+        ) : null;
+      case 'method':
+        return line.method ? (
+          <span className={`${styles.badge} ${styles.methodBadge}`}>{line.method}</span>
+        ) : null;
+      case 'path':
+        return line.path ? (
+          <span className={styles.tablePath} title={line.path}>
+            {line.path}
+          </span>
+        ) : null;
+      case 'source':
+        return line.source ? (
+          <span className={styles.source} title={line.source}>
+            {line.source}
+          </span>
+        ) : null;
+      default:
+        return line[key] ?? null;
+    }
+  };
+
+  return (
+    <div className={styles.tableScroll}>
+      <table className={styles.logTable}>
+        <thead>
+          <tr>
+            {COLUMNS.map((key) => {
+              const active = sort?.key === key;
+              return (
+                <th
+                  key={key}
+                  aria-sort={
+                    active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'
+                  }
+                >
+                  <button
+                    type="button"
+                    className={`${styles.sortButton} ${active ? styles.sortButtonActive : ''}`}
+                    onClick={() => onSortChange(nextSort(sort, key))}
+                  >
+                    {t(`logs.columns.${key}`)}
+                    <span className={styles.sortIndicator}>
+                      {active ? (sort.direction === 'asc' ? '▲' : '▼') : '↕'}
+                    </span>
+                  </button>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {visible.map((line, index) => {
+            const rowClassName =
+              line.level === 'warn'
+                ? styles.tableRowWarn
+                : line.level === 'error' || line.level === 'fatal'
+                  ? styles.tableRowError
+                  : '';
+            return (
+              <tr
+                key={`${index}-${line.raw}`}
+                className={rowClassName}
+                onDoubleClick={() => onCopy(line.raw)}
+                title={t('logs.double_click_copy_hint')}
+              >
+                {COLUMNS.map((key) => (
+                  <td key={key} className={key === 'message' ? styles.messageCell : undefined}>
+                    {renderCell(line, key)}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {lines.length > visible.length && (
+        <div className={styles.tableFooter}>
+          <span>{t('logs.table_showing', { shown: visible.length, total: lines.length })}</span>
+          <Button variant="secondary" size="sm" onClick={() => setLimit(limit + PAGE_SIZE)}>
+            {t('logs.table_show_more')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
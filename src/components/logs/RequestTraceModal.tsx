@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { logsApi } from '@/services/api/logs';
+import { useNotificationStore } from '@/stores';
+import {
+  buildRequestTrace,
+  formatDurationMs,
+  formatRequestLog,
+  parseRequestLog,
+  type RequestLogSection,
+} from '@/utils/logs';
+import { getLevelClassName, getStatusClassName } from './logBadges';
+import styles from '@/pages/LogsPage.module.scss';
+
+interface RequestTraceModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** 每次打开应通过 key 重新挂载，以便重新拉取请求日志 */
+  requestId: string | null;
+  /** 当前缓冲区中的原始日志行 */
+  buffer: string[];
+  requestLogEnabled: boolean;
+  onCopy: (text: string) => void;
+}
+
+type RequestLogState =
+  | { status: 'disabled' }
+  | { status: 'loading' }
+  | { status: 'loaded'; raw: string; sections: RequestLogSection[] }
+  | { status: 'error'; message: string };
+
+const readResponseText = async (data: unknown): Promise<string> =>
+  data instanceof Blob ? data.text() : String(data ?? '');
+
+export function RequestTraceModal({
+  open,
+  onClose,
+  requestId,
+  buffer,
+  requestLogEnabled,
+  onCopy,
+}: RequestTraceModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [requestLog, setRequestLog] = useState<RequestLogState>(
+    requestLogEnabled ? { status: 'loading' } : { status: 'disabled' }
+  );
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const trace = useMemo(
+    () => (requestId ? buildRequestTrace(buffer, requestId) : null),
+    [buffer, requestId]
+  );
+
+  useEffect(() => {
+    if (!requestId || !requestLogEnabled) return;
+    let cancelled = false;
+    logsApi
+      .downloadRequestLogById(requestId)
+      .then((response) => readResponseText(response.data))
+      .then((raw) => {
+        if (!cancelled) setRequestLog({ status: 'loaded', raw, sections: parseRequestLog(raw) });
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const status = (err as { status?: number } | null)?.status;
+        const message =
+          status === 404
+            ? t('logs.trace.request_log_not_found')
+            : err instanceof Error && err.message
+              ? err.message
+              : t('logs.trace.request_log_failed');
+        setRequestLog({ status: 'error', message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, requestLogEnabled, reloadToken, t]);
+
+  if (!requestId || !trace) return null;
+
+  const retry = () => {
+    setRequestLog({ status: 'loading' });
+    setReloadToken((value) => value + 1);
+  };
+
+  const downloadRaw = () => {
+    if (requestLog.status !== 'loaded') return;
+    const blob = new Blob([requestLog.raw], { type: 'text/plain' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `request-${requestId}.log`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+    showNotification(t('logs.request_log_download_success'), 'success');
+  };
+
+  const summary = [
+    trace.method && trace.path ? `${trace.method} ${trace.path}` : trace.path,
+    trace.ip,
+  ].filter(Boolean);
+
+  const footer = (
+    <>
+      {requestLog.status === 'loaded' && (
+        <>
+          <Button variant="secondary" onClick={() => onCopy(formatRequestLog(requestLog.sections))}>
+            {t('logs.trace.copy_masked')}
+          </Button>
+          <Button variant="secondary" onClick={downloadRaw}>
+            {t('logs.trace.download_raw')}
+          </Button>
+        </>
+      )}
+      <Button onClick={onClose}>{t('common.close')}</Button>
+    </>
+  );
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      width={1000}
+      title={t('logs.trace.title', { id: requestId })}
+      footer={footer}
+    >
+      <div className={styles.traceContent}>
+        <div className={styles.traceSummary}>
+          {typeof trace.statusCode === 'number' && (
+            <span
+              className={`${styles.badge} ${styles.statusBadge} ${getStatusClassName(trace.statusCode)}`}
+            >
+              {trace.statusCode}
+            </span>
+          )}
+          {summary.map((item) => (
+            <span key={item} className={styles.traceSummaryItem}>
+              {item}
+            </span>
+          ))}
+          {trace.latency && (
+            <span className={styles.pill}>{t('logs.trace.latency', { value: trace.latency })}</span>
+          )}
+          {trace.spanMs !== undefined && trace.entries.length > 1 && (
+            <span className={styles.pill}>
+              {t('logs.trace.span', { value: formatDurationMs(trace.spanMs) })}
+            </span>
+          )}
+        </div>
+
+        <section>
+          <h4 className={styles.traceHeading}>
+            {t('logs.trace.timeline', { count: trace.entries.length })}
+          </h4>
+          {trace.entries.length === 0 ? (
+            <div className="hint">{t('logs.trace.no_lines')}</div>
+          ) : (
+            <ol className={styles.traceTimeline}>
+              {trace.entries.map(({ line, offsetMs, deltaMs }, index) => (
+                <li key={`${index}-${line.raw}`} className={styles.traceEntry}>
+                  <div className={styles.traceOffset}>
+                    <span>{offsetMs === undefined ? '--' : `+${formatDurationMs(offsetMs)}`}</span>
+                    {deltaMs !== undefined && (
+                      <span className={styles.traceDelta}>Δ {formatDurationMs(deltaMs)}</span>
+                    )}
+                  </div>
+                  <div className={styles.traceBody}>
+                    <div className={styles.rowMain}>
+                      <span className={styles.timestamp}>{line.timestamp}</span>
+                      {line.level && (
+                        <span className={`${styles.badge} ${getLevelClassName(line.level)}`}>
+                          {line.level.toUpperCase()}
+                        </span>
+                      )}
+                      {line.source && <span className={styles.source}>{line.source}</span>}
+                      {typeof line.statusCode === 'number' && (
+                        <span
+                          className={`${styles.badge} ${styles.statusBadge} ${getStatusClassName(line.statusCode)}`}
+                        >
+                          {line.statusCode}
+                        </span>
+                      )}
+                      {line.latency && <span className={styles.pill}>{line.latency}</span>}
+                      {line.method && (
+                        <span className={`${styles.badge} ${styles.methodBadge}`}>
+                          {line.method}
+                        </span>
+                      )}
+                      {line.path && <span className={styles.path}>{line.path}</span>}
+                    </div>
+                    {line.message && <div className={styles.message}>{line.message}</div>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <section>
+          <h4 className={styles.traceHeading}>{t('logs.trace.request_log')}</h4>
+          {requestLog.status === 'disabled' && (
+            <div className="hint">{t('logs.trace.request_log_disabled')}</div>
+          )}
+          {requestLog.status === 'loading' && <div className="hint">{t('common.loading')}</div>}
+          {requestLog.status === 'error' && (
+            <div className={styles.traceError}>
+              <div className="error-box">{requestLog.message}</div>
+              <Button variant="secondary" size="sm" onClick={retry}>
+                {t('logs.trace.retry')}
+              </Button>
+            </div>
+          )}
+          {requestLog.status === 'loaded' && (
+            <div className={styles.requestLogSections}>
+              <div className="hint">{t('logs.trace.masked_hint')}</div>
+              {requestLog.sections.map((section, index) => (
+                <div key={`${index}-${section.title}`} className={styles.requestLogSection}>
+                  {section.title && <div className={styles.requestLogTitle}>{section.title}</div>}
+                  {section.fields.length > 0 && (
+                    <dl className={styles.requestLogFields}>
+                      {section.fields.map((field, fieldIndex) => (
+                        <div key={`${fieldIndex}-${field.name}`}>
+                          <dt>{field.name}</dt>
+                          <dd>{field.value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                  {section.body && <pre className={styles.requestLogBody}>{section.body}</pre>}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </Modal>
+  );
+}
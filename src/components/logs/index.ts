@@ -0,0 +1,10 @@
+/**
+ * Log viewer components barrel export.
+ */
+
+export { LogAnalyticsPanel } from './LogAnalyticsPanel';
+export { LogFilterBar } from './LogFilterBar';
+export { LogSavedSearchesModal } from './LogSavedSearchesModal';
+export { LogTable } from './LogTable';
+export { getLevelClassName, getStatusClassName } from './logBadges';
+export { RequestTraceModal } from './RequestTraceModal';
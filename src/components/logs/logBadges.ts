@@ -0,0 +1,17 @@
+import type { LogLevel } from '@/utils/logs';
+import styles from '@/pages/LogsPage.module.scss';
+
+export const getLevelClassName = (level: LogLevel): string => {
+  if (level === 'info') return styles.levelInfo;
+  if (level === 'warn') return styles.levelWarn;
+  if (level === 'error' || level === 'fatal') return styles.levelError;
+  if (level === 'debug') return styles.levelDebug;
+  return styles.levelTrace;
+};
+
+export const getStatusClassName = (statusCode: number): string => {
+  if (statusCode >= 200 && statusCode < 300) return styles.statusSuccess;
+  if (statusCode >= 300 && statusCode < 400) return styles.statusInfo;
+  if (statusCode >= 400 && statusCode < 500) return styles.statusWarn;
+  return styles.statusError;
+};
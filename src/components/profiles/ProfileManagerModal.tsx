@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { IconEye, IconEyeOff } from '@/components/ui/icons';
+import { useAuthStore, useProfilesStore } from '@/stores';
+import type { ConnectionProfile, ConnectionProfileColor } from '@/types';
+import { CONNECTION_PROFILE_COLORS } from '@/utils/constants';
+import { maskApiKey } from '@/utils/format';
+import { isValidApiBase } from '@/utils/validation';
+import { normalizeApiBase } from '@/utils/connection';
+
+export interface ProfileDraft {
+  label: string;
+  apiBase: string;
+  managementKey: string;
+  color: ConnectionProfileColor;
+}
+
+interface ProfileManagerModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** 挂载时直接进入新建模式并预填内容（如“保存当前连接”），每次打开应通过 key 重新挂载 */
+  initialDraft?: ProfileDraft | null;
+}
+
+const COLOR_OPTIONS = Object.keys(CONNECTION_PROFILE_COLORS) as ConnectionProfileColor[];
+
+const EMPTY_DRAFT: ProfileDraft = {
+  label: '',
+  apiBase: '',
+  managementKey: '',
+  color: 'blue'
+};
+
+export function ProfileManagerModal({ open, onClose, initialDraft }: ProfileManagerModalProps) {
+  const { t } = useTranslation();
+  const profiles = useProfilesStore((state) => state.profiles);
+  const activeProfileId = useProfilesStore((state) => state.activeProfileId);
+  const addProfile = useProfilesStore((state) => state.addProfile);
+  const updateProfile = useProfilesStore((state) => state.updateProfile);
+  const removeProfile = useProfilesStore((state) => state.removeProfile);
+  const setActiveProfile = useProfilesStore((state) => state.setActiveProfile);
+  const currentBase = useAuthStore((state) => state.apiBase);
+  const currentKey = useAuthStore((state) => state.managementKey);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(initialDraft ?? null);
+  const [showKey, setShowKey] = useState(false);
+  const [error, setError] = useState('');
+
+  const startCreate = () => {
+    setEditingId(null);
+    setDraft({ ...EMPTY_DRAFT });
+    setShowKey(false);
+    setError('');
+  };
+
+  const startEdit = (profile: ConnectionProfile) => {
+    setEditingId(profile.id);
+    setDraft({
+      label: profile.label,
+      apiBase: profile.apiBase,
+      managementKey: profile.managementKey,
+      color: profile.color
+    });
+    setShowKey(false);
+    setError('');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+    setError('');
+  };
+
+  const handleDelete = (profile: ConnectionProfile) => {
+    if (!window.confirm(t('profiles.delete_confirm', { label: profile.label }))) return;
+    removeProfile(profile.id);
+    if (editingId === profile.id) {
+      cancelEdit();
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const label = draft.label.trim();
+    const apiBase = normalizeApiBase(draft.apiBase);
+    const managementKey = draft.managementKey.trim();
+
+    if (!label || !managementKey) {
+      setError(t('profiles.error_required'));
+      return;
+    }
+    if (!isValidApiBase(apiBase)) {
+      setError(t('profiles.error_invalid_base'));
+      return;
+    }
+    const duplicate = profiles.find(
+      (profile) => profile.id !== editingId && profile.label.toLowerCase() === label.toLowerCase()
+    );
+    if (duplicate) {
+      setError(t('profiles.error_duplicate_label'));
+      return;
+    }
+
+    const payload = { label, apiBase, managementKey, color: draft.color };
+    if (editingId) {
+      updateProfile(editingId, payload);
+    } else {
+      const created = addProfile(payload);
+      // 保存的正是当前连接时，直接标记为当前档案
+      if (created.apiBase === normalizeApiBase(currentBase) && created.managementKey === currentKey) {
+        setActiveProfile(created.id);
+      }
+    }
+    cancelEdit();
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('profiles.manage_title')}
+      width={640}
+      footer={
+        draft ? (
+          <>
+            <Button variant="secondary" onClick={cancelEdit}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave}>{t('common.save')}</Button>
+          </>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={onClose}>
+              {t('common.close')}
+            </Button>
+            <Button onClick={startCreate}>{t('profiles.add')}</Button>
+          </>
+        )
+      }
+    >
+      {draft ? (
+        <div className="profile-editor">
+          <Input
+            label={t('profiles.label_label')}
+            placeholder={t('profiles.label_placeholder')}
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          />
+          <Input
+            label={t('profiles.base_label')}
+            placeholder={t('login.custom_connection_placeholder')}
+            value={draft.apiBase}
+            onChange={(e) => setDraft({ ...draft, apiBase: e.target.value })}
+          />
+          <Input
+            label={t('login.management_key_label')}
+            placeholder={t('login.management_key_placeholder')}
+            type={showKey ? 'text' : 'password'}
+            value={draft.managementKey}
+            onChange={(e) => setDraft({ ...draft, managementKey: e.target.value })}
+            rightElement={
+              <button
+                type="button"
+                className="btn btn-ghost btn-sm"
+                onClick={() => setShowKey((prev) => !prev)}
+                aria-label={showKey ? t('login.hide_key') : t('login.show_key')}
+              >
+                {showKey ? <IconEyeOff size={16} /> : <IconEye size={16} />}
+              </button>
+            }
+          />
+          <div className="form-group">
+            <label>{t('profiles.color_label')}</label>
+            <div className="profile-color-options">
+              {COLOR_OPTIONS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  className={`profile-color-option${draft.color === color ? ' active' : ''}`}
+                  style={{ background: CONNECTION_PROFILE_COLORS[color] }}
+                  onClick={() => setDraft({ ...draft, color })}
+                  title={t(`profiles.color_${color}`)}
+                  aria-label={t(`profiles.color_${color}`)}
+                  aria-pressed={draft.color === color}
+                />
+              ))}
+            </div>
+          </div>
+          {error && <div className="error-box">{error}</div>}
+        </div>
+      ) : profiles.length === 0 ? (
+        <EmptyState title={t('profiles.empty_title')} description={t('profiles.empty_desc')} />
+      ) : (
+        <div className="item-list">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="item-row">
+              <div className="item-meta">
+                <div className="item-title profile-item-title">
+                  <span
+                    className="profile-color-dot"
+                    style={{ background: CONNECTION_PROFILE_COLORS[profile.color] }}
+                  />
+                  {profile.label}
+                  {profile.id === activeProfileId && (
+                    <span className="pill">{t('profiles.active')}</span>
+                  )}
+                </div>
+                <div className="item-subtitle">{profile.apiBase}</div>
+                <div className="item-subtitle">{maskApiKey(profile.managementKey)}</div>
+              </div>
+              <div className="item-actions">
+                <Button variant="secondary" size="sm" onClick={() => startEdit(profile)}>
+                  {t('common.edit')}
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => handleDelete(profile)}>
+                  {t('common.delete')}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+}
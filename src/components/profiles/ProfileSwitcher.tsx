@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { IconCheck, IconChevronDown } from '@/components/ui/icons';
+import { useAuthStore, useNotificationStore, useProfilesStore } from '@/stores';
+import type { ConnectionProfile } from '@/types';
+import { CONNECTION_PROFILE_COLORS } from '@/utils/constants';
+import { ProfileManagerModal, type ProfileDraft } from './ProfileManagerModal';
+
+export function ProfileSwitcher() {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const apiBase = useAuthStore((state) => state.apiBase);
+  const managementKey = useAuthStore((state) => state.managementKey);
+  const switchProfile = useAuthStore((state) => state.switchProfile);
+  const profiles = useProfilesStore((state) => state.profiles);
+  const activeProfileId = useProfilesStore((state) => state.activeProfileId);
+
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [managerOpen, setManagerOpen] = useState(false);
+  const [managerDraft, setManagerDraft] = useState<ProfileDraft | null>(null);
+  const [managerSession, setManagerSession] = useState(0);
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? null;
+
+  useEffect(() => {
+    if (!menuOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setMenuOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setMenuOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [menuOpen]);
+
+  const handleSelect = async (profile: ConnectionProfile) => {
+    if (profile.id === activeProfileId || switchingId) {
+      setMenuOpen(false);
+      return;
+    }
+    setSwitchingId(profile.id);
+    try {
+      await switchProfile(profile);
+      showNotification(t('profiles.switch_success', { label: profile.label }), 'success');
+      setMenuOpen(false);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : '';
+      showNotification(`${t('profiles.switch_failed')}: ${message}`, 'error');
+    } finally {
+      setSwitchingId(null);
+    }
+  };
+
+  const openManager = (draft: ProfileDraft | null) => {
+    setManagerDraft(draft);
+    setManagerSession((prev) => prev + 1);
+    setManagerOpen(true);
+    setMenuOpen(false);
+  };
+
+  return (
+    <div className="profile-switcher" ref={containerRef}>
+      <button
+        type="button"
+        className="profile-switcher-trigger"
+        onClick={() => setMenuOpen((prev) => !prev)}
+        aria-haspopup="menu"
+        aria-expanded={menuOpen}
+        title={t('profiles.switch_title')}
+      >
+        <span
+          className="profile-color-dot"
+          style={{
+            background: activeProfile
+              ? CONNECTION_PROFILE_COLORS[activeProfile.color]
+              : 'var(--text-tertiary)'
+          }}
+        />
+        <span className="profile-switcher-label">
+          {activeProfile ? activeProfile.label : t('profiles.unsaved')}
+        </span>
+        <IconChevronDown size={14} />
+      </button>
+
+      {menuOpen && (
+        <div className="profile-switcher-menu" role="menu">
+          {profiles.length === 0 ? (
+            <div className="profile-switcher-empty">{t('profiles.empty_desc')}</div>
+          ) : (
+            profiles.map((profile) => (
+              <button
+                key={profile.id}
+                type="button"
+                role="menuitem"
+                className={`profile-switcher-item${profile.id === activeProfileId ? ' active' : ''}`}
+                onClick={() => handleSelect(profile)}
+                disabled={Boolean(switchingId)}
+              >
+                <span
+                  className="profile-color-dot"
+                  style={{ background: CONNECTION_PROFILE_COLORS[profile.color] }}
+                />
+                <span className="profile-switcher-item-text">
+                  <span className="profile-switcher-item-label">{profile.label}</span>
+                  <span className="profile-switcher-item-base">{profile.apiBase}</span>
+                </span>
+                {switchingId === profile.id ? (
+                  <span className="loading-spinner" aria-hidden="true" />
+                ) : (
+                  profile.id === activeProfileId && <IconCheck size={14} />
+                )}
+              </button>
+            ))
+          )}
+          <div className="profile-switcher-divider" />
+          {!activeProfile && apiBase && managementKey && (
+            <button
+              type="button"
+              role="menuitem"
+              className="profile-switcher-action"
+              onClick={() =>
+                openManager({ label: '', apiBase, managementKey, color: 'blue' })
+              }
+            >
+              {t('profiles.save_current')}
+            </button>
+          )}
+          <button
+            type="button"
+            role="menuitem"
+            className="profile-switcher-action"
+            onClick={() => openManager(null)}
+          >
+            {t('profiles.manage')}
+          </button>
+        </div>
+      )}
+
+      <ProfileManagerModal
+        key={managerSession}
+        open={managerOpen}
+        onClose={() => setManagerOpen(false)}
+        initialDraft={managerDraft}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Connection profile components barrel export.
+ */
+
+export { ProfileSwitcher } from './ProfileSwitcher';
+export { ProfileManagerModal } from './ProfileManagerModal';
+export type { ProfileDraft } from './ProfileManagerModal';
@@ -0,0 +1,33 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { UsageBudgetList } from './UsageBudgetList';
+import { useAuthFileNames } from './hooks/useAuthFileNames';
+import { useUsageBudgets } from './hooks/useUsageBudgets';
+import { useUsageData } from './hooks/useUsageData';
+import styles from '@/pages/DashboardPage.module.scss';
+
+/**
+ * 仪表盘上的预算进度（只读），在使用统计页管理预算
+ */
+export function DashboardBudgetsCard() {
+  const { t } = useTranslation();
+  const { usage, loading, error, loadedAt, modelPrices } = useUsageData();
+  const { authFileProviders } = useAuthFileNames(loadedAt);
+  const { statuses } = useUsageBudgets({ usage, modelPrices, loadedAt, authFileProviders });
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.sectionTitle}>{t('usage_stats.budgets.title')}</h2>
+      {error ? (
+        <div className="hint">{error}</div>
+      ) : loading && !usage ? (
+        <div className="hint">{t('common.loading')}</div>
+      ) : (
+        <UsageBudgetList statuses={statuses} />
+      )}
+      <Link to="/usage" className={styles.viewMoreLink}>
+        {t('usage_stats.budgets.manage')} →
+      </Link>
+    </div>
+  );
+}
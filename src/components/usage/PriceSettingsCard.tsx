@@ -1,9 +1,25 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
-import type { ModelPrice } from '@/utils/usage';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { useNotificationStore } from '@/stores';
+import {
+  compileModelPricePattern,
+  isModelPricePattern,
+  type ModelPrice,
+  type ModelPriceTier
+} from '@/utils/usage';
+import {
+  detectPriceCatalogFormat,
+  isValidPriceKey,
+  mergePriceCatalog,
+  parsePriceCatalog,
+  priceCatalogToCsv,
+  serializePriceCatalog,
+  type PriceCatalogFormat
+} from '@/utils/usage/priceCatalog';
 import styles from '@/pages/UsagePage.module.scss';
 
 export interface PriceSettingsCardProps {
@@ -12,29 +28,83 @@ export interface PriceSettingsCardProps {
   onPricesChange: (prices: Record<string, ModelPrice>) => void;
 }
 
+const MODEL_NAMES_LIST_ID = 'usage-price-model-names';
+const MAX_PATTERN_PREVIEW = 3;
+
+const parsePrice = (value: string, fallback = 0) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const formatPrice = (value: number) => `$${value.toFixed(4)}/1M`;
+
 export function PriceSettingsCard({
   modelNames,
   modelPrices,
   onPricesChange
 }: PriceSettingsCardProps) {
   const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
   const [selectedModel, setSelectedModel] = useState('');
   const [promptPrice, setPromptPrice] = useState('');
   const [completionPrice, setCompletionPrice] = useState('');
   const [cachePrice, setCachePrice] = useState('');
+  const [tierThreshold, setTierThreshold] = useState('');
+  const [tierPrompt, setTierPrompt] = useState('');
+  const [tierCompletion, setTierCompletion] = useState('');
+  const [tierCache, setTierCache] = useState('');
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+
+  const modelKey = selectedModel.trim();
+  const keyIsPattern = isModelPricePattern(modelKey);
+  const keyIsValid = isValidPriceKey(modelKey);
+
+  // 模式能匹配到的已知模型，用于表单预览与列表展示
+  const patternMatches = useMemo(() => {
+    const matches = new Map<string, string[]>();
+    const keys = [...Object.keys(modelPrices), modelKey];
+    keys.forEach((key) => {
+      if (!isModelPricePattern(key) || matches.has(key)) return;
+      const regex = compileModelPricePattern(key);
+      matches.set(key, regex ? modelNames.filter((name) => regex.test(name)) : []);
+    });
+    return matches;
+  }, [modelPrices, modelKey, modelNames]);
+
+  const fillForm = (model: string, price?: ModelPrice) => {
+    setSelectedModel(model);
+    setPromptPrice(price?.prompt?.toString() || '');
+    setCompletionPrice(price?.completion?.toString() || '');
+    setCachePrice(price?.cache?.toString() || '');
+    setTierThreshold(price?.longContext?.threshold?.toString() || '');
+    setTierPrompt(price?.longContext?.prompt?.toString() || '');
+    setTierCompletion(price?.longContext?.completion?.toString() || '');
+    setTierCache(price?.longContext?.cache?.toString() || '');
+  };
 
   const handleSavePrice = () => {
-    if (!selectedModel) return;
-    const prompt = parseFloat(promptPrice) || 0;
-    const completion = parseFloat(completionPrice) || 0;
-    const cache = cachePrice.trim() === '' ? prompt : parseFloat(cachePrice) || 0;
-    const newPrices = { ...modelPrices, [selectedModel]: { prompt, completion, cache } };
-    onPricesChange(newPrices);
-    setSelectedModel('');
-    setPromptPrice('');
-    setCompletionPrice('');
-    setCachePrice('');
+    if (!modelKey || !keyIsValid) return;
+    const prompt = parsePrice(promptPrice);
+    const completion = parsePrice(completionPrice);
+    const cache = cachePrice.trim() === '' ? prompt : parsePrice(cachePrice);
+    const price: ModelPrice = { prompt, completion, cache };
+
+    const threshold = Math.floor(parsePrice(tierThreshold));
+    if (threshold > 0) {
+      const tier: ModelPriceTier = {
+        threshold,
+        prompt: parsePrice(tierPrompt, prompt),
+        completion: parsePrice(tierCompletion, completion),
+        cache: 0
+      };
+      tier.cache = tierCache.trim() === '' ? tier.prompt : parsePrice(tierCache);
+      price.longContext = tier;
+    }
+
+    onPricesChange({ ...modelPrices, [modelKey]: price });
+    fillForm('');
   };
 
   const handleDeletePrice = (model: string) => {
@@ -43,48 +113,116 @@ export function PriceSettingsCard({
     onPricesChange(newPrices);
   };
 
-  const handleEditPrice = (model: string) => {
-    const price = modelPrices[model];
-    setSelectedModel(model);
-    setPromptPrice(price?.prompt?.toString() || '');
-    setCompletionPrice(price?.completion?.toString() || '');
-    setCachePrice(price?.cache?.toString() || '');
-  };
-
-  const handleModelSelect = (value: string) => {
-    setSelectedModel(value);
-    const price = modelPrices[value];
+  const handleModelChange = (value: string) => {
+    const price = modelPrices[value.trim()];
     if (price) {
-      setPromptPrice(price.prompt.toString());
-      setCompletionPrice(price.completion.toString());
-      setCachePrice(price.cache.toString());
+      fillForm(value, price);
     } else {
-      setPromptPrice('');
-      setCompletionPrice('');
-      setCachePrice('');
+      setSelectedModel(value);
     }
   };
 
+  const handleExport = (format: PriceCatalogFormat) => {
+    const content =
+      format === 'csv' ? priceCatalogToCsv(modelPrices) : serializePriceCatalog(modelPrices);
+    const blob = new Blob([content], {
+      type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json'
+    });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `model-prices.${format}`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleImportChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const { prices, invalid } = parsePriceCatalog(
+        text,
+        detectPriceCatalogFormat(file.name, text)
+      );
+      const count = Object.keys(prices).length;
+      if (!count) {
+        showNotification(t('usage_stats.price_catalog.import_empty'), 'error');
+        return;
+      }
+      onPricesChange(mergePriceCatalog(modelPrices, prices, replaceOnImport ? 'replace' : 'merge'));
+      showNotification(
+        t('usage_stats.price_catalog.import_success', { count, invalid: invalid.length }),
+        invalid.length ? 'warning' : 'success'
+      );
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(
+        `${t('usage_stats.price_catalog.import_invalid')}${message ? `: ${message}` : ''}`,
+        'error'
+      );
+    }
+  };
+
+  const hasPrices = Object.keys(modelPrices).length > 0;
+  const formMatches = keyIsPattern ? (patternMatches.get(modelKey) ?? []) : [];
+
   return (
     <Card title={t('usage_stats.model_price_settings')}>
       <div className={styles.pricingSection}>
+        {/* Catalog import / export */}
+        <div className={styles.priceCatalogBar}>
+          <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()}>
+            {t('usage_stats.price_catalog.import')}
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => handleExport('json')}
+            disabled={!hasPrices}
+          >
+            {t('usage_stats.price_catalog.export_json')}
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => handleExport('csv')}
+            disabled={!hasPrices}
+          >
+            {t('usage_stats.price_catalog.export_csv')}
+          </Button>
+          <ToggleSwitch
+            checked={replaceOnImport}
+            onChange={setReplaceOnImport}
+            label={t('usage_stats.price_catalog.replace_on_import')}
+          />
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            style={{ display: 'none' }}
+            onChange={handleImportChange}
+          />
+        </div>
+
         {/* Price Form */}
         <div className={styles.priceForm}>
           <div className={styles.formRow}>
             <div className={styles.formField}>
               <label>{t('usage_stats.model_name')}</label>
-              <select
+              <Input
                 value={selectedModel}
-                onChange={(e) => handleModelSelect(e.target.value)}
-                className={styles.select}
-              >
-                <option value="">{t('usage_stats.model_price_select_placeholder')}</option>
+                onChange={(e) => handleModelChange(e.target.value)}
+                placeholder={t('usage_stats.price_catalog.model_placeholder')}
+                list={MODEL_NAMES_LIST_ID}
+              />
+              <datalist id={MODEL_NAMES_LIST_ID}>
                 {modelNames.map((name) => (
-                  <option key={name} value={name}>
-                    {name}
-                  </option>
+                  <option key={name} value={name} />
                 ))}
-              </select>
+              </datalist>
             </div>
             <div className={styles.formField}>
               <label>{t('usage_stats.model_price_prompt')} ($/1M)</label>
@@ -116,35 +254,124 @@ export function PriceSettingsCard({
                 step="0.0001"
               />
             </div>
-            <Button variant="primary" onClick={handleSavePrice} disabled={!selectedModel}>
+            <Button variant="primary" onClick={handleSavePrice} disabled={!modelKey || !keyIsValid}>
               {t('common.save')}
             </Button>
           </div>
+          <div className={styles.formRow}>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.price_catalog.tier_threshold')}</label>
+              <Input
+                type="number"
+                value={tierThreshold}
+                onChange={(e) => setTierThreshold(e.target.value)}
+                placeholder="200000"
+                step="1000"
+                min="0"
+              />
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.price_catalog.tier_prompt')} ($/1M)</label>
+              <Input
+                type="number"
+                value={tierPrompt}
+                onChange={(e) => setTierPrompt(e.target.value)}
+                placeholder="0.00"
+                step="0.0001"
+                disabled={!tierThreshold}
+              />
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.price_catalog.tier_completion')} ($/1M)</label>
+              <Input
+                type="number"
+                value={tierCompletion}
+                onChange={(e) => setTierCompletion(e.target.value)}
+                placeholder="0.00"
+                step="0.0001"
+                disabled={!tierThreshold}
+              />
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.price_catalog.tier_cache')} ($/1M)</label>
+              <Input
+                type="number"
+                value={tierCache}
+                onChange={(e) => setTierCache(e.target.value)}
+                placeholder="0.00"
+                step="0.0001"
+                disabled={!tierThreshold}
+              />
+            </div>
+          </div>
+          {modelKey && !keyIsValid ? (
+            <div className={styles.priceFormError}>
+              {t('usage_stats.price_catalog.invalid_pattern')}
+            </div>
+          ) : keyIsPattern ? (
+            <div className={styles.hint}>
+              {t('usage_stats.price_catalog.pattern_matches', { count: formMatches.length })}
+              {formMatches.length > 0 &&
+                `: ${formMatches.slice(0, MAX_PATTERN_PREVIEW).join(', ')}`}
+              {formMatches.length > MAX_PATTERN_PREVIEW && ' …'}
+            </div>
+          ) : null}
+          <div className={styles.hint}>{t('usage_stats.price_catalog.hint')}</div>
         </div>
 
         {/* Saved Prices List */}
         <div className={styles.pricesList}>
           <h4 className={styles.pricesTitle}>{t('usage_stats.saved_prices')}</h4>
-          {Object.keys(modelPrices).length > 0 ? (
+          {hasPrices ? (
             <div className={styles.pricesGrid}>
               {Object.entries(modelPrices).map(([model, price]) => (
                 <div key={model} className={styles.priceItem}>
                   <div className={styles.priceInfo}>
-                    <span className={styles.priceModel}>{model}</span>
+                    <span className={styles.priceModel}>
+                      {model}
+                      {isModelPricePattern(model) && (
+                        <span className={`pill ${styles.pricePatternBadge}`}>
+                          {t('usage_stats.price_catalog.pattern_badge', {
+                            count: patternMatches.get(model)?.length ?? 0
+                          })}
+                        </span>
+                      )}
+                    </span>
                     <div className={styles.priceMeta}>
                       <span>
-                        {t('usage_stats.model_price_prompt')}: ${price.prompt.toFixed(4)}/1M
+                        {t('usage_stats.model_price_prompt')}: {formatPrice(price.prompt)}
                       </span>
                       <span>
-                        {t('usage_stats.model_price_completion')}: ${price.completion.toFixed(4)}/1M
+                        {t('usage_stats.model_price_completion')}: {formatPrice(price.completion)}
                       </span>
                       <span>
-                        {t('usage_stats.model_price_cache')}: ${price.cache.toFixed(4)}/1M
+                        {t('usage_stats.model_price_cache')}: {formatPrice(price.cache)}
                       </span>
                     </div>
+                    {price.longContext && (
+                      <div className={styles.priceMeta}>
+                        <span>
+                          {t('usage_stats.price_catalog.tier_summary', {
+                            threshold: price.longContext.threshold.toLocaleString()
+                          })}
+                        </span>
+                        <span>
+                          {t('usage_stats.model_price_prompt')}:{' '}
+                          {formatPrice(price.longContext.prompt)}
+                        </span>
+                        <span>
+                          {t('usage_stats.model_price_completion')}:{' '}
+                          {formatPrice(price.longContext.completion)}
+                        </span>
+                        <span>
+                          {t('usage_stats.model_price_cache')}:{' '}
+                          {formatPrice(price.longContext.cache)}
+                        </span>
+                      </div>
+                    )}
                   </div>
                   <div className={styles.priceActions}>
-                    <Button variant="secondary" size="sm" onClick={() => handleEditPrice(model)}>
+                    <Button variant="secondary" size="sm" onClick={() => fillForm(model, price)}>
                       {t('common.edit')}
                     </Button>
                     <Button variant="danger" size="sm" onClick={() => handleDeletePrice(model)}>
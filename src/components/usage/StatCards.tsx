@@ -9,9 +9,15 @@ import {
   calculateTokenBreakdown,
   calculateRecentPerMinuteRates,
   calculateTotalCost,
-  type ModelPrice
+  type ModelPrice,
+  type RateStats
 } from '@/utils/usage';
 import { sparklineOptions } from '@/utils/usage/chartConfig';
+import {
+  calculateDelta,
+  calculateRangePerMinuteRates,
+  type UsageTimeRange
+} from '@/utils/usage/range';
 import type { UsagePayload } from './hooks/useUsageData';
 import type { SparklineBundle } from './hooks/useSparklines';
 import styles from '@/pages/UsagePage.module.scss';
@@ -26,6 +32,14 @@ interface StatCardData {
   value: string;
   meta?: ReactNode;
   trend: SparklineBundle | null;
+  comparison?: StatComparison | null;
+}
+
+interface StatComparison {
+  current: number;
+  previous: number;
+  /** 上一周期的格式化数值 */
+  previousText: string;
 }
 
 export interface StatCardsProps {
@@ -39,18 +53,64 @@ export interface StatCardsProps {
     tpm: SparklineBundle | null;
     cost: SparklineBundle | null;
   };
+  /** 当前时间范围，null 表示全部数据（RPM/TPM 取最近 30 分钟） */
+  range?: UsageTimeRange | null;
+  /** 对比模式下的上一周期数据 */
+  previousUsage?: UsagePayload | null;
+  previousRange?: UsageTimeRange | null;
 }
 
-export function StatCards({ usage, loading, modelPrices, sparklines }: StatCardsProps) {
+const EMPTY_RATE_STATS: RateStats = {
+  rpm: 0,
+  tpm: 0,
+  windowMinutes: 30,
+  requestCount: 0,
+  tokenCount: 0
+};
+
+const DELTA_ICONS = { up: '▲', down: '▼', flat: '•' } as const;
+const DELTA_CLASS_NAMES = { up: styles.statDeltaUp, down: styles.statDeltaDown, flat: '' } as const;
+
+// 上一周期为 0 时无法计算比例，当前有数据即视为上升
+const getDeltaDirection = (delta: number | null, current: number): 'up' | 'down' | 'flat' => {
+  if (delta === null) return current > 0 ? 'up' : 'flat';
+  if (delta > 0) return 'up';
+  if (delta < 0) return 'down';
+  return 'flat';
+};
+
+export function StatCards({
+  usage,
+  loading,
+  modelPrices,
+  sparklines,
+  range = null,
+  previousUsage = null,
+  previousRange = null
+}: StatCardsProps) {
   const { t } = useTranslation();
 
   const tokenBreakdown = usage ? calculateTokenBreakdown(usage) : { cachedTokens: 0, reasoningTokens: 0 };
   const rateStats = usage
-    ? calculateRecentPerMinuteRates(30, usage)
-    : { rpm: 0, tpm: 0, windowMinutes: 30, requestCount: 0, tokenCount: 0 };
+    ? range
+      ? calculateRangePerMinuteRates(usage, range)
+      : calculateRecentPerMinuteRates(30, usage)
+    : EMPTY_RATE_STATS;
   const totalCost = usage ? calculateTotalCost(usage, modelPrices) : 0;
   const hasPrices = Object.keys(modelPrices).length > 0;
 
+  // 对比模式：上一周期与当前范围时长相同，RPM/TPM 同样取范围内平均值
+  const hasComparison = Boolean(previousUsage && previousRange && !loading);
+  const previousRates =
+    previousUsage && previousRange
+      ? calculateRangePerMinuteRates(previousUsage, previousRange)
+      : EMPTY_RATE_STATS;
+  const previousCost = previousUsage ? calculateTotalCost(previousUsage, modelPrices) : 0;
+  const compare = (current: number, previous: number, format: (value: number) => string) =>
+    hasComparison ? { current, previous, previousText: format(previous) } : null;
+  const rateLabelKey = range ? 'usage_stats.range.rpm_avg' : 'usage_stats.rpm_30m';
+  const tpmLabelKey = range ? 'usage_stats.range.tpm_avg' : 'usage_stats.tpm_30m';
+
   const statsCards: StatCardData[] = [
     {
       key: 'requests',
@@ -72,7 +132,12 @@ export function StatCards({ usage, loading, modelPrices, sparklines }: StatCards
           </span>
         </>
       ),
-      trend: sparklines.requests
+      trend: sparklines.requests,
+      comparison: compare(
+        usage?.total_requests ?? 0,
+        previousUsage?.total_requests ?? 0,
+        (value) => value.toLocaleString()
+      )
     },
     {
       key: 'tokens',
@@ -92,11 +157,16 @@ export function StatCards({ usage, loading, modelPrices, sparklines }: StatCards
           </span>
         </>
       ),
-      trend: sparklines.tokens
+      trend: sparklines.tokens,
+      comparison: compare(
+        usage?.total_tokens ?? 0,
+        previousUsage?.total_tokens ?? 0,
+        formatTokensInMillions
+      )
     },
     {
       key: 'rpm',
-      label: t('usage_stats.rpm_30m'),
+      label: t(rateLabelKey),
       icon: <IconTimer size={16} />,
       accent: '#22c55e',
       accentSoft: 'rgba(34, 197, 94, 0.18)',
@@ -107,11 +177,12 @@ export function StatCards({ usage, loading, modelPrices, sparklines }: StatCards
           {t('usage_stats.total_requests')}: {loading ? '-' : rateStats.requestCount.toLocaleString()}
         </span>
       ),
-      trend: sparklines.rpm
+      trend: sparklines.rpm,
+      comparison: compare(rateStats.rpm, previousRates.rpm, formatPerMinuteValue)
     },
     {
       key: 'tpm',
-      label: t('usage_stats.tpm_30m'),
+      label: t(tpmLabelKey),
       icon: <IconTrendingUp size={16} />,
       accent: '#f97316',
       accentSoft: 'rgba(249, 115, 22, 0.18)',
@@ -122,7 +193,8 @@ export function StatCards({ usage, loading, modelPrices, sparklines }: StatCards
           {t('usage_stats.total_tokens')}: {loading ? '-' : formatTokensInMillions(rateStats.tokenCount)}
         </span>
       ),
-      trend: sparklines.tpm
+      trend: sparklines.tpm,
+      comparison: compare(rateStats.tpm, previousRates.tpm, formatPerMinuteValue)
     },
     {
       key: 'cost',
@@ -144,10 +216,30 @@ export function StatCards({ usage, loading, modelPrices, sparklines }: StatCards
           )}
         </>
       ),
-      trend: hasPrices ? sparklines.cost : null
+      trend: hasPrices ? sparklines.cost : null,
+      comparison: hasPrices ? compare(totalCost, previousCost, formatUsd) : null
     }
   ];
 
+  const renderDelta = ({ current, previous, previousText }: StatComparison) => {
+    const delta = calculateDelta(current, previous);
+    const direction = getDeltaDirection(delta, current);
+    const text =
+      delta === null
+        ? current > 0
+          ? t('usage_stats.range.delta_new')
+          : '0%'
+        : `${delta > 0 ? '+' : ''}${(delta * 100).toFixed(1)}%`;
+    const className = `${styles.statDelta} ${DELTA_CLASS_NAMES[direction]}`.trim();
+
+    return (
+      <span className={className} title={t('usage_stats.range.previous_value', { value: previousText })}>
+        {DELTA_ICONS[direction]} {text}{' '}
+        <span className={styles.statDeltaHint}>{t('usage_stats.range.vs_previous')}</span>
+      </span>
+    );
+  };
+
   return (
     <div className={styles.statsGrid}>
       {statsCards.map((card) => (
@@ -165,6 +257,7 @@ export function StatCards({ usage, loading, modelPrices, sparklines }: StatCards
           <div className={styles.statCardHeader}>
             <div className={styles.statLabelGroup}>
               <span className={styles.statLabel}>{card.label}</span>
+              {card.comparison && renderDelta(card.comparison)}
             </div>
             <span className={styles.statIconBadge}>{card.icon}</span>
           </div>
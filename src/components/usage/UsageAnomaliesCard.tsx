@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { formatCompactNumber } from '@/utils/usage';
+import type {
+  UsageAnomaly,
+  UsageAnomalyContributor,
+  UsageAnomalyMetric
+} from '@/utils/usage/anomalies';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageAnomaliesCardProps {
+  anomalies: UsageAnomaly[];
+  loading: boolean;
+  /** 跳转到该小时的逐请求明细 */
+  onViewRequests: (anomaly: UsageAnomaly) => void;
+}
+
+const COLLAPSED_COUNT = 10;
+
+const formatMetricValue = (metric: UsageAnomalyMetric, value: number) =>
+  metric === 'failureRate' ? `${(value * 100).toFixed(1)}%` : formatCompactNumber(value);
+
+const formatShare = (contributor: UsageAnomalyContributor) =>
+  `${contributor.name} (${Math.round(contributor.share * 100)}%)`;
+
+export function UsageAnomaliesCard({
+  anomalies,
+  loading,
+  onViewRequests
+}: UsageAnomaliesCardProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+  const visible = expanded ? anomalies : anomalies.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card
+      title={t('usage_stats.anomalies.title')}
+      extra={
+        anomalies.length > COLLAPSED_COUNT && (
+          <Button variant="secondary" size="sm" onClick={() => setExpanded((prev) => !prev)}>
+            {expanded
+              ? t('usage_stats.anomalies.show_less')
+              : t('usage_stats.anomalies.show_all', { count: anomalies.length })}
+          </Button>
+        )
+      }
+    >
+      {loading ? (
+        <div className={styles.hint}>{t('common.loading')}</div>
+      ) : anomalies.length === 0 ? (
+        <div className={styles.hint}>{t('usage_stats.anomalies.empty')}</div>
+      ) : (
+        <div className={styles.anomalyList}>
+          {visible.map((anomaly) => (
+            <div key={anomaly.bucketStart} className={styles.anomalyItem}>
+              <div className={styles.anomalyHeader}>
+                <span className={styles.anomalyTime}>{anomaly.label}</span>
+                <div className={styles.anomalyHits}>
+                  {anomaly.hits.map((hit) => (
+                    <span
+                      key={hit.metric}
+                      className={styles.anomalyHit}
+                      title={t('usage_stats.anomalies.score', { score: hit.score.toFixed(1) })}
+                    >
+                      {t('usage_stats.anomalies.hit', {
+                        metric: t(`usage_stats.anomalies.metrics.${hit.metric}`),
+                        value: formatMetricValue(hit.metric, hit.value),
+                        baseline: formatMetricValue(hit.metric, hit.baseline)
+                      })}
+                    </span>
+                  ))}
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => onViewRequests(anomaly)}>
+                  {t('usage_stats.anomalies.view_requests')}
+                </Button>
+              </div>
+              <div className={styles.anomalyContributors}>
+                <span>
+                  {t('usage_stats.anomalies.summary', {
+                    requests: anomaly.requests.toLocaleString(),
+                    tokens: formatCompactNumber(anomaly.tokens),
+                    failures: anomaly.failures.toLocaleString()
+                  })}
+                </span>
+                {anomaly.topModel && (
+                  <span title={anomaly.topModel.name}>
+                    {t('usage_stats.anomalies.top_model', { value: formatShare(anomaly.topModel) })}
+                  </span>
+                )}
+                {anomaly.topSource && (
+                  <span title={anomaly.topSource.name}>
+                    {t('usage_stats.anomalies.top_source', {
+                      value: formatShare(anomaly.topSource)
+                    })}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className={styles.hint}>{t('usage_stats.anomalies.hint')}</div>
+    </Card>
+  );
+}
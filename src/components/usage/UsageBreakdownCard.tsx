@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ChartOptions } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { formatTokensInMillions, formatUsd, type ModelPrice } from '@/utils/usage';
+import { buildChartOptions, getHourChartMinWidth } from '@/utils/usage/chartConfig';
+import {
+  buildBreakdownChartData,
+  buildUsageBreakdown,
+  type UsageBreakdownDimension
+} from '@/utils/usage/breakdown';
+import type { UsageTimeRange } from '@/utils/usage/range';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageBreakdownCardProps {
+  usage: UsagePayload | null;
+  loading: boolean;
+  modelPrices: Record<string, ModelPrice>;
+  /** auth_index → 认证文件名 */
+  authFileNames: Map<string, string>;
+  range?: UsageTimeRange | null;
+  isDark: boolean;
+  isMobile: boolean;
+}
+
+const DIMENSION_LABEL_KEYS: Record<UsageBreakdownDimension, string> = {
+  source: 'usage_stats.breakdown.by_source',
+  authIndex: 'usage_stats.breakdown.by_auth_file'
+};
+
+const DIMENSIONS = Object.keys(DIMENSION_LABEL_KEYS) as UsageBreakdownDimension[];
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export function UsageBreakdownCard({
+  usage,
+  loading,
+  modelPrices,
+  authFileNames,
+  range = null,
+  isDark,
+  isMobile
+}: UsageBreakdownCardProps) {
+  const { t } = useTranslation();
+  const [dimension, setDimension] = useState<UsageBreakdownDimension>('source');
+  const [period, setPeriod] = useState<'hour' | 'day'>('day');
+  const [metric, setMetric] = useState<'requests' | 'tokens'>('requests');
+  const hasPrices = Object.keys(modelPrices).length > 0;
+
+  const resolveLabel = useMemo(() => {
+    const unknown = t('usage_stats.breakdown.unknown');
+    return (key: string) => {
+      if (!key) return unknown;
+      return dimension === 'authIndex' ? (authFileNames.get(key) ?? key) : key;
+    };
+  }, [dimension, authFileNames, t]);
+
+  const rows = useMemo(
+    () => (usage ? buildUsageBreakdown(usage, dimension, modelPrices, { resolveLabel }) : []),
+    [usage, dimension, modelPrices, resolveLabel]
+  );
+
+  const chartData = useMemo(
+    () =>
+      usage
+        ? buildBreakdownChartData(usage, dimension, {
+            period,
+            metric,
+            range,
+            resolveLabel,
+            otherLabel: t('usage_stats.breakdown.other')
+          })
+        : { labels: [], datasets: [] },
+    [usage, dimension, period, metric, range, resolveLabel, t]
+  );
+
+  const chartOptions = useMemo<ChartOptions<'line'>>(() => {
+    const base = buildChartOptions({ period, labels: chartData.labels, isDark, isMobile });
+    return {
+      ...base,
+      scales: {
+        ...base.scales,
+        x: { ...base.scales?.x, stacked: true },
+        y: { ...base.scales?.y, stacked: true }
+      }
+    };
+  }, [period, chartData.labels, isDark, isMobile]);
+
+  return (
+    <Card
+      title={t('usage_stats.breakdown.title')}
+      extra={
+        <div className={styles.periodButtons}>
+          {DIMENSIONS.map((item) => (
+            <Button
+              key={item}
+              variant={dimension === item ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setDimension(item)}
+            >
+              {t(DIMENSION_LABEL_KEYS[item])}
+            </Button>
+          ))}
+        </div>
+      }
+    >
+      {loading ? (
+        <div className={styles.hint}>{t('common.loading')}</div>
+      ) : rows.length === 0 ? (
+        <div className={styles.hint}>{t('usage_stats.no_data')}</div>
+      ) : (
+        <div className={styles.breakdown}>
+          <div className={styles.breakdownToolbar}>
+            <div className={styles.periodButtons}>
+              <Button
+                variant={metric === 'requests' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setMetric('requests')}
+              >
+                {t('usage_stats.requests_count')}
+              </Button>
+              <Button
+                variant={metric === 'tokens' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setMetric('tokens')}
+              >
+                {t('usage_stats.tokens_count')}
+              </Button>
+            </div>
+            <div className={styles.periodButtons}>
+              <Button
+                variant={period === 'hour' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setPeriod('hour')}
+              >
+                {t('usage_stats.by_hour')}
+              </Button>
+              <Button
+                variant={period === 'day' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setPeriod('day')}
+              >
+                {t('usage_stats.by_day')}
+              </Button>
+            </div>
+          </div>
+
+          {chartData.labels.length > 0 && (
+            <div className={styles.chartWrapper}>
+              <div className={styles.chartLegend} aria-label="Chart legend">
+                {chartData.datasets.map((dataset, index) => (
+                  <div
+                    key={`${dataset.label}-${index}`}
+                    className={styles.legendItem}
+                    title={dataset.label}
+                  >
+                    <span
+                      className={styles.legendDot}
+                      style={{ backgroundColor: dataset.borderColor }}
+                    />
+                    <span className={styles.legendLabel}>{dataset.label}</span>
+                  </div>
+                ))}
+              </div>
+              <div className={styles.chartArea}>
+                <div className={styles.chartScroller}>
+                  <div
+                    className={styles.chartCanvas}
+                    style={
+                      period === 'hour'
+                        ? { minWidth: getHourChartMinWidth(chartData.labels.length, isMobile) }
+                        : undefined
+                    }
+                  >
+                    <Line data={chartData} options={chartOptions} />
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>
+                    {dimension === 'source'
+                      ? t('usage_stats.breakdown.source')
+                      : t('usage_stats.breakdown.auth_file')}
+                  </th>
+                  <th>{t('usage_stats.requests_count')}</th>
+                  <th>{t('usage_stats.tokens_count')}</th>
+                  <th>{t('usage_stats.cached_tokens')}</th>
+                  <th>{t('usage_stats.reasoning_tokens')}</th>
+                  <th>{t('usage_stats.breakdown.failure_rate')}</th>
+                  {hasPrices && <th>{t('usage_stats.total_cost')}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className={styles.modelCell} title={row.key || undefined}>
+                      {row.label}
+                    </td>
+                    <td>{row.requests.toLocaleString()}</td>
+                    <td>{formatTokensInMillions(row.tokens)}</td>
+                    <td>{formatTokensInMillions(row.cachedTokens)}</td>
+                    <td>{formatTokensInMillions(row.reasoningTokens)}</td>
+                    <td className={row.failures > 0 ? styles.breakdownFailure : undefined}>
+                      {formatRate(row.failureRate)}
+                    </td>
+                    {hasPrices && <td>{row.cost > 0 ? formatUsd(row.cost) : '--'}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
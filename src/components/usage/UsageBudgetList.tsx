@@ -0,0 +1,65 @@
+import { useTranslation } from 'react-i18next';
+import type { UsageBudgetStatus } from '@/utils/usage/budgets';
+import { describeUsageBudget, formatBudgetValue } from './hooks/useUsageBudgets';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageBudgetListProps {
+  statuses: UsageBudgetStatus[];
+  /** 每行右侧的操作按钮（编辑/删除），仪表盘只读展示时不传 */
+  renderActions?: (status: UsageBudgetStatus) => React.ReactNode;
+}
+
+const LEVEL_CLASS_NAMES = {
+  ok: styles.budgetFillOk,
+  warning: styles.budgetFillWarning,
+  exceeded: styles.budgetFillExceeded
+};
+
+export function UsageBudgetList({ statuses, renderActions }: UsageBudgetListProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className={styles.budgetList}>
+      {statuses.map((status) => {
+        const { budget } = status;
+        const percent = Math.round(status.ratio * 100);
+        return (
+          <div key={budget.id} className={styles.budgetItem}>
+            <div className={styles.budgetHeader}>
+              <span className={styles.budgetName} title={describeUsageBudget(budget, t)}>
+                {describeUsageBudget(budget, t)}
+              </span>
+              <span className={styles.budgetValue}>
+                {formatBudgetValue(budget, status.used)} / {formatBudgetValue(budget, budget.limit)}{' '}
+                ({percent}%)
+              </span>
+              {renderActions && <div className={styles.priceActions}>{renderActions(status)}</div>}
+            </div>
+            <div
+              className={styles.budgetTrack}
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.min(percent, 100)}
+            >
+              <div
+                className={`${styles.budgetFill} ${LEVEL_CLASS_NAMES[status.level]}`}
+                style={{ width: `${Math.min(status.ratio, 1) * 100}%` }}
+              />
+            </div>
+            <div
+              className={`${styles.budgetProjection} ${
+                status.projectedRatio >= 1 ? styles.budgetProjectionOver : ''
+              }`}
+            >
+              {t('usage_stats.budgets.projected', {
+                value: formatBudgetValue(budget, status.projected),
+                percent: Math.round(status.projectedRatio * 100)
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
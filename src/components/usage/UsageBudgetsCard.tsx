@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useUsageBudgetsStore } from '@/stores';
+import {
+  USAGE_BUDGET_METRICS,
+  USAGE_BUDGET_PERIODS,
+  USAGE_BUDGET_SCOPES,
+  type UsageBudget,
+  type UsageBudgetMetric,
+  type UsageBudgetPeriod,
+  type UsageBudgetScope,
+  type UsageBudgetStatus
+} from '@/utils/usage/budgets';
+import { UsageBudgetList } from './UsageBudgetList';
+import { describeUsageBudget } from './hooks/useUsageBudgets';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageBudgetsCardProps {
+  statuses: UsageBudgetStatus[];
+  /** 可选的预算对象：模型名、遮罩后的客户端密钥与提供商 */
+  targetOptions: Record<Exclude<UsageBudgetScope, 'global'>, string[]>;
+}
+
+interface BudgetForm {
+  scope: UsageBudgetScope;
+  target: string;
+  period: UsageBudgetPeriod;
+  metric: UsageBudgetMetric;
+  limit: string;
+}
+
+const EMPTY_FORM: BudgetForm = {
+  scope: 'global',
+  target: '',
+  period: 'monthly',
+  metric: 'cost',
+  limit: ''
+};
+
+export function UsageBudgetsCard({ statuses, targetOptions }: UsageBudgetsCardProps) {
+  const { t } = useTranslation();
+  const addBudget = useUsageBudgetsStore((state) => state.addBudget);
+  const updateBudget = useUsageBudgetsStore((state) => state.updateBudget);
+  const removeBudget = useUsageBudgetsStore((state) => state.removeBudget);
+  const [form, setForm] = useState<BudgetForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const limit = Number.parseFloat(form.limit);
+  const canSave =
+    Number.isFinite(limit) && limit > 0 && (form.scope === 'global' || form.target.trim() !== '');
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const budget = {
+      scope: form.scope,
+      target: form.scope === 'global' ? '' : form.target.trim(),
+      period: form.period,
+      metric: form.metric,
+      limit
+    };
+    if (editingId) {
+      updateBudget(editingId, budget);
+    } else {
+      addBudget(budget);
+    }
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleEdit = (budget: UsageBudget) => {
+    setEditingId(budget.id);
+    setForm({
+      scope: budget.scope,
+      target: budget.target,
+      period: budget.period,
+      metric: budget.metric,
+      limit: budget.limit.toString()
+    });
+  };
+
+  const handleDelete = (budget: UsageBudget) => {
+    if (
+      !window.confirm(
+        t('usage_stats.budgets.delete_confirm', { name: describeUsageBudget(budget, t) })
+      )
+    ) {
+      return;
+    }
+    removeBudget(budget.id);
+    if (editingId === budget.id) {
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    }
+  };
+
+  const options = form.scope === 'global' ? [] : targetOptions[form.scope];
+
+  return (
+    <Card title={t('usage_stats.budgets.title')}>
+      <div className={styles.pricingSection}>
+        <div className={styles.priceForm}>
+          <div className={styles.formRow}>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budgets.scope')}</label>
+              <select
+                value={form.scope}
+                onChange={(e) =>
+                  setForm({ ...form, scope: e.target.value as UsageBudgetScope, target: '' })
+                }
+                className={styles.select}
+              >
+                {USAGE_BUDGET_SCOPES.map((scope) => (
+                  <option key={scope} value={scope}>
+                    {t(`usage_stats.budgets.scope_${scope}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {form.scope !== 'global' && (
+              <div className={styles.formField}>
+                <label>{t('usage_stats.budgets.target')}</label>
+                <select
+                  value={form.target}
+                  onChange={(e) => setForm({ ...form, target: e.target.value })}
+                  className={styles.select}
+                >
+                  <option value="">{t('usage_stats.budgets.target_placeholder')}</option>
+                  {/* 编辑时保留已不在当前数据中的对象 */}
+                  {form.target && !options.includes(form.target) && (
+                    <option value={form.target}>{form.target}</option>
+                  )}
+                  {options.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budgets.period')}</label>
+              <select
+                value={form.period}
+                onChange={(e) => setForm({ ...form, period: e.target.value as UsageBudgetPeriod })}
+                className={styles.select}
+              >
+                {USAGE_BUDGET_PERIODS.map((period) => (
+                  <option key={period} value={period}>
+                    {t(`usage_stats.budgets.period_${period}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budgets.metric')}</label>
+              <select
+                value={form.metric}
+                onChange={(e) => setForm({ ...form, metric: e.target.value as UsageBudgetMetric })}
+                className={styles.select}
+              >
+                {USAGE_BUDGET_METRICS.map((metric) => (
+                  <option key={metric} value={metric}>
+                    {t(`usage_stats.budgets.metric_${metric}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className={styles.formField}>
+              <label>
+                {t('usage_stats.budgets.limit')} ({form.metric === 'cost' ? '$' : 'tokens'})
+              </label>
+              <Input
+                type="number"
+                value={form.limit}
+                onChange={(e) => setForm({ ...form, limit: e.target.value })}
+                placeholder={form.metric === 'cost' ? '0.00' : '1000000'}
+                min="0"
+                step={form.metric === 'cost' ? '0.01' : '1000'}
+              />
+            </div>
+            <Button variant="primary" onClick={handleSave} disabled={!canSave}>
+              {editingId ? t('common.save') : t('usage_stats.budgets.add')}
+            </Button>
+            {editingId && (
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setForm(EMPTY_FORM);
+                  setEditingId(null);
+                }}
+              >
+                {t('common.cancel')}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {statuses.length > 0 ? (
+          <UsageBudgetList
+            statuses={statuses}
+            renderActions={({ budget }) => (
+              <>
+                <Button variant="secondary" size="sm" onClick={() => handleEdit(budget)}>
+                  {t('common.edit')}
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => handleDelete(budget)}>
+                  {t('common.delete')}
+                </Button>
+              </>
+            )}
+          />
+        ) : (
+          <div className={styles.hint}>{t('usage_stats.budgets.empty')}</div>
+        )}
+        <div className={styles.hint}>{t('usage_stats.budgets.hint')}</div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,201 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { formatCompactNumber, formatUsd, type ModelPrice } from '@/utils/usage';
+import {
+  HEATMAP_HOURS,
+  buildUsageHeatmap,
+  type UsageHeatmapLayout,
+  type UsageHeatmapMetric
+} from '@/utils/usage/heatmap';
+import type { UsageTimeRange } from '@/utils/usage/range';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageHeatmapCardProps {
+  usage: UsagePayload | null;
+  loading: boolean;
+  modelPrices: Record<string, ModelPrice>;
+  modelNames: string[];
+  range?: UsageTimeRange | null;
+}
+
+const METRIC_LABEL_KEYS: Record<UsageHeatmapMetric, string> = {
+  requests: 'usage_stats.requests_count',
+  tokens: 'usage_stats.tokens_count',
+  cost: 'usage_stats.total_cost'
+};
+
+const LAYOUTS: UsageHeatmapLayout[] = ['calendar', 'weekday'];
+const HOURS = Array.from({ length: HEATMAP_HOURS }, (_, hour) => hour);
+// 最浅的非零单元格透明度，保证少量请求也能看出来
+const MIN_CELL_OPACITY = 0.15;
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+export function UsageHeatmapCard({
+  usage,
+  loading,
+  modelPrices,
+  modelNames,
+  range = null
+}: UsageHeatmapCardProps) {
+  const { t } = useTranslation();
+  const [metric, setMetric] = useState<UsageHeatmapMetric>('requests');
+  const [layout, setLayout] = useState<UsageHeatmapLayout>('calendar');
+  const [utc, setUtc] = useState(false);
+  const [model, setModel] = useState('');
+  const hasPrices = Object.keys(modelPrices).length > 0;
+  const activeMetric = metric === 'cost' && !hasPrices ? 'requests' : metric;
+
+  const heatmap = useMemo(
+    () =>
+      buildUsageHeatmap(usage, {
+        metric: activeMetric,
+        layout,
+        timeZone: utc ? 'utc' : 'local',
+        model,
+        modelPrices,
+        range
+      }),
+    [usage, activeMetric, layout, utc, model, modelPrices, range]
+  );
+
+  const formatValue = (value: number) => {
+    if (activeMetric === 'cost') return formatUsd(value);
+    if (activeMetric === 'tokens') return formatCompactNumber(value);
+    return value.toLocaleString();
+  };
+
+  const formatRowLabel = (key: string) =>
+    layout === 'weekday' ? t(`usage_stats.heatmap.weekdays.${key}`) : key.slice(5);
+
+  const metrics = (Object.keys(METRIC_LABEL_KEYS) as UsageHeatmapMetric[]).filter(
+    (item) => item !== 'cost' || hasPrices
+  );
+
+  return (
+    <Card
+      title={t('usage_stats.heatmap.title')}
+      extra={
+        <div className={styles.periodButtons}>
+          {LAYOUTS.map((item) => (
+            <Button
+              key={item}
+              variant={layout === item ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setLayout(item)}
+            >
+              {t(`usage_stats.heatmap.layout_${item}`)}
+            </Button>
+          ))}
+        </div>
+      }
+    >
+      {loading ? (
+        <div className={styles.hint}>{t('common.loading')}</div>
+      ) : (
+        <div className={styles.heatmap}>
+          <div className={styles.breakdownToolbar}>
+            <div className={styles.periodButtons}>
+              {metrics.map((item) => (
+                <Button
+                  key={item}
+                  variant={activeMetric === item ? 'primary' : 'secondary'}
+                  size="sm"
+                  onClick={() => setMetric(item)}
+                >
+                  {t(METRIC_LABEL_KEYS[item])}
+                </Button>
+              ))}
+            </div>
+            <div className={styles.heatmapOptions}>
+              <select
+                className={styles.select}
+                value={model}
+                onChange={(event) => setModel(event.target.value)}
+                aria-label={t('usage_stats.heatmap.model')}
+              >
+                <option value="">{t('usage_stats.heatmap.all_models')}</option>
+                {modelNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <ToggleSwitch checked={utc} onChange={setUtc} label={t('usage_stats.heatmap.utc')} />
+            </div>
+          </div>
+
+          {heatmap.total === 0 ? (
+            <div className={styles.hint}>{t('usage_stats.no_data')}</div>
+          ) : (
+            <>
+              <div className={styles.heatmapScroller}>
+                <div className={styles.heatmapGrid} role="grid">
+                  <div className={styles.heatmapRow} role="row">
+                    <span />
+                    {HOURS.map((hour) => (
+                      <span key={hour} role="columnheader" className={styles.heatmapHour}>
+                        {hour % 3 === 0 ? hour : ''}
+                      </span>
+                    ))}
+                  </div>
+                  {heatmap.rows.map((row) => (
+                    <div key={row.key} className={styles.heatmapRow} role="row">
+                      <span className={styles.heatmapLabel} title={row.key}>
+                        {formatRowLabel(row.key)}
+                      </span>
+                      {row.values.map((value, hour) => (
+                        <span
+                          key={hour}
+                          role="gridcell"
+                          className={`${styles.heatmapCell} ${
+                            value > 0 ? styles.heatmapCellActive : ''
+                          }`}
+                          style={
+                            value > 0
+                              ? {
+                                  opacity:
+                                    MIN_CELL_OPACITY +
+                                    (1 - MIN_CELL_OPACITY) * (value / heatmap.max)
+                                }
+                              : undefined
+                          }
+                          title={`${formatRowLabel(row.key)} ${formatHour(hour)} · ${formatValue(value)}`}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className={styles.heatmapSummary}>
+                {heatmap.peak && (
+                  <span>
+                    {t('usage_stats.heatmap.peak', {
+                      slot: `${formatRowLabel(heatmap.peak.rowKey)} ${formatHour(heatmap.peak.hour)}`,
+                      value: formatValue(heatmap.peak.value)
+                    })}
+                  </span>
+                )}
+                {heatmap.quietestHour !== null && (
+                  <span>
+                    {t('usage_stats.heatmap.quietest', {
+                      hour: formatHour(heatmap.quietestHour),
+                      value: formatValue(heatmap.hourTotals[heatmap.quietestHour])
+                    })}
+                  </span>
+                )}
+                <span>
+                  {utc ? t('usage_stats.heatmap.utc_hint') : t('usage_stats.heatmap.local_hint')}
+                </span>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
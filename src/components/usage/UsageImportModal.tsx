@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { formatDayLabel } from '@/utils/usage';
+import {
+  buildUsageImportPreview,
+  type UsageImportFile,
+  type UsageImportSelection
+} from '@/utils/usage/importPreview';
+import { formatDateInput, resolveUsageRange, type UsageTimeRange } from '@/utils/usage/range';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageImportModalProps {
+  /** 待导入的文件，为空时关闭 */
+  files: UsageImportFile[];
+  /** 当前数据，用于统计重复记录 */
+  currentUsage: UsagePayload | null;
+  importing: boolean;
+  onCancel: () => void;
+  onConfirm: (selection: UsageImportSelection) => void;
+}
+
+const formatRange = (range: UsageTimeRange | null) => {
+  if (!range) return '--';
+  const first = formatDayLabel(new Date(range.start));
+  const last = formatDayLabel(new Date(range.end - 1));
+  return first === last ? first : `${first} ~ ${last}`;
+};
+
+export function UsageImportModal({
+  files,
+  currentUsage,
+  importing,
+  onCancel,
+  onConfirm
+}: UsageImportModalProps) {
+  const { t } = useTranslation();
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [excludedModels, setExcludedModels] = useState<Set<string>>(new Set());
+  const [prevFiles, setPrevFiles] = useState(files);
+
+  // 选择了新的文件时重置范围与模型选择
+  if (files !== prevFiles) {
+    setPrevFiles(files);
+    setCustomFrom('');
+    setCustomTo('');
+    setExcludedModels(new Set());
+  }
+
+  const snapshots = useMemo(
+    () => files.filter((file) => file.usage).map((file) => file.usage),
+    [files]
+  );
+  const fileRecords = useMemo(
+    () => files.map((file) => (file.usage ? buildUsageImportPreview([file.usage], null) : null)),
+    [files]
+  );
+  const overview = useMemo(
+    () => buildUsageImportPreview(snapshots, currentUsage),
+    [snapshots, currentUsage]
+  );
+
+  // 日期留空时使用快照自身的时间跨度
+  const from = customFrom || (overview.range ? formatDateInput(overview.range.start) : '');
+  const to = customTo || (overview.range ? formatDateInput(overview.range.end - 1) : '');
+  const selection = useMemo<UsageImportSelection>(
+    () => ({
+      range: resolveUsageRange({ preset: 'custom', customFrom: from, customTo: to }),
+      models: excludedModels.size
+        ? overview.models.map((item) => item.model).filter((model) => !excludedModels.has(model))
+        : null
+    }),
+    [from, to, excludedModels, overview.models]
+  );
+  const preview = useMemo(
+    () => buildUsageImportPreview(snapshots, currentUsage, selection),
+    [snapshots, currentUsage, selection]
+  );
+
+  const toggleModel = (model: string) => {
+    setExcludedModels((prev) => {
+      const next = new Set(prev);
+      if (next.has(model)) {
+        next.delete(model);
+      } else {
+        next.add(model);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Modal
+      open={files.length > 0}
+      onClose={onCancel}
+      title={t('usage_stats.import_preview.title')}
+      width={720}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onCancel} disabled={importing}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={() => onConfirm(selection)}
+            loading={importing}
+            disabled={!preview.selected}
+          >
+            {t('usage_stats.import_preview.confirm', { count: preview.selected })}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.importPreview}>
+        <div className="item-list">
+          {files.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="item-row">
+              <div className="item-meta">
+                <div className="item-title">{file.name}</div>
+                <div className="item-subtitle">
+                  {fileRecords[index]
+                    ? t('usage_stats.import_preview.file_summary', {
+                        count: fileRecords[index].records,
+                        range: formatRange(fileRecords[index].range)
+                      })
+                    : t('usage_stats.import_invalid')}
+                  {file.exportedAt &&
+                    ` · ${t('usage_stats.import_preview.exported_at', { time: file.exportedAt })}`}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className={styles.hint}>
+          {t('usage_stats.import_preview.overview', {
+            records: overview.records,
+            range: formatRange(overview.range),
+            overlapping: overview.selectedOverlapping
+          })}
+          {overview.duplicates > 0 &&
+            ` ${t('usage_stats.import_preview.duplicates', { count: overview.duplicates })}`}
+        </div>
+
+        <div className={styles.rangeCustom}>
+          <span className={styles.importLabel}>{t('usage_stats.import_preview.range')}</span>
+          <input
+            type="date"
+            className="input"
+            value={from}
+            max={to || undefined}
+            onChange={(event) => setCustomFrom(event.target.value)}
+            aria-label={t('usage_stats.range.from')}
+            disabled={!overview.range}
+          />
+          <span className={styles.rangeSeparator}>~</span>
+          <input
+            type="date"
+            className="input"
+            value={to}
+            min={from || undefined}
+            onChange={(event) => setCustomTo(event.target.value)}
+            aria-label={t('usage_stats.range.to')}
+            disabled={!overview.range}
+          />
+        </div>
+
+        <div className={styles.importModelActions}>
+          <span className={styles.importLabel}>{t('usage_stats.import_preview.models')}</span>
+          <Button variant="ghost" size="sm" onClick={() => setExcludedModels(new Set())}>
+            {t('usage_stats.import_preview.select_all')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setExcludedModels(new Set(overview.models.map((item) => item.model)))}
+          >
+            {t('usage_stats.import_preview.select_none')}
+          </Button>
+        </div>
+
+        <div className={`${styles.tableWrapper} ${styles.importModelTable}`}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th />
+                <th>{t('usage_stats.model_name')}</th>
+                <th>{t('usage_stats.import_preview.records')}</th>
+                <th>{t('usage_stats.import_preview.overlapping')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.models.map((item) => (
+                <tr key={item.model}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={!excludedModels.has(item.model)}
+                      onChange={() => toggleModel(item.model)}
+                      aria-label={item.model}
+                    />
+                  </td>
+                  <td className={styles.modelCell}>{item.model}</td>
+                  <td>{item.records.toLocaleString()}</td>
+                  <td>{item.overlapping.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className={styles.hint}>
+          {t('usage_stats.import_preview.selected', {
+            count: preview.selected,
+            added: preview.selected - preview.selectedOverlapping,
+            overlapping: preview.selectedOverlapping
+          })}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Line } from 'react-chartjs-2';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { formatDurationMs } from '@/utils/logs/trace';
+import { buildChartOptions, getHourChartMinWidth } from '@/utils/usage/chartConfig';
+import {
+  DEFAULT_LATENCY_SERIES_LIMIT,
+  buildUsageLatencySeries,
+  matchUsageLatency,
+  summarizeUsageLatency,
+  type UsageLatencyDimension
+} from '@/utils/usage/latency';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageLatencyCardProps {
+  usage: UsagePayload | null;
+  loading: boolean;
+  /** 请求日志原始行 */
+  logLines: string[];
+  logsLoading: boolean;
+  logsUnavailable: boolean;
+  /** auth_index → 提供商 */
+  authFileProviders: Map<string, string>;
+  isDark: boolean;
+  isMobile: boolean;
+}
+
+const DIMENSIONS: UsageLatencyDimension[] = ['model', 'provider'];
+
+const formatLatency = (value?: number) => (value === undefined ? '--' : formatDurationMs(value));
+const formatSpeed = (value?: number) => (value === undefined ? '--' : value.toFixed(1));
+
+export function UsageLatencyCard({
+  usage,
+  loading,
+  logLines,
+  logsLoading,
+  logsUnavailable,
+  authFileProviders,
+  isDark,
+  isMobile
+}: UsageLatencyCardProps) {
+  const { t } = useTranslation();
+  const [dimension, setDimension] = useState<UsageLatencyDimension>('model');
+  const [period, setPeriod] = useState<'hour' | 'day'>('hour');
+
+  const match = useMemo(
+    () => matchUsageLatency(usage, logLines, { providers: authFileProviders }),
+    [usage, logLines, authFileProviders]
+  );
+  const rows = useMemo(
+    () => summarizeUsageLatency(match.samples, dimension),
+    [match.samples, dimension]
+  );
+
+  const unknown = t('usage_stats.latency.unknown_provider');
+  const chartData = useMemo(() => {
+    const keys = rows.slice(0, DEFAULT_LATENCY_SERIES_LIMIT).map((row) => row.key);
+    const chart = buildUsageLatencySeries(match.samples, dimension, period, keys);
+    return {
+      ...chart,
+      datasets: chart.datasets.map((dataset) => ({
+        ...dataset,
+        label: dataset.label || unknown
+      }))
+    };
+  }, [rows, match.samples, dimension, period, unknown]);
+
+  const chartOptions = useMemo(
+    () => buildChartOptions({ period, labels: chartData.labels, isDark, isMobile }),
+    [period, chartData.labels, isDark, isMobile]
+  );
+
+  const renderBody = () => {
+    if (loading || logsLoading) {
+      return <div className={styles.hint}>{t('common.loading')}</div>;
+    }
+    if (logsUnavailable) {
+      return <div className={styles.hint}>{t('usage_stats.latency.logs_unavailable')}</div>;
+    }
+    if (!match.samples.length) {
+      return <div className={styles.hint}>{t('usage_stats.latency.no_matches')}</div>;
+    }
+    return (
+      <div className={styles.breakdown}>
+        <div className={styles.breakdownToolbar}>
+          <div className={styles.hint}>
+            {t('usage_stats.latency.coverage', {
+              matched: match.samples.length,
+              records: match.usageRecords,
+              percent: Math.round((match.samples.length / Math.max(match.usageRecords, 1)) * 100)
+            })}
+          </div>
+          <div className={styles.periodButtons}>
+            <Button
+              variant={period === 'hour' ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setPeriod('hour')}
+            >
+              {t('usage_stats.by_hour')}
+            </Button>
+            <Button
+              variant={period === 'day' ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setPeriod('day')}
+            >
+              {t('usage_stats.by_day')}
+            </Button>
+          </div>
+        </div>
+
+        {chartData.labels.length > 0 && (
+          <div className={styles.chartWrapper}>
+            <div className={styles.chartLegend} aria-label="Chart legend">
+              {chartData.datasets.map((dataset, index) => (
+                <div
+                  key={`${dataset.label}-${index}`}
+                  className={styles.legendItem}
+                  title={dataset.label}
+                >
+                  <span
+                    className={styles.legendDot}
+                    style={{ backgroundColor: dataset.borderColor }}
+                  />
+                  <span className={styles.legendLabel}>{dataset.label}</span>
+                </div>
+              ))}
+            </div>
+            <div className={styles.chartArea}>
+              <div className={styles.chartScroller}>
+                <div
+                  className={styles.chartCanvas}
+                  style={
+                    period === 'hour'
+                      ? { minWidth: getHourChartMinWidth(chartData.labels.length, isMobile) }
+                      : undefined
+                  }
+                >
+                  <Line data={chartData} options={chartOptions} />
+                </div>
+              </div>
+            </div>
+            <div className={styles.hint}>{t('usage_stats.latency.chart_hint')}</div>
+          </div>
+        )}
+
+        <div className={styles.tableWrapper}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>
+                  {dimension === 'model'
+                    ? t('usage_stats.model_name')
+                    : t('usage_stats.latency.provider')}
+                </th>
+                <th>{t('usage_stats.latency.matched')}</th>
+                <th>{t('usage_stats.latency.p50')}</th>
+                <th>{t('usage_stats.latency.p95')}</th>
+                <th>{t('usage_stats.latency.tokens_per_second')}</th>
+                <th>{t('usage_stats.latency.failures')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key}>
+                  <td className={styles.modelCell} title={row.key || undefined}>
+                    {row.key || unknown}
+                  </td>
+                  <td>{row.requests.toLocaleString()}</td>
+                  <td>{formatLatency(row.p50)}</td>
+                  <td>{formatLatency(row.p95)}</td>
+                  <td>{formatSpeed(row.tokensPerSecond)}</td>
+                  <td className={row.failures > 0 ? styles.breakdownFailure : undefined}>
+                    {row.failures.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card
+      title={t('usage_stats.latency.title')}
+      extra={
+        <div className={styles.periodButtons}>
+          {DIMENSIONS.map((item) => (
+            <Button
+              key={item}
+              variant={dimension === item ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setDimension(item)}
+            >
+              {t(`usage_stats.latency.by_${item}`)}
+            </Button>
+          ))}
+        </div>
+      }
+    >
+      {renderBody()}
+    </Card>
+  );
+}
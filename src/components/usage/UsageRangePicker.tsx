@@ -0,0 +1,113 @@
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { formatDayLabel } from '@/utils/usage';
+import {
+  USAGE_RANGE_PRESETS,
+  getDefaultCustomRange,
+  type UsageRangePreset,
+  type UsageRangeSelection,
+  type UsageTimeRange
+} from '@/utils/usage/range';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageRangePickerProps {
+  selection: UsageRangeSelection;
+  onSelectionChange: (selection: UsageRangeSelection) => void;
+  compare: boolean;
+  onCompareChange: (compare: boolean) => void;
+  range: UsageTimeRange | null;
+  previousRange: UsageTimeRange | null;
+  disabled?: boolean;
+}
+
+const DEFAULT_CUSTOM_DAYS = 7;
+
+const formatRange = (range: UsageTimeRange) => {
+  const first = formatDayLabel(new Date(range.start));
+  const last = formatDayLabel(new Date(range.end - 1));
+  return first === last ? first : `${first} ~ ${last}`;
+};
+
+export function UsageRangePicker({
+  selection,
+  onSelectionChange,
+  compare,
+  onCompareChange,
+  range,
+  previousRange,
+  disabled = false
+}: UsageRangePickerProps) {
+  const { t } = useTranslation();
+
+  const handlePresetChange = (preset: UsageRangePreset) => {
+    if (preset === 'custom' && (!selection.customFrom || !selection.customTo)) {
+      // 首次切换到自定义时默认填入最近 7 天
+      onSelectionChange({ preset, ...getDefaultCustomRange(DEFAULT_CUSTOM_DAYS) });
+      return;
+    }
+    onSelectionChange({ ...selection, preset });
+  };
+
+  return (
+    <div className={styles.rangePicker}>
+      <div className={styles.rangePresets} role="group" aria-label={t('usage_stats.range.label')}>
+        {USAGE_RANGE_PRESETS.map((preset) => (
+          <Button
+            key={preset}
+            variant={selection.preset === preset ? 'primary' : 'secondary'}
+            size="sm"
+            onClick={() => handlePresetChange(preset)}
+            disabled={disabled}
+          >
+            {t(`usage_stats.range.${preset}`)}
+          </Button>
+        ))}
+      </div>
+
+      {selection.preset === 'custom' && (
+        <div className={styles.rangeCustom}>
+          <input
+            type="date"
+            className="input"
+            value={selection.customFrom}
+            max={selection.customTo || undefined}
+            onChange={(event) =>
+              onSelectionChange({ ...selection, customFrom: event.target.value })
+            }
+            aria-label={t('usage_stats.range.from')}
+            disabled={disabled}
+          />
+          <span className={styles.rangeSeparator}>~</span>
+          <input
+            type="date"
+            className="input"
+            value={selection.customTo}
+            min={selection.customFrom || undefined}
+            onChange={(event) => onSelectionChange({ ...selection, customTo: event.target.value })}
+            aria-label={t('usage_stats.range.to')}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      <ToggleSwitch
+        checked={compare && range !== null}
+        onChange={onCompareChange}
+        label={t('usage_stats.range.compare')}
+        disabled={disabled || range === null}
+      />
+
+      {range && (
+        <span className={styles.rangeSummary}>
+          {previousRange
+            ? t('usage_stats.range.summary_compare', {
+                current: formatRange(range),
+                previous: formatRange(previousRange)
+              })
+            : formatRange(range)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Chart as ChartJS, type ChartConfiguration } from 'chart.js';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { formatTokensInMillions, formatUsd, type ChartData, type ModelPrice } from '@/utils/usage';
+import { buildChartOptions } from '@/utils/usage/chartConfig';
+import { formatDateInput, resolveUsageRange, type UsageTimeRange } from '@/utils/usage/range';
+import {
+  USAGE_REPORT_TABLES,
+  buildUsageReport,
+  buildUsageReportChart,
+  getMonthRange,
+  renderUsageReportHtml,
+  usageReportTableToCsv,
+  type UsageReportChart,
+  type UsageReportChartMetric,
+  type UsageReportLabels,
+  type UsageReportTable
+} from '@/utils/usage/report';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageReportModalProps {
+  open: boolean;
+  onClose: () => void;
+  usage: UsagePayload | null;
+  modelPrices: Record<string, ModelPrice>;
+  /** 页面当前的时间范围，作为报表的默认周期 */
+  defaultRange: UsageTimeRange | null;
+  /** 使用统计的加载时间，作为 "本月" 等快捷周期的当前时间 */
+  loadedAt: number;
+}
+
+const CHART_WIDTH = 960;
+const CHART_HEIGHT = 280;
+// 报表中保留的预览窗口 URL 有效期，足够浏览器加载完成
+const PREVIEW_URL_TTL_MS = 60 * 1000;
+
+const CHART_TITLE_KEYS: Record<UsageReportChartMetric, string> = {
+  requests: 'usage_stats.report.charts.requests',
+  tokens: 'usage_stats.report.charts.tokens',
+  cost: 'usage_stats.report.charts.cost'
+};
+
+// 在离屏 canvas 上以浅色主题绘制图表并导出为图片，打印时不依赖页面主题
+const renderChartImage = (data: ChartData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CHART_WIDTH;
+  canvas.height = CHART_HEIGHT;
+  const options = buildChartOptions({
+    period: 'day',
+    labels: data.labels,
+    isDark: false,
+    isMobile: false
+  });
+  const chart = new ChartJS(canvas, {
+    type: 'line',
+    data: data as ChartConfiguration<'line'>['data'],
+    options: { ...options, responsive: false, animation: false, devicePixelRatio: 2 }
+  });
+  const image = chart.toBase64Image('image/png', 1);
+  chart.destroy();
+  return image;
+};
+
+const downloadFile = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export function UsageReportModal({
+  open,
+  onClose,
+  usage,
+  modelPrices,
+  defaultRange,
+  loadedAt
+}: UsageReportModalProps) {
+  const { t } = useTranslation();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [prevOpen, setPrevOpen] = useState(open);
+
+  const applyRange = (range: UsageTimeRange | null) => {
+    setFrom(range ? formatDateInput(range.start) : '');
+    setTo(range ? formatDateInput(range.end - 1) : '');
+  };
+
+  // 每次打开时以页面当前的时间范围为默认周期
+  if (open !== prevOpen) {
+    setPrevOpen(open);
+    if (open) applyRange(defaultRange);
+  }
+
+  const range = useMemo(
+    () =>
+      from && to ? resolveUsageRange({ preset: 'custom', customFrom: from, customTo: to }) : null,
+    [from, to]
+  );
+  const report = useMemo(
+    () =>
+      open
+        ? buildUsageReport(usage, { range, modelPrices, generatedAt: loadedAt || undefined })
+        : null,
+    [open, usage, range, modelPrices, loadedAt]
+  );
+
+  const fileStamp = () =>
+    range ? `${formatDateInput(range.start)}_${formatDateInput(range.end - 1)}` : 'all';
+
+  const buildHtml = () => {
+    if (!report) return '';
+    const labels: UsageReportLabels = {
+      title: t('usage_stats.report.document_title'),
+      period: t('usage_stats.report.period'),
+      allTime: t('usage_stats.report.all_time'),
+      generatedAt: t('usage_stats.report.generated_at'),
+      requests: t('usage_stats.total_requests'),
+      successRate: t('usage_stats.success_rate'),
+      failures: t('usage_stats.failed_requests'),
+      tokens: t('usage_stats.total_tokens'),
+      cachedTokens: t('usage_stats.cached_tokens'),
+      reasoningTokens: t('usage_stats.reasoning_tokens'),
+      cost: t('usage_stats.total_cost'),
+      day: t('usage_stats.report.day'),
+      model: t('usage_stats.model_name'),
+      endpoint: t('usage_stats.report.endpoint'),
+      apiKey: t('usage_stats.breakdown.source'),
+      failureRate: t('usage_stats.breakdown.failure_rate'),
+      tables: {
+        days: t('usage_stats.report.tables.days'),
+        models: t('usage_stats.report.tables.models'),
+        apis: t('usage_stats.report.tables.apis'),
+        keys: t('usage_stats.report.tables.keys')
+      }
+    };
+    const metrics: UsageReportChartMetric[] = report.hasPrices
+      ? ['requests', 'tokens', 'cost']
+      : ['requests', 'tokens'];
+    const charts: UsageReportChart[] = report.days.length
+      ? metrics.map((metric) => {
+          const title = t(CHART_TITLE_KEYS[metric]);
+          return { title, image: renderChartImage(buildUsageReportChart(report, metric, title)) };
+        })
+      : [];
+    return renderUsageReportHtml({ ...report, generatedAt: Date.now() }, labels, charts);
+  };
+
+  const handlePrint = () => {
+    const blob = new Blob([buildHtml()], { type: 'text/html;charset=utf-8' });
+    const url = window.URL.createObjectURL(blob);
+    window.open(url, '_blank');
+    window.setTimeout(() => window.URL.revokeObjectURL(url), PREVIEW_URL_TTL_MS);
+  };
+
+  const handleDownloadHtml = () => {
+    downloadFile(buildHtml(), 'text/html;charset=utf-8', `usage-report-${fileStamp()}.html`);
+  };
+
+  const handleDownloadCsv = (table: UsageReportTable) => {
+    if (!report) return;
+    downloadFile(
+      usageReportTableToCsv(report, table),
+      'text/csv;charset=utf-8',
+      `usage-report-${table}-${fileStamp()}.csv`
+    );
+  };
+
+  const now = loadedAt || defaultRange?.end || 0;
+  const isEmpty = !report || report.summary.requests === 0;
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('usage_stats.report.title')}
+      width={640}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="secondary" onClick={handleDownloadHtml} disabled={isEmpty}>
+            {t('usage_stats.report.download_html')}
+          </Button>
+          <Button onClick={handlePrint} disabled={isEmpty}>
+            {t('usage_stats.report.print')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.importPreview}>
+        <div className={styles.importModelActions}>
+          <span className={styles.importLabel}>{t('usage_stats.report.period')}</span>
+          <Button variant="ghost" size="sm" onClick={() => applyRange(getMonthRange(now))}>
+            {t('usage_stats.report.this_month')}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => applyRange(getMonthRange(now, -1))}>
+            {t('usage_stats.report.last_month')}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => applyRange(null)}>
+            {t('usage_stats.range.all')}
+          </Button>
+        </div>
+
+        <div className={styles.rangeCustom}>
+          <input
+            type="date"
+            className="input"
+            value={from}
+            max={to || undefined}
+            onChange={(event) => setFrom(event.target.value)}
+            aria-label={t('usage_stats.range.from')}
+          />
+          <span className={styles.rangeSeparator}>~</span>
+          <input
+            type="date"
+            className="input"
+            value={to}
+            min={from || undefined}
+            onChange={(event) => setTo(event.target.value)}
+            aria-label={t('usage_stats.range.to')}
+          />
+        </div>
+
+        <div className={styles.hint}>
+          {isEmpty
+            ? t('usage_stats.no_data')
+            : t('usage_stats.report.summary', {
+                requests: report.summary.requests.toLocaleString(),
+                tokens: formatTokensInMillions(report.summary.tokens),
+                days: report.days.length
+              })}
+          {!isEmpty && report.hasPrices && ` · ${formatUsd(report.summary.cost)}`}
+        </div>
+
+        <div className={styles.importLabel}>{t('usage_stats.report.csv_exports')}</div>
+        <div className={styles.reportDownloads}>
+          {USAGE_REPORT_TABLES.map((table) => (
+            <Button
+              key={table}
+              variant="secondary"
+              size="sm"
+              onClick={() => handleDownloadCsv(table)}
+              disabled={isEmpty}
+            >
+              {t(`usage_stats.report.tables.${table}`)}
+            </Button>
+          ))}
+        </div>
+        <div className={styles.hint}>{t('usage_stats.report.print_hint')}</div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,378 @@
+import { useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { usePagination } from '@/hooks/usePagination';
+import { useVirtualRows } from '@/hooks/useVirtualRows';
+import { formatUnixTimestamp } from '@/utils/format';
+import { formatCompactNumber, formatUsd, type ModelPrice } from '@/utils/usage';
+import {
+  DEFAULT_USAGE_REQUEST_FILTERS,
+  DEFAULT_USAGE_REQUEST_SORT,
+  collectUsageRequests,
+  countActiveUsageRequestFilters,
+  filterUsageRequests,
+  sortUsageRequests,
+  usageRequestsToCsv,
+  type UsageRequestFilters,
+  type UsageRequestRow,
+  type UsageRequestSort,
+  type UsageRequestSortKey,
+  type UsageRequestStatusFilter
+} from '@/utils/usage/requests';
+import type { UsageTimeRange } from '@/utils/usage/range';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageRequestsCardProps {
+  usage: UsagePayload | null;
+  loading: boolean;
+  modelPrices: Record<string, ModelPrice>;
+  /** auth_index → 认证文件名 */
+  authFileNames: Map<string, string>;
+  /** 由页面控制的时间过滤（例如从异常列表跳转到某个小时） */
+  timeRange?: UsageTimeRange | null;
+  onTimeRangeChange?: (range: UsageTimeRange | null) => void;
+}
+
+type TextFilterKey = 'model' | 'endpoint' | 'source' | 'authFile';
+
+const COLUMNS: UsageRequestSortKey[] = [
+  'timestamp',
+  'model',
+  'endpoint',
+  'source',
+  'authFile',
+  'inputTokens',
+  'outputTokens',
+  'cachedTokens',
+  'reasoningTokens',
+  'cost',
+  'failed'
+];
+
+const TEXT_FILTERS: TextFilterKey[] = ['model', 'endpoint', 'source', 'authFile'];
+const STATUS_FILTERS: UsageRequestStatusFilter[] = ['all', 'success', 'failed'];
+const PAGE_SIZES = [200, 500, 1000];
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+
+// 点击列头依次切换：升序 → 降序 → 取消排序
+const nextSort = (current: UsageRequestSort | null, key: UsageRequestSortKey) => {
+  if (!current || current.key !== key) return { key, direction: 'asc' } as UsageRequestSort;
+  if (current.direction === 'asc') return { key, direction: 'desc' } as UsageRequestSort;
+  return null;
+};
+
+export function UsageRequestsCard({
+  usage,
+  loading,
+  modelPrices,
+  authFileNames,
+  timeRange = null,
+  onTimeRangeChange
+}: UsageRequestsCardProps) {
+  const { t, i18n } = useTranslation();
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [filters, setFilters] = useState<UsageRequestFilters>(DEFAULT_USAGE_REQUEST_FILTERS);
+  const [sort, setSort] = useState<UsageRequestSort | null>(DEFAULT_USAGE_REQUEST_SORT);
+  const hasPrices = Object.keys(modelPrices).length > 0;
+
+  const resolveAuthFile = useMemo(
+    () => (authIndex: string) => authFileNames.get(authIndex) ?? authIndex,
+    [authFileNames]
+  );
+
+  const rows = useMemo(() => collectUsageRequests(usage, modelPrices), [usage, modelPrices]);
+  const activeFilters = useMemo(() => ({ ...filters, timeRange }), [filters, timeRange]);
+  const visibleRows = useMemo(
+    () =>
+      sortUsageRequests(
+        filterUsageRequests(rows, activeFilters, resolveAuthFile),
+        sort,
+        resolveAuthFile
+      ),
+    [rows, activeFilters, sort, resolveAuthFile]
+  );
+
+  const { currentPage, totalPages, pageSize, currentItems, goToPage, setPageSize } = usePagination(
+    visibleRows,
+    PAGE_SIZES[1]
+  );
+  const virtual = useVirtualRows({
+    count: currentItems.length,
+    rowHeight: ROW_HEIGHT,
+    viewportHeight: VIEWPORT_HEIGHT
+  });
+
+  const resetView = () => {
+    goToPage(1);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  };
+
+  const updateFilters = (patch: Partial<UsageRequestFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    resetView();
+  };
+
+  const handleSort = (key: UsageRequestSortKey) => {
+    setSort(nextSort(sort, key));
+    resetView();
+  };
+
+  const handlePageChange = (page: number) => {
+    goToPage(page);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([usageRequestsToCsv(visibleRows, resolveAuthFile)], {
+      type: 'text/csv;charset=utf-8'
+    });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `usage-requests-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // 点击单元格将其值设为该列的过滤条件，便于逐层下钻
+  const renderDrillDown = (key: TextFilterKey, value: string, label = value) =>
+    value ? (
+      <button
+        type="button"
+        className={styles.requestDrillDown}
+        onClick={() => updateFilters({ [key]: value })}
+        title={t('usage_stats.requests.drill_down', { value: label })}
+      >
+        {label}
+      </button>
+    ) : (
+      <span className={styles.requestMuted}>--</span>
+    );
+
+  const renderCell = (row: UsageRequestRow, key: UsageRequestSortKey) => {
+    switch (key) {
+      case 'timestamp':
+        return formatUnixTimestamp(row.timestamp, i18n.language);
+      case 'model':
+      case 'endpoint':
+      case 'source':
+        return renderDrillDown(key, row[key]);
+      case 'authFile':
+        return row.authIndex
+          ? renderDrillDown('authFile', row.authIndex, resolveAuthFile(row.authIndex))
+          : renderDrillDown('authFile', '');
+      case 'cost':
+        return row.cost > 0 ? formatUsd(row.cost) : '--';
+      case 'failed':
+        return (
+          <span
+            className={`${styles.requestStatus} ${row.failed ? styles.requestStatusFailed : ''}`}
+          >
+            {row.failed ? t('usage_stats.requests.failed') : t('usage_stats.requests.success')}
+          </span>
+        );
+      default:
+        return formatCompactNumber(row[key]);
+    }
+  };
+
+  const handleClearFilters = () => {
+    updateFilters(DEFAULT_USAGE_REQUEST_FILTERS);
+    onTimeRangeChange?.(null);
+  };
+
+  const columns = hasPrices ? COLUMNS : COLUMNS.filter((key) => key !== 'cost');
+  const activeFilterCount = countActiveUsageRequestFilters(activeFilters);
+
+  return (
+    <Card
+      title={t('usage_stats.requests.title')}
+      extra={
+        <Button variant="secondary" size="sm" onClick={handleExport} disabled={!visibleRows.length}>
+          {t('usage_stats.requests.export_csv')}
+        </Button>
+      }
+    >
+      {loading ? (
+        <div className={styles.hint}>{t('common.loading')}</div>
+      ) : (
+        <div className={styles.requests}>
+          <div className={styles.requestFilters}>
+            {TEXT_FILTERS.map((key) => (
+              <input
+                key={key}
+                className="input"
+                value={filters[key]}
+                onChange={(event) => updateFilters({ [key]: event.target.value })}
+                placeholder={t(`usage_stats.requests.columns.${key}`)}
+                aria-label={t(`usage_stats.requests.columns.${key}`)}
+              />
+            ))}
+            <input
+              type="number"
+              min={0}
+              className="input"
+              value={filters.minTokens ?? ''}
+              onChange={(event) => {
+                const value = Number.parseInt(event.target.value, 10);
+                updateFilters({ minTokens: Number.isFinite(value) && value >= 0 ? value : null });
+              }}
+              placeholder={t('usage_stats.requests.min_tokens')}
+              aria-label={t('usage_stats.requests.min_tokens')}
+            />
+            <select
+              className={styles.select}
+              value={filters.status}
+              onChange={(event) =>
+                updateFilters({ status: event.target.value as UsageRequestStatusFilter })
+              }
+              aria-label={t('usage_stats.requests.columns.failed')}
+            >
+              {STATUS_FILTERS.map((status) => (
+                <option key={status} value={status}>
+                  {t(`usage_stats.requests.status_${status}`)}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleClearFilters}
+              disabled={!activeFilterCount}
+            >
+              {t('usage_stats.requests.clear_filters')}
+            </Button>
+          </div>
+
+          {timeRange && (
+            <div className={styles.requestTimeFilter}>
+              <span className="pill">
+                {t('usage_stats.requests.time_filter', {
+                  from: formatUnixTimestamp(timeRange.start, i18n.language),
+                  to: formatUnixTimestamp(timeRange.end, i18n.language)
+                })}
+              </span>
+              {onTimeRangeChange && (
+                <Button variant="ghost" size="sm" onClick={() => onTimeRangeChange(null)}>
+                  {t('usage_stats.requests.clear_time_filter')}
+                </Button>
+              )}
+            </div>
+          )}
+
+          <div className={styles.hint}>
+            {t('usage_stats.requests.summary', {
+              shown: visibleRows.length.toLocaleString(),
+              total: rows.length.toLocaleString()
+            })}
+          </div>
+
+          {visibleRows.length === 0 ? (
+            <div className={styles.hint}>{t('usage_stats.no_data')}</div>
+          ) : (
+            <div
+              ref={scrollRef}
+              className={`${styles.tableWrapper} ${styles.requestScroll}`}
+              style={{ maxHeight: VIEWPORT_HEIGHT }}
+              onScroll={virtual.onScroll}
+            >
+              <table className={`${styles.table} ${styles.requestTable}`}>
+                <thead>
+                  <tr>
+                    {columns.map((key) => {
+                      const active = sort?.key === key;
+                      return (
+                        <th
+                          key={key}
+                          aria-sort={
+                            active
+                              ? sort.direction === 'asc'
+                                ? 'ascending'
+                                : 'descending'
+                              : 'none'
+                          }
+                        >
+                          <button
+                            type="button"
+                            className={styles.requestSortButton}
+                            onClick={() => handleSort(key)}
+                          >
+                            {t(`usage_stats.requests.columns.${key}`)}
+                            <span className={styles.requestSortIndicator}>
+                              {active ? (sort.direction === 'asc' ? '▲' : '▼') : '↕'}
+                            </span>
+                          </button>
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {virtual.paddingTop > 0 && (
+                    <tr aria-hidden="true" style={{ height: virtual.paddingTop }} />
+                  )}
+                  {currentItems.slice(virtual.start, virtual.end).map((row) => (
+                    <tr
+                      key={row.id}
+                      className={row.failed ? styles.requestRowFailed : undefined}
+                      style={{ height: ROW_HEIGHT }}
+                    >
+                      {columns.map((key) => (
+                        <td key={key}>{renderCell(row, key)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                  {virtual.paddingBottom > 0 && (
+                    <tr aria-hidden="true" style={{ height: virtual.paddingBottom }} />
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {visibleRows.length > 0 && (
+            <div className={styles.requestPagination}>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handlePageChange(currentPage - 1)}
+                disabled={currentPage <= 1}
+              >
+                {t('usage_stats.requests.prev_page')}
+              </Button>
+              <span className={styles.requestPageInfo}>
+                {t('usage_stats.requests.page_info', { current: currentPage, total: totalPages })}
+              </span>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handlePageChange(currentPage + 1)}
+                disabled={currentPage >= totalPages}
+              >
+                {t('usage_stats.requests.next_page')}
+              </Button>
+              <select
+                className={styles.select}
+                value={pageSize}
+                onChange={(event) => {
+                  setPageSize(Number(event.target.value));
+                  if (scrollRef.current) scrollRef.current.scrollTop = 0;
+                }}
+                aria-label={t('usage_stats.requests.page_size')}
+              >
+                {PAGE_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {t('usage_stats.requests.page_size_option', { size })}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
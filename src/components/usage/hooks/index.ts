@@ -6,3 +6,12 @@ export type { SparklineData, SparklineBundle, UseSparklinesOptions, UseSparkline
 
 export { useChartData } from './useChartData';
 export type { UseChartDataOptions, UseChartDataReturn } from './useChartData';
+
+export { useAuthFileNames } from './useAuthFileNames';
+export type { UseAuthFileNamesReturn } from './useAuthFileNames';
+
+export { useUsageLogLines } from './useUsageLogLines';
+export type { UseUsageLogLinesReturn } from './useUsageLogLines';
+
+export { useUsageBudgets, describeUsageBudget, formatBudgetValue } from './useUsageBudgets';
+export type { UseUsageBudgetsOptions, UseUsageBudgetsReturn } from './useUsageBudgets';
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { authFilesApi } from '@/services/api/authFiles';
+import { normalizeAuthIndexValue } from '@/utils/quota';
+
+export interface UseAuthFileNamesReturn {
+  /** auth_index → 认证文件名 */
+  authFileNames: Map<string, string>;
+  /** auth_index → 提供商（provider 或 type） */
+  authFileProviders: Map<string, string>;
+}
+
+/**
+ * 加载认证文件列表，用于将使用明细中的 auth_index 显示为文件名或归属到提供商
+ * @param loadedAt 使用统计的加载时间，变化时重新加载；为 0（尚未加载）时不请求
+ */
+export function useAuthFileNames(loadedAt: number): UseAuthFileNamesReturn {
+  const [authFileNames, setAuthFileNames] = useState<Map<string, string>>(() => new Map());
+  const [authFileProviders, setAuthFileProviders] = useState<Map<string, string>>(() => new Map());
+
+  useEffect(() => {
+    if (!loadedAt) return;
+    let cancelled = false;
+    authFilesApi
+      .list()
+      .then((data) => {
+        if (cancelled) return;
+        const names = new Map<string, string>();
+        const providers = new Map<string, string>();
+        (data?.files || []).forEach((file) => {
+          const authIndex = normalizeAuthIndexValue(file['auth_index'] ?? file.authIndex);
+          if (!authIndex) return;
+          if (file.name) {
+            names.set(authIndex, file.name);
+          }
+          const provider = String(file.provider || file.type || '').trim();
+          if (provider) {
+            providers.set(authIndex, provider);
+          }
+        });
+        setAuthFileNames(names);
+        setAuthFileProviders(providers);
+      })
+      .catch(() => {
+        // 认证文件列表仅用于显示名称，加载失败时回退为原始 auth_index
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadedAt]);
+
+  return { authFileNames, authFileProviders };
+}
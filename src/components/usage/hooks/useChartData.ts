@@ -2,6 +2,8 @@ import { useState, useMemo } from 'react';
 import type { ChartOptions } from 'chart.js';
 import { buildChartData, type ChartData } from '@/utils/usage';
 import { buildChartOptions } from '@/utils/usage/chartConfig';
+import { withPreviousPeriod, type UsageTimeRange } from '@/utils/usage/range';
+import { withAnomalyMarkers, type UsageAnomaly } from '@/utils/usage/anomalies';
 import type { UsagePayload } from './useUsageData';
 
 export interface UseChartDataOptions {
@@ -9,6 +11,15 @@ export interface UseChartDataOptions {
   chartLines: string[];
   isDark: boolean;
   isMobile: boolean;
+  /** 当前选择的时间范围，null 表示全部 */
+  range?: UsageTimeRange | null;
+  /** 对比模式下上一周期的数据与范围 */
+  previousUsage?: UsagePayload | null;
+  previousRange?: UsageTimeRange | null;
+  previousLabel?: string;
+  /** 按小时显示时在图表上标记的异常 */
+  anomalies?: UsageAnomaly[];
+  anomalyLabel?: string;
 }
 
 export interface UseChartDataReturn {
@@ -22,24 +33,78 @@ export interface UseChartDataReturn {
   tokensChartOptions: ChartOptions<'line'>;
 }
 
+const NO_ANOMALIES: UsageAnomaly[] = [];
+
 export function useChartData({
   usage,
   chartLines,
   isDark,
-  isMobile
+  isMobile,
+  range = null,
+  previousUsage = null,
+  previousRange = null,
+  previousLabel = '',
+  anomalies = NO_ANOMALIES,
+  anomalyLabel = ''
 }: UseChartDataOptions): UseChartDataReturn {
   const [requestsPeriod, setRequestsPeriod] = useState<'hour' | 'day'>('day');
   const [tokensPeriod, setTokensPeriod] = useState<'hour' | 'day'>('day');
 
   const requestsChartData = useMemo(() => {
     if (!usage) return { labels: [], datasets: [] };
-    return buildChartData(usage, requestsPeriod, 'requests', chartLines);
-  }, [usage, requestsPeriod, chartLines]);
+    const built = buildChartData(usage, requestsPeriod, 'requests', chartLines, range);
+    const current =
+      requestsPeriod === 'hour'
+        ? withAnomalyMarkers(built, anomalies, ['requests', 'failureRate'], anomalyLabel)
+        : built;
+    if (!previousUsage || !previousRange) return current;
+    const previous = buildChartData(
+      previousUsage,
+      requestsPeriod,
+      'requests',
+      chartLines,
+      previousRange
+    );
+    return withPreviousPeriod(current, previous, previousLabel);
+  }, [
+    usage,
+    requestsPeriod,
+    chartLines,
+    range,
+    previousUsage,
+    previousRange,
+    previousLabel,
+    anomalies,
+    anomalyLabel
+  ]);
 
   const tokensChartData = useMemo(() => {
     if (!usage) return { labels: [], datasets: [] };
-    return buildChartData(usage, tokensPeriod, 'tokens', chartLines);
-  }, [usage, tokensPeriod, chartLines]);
+    const built = buildChartData(usage, tokensPeriod, 'tokens', chartLines, range);
+    const current =
+      tokensPeriod === 'hour'
+        ? withAnomalyMarkers(built, anomalies, ['tokens'], anomalyLabel)
+        : built;
+    if (!previousUsage || !previousRange) return current;
+    const previous = buildChartData(
+      previousUsage,
+      tokensPeriod,
+      'tokens',
+      chartLines,
+      previousRange
+    );
+    return withPreviousPeriod(current, previous, previousLabel);
+  }, [
+    usage,
+    tokensPeriod,
+    chartLines,
+    range,
+    previousUsage,
+    previousRange,
+    previousLabel,
+    anomalies,
+    anomalyLabel
+  ]);
 
   const requestsChartOptions = useMemo(
     () =>
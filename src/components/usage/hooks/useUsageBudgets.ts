@@ -0,0 +1,98 @@
+import { useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { useNotificationStore, useUsageBudgetsStore } from '@/stores';
+import { formatCompactNumber, formatUsd, type ModelPrice } from '@/utils/usage';
+import {
+  collectBudgetAlerts,
+  evaluateBudgets,
+  type BudgetAlertMark,
+  type UsageBudget,
+  type UsageBudgetStatus
+} from '@/utils/usage/budgets';
+import type { UsagePayload } from './useUsageData';
+
+export interface UseUsageBudgetsOptions {
+  usage: UsagePayload | null;
+  modelPrices: Record<string, ModelPrice>;
+  /** 使用统计的加载时间，作为计算当前周期的“现在” */
+  loadedAt: number;
+  /** auth_index → 提供商 */
+  authFileProviders: Map<string, string>;
+}
+
+export interface UseUsageBudgetsReturn {
+  budgets: UsageBudget[];
+  statuses: UsageBudgetStatus[];
+}
+
+/**
+ * 预算名称，例如 “模型 gpt-5 · 每月费用”
+ */
+export function describeUsageBudget(budget: UsageBudget, t: TFunction): string {
+  const scope =
+    budget.scope === 'global'
+      ? t('usage_stats.budgets.scope_global')
+      : `${t(`usage_stats.budgets.scope_${budget.scope}`)} ${budget.target}`;
+  return `${scope} · ${t(`usage_stats.budgets.${budget.period}_${budget.metric}`)}`;
+}
+
+export function formatBudgetValue(budget: UsageBudget, value: number): string {
+  return budget.metric === 'cost' ? formatUsd(value) : formatCompactNumber(value);
+}
+
+/**
+ * 计算各预算当前周期的进度，并在越过 80%/100% 阈值时提醒（每个周期每个阈值一次）
+ */
+export function useUsageBudgets({
+  usage,
+  modelPrices,
+  loadedAt,
+  authFileProviders
+}: UseUsageBudgetsOptions): UseUsageBudgetsReturn {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const budgets = useUsageBudgetsStore((state) => state.budgets);
+  const markAlerted = useUsageBudgetsStore((state) => state.markAlerted);
+
+  // 使用统计尚未加载时也列出预算（用量为 0），以便管理
+  const statuses = useMemo(
+    () =>
+      evaluateBudgets(
+        usage,
+        budgets,
+        { modelPrices, resolveProvider: (authIndex) => authFileProviders.get(authIndex) },
+        loadedAt || undefined
+      ),
+    [usage, budgets, modelPrices, authFileProviders, loadedAt]
+  );
+
+  useEffect(() => {
+    if (!usage) return;
+    const alerts = collectBudgetAlerts(statuses, useUsageBudgetsStore.getState().alertMarks);
+    if (!alerts.length) return;
+
+    const marks: Record<string, BudgetAlertMark> = {};
+    alerts.forEach(({ status, threshold }) => {
+      const { budget } = status;
+      marks[budget.id] = { periodStart: status.range.start, threshold };
+      showNotification(
+        t(
+          threshold >= 1
+            ? 'usage_stats.budgets.alert_exceeded'
+            : 'usage_stats.budgets.alert_warning',
+          {
+            name: describeUsageBudget(budget, t),
+            used: formatBudgetValue(budget, status.used),
+            limit: formatBudgetValue(budget, budget.limit),
+            percent: Math.round(status.ratio * 100)
+          }
+        ),
+        threshold >= 1 ? 'error' : 'warning'
+      );
+    });
+    markAlerted(marks);
+  }, [usage, statuses, showNotification, markAlerted, t]);
+
+  return { budgets, statuses };
+}
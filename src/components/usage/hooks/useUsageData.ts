@@ -3,6 +3,12 @@ import { useTranslation } from 'react-i18next';
 import { useNotificationStore } from '@/stores';
 import { usageApi } from '@/services/api/usage';
 import { loadModelPrices, saveModelPrices, type ModelPrice } from '@/utils/usage';
+import {
+  buildUsageImportPayload,
+  parseUsageSnapshotFile,
+  type UsageImportFile,
+  type UsageImportSelection
+} from '@/utils/usage/importPreview';
 
 export interface UsagePayload {
   total_requests?: number;
@@ -17,6 +23,8 @@ export interface UseUsageDataReturn {
   usage: UsagePayload | null;
   loading: boolean;
   error: string;
+  /** 最近一次成功加载的时间（毫秒），用于计算“今天/最近 N 天”等相对范围 */
+  loadedAt: number;
   modelPrices: Record<string, ModelPrice>;
   setModelPrices: (prices: Record<string, ModelPrice>) => void;
   loadUsage: () => Promise<void>;
@@ -24,6 +32,10 @@ export interface UseUsageDataReturn {
   handleImport: () => void;
   handleImportChange: (event: React.ChangeEvent<HTMLInputElement>) => Promise<void>;
   importInputRef: React.RefObject<HTMLInputElement | null>;
+  /** 已选择、等待预览确认的快照文件 */
+  importFiles: UsageImportFile[];
+  cancelImport: () => void;
+  confirmImport: (selection: UsageImportSelection) => Promise<void>;
   exporting: boolean;
   importing: boolean;
 }
@@ -35,9 +47,11 @@ export function useUsageData(): UseUsageDataReturn {
   const [usage, setUsage] = useState<UsagePayload | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [loadedAt, setLoadedAt] = useState(0);
   const [modelPrices, setModelPrices] = useState<Record<string, ModelPrice>>({});
   const [exporting, setExporting] = useState(false);
   const [importing, setImporting] = useState(false);
+  const [importFiles, setImportFiles] = useState<UsageImportFile[]>([]);
   const importInputRef = useRef<HTMLInputElement | null>(null);
 
   const loadUsage = useCallback(async () => {
@@ -47,6 +61,7 @@ export function useUsageData(): UseUsageDataReturn {
       const data = await usageApi.getUsage();
       const payload = data?.usage ?? data;
       setUsage(payload);
+      setLoadedAt(Date.now());
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : t('usage_stats.loading_error');
       setError(message);
@@ -93,22 +108,49 @@ export function useUsageData(): UseUsageDataReturn {
     importInputRef.current?.click();
   };
 
+  // 先在本地解析所选文件，确认预览后再提交
   const handleImportChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files ?? []);
     event.target.value = '';
-    if (!file) return;
+    if (!files.length) return;
 
     setImporting(true);
     try {
-      const text = await file.text();
-      let payload: unknown;
-      try {
-        payload = JSON.parse(text);
-      } catch {
+      const parsed = await Promise.all(
+        files.map(async (file) => parseUsageSnapshotFile(file.name, await file.text()))
+      );
+      if (!parsed.some((file) => file.usage)) {
         showNotification(t('usage_stats.import_invalid'), 'error');
         return;
       }
+      setImportFiles(parsed);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(
+        `${t('notification.upload_failed')}${message ? `: ${message}` : ''}`,
+        'error'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const cancelImport = () => {
+    setImportFiles([]);
+  };
 
+  const confirmImport = async (selection: UsageImportSelection) => {
+    const payload = buildUsageImportPayload(
+      importFiles.map((file) => file.usage),
+      selection
+    );
+    if (!payload.usage.total_requests) {
+      showNotification(t('usage_stats.import_preview.nothing_selected'), 'warning');
+      return;
+    }
+
+    setImporting(true);
+    try {
       const result = await usageApi.importUsage(payload);
       showNotification(
         t('usage_stats.import_success', {
@@ -119,6 +161,7 @@ export function useUsageData(): UseUsageDataReturn {
         }),
         'success'
       );
+      setImportFiles([]);
       await loadUsage();
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : '';
@@ -140,6 +183,7 @@ export function useUsageData(): UseUsageDataReturn {
     usage,
     loading,
     error,
+    loadedAt,
     modelPrices,
     setModelPrices: handleSetModelPrices,
     loadUsage,
@@ -147,6 +191,9 @@ export function useUsageData(): UseUsageDataReturn {
     handleImport,
     handleImportChange,
     importInputRef,
+    importFiles,
+    cancelImport,
+    confirmImport,
     exporting,
     importing
   };
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { logsApi } from '@/services/api/logs';
+
+export interface UseUsageLogLinesReturn {
+  /** 服务端日志缓冲区中的原始日志行 */
+  lines: string[];
+  loading: boolean;
+  /** 日志不可用（例如未开启写入日志文件）时为 true */
+  unavailable: boolean;
+}
+
+// 与日志页保持一致的缓冲区上限，避免一次性解析过多日志行
+const MAX_LOG_LINES = 10000;
+
+/**
+ * 加载请求日志，用于将访问日志中的延迟与使用记录关联
+ * @param loadedAt 使用统计的加载时间，变化时重新加载；为 0（尚未加载）时不请求
+ */
+export function useUsageLogLines(loadedAt: number): UseUsageLogLinesReturn {
+  const [lines, setLines] = useState<string[]>([]);
+  const [loadedFor, setLoadedFor] = useState(0);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!loadedAt) return;
+    let cancelled = false;
+    logsApi
+      .fetchLogs()
+      .then((data) => {
+        if (cancelled) return;
+        setLines(Array.isArray(data?.lines) ? data.lines.slice(-MAX_LOG_LINES) : []);
+        setUnavailable(false);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setLines([]);
+        setUnavailable(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedFor(loadedAt);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadedAt]);
+
+  return { lines, loading: Boolean(loadedAt) && loadedFor !== loadedAt, unavailable };
+}
@@ -8,6 +8,15 @@ export type { SparklineData, SparklineBundle, UseSparklinesOptions, UseSparkline
 export { useChartData } from './hooks/useChartData';
 export type { UseChartDataOptions, UseChartDataReturn } from './hooks/useChartData';
 
+export { useAuthFileNames } from './hooks/useAuthFileNames';
+export type { UseAuthFileNamesReturn } from './hooks/useAuthFileNames';
+
+export { useUsageLogLines } from './hooks/useUsageLogLines';
+export type { UseUsageLogLinesReturn } from './hooks/useUsageLogLines';
+
+export { useUsageBudgets } from './hooks/useUsageBudgets';
+export type { UseUsageBudgetsOptions, UseUsageBudgetsReturn } from './hooks/useUsageBudgets';
+
 // Components
 export { StatCards } from './StatCards';
 export type { StatCardsProps } from './StatCards';
@@ -24,5 +33,37 @@ export type { ApiDetailsCardProps } from './ApiDetailsCard';
 export { ModelStatsCard } from './ModelStatsCard';
 export type { ModelStatsCardProps, ModelStat } from './ModelStatsCard';
 
+export { UsageRangePicker } from './UsageRangePicker';
+export type { UsageRangePickerProps } from './UsageRangePicker';
+
+export { UsageBreakdownCard } from './UsageBreakdownCard';
+export type { UsageBreakdownCardProps } from './UsageBreakdownCard';
+
+export { UsageRequestsCard } from './UsageRequestsCard';
+export type { UsageRequestsCardProps } from './UsageRequestsCard';
+
+export { UsageAnomaliesCard } from './UsageAnomaliesCard';
+export type { UsageAnomaliesCardProps } from './UsageAnomaliesCard';
+
+export { UsageImportModal } from './UsageImportModal';
+export type { UsageImportModalProps } from './UsageImportModal';
+
+export { UsageReportModal } from './UsageReportModal';
+export type { UsageReportModalProps } from './UsageReportModal';
+
+export { UsageHeatmapCard } from './UsageHeatmapCard';
+export type { UsageHeatmapCardProps } from './UsageHeatmapCard';
+
+export { UsageLatencyCard } from './UsageLatencyCard';
+export type { UsageLatencyCardProps } from './UsageLatencyCard';
+
+export { UsageBudgetList } from './UsageBudgetList';
+export type { UsageBudgetListProps } from './UsageBudgetList';
+
+export { UsageBudgetsCard } from './UsageBudgetsCard';
+export type { UsageBudgetsCardProps } from './UsageBudgetsCard';
+
+export { DashboardBudgetsCard } from './DashboardBudgetsCard';
+
 export { PriceSettingsCard } from './PriceSettingsCard';
 export type { PriceSettingsCardProps } from './PriceSettingsCard';
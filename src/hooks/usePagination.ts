@@ -20,12 +20,14 @@ export function usePagination<T>(
 
   const totalItems = items.length;
   const totalPages = Math.ceil(totalItems / pageSize) || 1;
+  // 数据变少时当前页可能超出范围，按最后一页处理
+  const safePage = Math.min(currentPage, totalPages);
 
   const currentItems = useMemo(() => {
-    const start = (currentPage - 1) * pageSize;
+    const start = (safePage - 1) * pageSize;
     const end = start + pageSize;
     return items.slice(start, end);
-  }, [items, currentPage, pageSize]);
+  }, [items, safePage, pageSize]);
 
   const goToPage = (page: number) => {
     const validPage = Math.max(1, Math.min(page, totalPages));
@@ -33,11 +35,11 @@ export function usePagination<T>(
   };
 
   const nextPage = () => {
-    goToPage(currentPage + 1);
+    goToPage(safePage + 1);
   };
 
   const prevPage = () => {
-    goToPage(currentPage - 1);
+    goToPage(safePage - 1);
   };
 
   const handleSetPageSize = (size: number) => {
@@ -46,7 +48,7 @@ export function usePagination<T>(
   };
 
   return {
-    currentPage,
+    currentPage: safePage,
     pageSize,
     totalPages,
     totalItems,
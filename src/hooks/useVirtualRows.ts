@@ -0,0 +1,52 @@
+/**
+ * 固定行高的虚拟滚动 Hook
+ * 只渲染滚动容器可视区域附近的行，上下用占位高度撑开滚动条
+ */
+
+import { useCallback, useState } from 'react';
+import type { UIEvent } from 'react';
+
+export interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number;
+  /** 滚动容器的可视高度（像素） */
+  viewportHeight: number;
+  /** 可视区域上下额外渲染的行数 */
+  overscan?: number;
+}
+
+export interface VirtualRowsState {
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  onScroll: (event: UIEvent<HTMLElement>) => void;
+}
+
+export function useVirtualRows({
+  count,
+  rowHeight,
+  viewportHeight,
+  overscan = 8,
+}: VirtualRowsOptions): VirtualRowsState {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const visibleCount = Math.ceil(viewportHeight / rowHeight);
+  // 数据变少时 scrollTop 可能超出范围，按最后一屏计算
+  const maxStart = Math.max(count - visibleCount, 0);
+  const firstVisible = Math.min(Math.floor(scrollTop / rowHeight), maxStart);
+  const start = Math.max(firstVisible - overscan, 0);
+  const end = Math.min(firstVisible + visibleCount + overscan, count);
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+    onScroll,
+  };
+}
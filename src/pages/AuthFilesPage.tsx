@@ -9,7 +9,25 @@ import { Input } from '@/components/ui/Input';
 import { Modal } from '@/components/ui/Modal';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
-import { IconBot, IconDownload, IconInfo, IconTrash2, IconX } from '@/components/ui/icons';
+import {
+  AuthFileBatchProgressModal,
+  AuthFileExpiryTimeline,
+  AuthFileHealthBadge,
+  AuthFileHealthPanel,
+  AuthFileImportModal,
+  AuthFileInspectorModal,
+  useAuthFileBatch,
+  useAuthFileExpiries,
+  type AuthFileHealthEntry
+} from '@/components/authFiles';
+import {
+  IconBot,
+  IconDownload,
+  IconFileText,
+  IconInfo,
+  IconTrash2,
+  IconX
+} from '@/components/ui/icons';
 import { useAuthStore, useNotificationStore, useThemeStore } from '@/stores';
 import { authFilesApi, usageApi } from '@/services/api';
 import { apiClient } from '@/services/api/client';
@@ -17,6 +35,20 @@ import type { AuthFileItem, OAuthModelMappingEntry } from '@/types';
 import type { KeyStats, KeyStatBucket, UsageDetail } from '@/utils/usage';
 import { collectUsageDetails, calculateStatusBarData } from '@/utils/usage';
 import { formatFileSize } from '@/utils/format';
+import {
+  applyRangeSelection,
+  buildAuthFileHealthInput,
+  buildLastRequestMap,
+  buildLastUsedMap,
+  groupRecentUsageByAuthIndex,
+  isAllSelected,
+  readDroppedAuthFiles,
+  OAUTH_EXPIRY_TYPES,
+  scoreAuthFileHealth,
+  type AuthFileBatchAction,
+  type AuthFileImportSource,
+  type AuthFileHealth
+} from '@/utils/authFiles';
 import styles from './AuthFilesPage.module.scss';
 
 type ThemeColors = { bg: string; text: string; border?: string };
@@ -81,7 +113,6 @@ const OAUTH_PROVIDER_PRESETS = [
 const OAUTH_PROVIDER_EXCLUDES = new Set(['all', 'unknown', 'empty']);
 const MIN_CARD_PAGE_SIZE = 3;
 const MAX_CARD_PAGE_SIZE = 30;
-const MAX_AUTH_FILE_SIZE = 50 * 1024;
 
 const clampCardPageSize = (value: number) =>
   Math.min(MAX_CARD_PAGE_SIZE, Math.max(MIN_CARD_PAGE_SIZE, Math.round(value)));
@@ -172,7 +203,6 @@ export function AuthFilesPage() {
   const [search, setSearch] = useState('');
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(9);
-  const [uploading, setUploading] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [deletingAll, setDeletingAll] = useState(false);
   const [keyStats, setKeyStats] = useState<KeyStats>({ bySource: {}, byAuthIndex: {} });
@@ -182,6 +212,13 @@ export function AuthFilesPage() {
   const [detailModalOpen, setDetailModalOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<AuthFileItem | null>(null);
 
+  // 内容检查与编辑弹窗
+  const [inspectFile, setInspectFile] = useState<AuthFileItem | null>(null);
+
+  // 导入审查弹窗（选择或拖放的文件、文件夹与 zip）
+  const [importSources, setImportSources] = useState<AuthFileImportSource[] | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+
   // 模型列表弹窗相关
   const [modelsModalOpen, setModelsModalOpen] = useState(false);
   const [modelsLoading, setModelsLoading] = useState(false);
@@ -207,7 +244,20 @@ export function AuthFilesPage() {
   });
   const [savingMappings, setSavingMappings] = useState(false);
 
+  // 批量选择与批量操作
+  const [selectedNames, setSelectedNames] = useState<Set<string>>(() => new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [batchPriority, setBatchPriority] = useState('');
+  const batch = useAuthFileBatch();
+
+  // 健康评分相关
+  const [sessionLastUsed, setSessionLastUsed] = useState<Map<string, number> | null>(null);
+  const [healthCheckedAt, setHealthCheckedAt] = useState(0);
+  const [sortMode, setSortMode] = useState<'default' | 'health'>('default');
+  const [healthFilter, setHealthFilter] = useState<'all' | 'attention'>('all');
+
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
   const loadingKeyStatsRef = useRef(false);
   const excludedUnsupportedRef = useRef(false);
   const mappingsUnsupportedRef = useRef(false);
@@ -263,6 +313,7 @@ export function AuthFilesPage() {
       // 收集 usage 明细用于状态栏
       const details = collectUsageDetails(usageData);
       setUsageDetails(details);
+      setHealthCheckedAt(Date.now());
     } catch {
       // 静默失败
     } finally {
@@ -270,6 +321,18 @@ export function AuthFilesPage() {
     }
   }, []);
 
+  // 加载会话绑定（最近使用时间），旧版本后端不支持时忽略
+  const loadSessionBindings = useCallback(async () => {
+    try {
+      const res = await authFilesApi.listSessionBindings();
+      setSessionLastUsed(buildLastUsedMap(res?.bindings ?? []));
+    } catch {
+      setSessionLastUsed(null);
+    } finally {
+      setHealthCheckedAt(Date.now());
+    }
+  }, []);
+
   // 加载 OAuth 排除列表
   const loadExcluded = useCallback(async () => {
     try {
@@ -323,17 +386,24 @@ export function AuthFilesPage() {
   }, [showNotification, t]);
 
   const handleHeaderRefresh = useCallback(async () => {
-    await Promise.all([loadFiles(), loadKeyStats(), loadExcluded(), loadModelMappings()]);
-  }, [loadFiles, loadKeyStats, loadExcluded, loadModelMappings]);
+    await Promise.all([
+      loadFiles(),
+      loadKeyStats(),
+      loadSessionBindings(),
+      loadExcluded(),
+      loadModelMappings()
+    ]);
+  }, [loadFiles, loadKeyStats, loadSessionBindings, loadExcluded, loadModelMappings]);
 
   useHeaderRefresh(handleHeaderRefresh);
 
   useEffect(() => {
     loadFiles();
     loadKeyStats();
+    loadSessionBindings();
     loadExcluded();
     loadModelMappings();
-  }, [loadFiles, loadKeyStats, loadExcluded, loadModelMappings]);
+  }, [loadFiles, loadKeyStats, loadSessionBindings, loadExcluded, loadModelMappings]);
 
   // 定时刷新状态数据（每240秒）
   useInterval(loadKeyStats, 240_000);
@@ -402,9 +472,52 @@ export function AuthFilesPage() {
     return [...OAUTH_PROVIDER_PRESETS, ...extraList];
   }, [excluded, files, modelMappings]);
 
+  // 健康评分：最近 24 小时失败率、额度状态、不可用标记和最近使用时间
+  const healthByName = useMemo(() => {
+    const result = new Map<string, AuthFileHealth>();
+    if (!healthCheckedAt) return result;
+    const recent = groupRecentUsageByAuthIndex(usageDetails, healthCheckedAt);
+    const lastRequests = buildLastRequestMap(usageDetails);
+    files.forEach((file) => {
+      const input = buildAuthFileHealthInput(
+        file,
+        recent,
+        sessionLastUsed,
+        healthCheckedAt,
+        lastRequests
+      );
+      result.set(file.name, scoreAuthFileHealth(input, healthCheckedAt));
+    });
+    return result;
+  }, [files, usageDetails, sessionLastUsed, healthCheckedAt]);
+
+  // 需要处理的认证文件（虚拟认证文件无法删除，不给出删除建议）
+  const attentionEntries = useMemo(() => {
+    const entries: AuthFileHealthEntry[] = [];
+    files.forEach((file) => {
+      const health = healthByName.get(file.name);
+      if (!health?.suggestion) return;
+      if (health.suggestion === 'delete' && isRuntimeOnlyAuthFile(file)) return;
+      entries.push({ file, health });
+    });
+    return entries.sort((a, b) => a.health.score - b.health.score);
+  }, [files, healthByName]);
+
+  // 令牌过期时间轴：仅检查 OAuth 类型的磁盘文件
+  const expiryTargets = useMemo(
+    () =>
+      files.filter(
+        (file) =>
+          !isRuntimeOnlyAuthFile(file) &&
+          OAUTH_EXPIRY_TYPES.has(String(file.type || '').toLowerCase())
+      ),
+    [files]
+  );
+  const expiries = useAuthFileExpiries(expiryTargets, connectionStatus === 'connected');
+
   // 过滤和搜索
   const filtered = useMemo(() => {
-    return files.filter((item) => {
+    const result = files.filter((item) => {
       const matchType = filter === 'all' || item.type === filter;
       const term = search.trim().toLowerCase();
       const matchSearch =
@@ -412,9 +525,25 @@ export function AuthFilesPage() {
         item.name.toLowerCase().includes(term) ||
         (item.type || '').toString().toLowerCase().includes(term) ||
         (item.provider || '').toString().toLowerCase().includes(term);
-      return matchType && matchSearch;
+      const matchHealth =
+        healthFilter === 'all' || (healthByName.get(item.name)?.level ?? 'healthy') !== 'healthy';
+      return matchType && matchSearch && matchHealth;
     });
-  }, [files, filter, search]);
+    if (sortMode === 'health') {
+      // 健康分低的排在前面，未评分的排在最后
+      const scoreOf = (item: AuthFileItem) => healthByName.get(item.name)?.score ?? 101;
+      result.sort((a, b) => scoreOf(a) - scoreOf(b));
+    }
+    return result;
+  }, [files, filter, search, healthFilter, sortMode, healthByName]);
+
+  const filteredNames = useMemo(() => filtered.map((item) => item.name), [filtered]);
+  // 仅保留仍存在于列表中的已选文件
+  const selectedFiles = useMemo(
+    () => files.filter((item) => selectedNames.has(item.name)),
+    [files, selectedNames]
+  );
+  const allFilteredSelected = isAllSelected(selectedNames, filteredNames);
 
   // 分页计算
   const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
@@ -427,71 +556,52 @@ export function AuthFilesPage() {
     fileInputRef.current?.click();
   };
 
-  // 处理文件上传（支持多选）
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const fileList = event.target.files;
-    if (!fileList || fileList.length === 0) return;
+  const handleFolderClick = () => {
+    folderInputRef.current?.click();
+  };
 
-    const filesToUpload = Array.from(fileList);
-    const validFiles: File[] = [];
-    const invalidFiles: string[] = [];
-    const oversizedFiles: string[] = [];
-
-    filesToUpload.forEach((file) => {
-      if (!file.name.endsWith('.json')) {
-        invalidFiles.push(file.name);
-        return;
-      }
-      if (file.size > MAX_AUTH_FILE_SIZE) {
-        oversizedFiles.push(file.name);
-        return;
-      }
-      validFiles.push(file);
-    });
-
-    if (invalidFiles.length > 0) {
-      showNotification(t('auth_files.upload_error_json'), 'error');
-    }
-    if (oversizedFiles.length > 0) {
-      showNotification(
-        t('auth_files.upload_error_size', { maxSize: formatFileSize(MAX_AUTH_FILE_SIZE) }),
-        'error'
+  // 选择的文件、文件夹或 zip 先进入导入审查，确认后再上传
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = event.target.files;
+    if (fileList && fileList.length > 0) {
+      setImportSources(
+        Array.from(fileList).map((file) => ({ file, path: file.webkitRelativePath || file.name }))
       );
     }
+    event.target.value = '';
+  };
 
-    if (validFiles.length === 0) {
-      event.target.value = '';
-      return;
-    }
+  const isFileDrag = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
 
-    setUploading(true);
-    let successCount = 0;
-    const failed: { name: string; message: string }[] = [];
-
-    for (const file of validFiles) {
-      try {
-        await authFilesApi.upload(file);
-        successCount++;
-      } catch (err: unknown) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        failed.push({ name: file.name, message: errorMessage });
-      }
-    }
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (disableControls || !isFileDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    if (!dragActive) setDragActive(true);
+  };
 
-    if (successCount > 0) {
-      const suffix = validFiles.length > 1 ? ` (${successCount}/${validFiles.length})` : '';
-      showNotification(`${t('auth_files.upload_success')}${suffix}`, failed.length ? 'warning' : 'success');
-      await loadFiles();
-      await loadKeyStats();
-    }
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // 进入子元素时也会触发 dragleave，仅在离开容器时取消高亮
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setDragActive(false);
+  };
 
-    if (failed.length > 0) {
-      const details = failed.map((item) => `${item.name}: ${item.message}`).join('; ');
-      showNotification(`${t('notification.upload_failed')}: ${details}`, 'error');
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    if (disableControls || !isFileDrag(event)) return;
+    event.preventDefault();
+    setDragActive(false);
+    try {
+      const sources = await readDroppedAuthFiles(event.dataTransfer);
+      if (sources.length > 0) setImportSources(sources);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : '';
+      showNotification(`${t('auth_files.import.read_failed')}: ${errorMessage}`, 'error');
     }
+  };
 
-    setUploading(false);
-    event.target.value = '';
+  const handleImported = () => {
+    loadFiles();
+    loadKeyStats();
   };
 
   // 删除单个文件
@@ -596,6 +706,75 @@ export function AuthFilesPage() {
     }
   };
 
+  // 勾选文件；按住 Shift 时选中/取消上次勾选到本次之间的所有文件
+  const handleSelectFile = (name: string, checked: boolean, shiftKey: boolean) => {
+    setSelectedNames((prev) =>
+      applyRangeSelection(prev, filteredNames, name, checked, shiftKey ? selectionAnchor : null)
+    );
+    setSelectionAnchor(name);
+  };
+
+  const handleToggleSelectFiltered = () => {
+    setSelectedNames((prev) => {
+      const next = new Set(prev);
+      filteredNames.forEach((name) => {
+        if (allFilteredSelected) {
+          next.delete(name);
+        } else {
+          next.add(name);
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleClearSelection = () => {
+    setSelectedNames(new Set());
+    setSelectionAnchor(null);
+  };
+
+  // 执行批量操作，结束后刷新列表
+  const handleBatch = async (action: AuthFileBatchAction) => {
+    if (!selectedFiles.length || batch.running) return;
+    if (
+      action === 'delete' &&
+      !window.confirm(t('auth_files.batch.delete_confirm', { count: selectedFiles.length }))
+    ) {
+      return;
+    }
+    let priority: number | null = null;
+    if (action === 'priority' && batchPriority.trim()) {
+      priority = Number(batchPriority);
+      if (!Number.isInteger(priority)) {
+        showNotification(t('auth_files.batch.priority_invalid'), 'error');
+        return;
+      }
+    }
+
+    const results = await batch.run(action, selectedFiles, { priority });
+    if (action === 'delete') {
+      const deleted = new Set(
+        results.filter((item) => item.status === 'success').map((item) => item.name)
+      );
+      setSelectedNames((prev) => new Set([...prev].filter((name) => !deleted.has(name))));
+    }
+    if (action !== 'download' && action !== 'refreshQuota') {
+      await loadFiles();
+    }
+  };
+
+  // 按健康建议禁用单个文件
+  const handleDisableSuggested = async (file: AuthFileItem) => {
+    try {
+      await authFilesApi.setDisabled(file.id ?? file.name, true);
+      showNotification(t('auth_files.health.disable_success', { name: file.name }), 'success');
+      await loadFiles();
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : '';
+      showNotification(`${t('notification.update_failed')}: ${errorMessage}`, 'error');
+    }
+  };
+
   // 显示详情弹窗
   const showDetails = (file: AuthFileItem) => {
     setSelectedFile(file);
@@ -923,10 +1102,27 @@ export function AuthFilesPage() {
     const isAistudio = (item.type || '').toLowerCase() === 'aistudio';
     const showModelsButton = !isRuntimeOnly || isAistudio;
     const typeColor = getTypeColor(item.type || 'unknown');
+    const health = healthByName.get(item.name);
 
     return (
-      <div key={item.name} className={styles.fileCard}>
+      <div
+        key={item.name}
+        className={`${styles.fileCard} ${selectedNames.has(item.name) ? styles.fileCardSelected : ''}`}
+      >
         <div className={styles.cardHeader}>
+          <input
+            type="checkbox"
+            className={styles.selectCheckbox}
+            checked={selectedNames.has(item.name)}
+            onChange={(event) =>
+              handleSelectFile(
+                item.name,
+                event.currentTarget.checked,
+                (event.nativeEvent as MouseEvent).shiftKey === true
+              )
+            }
+            aria-label={item.name}
+          />
           <span
             className={styles.typeBadge}
             style={{
@@ -938,6 +1134,10 @@ export function AuthFilesPage() {
             {getTypeLabel(item.type || 'unknown')}
           </span>
           <span className={styles.fileName}>{item.name}</span>
+          {item.disabled && (
+            <span className={styles.disabledBadge}>{t('auth_files.batch.disabled_badge')}</span>
+          )}
+          {health && <AuthFileHealthBadge health={health} />}
         </div>
 
         <div className={styles.cardMeta}>
@@ -982,6 +1182,16 @@ export function AuthFilesPage() {
               >
                 <IconInfo className={styles.actionIcon} size={16} />
               </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setInspectFile(item)}
+                className={styles.iconButton}
+                title={t('auth_files.inspector.button')}
+                disabled={disableControls}
+              >
+                <IconFileText className={styles.actionIcon} size={16} />
+              </Button>
               <Button
                 variant="secondary"
                 size="sm"
@@ -1024,7 +1234,17 @@ export function AuthFilesPage() {
   );
 
   return (
-    <div className={styles.container}>
+    <div
+      className={styles.container}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {dragActive && (
+        <div className={styles.dropOverlay}>
+          <div className={styles.dropOverlayText}>{t('auth_files.import.drop_hint')}</div>
+        </div>
+      )}
       <div className={styles.pageHeader}>
         <h1 className={styles.pageTitle}>{t('auth_files.title')}</h1>
         <p className={styles.description}>{t('auth_files.description')}</p>
@@ -1051,22 +1271,43 @@ export function AuthFilesPage() {
             >
               {filter === 'all' ? t('auth_files.delete_all_button') : `${t('common.delete')} ${getTypeLabel(filter)}`}
             </Button>
-            <Button size="sm" onClick={handleUploadClick} disabled={disableControls || uploading} loading={uploading}>
+            <Button variant="secondary" size="sm" onClick={handleFolderClick} disabled={disableControls}>
+              {t('auth_files.import.folder_button')}
+            </Button>
+            <Button size="sm" onClick={handleUploadClick} disabled={disableControls}>
               {t('auth_files.upload_button')}
             </Button>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json,application/json"
+              accept=".json,.zip,application/json,application/zip"
               multiple
               style={{ display: 'none' }}
               onChange={handleFileChange}
             />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              {...{ webkitdirectory: '' }}
+              style={{ display: 'none' }}
+              onChange={handleFileChange}
+            />
           </div>
         }
       >
         {error && <div className={styles.errorBox}>{error}</div>}
 
+        {/* 需要处理的认证文件 */}
+        {!loading && (
+          <AuthFileHealthPanel
+            entries={attentionEntries}
+            disabled={disableControls}
+            onDisable={handleDisableSuggested}
+            onDelete={handleDelete}
+          />
+        )}
+
         {/* 筛选区域 */}
         <div className={styles.filterSection}>
           {renderFilterTags()}
@@ -1083,6 +1324,34 @@ export function AuthFilesPage() {
                 placeholder={t('auth_files.search_placeholder')}
               />
             </div>
+            <div className={styles.filterItem}>
+              <label>{t('auth_files.health.sort_label')}</label>
+              <select
+                className="input"
+                value={sortMode}
+                onChange={(e) => {
+                  setSortMode(e.target.value === 'health' ? 'health' : 'default');
+                  setPage(1);
+                }}
+              >
+                <option value="default">{t('auth_files.health.sort_default')}</option>
+                <option value="health">{t('auth_files.health.sort_health')}</option>
+              </select>
+            </div>
+            <div className={styles.filterItem}>
+              <label>{t('auth_files.health.filter_label')}</label>
+              <select
+                className="input"
+                value={healthFilter}
+                onChange={(e) => {
+                  setHealthFilter(e.target.value === 'attention' ? 'attention' : 'all');
+                  setPage(1);
+                }}
+              >
+                <option value="all">{t('auth_files.health.filter_all')}</option>
+                <option value="attention">{t('auth_files.health.filter_attention')}</option>
+              </select>
+            </div>
             <div className={styles.filterItem}>
               <label>{t('auth_files.page_size_label')}</label>
               <input
@@ -1097,6 +1366,96 @@ export function AuthFilesPage() {
             </div>
           </div>
         </div>
+
+        {/* 批量操作 */}
+        {!loading && filtered.length > 0 && (
+          <div className={styles.batchToolbar}>
+            <div className={styles.batchSelection}>
+              <Button variant="secondary" size="sm" onClick={handleToggleSelectFiltered}>
+                {allFilteredSelected
+                  ? t('auth_files.batch.deselect_filtered', { count: filtered.length })
+                  : t('auth_files.batch.select_filtered', { count: filtered.length })}
+              </Button>
+              {selectedFiles.length > 0 && (
+                <>
+                  <span className={styles.batchCount}>
+                    {t('auth_files.batch.selected', { count: selectedFiles.length })}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={handleClearSelection}>
+                    {t('auth_files.batch.clear')}
+                  </Button>
+                </>
+              )}
+              {selectedFiles.length === 0 && (
+                <span className={styles.batchCount}>{t('auth_files.batch.shift_hint')}</span>
+              )}
+            </div>
+            {selectedFiles.length > 0 && (
+              <div className={styles.batchActions}>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleBatch('enable')}
+                  disabled={disableControls || batch.running}
+                >
+                  {t('auth_files.batch.actions.enable')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleBatch('disable')}
+                  disabled={disableControls || batch.running}
+                >
+                  {t('auth_files.batch.actions.disable')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleBatch('download')}
+                  disabled={disableControls || batch.running}
+                >
+                  {t('auth_files.batch.actions.download')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleBatch('refreshQuota')}
+                  disabled={disableControls || batch.running}
+                >
+                  {t('auth_files.batch.actions.refreshQuota')}
+                </Button>
+                <div className={styles.batchPriority}>
+                  <input
+                    className={styles.pageSizeSelect}
+                    type="number"
+                    step={1}
+                    value={batchPriority}
+                    onChange={(event) => setBatchPriority(event.target.value)}
+                    placeholder={t('auth_files.batch.priority_placeholder')}
+                    aria-label={t('auth_files.batch.priority_placeholder')}
+                  />
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleBatch('priority')}
+                    disabled={disableControls || batch.running}
+                    title={t('auth_files.batch.priority_hint')}
+                  >
+                    {t('auth_files.batch.actions.priority')}
+                  </Button>
+                </div>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => handleBatch('delete')}
+                  disabled={disableControls || batch.running}
+                >
+                  {t('auth_files.batch.actions.delete')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
 
         {/* 卡片网格 */}
         {loading ? (
@@ -1231,6 +1590,37 @@ export function AuthFilesPage() {
         )}
       </Card>
 
+      {/* 令牌过期时间轴 */}
+      {expiryTargets.length > 0 && (
+        <AuthFileExpiryTimeline
+          entries={expiries.entries}
+          loading={expiries.loading}
+          checkedAt={expiries.checkedAt}
+        />
+      )}
+
+      {/* 批量操作进度 */}
+      <AuthFileBatchProgressModal
+        action={batch.action}
+        items={batch.items}
+        running={batch.running}
+        onClose={batch.reset}
+      />
+
+      {/* 导入审查 */}
+      <AuthFileImportModal
+        sources={importSources}
+        onClose={() => setImportSources(null)}
+        onImported={handleImported}
+      />
+
+      {/* 内容检查与编辑 */}
+      <AuthFileInspectorModal
+        file={inspectFile}
+        onClose={() => setInspectFile(null)}
+        onSaved={loadFiles}
+      />
+
       {/* 详情弹窗 */}
       <Modal
         open={detailModalOpen}
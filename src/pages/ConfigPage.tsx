@@ -4,18 +4,30 @@ import CodeMirror, { ReactCodeMirrorRef } from '@uiw/react-codemirror';
 import { yaml } from '@codemirror/lang-yaml';
 import { search, searchKeymap, highlightSelectionMatches } from '@codemirror/search';
 import { keymap } from '@codemirror/view';
+import { linter, lintGutter } from '@codemirror/lint';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { IconChevronDown, IconChevronUp, IconSearch } from '@/components/ui/icons';
-import { useNotificationStore, useAuthStore, useThemeStore } from '@/stores';
+import {
+  ConfigHistoryModal,
+  ConfigMergeModal,
+  type ConfigMergeSources
+} from '@/components/config';
+import { useNotificationStore, useAuthStore, useThemeStore, useConfigHistoryStore } from '@/stores';
 import { configFileApi } from '@/services/api/configFile';
+import type { ConfigRevision, ConfigRevisionSource } from '@/types';
+import { lintConfigYaml, type ConfigDiagnostic } from '@/utils/configLint';
+import { hasConflictMarkers } from '@/utils/merge';
+import { checkConfigBeforeSave } from './configSaveSupport';
 import styles from './ConfigPage.module.scss';
 
 export function ConfigPage() {
   const { t } = useTranslation();
   const { showNotification } = useNotificationStore();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const apiBase = useAuthStore((state) => state.apiBase);
+  const recordRevision = useConfigHistoryStore((state) => state.recordRevision);
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
 
   const [content, setContent] = useState('');
@@ -23,6 +35,13 @@ export function ConfigPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [dirty, setDirty] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyModalKey, setHistoryModalKey] = useState(0);
+  const [mergeSources, setMergeSources] = useState<ConfigMergeSources | null>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeModalKey, setMergeModalKey] = useState(0);
+  // 编辑器内容所基于的服务器版本，保存前与服务器最新版本比较以发现他人的修改
+  const baseContentRef = useRef<string | null>(null);
 
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
@@ -39,6 +58,7 @@ export function ConfigPage() {
     setError('');
     try {
       const data = await configFileApi.fetchConfigYaml();
+      baseContentRef.current = data;
       setContent(data);
       setDirty(false);
     } catch (err: unknown) {
@@ -53,12 +73,104 @@ export function ConfigPage() {
     loadConfig();
   }, [loadConfig]);
 
+  // 保存成功后依次记录服务器上被覆盖的版本与新版本；保存失败时不写入历史
+  const persistConfig = useCallback(
+    async (next: string, source: ConfigRevisionSource, fetched?: string | null) => {
+      const previous =
+        fetched !== undefined ? fetched : await configFileApi.fetchConfigYaml().catch(() => null);
+      await configFileApi.saveConfigYaml(next);
+      if (previous !== null) {
+        recordRevision(apiBase, previous, 'server');
+      }
+      recordRevision(apiBase, next, source);
+      baseContentRef.current = next;
+    },
+    [apiBase, recordRevision]
+  );
+
+  const openMerge = (sources: ConfigMergeSources) => {
+    setMergeSources(sources);
+    setMergeModalKey((prev) => prev + 1);
+    setMergeOpen(true);
+  };
+
+  // 保存前重新读取服务器版本；若他人已修改，则打开三方合并而不是直接覆盖；
+  // 读取失败时放弃保存，避免在未检查冲突的情况下覆盖服务器版本
+  const saveContent = async (
+    next: string,
+    base: string | null = baseContentRef.current,
+    source: ConfigRevisionSource = 'saved'
+  ): Promise<boolean> => {
+    const check = await checkConfigBeforeSave(() => configFileApi.fetchConfigYaml(), base, next);
+    if (check.status === 'unavailable') {
+      const message = check.error instanceof Error ? check.error.message : '';
+      throw new Error(t('config_management.merge.latest_unavailable', { message }));
+    }
+    if (check.status === 'conflict') {
+      openMerge({ base: check.base, theirs: check.latest, mine: next });
+      return false;
+    }
+    await persistConfig(next, source, check.latest);
+    setContent(next);
+    setDirty(false);
+    return true;
+  };
+
+  // 语义校验结果：语法错误直接阻止保存，其它错误需确认后才保存
+  const diagnostics = useMemo(() => lintConfigYaml(content), [content]);
+  const errorCount = diagnostics.filter((item) => item.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  const describeDiagnostic = useCallback(
+    (diagnostic: ConfigDiagnostic) => {
+      const params =
+        diagnostic.code === 'wrong_type'
+          ? {
+              expected: t(`config_management.lint.types.${diagnostic.params.expected}`),
+              actual: t(`config_management.lint.types.${diagnostic.params.actual}`)
+            }
+          : diagnostic.params;
+      const message = t(`config_management.lint.${diagnostic.code}`, params);
+      return diagnostic.path ? `${diagnostic.path}: ${message}` : message;
+    },
+    [t]
+  );
+
+  const jumpToDiagnostic = () => {
+    const view = editorRef.current?.view;
+    const target = diagnostics.find((item) => item.severity === 'error') ?? diagnostics[0];
+    if (!view || !target) return;
+    view.dispatch({
+      selection: { anchor: target.from, head: target.to },
+      scrollIntoView: true
+    });
+    view.focus();
+  };
+
   const handleSave = async () => {
+    if (hasConflictMarkers(content)) {
+      showNotification(t('config_management.merge.unresolved_markers'), 'error');
+      return;
+    }
+    if (diagnostics.some((item) => item.code === 'syntax')) {
+      showNotification(t('config_management.lint.save_blocked_syntax'), 'error');
+      jumpToDiagnostic();
+      return;
+    }
+    if (
+      errorCount > 0 &&
+      !window.confirm(t('config_management.lint.save_confirm', { count: errorCount }))
+    ) {
+      jumpToDiagnostic();
+      return;
+    }
     setSaving(true);
     try {
-      await configFileApi.saveConfigYaml(content);
-      setDirty(false);
-      showNotification(t('config_management.save_success'), 'success');
+      if (await saveContent(content)) {
+        showNotification(t('config_management.save_success'), 'success');
+      } else {
+        showNotification(t('config_management.merge.detected'), 'warning');
+      }
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : '';
       showNotification(`${t('notification.save_failed')}: ${message}`, 'error');
@@ -67,6 +179,60 @@ export function ConfigPage() {
     }
   };
 
+  // 回滚同样经过冲突检查，避免覆盖他人在此期间的修改
+  const handleRestore = async (revision: ConfigRevision) => {
+    if (await saveContent(revision.content, baseContentRef.current, 'restored')) {
+      showNotification(t('config_management.history.restore_success'), 'success');
+    } else {
+      showNotification(t('config_management.merge.detected'), 'warning');
+    }
+  };
+
+  const handleSaveMerged = async (merged: string, theirs: string) => {
+    try {
+      if (await saveContent(merged, theirs)) {
+        setMergeOpen(false);
+        showNotification(t('config_management.save_success'), 'success');
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(`${t('notification.save_failed')}: ${message}`, 'error');
+    }
+  };
+
+  const handleEditMerged = (merged: string, theirs: string) => {
+    baseContentRef.current = theirs;
+    setContent(merged);
+    setDirty(true);
+    setMergeOpen(false);
+    showNotification(t('config_management.merge.resolve_in_editor'), 'info');
+  };
+
+  const handleOverwrite = async (mine: string) => {
+    try {
+      await persistConfig(mine, 'saved');
+      setContent(mine);
+      setDirty(false);
+      setMergeOpen(false);
+      showNotification(t('config_management.save_success'), 'success');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(`${t('notification.save_failed')}: ${message}`, 'error');
+    }
+  };
+
+  const handleDiscardMine = (theirs: string) => {
+    baseContentRef.current = theirs;
+    setContent(theirs);
+    setDirty(false);
+    setMergeOpen(false);
+  };
+
+  const openHistory = () => {
+    setHistoryModalKey((prev) => prev + 1);
+    setHistoryOpen(true);
+  };
+
   const handleChange = useCallback((value: string) => {
     setContent(value);
     setDirty(true);
@@ -199,8 +365,19 @@ export function ConfigPage() {
     yaml(),
     search(),
     highlightSelectionMatches(),
-    keymap.of(searchKeymap)
-  ], []);
+    keymap.of(searchKeymap),
+    lintGutter(),
+    linter(
+      (view) =>
+        lintConfigYaml(view.state.doc.toString()).map((diagnostic) => ({
+          from: diagnostic.from,
+          to: diagnostic.to,
+          severity: diagnostic.severity,
+          message: describeDiagnostic(diagnostic)
+        })),
+      { delay: 300 }
+    )
+  ], [describeDiagnostic]);
 
   // Status text
   const getStatusText = () => {
@@ -319,10 +496,29 @@ export function ConfigPage() {
 
           {/* Controls */}
           <div className={styles.controls}>
-            <span className={`${styles.status} ${getStatusClass()}`}>
-              {getStatusText()}
-            </span>
+            <div className={styles.statusGroup}>
+              <span className={`${styles.status} ${getStatusClass()}`}>
+                {getStatusText()}
+              </span>
+              {!loading && !error && (
+                <button
+                  type="button"
+                  className={`${styles.lintSummary} ${
+                    errorCount > 0 ? styles.lintError : warningCount > 0 ? styles.lintWarning : styles.lintClean
+                  }`}
+                  onClick={jumpToDiagnostic}
+                  disabled={diagnostics.length === 0}
+                >
+                  {diagnostics.length === 0
+                    ? t('config_management.lint.summary_clean')
+                    : t('config_management.lint.summary', { errors: errorCount, warnings: warningCount })}
+                </button>
+              )}
+            </div>
             <div className={styles.actions}>
+              <Button variant="secondary" size="sm" onClick={openHistory} disabled={disableControls}>
+                {t('config_management.history.open')}
+              </Button>
               <Button variant="secondary" size="sm" onClick={loadConfig} disabled={loading}>
                 {t('config_management.reload')}
               </Button>
@@ -333,6 +529,27 @@ export function ConfigPage() {
           </div>
         </div>
       </Card>
+
+      <ConfigHistoryModal
+        key={historyModalKey}
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        apiBase={apiBase}
+        currentContent={content}
+        dirty={dirty}
+        onRestore={handleRestore}
+      />
+
+      <ConfigMergeModal
+        key={mergeModalKey}
+        open={mergeOpen}
+        onClose={() => setMergeOpen(false)}
+        sources={mergeSources}
+        onSaveMerged={handleSaveMerged}
+        onEditMerged={handleEditMerged}
+        onOverwrite={handleOverwrite}
+        onDiscardMine={handleDiscardMine}
+      />
     </div>
   );
 }
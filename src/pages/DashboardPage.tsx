@@ -7,7 +7,15 @@ import {
   IconFileText,
   IconSatellite
 } from '@/components/ui/icons';
-import { useAuthStore, useConfigStore, useModelsStore } from '@/stores';
+import { FleetOverviewCard } from '@/components/fleet';
+import { DashboardBudgetsCard } from '@/components/usage';
+import {
+  useAuthStore,
+  useConfigStore,
+  useModelsStore,
+  useProfilesStore,
+  useUsageBudgetsStore
+} from '@/stores';
 import { apiKeysApi, providersApi, authFilesApi } from '@/services/api';
 import styles from './DashboardPage.module.scss';
 
@@ -34,6 +42,8 @@ export function DashboardPage() {
   const serverBuildDate = useAuthStore((state) => state.serverBuildDate);
   const apiBase = useAuthStore((state) => state.apiBase);
   const config = useConfigStore((state) => state.config);
+  const profileCount = useProfilesStore((state) => state.profiles.length);
+  const budgetCount = useUsageBudgetsStore((state) => state.budgets.length);
 
   const models = useModelsStore((state) => state.models);
   const modelsLoading = useModelsStore((state) => state.loading);
@@ -270,6 +280,10 @@ export function DashboardPage() {
         ))}
       </div>
 
+      {profileCount > 1 && <FleetOverviewCard />}
+
+      {budgetCount > 0 && connectionStatus === 'connected' && <DashboardBudgetsCard />}
+
       {config && (
         <div className={styles.section}>
           <h2 className={styles.sectionTitle}>{t('dashboard.current_config')}</h2>
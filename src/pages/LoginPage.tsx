@@ -4,8 +4,9 @@ import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { IconEye, IconEyeOff } from '@/components/ui/icons';
-import { useAuthStore, useLanguageStore, useNotificationStore } from '@/stores';
+import { useAuthStore, useLanguageStore, useNotificationStore, useProfilesStore } from '@/stores';
 import { detectApiBaseFromLocation, normalizeApiBase } from '@/utils/connection';
+import { MOCK_API_BASE, MOCK_MANAGEMENT_KEY } from '@/utils/constants';
 
 export function LoginPage() {
   const { t } = useTranslation();
@@ -20,6 +21,7 @@ export function LoginPage() {
   const storedBase = useAuthStore((state) => state.apiBase);
   const storedKey = useAuthStore((state) => state.managementKey);
   const storedRememberPassword = useAuthStore((state) => state.rememberPassword);
+  const profiles = useProfilesStore((state) => state.profiles);
 
   const [apiBase, setApiBase] = useState('');
   const [managementKey, setManagementKey] = useState('');
@@ -27,6 +29,7 @@ export function LoginPage() {
   const [showKey, setShowKey] = useState(false);
   const [rememberPassword, setRememberPassword] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [demoLoading, setDemoLoading] = useState(false);
   const [autoLoading, setAutoLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -76,6 +79,36 @@ export function LoginPage() {
     }
   };
 
+  // 离线演示：连接内置的模拟服务器，无需真实后端
+  const handleDemoLogin = async () => {
+    setDemoLoading(true);
+    setError('');
+    try {
+      await login({
+        apiBase: MOCK_API_BASE,
+        managementKey: MOCK_MANAGEMENT_KEY,
+        rememberPassword
+      });
+      showNotification(t('login.demo_connected'), 'success');
+      navigate('/', { replace: true });
+    } catch (err: unknown) {
+      const message = (err instanceof Error ? err.message : '') || t('login.error_invalid');
+      setError(message);
+      showNotification(`${t('notification.login_failed')}: ${message}`, 'error');
+    } finally {
+      setDemoLoading(false);
+    }
+  };
+
+  const handleProfileSelect = (profileId: string) => {
+    const profile = profiles.find((item) => item.id === profileId);
+    if (!profile) return;
+    setApiBase(profile.apiBase);
+    setManagementKey(profile.managementKey);
+    setShowCustomBase(true);
+    setError('');
+  };
+
   const handleSubmitKeyDown = useCallback(
     (event: React.KeyboardEvent) => {
       if (event.key === 'Enter' && !loading) {
@@ -112,6 +145,27 @@ export function LoginPage() {
           <div className="subtitle">{t('login.subtitle')}</div>
         </div>
 
+        {profiles.length > 0 && (
+          <div className="form-group">
+            <label htmlFor="login-profile-select">{t('login.profile_label')}</label>
+            <select
+              id="login-profile-select"
+              className="input"
+              defaultValue=""
+              onChange={(e) => handleProfileSelect(e.target.value)}
+            >
+              <option value="" disabled>
+                {t('login.profile_placeholder')}
+              </option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label} ({profile.apiBase})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div className="connection-box">
           <div className="label">{t('login.connection_current')}</div>
           <div className="value">{apiBase || detectedBase}</div>
@@ -177,10 +231,23 @@ export function LoginPage() {
           <label htmlFor="remember-password-toggle">{t('login.remember_password_label')}</label>
         </div>
 
-        <Button fullWidth onClick={handleSubmit} loading={loading}>
+        <Button fullWidth onClick={handleSubmit} loading={loading} disabled={demoLoading}>
           {loading ? t('login.submitting') : t('login.submit_button')}
         </Button>
 
+        <div className="login-demo">
+          <Button
+            fullWidth
+            variant="secondary"
+            onClick={handleDemoLogin}
+            loading={demoLoading}
+            disabled={loading}
+          >
+            {t('login.demo_button')}
+          </Button>
+          <div className="hint">{t('login.demo_hint')}</div>
+        </div>
+
         {error && <div className="error-box">{error}</div>}
 
         {autoLoading && (
@@ -1,13 +1,34 @@
 import { useDeferredValue, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import type { PointerEvent as ReactPointerEvent } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  Filler,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+} from 'chart.js';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { Input } from '@/components/ui/Input';
-import { Modal } from '@/components/ui/Modal';
+import {
+  LogAnalyticsPanel,
+  LogFilterBar,
+  LogSavedSearchesModal,
+  LogTable,
+  RequestTraceModal,
+  getLevelClassName,
+  getStatusClassName,
+} from '@/components/logs';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import {
+  IconBell,
   IconDownload,
   IconEyeOff,
   IconRefreshCw,
@@ -17,20 +38,47 @@ import {
   IconX,
 } from '@/components/ui/icons';
 import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
-import { useAuthStore, useConfigStore, useNotificationStore } from '@/stores';
+import {
+  useAuthStore,
+  useConfigStore,
+  useLogSearchesStore,
+  useNotificationStore,
+} from '@/stores';
 import { logsApi } from '@/services/api/logs';
 import { MANAGEMENT_API_PREFIX } from '@/utils/constants';
 import { formatUnixTimestamp } from '@/utils/format';
+import {
+  EMPTY_LOG_FILTERS,
+  countActiveLogFilters,
+  evaluateLogAlerts,
+  matchesLogFilters,
+  parseLogLine,
+  readLogExplorerState,
+  sortLogLines,
+  writeLogExplorerState,
+  type LogAlertHits,
+  type LogExplorerState,
+  type SavedLogSearch,
+} from '@/utils/logs';
 import styles from './LogsPage.module.scss';
 
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  Tooltip,
+  Legend,
+  Filler
+);
+
 interface ErrorLogItem {
   name: string;
   size?: number;
   modified?: number;
 }
 
-type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
-
 type LogState = {
   buffer: string[];
   visibleFrom: number;
@@ -44,295 +92,6 @@ const LOAD_MORE_THRESHOLD_PX = 72;
 const LONG_PRESS_MS = 650;
 const LONG_PRESS_MOVE_THRESHOLD = 10;
 
-const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'] as const;
-type HttpMethod = (typeof HTTP_METHODS)[number];
-const HTTP_METHOD_REGEX = new RegExp(`\\b(${HTTP_METHODS.join('|')})\\b`);
-
-const LOG_TIMESTAMP_REGEX = /^\[?(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?)\]?/;
-const LOG_LEVEL_REGEX = /^\[?(trace|debug|info|warn|warning|error|fatal)\s*\]?(?=\s|\[|$)\s*/i;
-const LOG_SOURCE_REGEX = /^\[([^\]]+)\]/;
-const LOG_LATENCY_REGEX =
-  /\b(?:\d+(?:\.\d+)?\s*(?:µs|us|ms|s|m))(?:\s*\d+(?:\.\d+)?\s*(?:µs|us|ms|s|m))*\b/i;
-const LOG_IPV4_REGEX = /\b(?:\d{1,3}\.){3}\d{1,3}\b/;
-const LOG_IPV6_REGEX = /\b(?:[a-f0-9]{0,4}:){2,7}[a-f0-9]{0,4}\b/i;
-const LOG_REQUEST_ID_REGEX = /^([a-f0-9]{8}|--------)$/i;
-const LOG_TIME_OF_DAY_REGEX = /^\d{1,2}:\d{2}:\d{2}(?:\.\d{1,3})?$/;
-const GIN_TIMESTAMP_SEGMENT_REGEX =
-  /^\[GIN\]\s+(\d{4})\/(\d{2})\/(\d{2})\s*-\s*(\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?)\s*$/;
-
-const HTTP_STATUS_PATTERNS: RegExp[] = [
-  /\|\s*([1-5]\d{2})\s*\|/,
-  /\b([1-5]\d{2})\s*-/,
-  new RegExp(`\\b(?:${HTTP_METHODS.join('|')})\\s+\\S+\\s+([1-5]\\d{2})\\b`),
-  /\b(?:status|code|http)[:\s]+([1-5]\d{2})\b/i,
-  /\b([1-5]\d{2})\s+(?:OK|Created|Accepted|No Content|Moved|Found|Bad Request|Unauthorized|Forbidden|Not Found|Method Not Allowed|Internal Server Error|Bad Gateway|Service Unavailable|Gateway Timeout)\b/i,
-];
-
-const detectHttpStatusCode = (text: string): number | undefined => {
-  for (const pattern of HTTP_STATUS_PATTERNS) {
-    const match = text.match(pattern);
-    if (!match) continue;
-    const code = Number.parseInt(match[1], 10);
-    if (!Number.isFinite(code)) continue;
-    if (code >= 100 && code <= 599) return code;
-  }
-  return undefined;
-};
-
-const extractIp = (text: string): string | undefined => {
-  const ipv4Match = text.match(LOG_IPV4_REGEX);
-  if (ipv4Match) return ipv4Match[0];
-
-  const ipv6Match = text.match(LOG_IPV6_REGEX);
-  if (!ipv6Match) return undefined;
-
-  const candidate = ipv6Match[0];
-
-  // Avoid treating time strings like "12:34:56" as IPv6 addresses.
-  if (LOG_TIME_OF_DAY_REGEX.test(candidate)) return undefined;
-
-  // If no compression marker is present, a valid IPv6 address must contain 8 hextets.
-  if (!candidate.includes('::') && candidate.split(':').length !== 8) return undefined;
-
-  return candidate;
-};
-
-const normalizeTimestampToSeconds = (value: string): string => {
-  const trimmed = value.trim();
-  const match = trimmed.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})/);
-  if (!match) return trimmed;
-  return `${match[1]} ${match[2]}`;
-};
-
-const extractLatency = (text: string): string | undefined => {
-  const match = text.match(LOG_LATENCY_REGEX);
-  if (!match) return undefined;
-  return match[0].replace(/\s+/g, '');
-};
-
-type ParsedLogLine = {
-  raw: string;
-  timestamp?: string;
-  level?: LogLevel;
-  source?: string;
-  requestId?: string;
-  statusCode?: number;
-  latency?: string;
-  ip?: string;
-  method?: HttpMethod;
-  path?: string;
-  message: string;
-};
-
-const extractLogLevel = (value: string): LogLevel | undefined => {
-  const normalized = value.trim().toLowerCase();
-  if (normalized === 'warning') return 'warn';
-  if (normalized === 'warn') return 'warn';
-  if (normalized === 'info') return 'info';
-  if (normalized === 'error') return 'error';
-  if (normalized === 'fatal') return 'fatal';
-  if (normalized === 'debug') return 'debug';
-  if (normalized === 'trace') return 'trace';
-  return undefined;
-};
-
-const inferLogLevel = (line: string): LogLevel | undefined => {
-  const lowered = line.toLowerCase();
-  if (/\bfatal\b/.test(lowered)) return 'fatal';
-  if (/\berror\b/.test(lowered)) return 'error';
-  if (/\bwarn(?:ing)?\b/.test(lowered) || line.includes('警告')) return 'warn';
-  if (/\binfo\b/.test(lowered)) return 'info';
-  if (/\bdebug\b/.test(lowered)) return 'debug';
-  if (/\btrace\b/.test(lowered)) return 'trace';
-  return undefined;
-};
-
-const extractHttpMethodAndPath = (text: string): { method?: HttpMethod; path?: string } => {
-  const match = text.match(HTTP_METHOD_REGEX);
-  if (!match) return {};
-
-  const method = match[1] as HttpMethod;
-  const index = match.index ?? 0;
-  const after = text.slice(index + match[0].length).trim();
-  const path = after ? after.split(/\s+/)[0] : undefined;
-  return { method, path };
-};
-
-const parseLogLine = (raw: string): ParsedLogLine => {
-  let remaining = raw.trim();
-
-  let timestamp: string | undefined;
-  const tsMatch = remaining.match(LOG_TIMESTAMP_REGEX);
-  if (tsMatch) {
-    timestamp = tsMatch[1];
-    remaining = remaining.slice(tsMatch[0].length).trim();
-  }
-
-  let requestId: string | undefined;
-  const requestIdMatch = remaining.match(/^\[([a-f0-9]{8}|--------)\]\s*/i);
-  if (requestIdMatch) {
-    const id = requestIdMatch[1];
-    if (!/^-+$/.test(id)) {
-      requestId = id;
-    }
-    remaining = remaining.slice(requestIdMatch[0].length).trim();
-  }
-
-  let level: LogLevel | undefined;
-  const lvlMatch = remaining.match(LOG_LEVEL_REGEX);
-  if (lvlMatch) {
-    level = extractLogLevel(lvlMatch[1]);
-    remaining = remaining.slice(lvlMatch[0].length).trim();
-  }
-
-  let source: string | undefined;
-  const sourceMatch = remaining.match(LOG_SOURCE_REGEX);
-  if (sourceMatch) {
-    source = sourceMatch[1];
-    remaining = remaining.slice(sourceMatch[0].length).trim();
-  }
-
-  let statusCode: number | undefined;
-  let latency: string | undefined;
-  let ip: string | undefined;
-  let method: HttpMethod | undefined;
-  let path: string | undefined;
-  let message = remaining;
-
-  if (remaining.includes('|')) {
-    const segments = remaining
-      .split('|')
-      .map((segment) => segment.trim())
-      .filter(Boolean);
-    const consumed = new Set<number>();
-
-    const ginIndex = segments.findIndex((segment) => GIN_TIMESTAMP_SEGMENT_REGEX.test(segment));
-    if (ginIndex >= 0) {
-      const match = segments[ginIndex].match(GIN_TIMESTAMP_SEGMENT_REGEX);
-      if (match) {
-        const ginTimestamp = `${match[1]}-${match[2]}-${match[3]} ${match[4]}`;
-        const normalizedGin = normalizeTimestampToSeconds(ginTimestamp);
-        const normalizedParsed = timestamp ? normalizeTimestampToSeconds(timestamp) : undefined;
-
-        if (!timestamp) {
-          timestamp = ginTimestamp;
-          consumed.add(ginIndex);
-        } else if (normalizedParsed === normalizedGin) {
-          consumed.add(ginIndex);
-        }
-      }
-    }
-
-    // request id (8-char hex or dashes)
-    const requestIdIndex = segments.findIndex((segment) => LOG_REQUEST_ID_REGEX.test(segment));
-    if (requestIdIndex >= 0) {
-      const match = segments[requestIdIndex].match(LOG_REQUEST_ID_REGEX);
-      if (match) {
-        const id = match[1];
-        if (!/^-+$/.test(id)) {
-          requestId = id;
-        }
-        consumed.add(requestIdIndex);
-      }
-    }
-
-    // status code
-    const statusIndex = segments.findIndex((segment) => /^\d{3}$/.test(segment));
-    if (statusIndex >= 0) {
-      const match = segments[statusIndex].match(/^(\d{3})$/);
-      if (match) {
-        const code = Number.parseInt(match[1], 10);
-        if (code >= 100 && code <= 599) {
-          statusCode = code;
-          consumed.add(statusIndex);
-        }
-      }
-    }
-
-    // latency
-    const latencyIndex = segments.findIndex((segment) => LOG_LATENCY_REGEX.test(segment));
-    if (latencyIndex >= 0) {
-      const extracted = extractLatency(segments[latencyIndex]);
-      if (extracted) {
-        latency = extracted;
-        consumed.add(latencyIndex);
-      }
-    }
-
-    // ip
-    const ipIndex = segments.findIndex((segment) => Boolean(extractIp(segment)));
-    if (ipIndex >= 0) {
-      const extracted = extractIp(segments[ipIndex]);
-      if (extracted) {
-        ip = extracted;
-        consumed.add(ipIndex);
-      }
-    }
-
-    // method + path
-    const methodIndex = segments.findIndex((segment) => {
-      const { method: parsedMethod } = extractHttpMethodAndPath(segment);
-      return Boolean(parsedMethod);
-    });
-    if (methodIndex >= 0) {
-      const parsed = extractHttpMethodAndPath(segments[methodIndex]);
-      method = parsed.method;
-      path = parsed.path;
-      consumed.add(methodIndex);
-    }
-
-    // source (e.g. [gin_logger.go:94])
-    const sourceIndex = segments.findIndex((segment) => LOG_SOURCE_REGEX.test(segment));
-    if (sourceIndex >= 0) {
-      const match = segments[sourceIndex].match(LOG_SOURCE_REGEX);
-      if (match) {
-        source = match[1];
-        consumed.add(sourceIndex);
-      }
-    }
-
-    message = segments.filter((_, index) => !consumed.has(index)).join(' | ');
-  } else {
-    statusCode = detectHttpStatusCode(remaining);
-
-    const extracted = extractLatency(remaining);
-    if (extracted) latency = extracted;
-
-    ip = extractIp(remaining);
-
-    const parsed = extractHttpMethodAndPath(remaining);
-    method = parsed.method;
-    path = parsed.path;
-  }
-
-  if (!level) level = inferLogLevel(raw);
-
-  if (message) {
-    const match = message.match(GIN_TIMESTAMP_SEGMENT_REGEX);
-    if (match) {
-      const ginTimestamp = `${match[1]}-${match[2]}-${match[3]} ${match[4]}`;
-      if (!timestamp) timestamp = ginTimestamp;
-      if (normalizeTimestampToSeconds(timestamp) === normalizeTimestampToSeconds(ginTimestamp)) {
-        message = '';
-      }
-    }
-  }
-
-  return {
-    raw,
-    timestamp,
-    level,
-    source,
-    requestId,
-    statusCode,
-    latency,
-    ip,
-    method,
-    path,
-    message,
-  };
-};
-
 const getErrorMessage = (err: unknown): string => {
   if (err instanceof Error) return err.message;
   if (typeof err === 'string') return err;
@@ -367,7 +126,7 @@ const copyToClipboard = async (text: string) => {
   }
 };
 
-type TabType = 'logs' | 'errors';
+type TabType = 'logs' | 'analytics' | 'errors';
 
 export function LogsPage() {
   const { t } = useTranslation();
@@ -386,8 +145,16 @@ export function LogsPage() {
   const [errorLogs, setErrorLogs] = useState<ErrorLogItem[]>([]);
   const [loadingErrors, setLoadingErrors] = useState(false);
   const [errorLogsError, setErrorLogsError] = useState('');
-  const [requestLogId, setRequestLogId] = useState<string | null>(null);
-  const [requestLogDownloading, setRequestLogDownloading] = useState(false);
+  const [traceRequestId, setTraceRequestId] = useState<string | null>(null);
+  const [savedSearchesOpen, setSavedSearchesOpen] = useState(false);
+  const activeAlertCount = useLogSearchesStore(
+    (state) => state.searches.filter((search) => search.alert.enabled).length
+  );
+  // 表格视图、字段过滤与排序保存在 URL 查询参数中，便于刷新后保留或分享链接
+  const [searchParams, setSearchParams] = useSearchParams();
+  const explorer = useMemo(() => readLogExplorerState(searchParams), [searchParams]);
+  const { view, filters, sort } = explorer;
+  const activeFilterCount = countActiveLogFilters(filters);
 
   const logViewerRef = useRef<HTMLDivElement | null>(null);
   const pendingScrollToBottomRef = useRef(false);
@@ -401,6 +168,8 @@ export function LogsPage() {
 
   // 保存最新时间戳用于增量获取
   const latestTimestampRef = useRef<number>(0);
+  // 告警规则在时间窗口内的命中记录
+  const alertHitsRef = useRef<LogAlertHits>({});
 
   const disableControls = connectionStatus !== 'connected';
 
@@ -416,6 +185,41 @@ export function LogsPage() {
     node.scrollTop = node.scrollHeight;
   };
 
+  // 每次增量拉取后评估告警规则；管理接口自身的轮询请求不参与统计
+  const runLogAlerts = (lines: string[]) => {
+    const { searches, markTriggered } = useLogSearchesStore.getState();
+    if (!searches.some((search) => search.alert.enabled)) return;
+
+    const parsed = lines
+      .filter((line) => !line.includes(MANAGEMENT_API_PREFIX))
+      .map((line) => parseLogLine(line));
+    const { hits, fired } = evaluateLogAlerts(searches, alertHitsRef.current, parsed);
+    alertHitsRef.current = hits;
+    if (!fired.length) return;
+
+    markTriggered(
+      fired.map((alert) => alert.search.id),
+      Date.now()
+    );
+    fired.forEach(({ search, count, sample }) => {
+      const message = t('logs.saved_searches.alert_fired', {
+        name: search.name,
+        count,
+        minutes: search.alert.windowMinutes,
+      });
+      showNotification(message, 'warning');
+      const desktopAllowed = 'Notification' in window && Notification.permission === 'granted';
+      if (search.alert.desktop && desktopAllowed) {
+        try {
+          new Notification(message, { body: sample, tag: `log-alert-${search.id}` });
+        } catch (err: unknown) {
+          // 部分浏览器（如 Android Chrome）只允许通过 Service Worker 发送通知
+          console.warn('Failed to show desktop notification:', err);
+        }
+      }
+    });
+  };
+
   const loadLogs = async (incremental = false) => {
     if (connectionStatus !== 'connected') {
       setLoading(false);
@@ -457,6 +261,8 @@ export function LogsPage() {
 
           return { buffer, visibleFrom };
         });
+        // 先追加日志再评估告警，告警出错不影响日志显示
+        runLogAlerts(newLines);
       } else if (!incremental) {
         // 全量加载：默认只渲染最后 100 行，向上滚动再展开更多
         const buffer = newLines.slice(-MAX_BUFFER_LINES);
@@ -582,7 +388,7 @@ export function LogsPage() {
 
     scrollToBottom();
     pendingScrollToBottomRef.current = false;
-  }, [loading, logState.buffer, logState.visibleFrom]);
+  }, [loading, logState.buffer, logState.visibleFrom, view]);
 
   const visibleLines = useMemo(
     () => logState.buffer.slice(logState.visibleFrom),
@@ -590,7 +396,12 @@ export function LogsPage() {
   );
 
   const trimmedSearchQuery = deferredSearchQuery.trim();
-  const isSearching = trimmedSearchQuery.length > 0;
+  // 搜索、字段过滤、表格视图与统计页都作用于整个缓冲区，而不仅是当前渲染窗口
+  const isSearching =
+    trimmedSearchQuery.length > 0 ||
+    activeFilterCount > 0 ||
+    view === 'table' ||
+    activeTab === 'analytics';
   const baseLines = isSearching ? logState.buffer : visibleLines;
 
   const { filteredLines, removedCount } = useMemo(() => {
@@ -625,10 +436,36 @@ export function LogsPage() {
     return { filteredLines: working, removedCount: removed };
   }, [baseLines, hideManagementLogs, trimmedSearchQuery]);
 
-  const parsedVisibleLines = useMemo(
-    () => filteredLines.map((line) => parseLogLine(line)),
-    [filteredLines]
-  );
+  const { parsedVisibleLines, fieldRemovedCount } = useMemo(() => {
+    const parsed = filteredLines.map((line) => parseLogLine(line));
+    if (activeFilterCount === 0) {
+      return { parsedVisibleLines: parsed, fieldRemovedCount: 0 };
+    }
+    const matched = parsed.filter((line) => matchesLogFilters(line, filters));
+    return {
+      parsedVisibleLines: matched,
+      fieldRemovedCount: parsed.length - matched.length,
+    };
+  }, [filteredLines, filters, activeFilterCount]);
+
+  // 表格默认按最新在前展示，点击列头后按该列排序
+  const tableLines = useMemo(() => {
+    if (view !== 'table') return [];
+    return sort ? sortLogLines(parsedVisibleLines, sort) : [...parsedVisibleLines].reverse();
+  }, [view, sort, parsedVisibleLines]);
+
+  const updateExplorer = (patch: Partial<LogExplorerState>) => {
+    setSearchParams(
+      (prev) => writeLogExplorerState(prev, { ...readLogExplorerState(prev), ...patch }),
+      { replace: true }
+    );
+  };
+
+  const applySavedSearch = (search: SavedLogSearch) => {
+    setSearchQuery(search.query);
+    updateExplorer({ filters: search.filters });
+    setSavedSearchesOpen(false);
+  };
 
   const canLoadMore = !isSearching && logState.visibleFrom > 0;
 
@@ -677,13 +514,12 @@ export function LogsPage() {
   };
 
   const startLongPress = (event: ReactPointerEvent<HTMLDivElement>, id?: string) => {
-    if (!requestLogEnabled) return;
     if (!id) return;
-    if (requestLogId) return;
+    if (traceRequestId) return;
     clearLongPressTimer();
     longPressRef.current = {
       timer: window.setTimeout(() => {
-        setRequestLogId(id);
+        setTraceRequestId(id);
         if (longPressRef.current) {
           longPressRef.current.fired = true;
           longPressRef.current.timer = null;
@@ -710,35 +546,6 @@ export function LogsPage() {
     }
   };
 
-  const closeRequestLogModal = () => {
-    if (requestLogDownloading) return;
-    setRequestLogId(null);
-  };
-
-  const downloadRequestLog = async (id: string) => {
-    setRequestLogDownloading(true);
-    try {
-      const response = await logsApi.downloadRequestLogById(id);
-      const blob = new Blob([response.data], { type: 'text/plain' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `request-${id}.log`;
-      a.click();
-      window.URL.revokeObjectURL(url);
-      showNotification(t('logs.request_log_download_success'), 'success');
-      setRequestLogId(null);
-    } catch (err: unknown) {
-      const message = getErrorMessage(err);
-      showNotification(
-        `${t('notification.download_failed')}${message ? `: ${message}` : ''}`,
-        'error'
-      );
-    } finally {
-      setRequestLogDownloading(false);
-    }
-  };
-
   useEffect(() => {
     return () => {
       if (longPressRef.current?.timer) {
@@ -760,6 +567,13 @@ export function LogsPage() {
         >
           {t('logs.log_content')}
         </button>
+        <button
+          type="button"
+          className={`${styles.tabItem} ${activeTab === 'analytics' ? styles.tabActive : ''}`}
+          onClick={() => setActiveTab('analytics')}
+        >
+          {t('logs.analytics.tab')}
+        </button>
         <button
           type="button"
           className={`${styles.tabItem} ${activeTab === 'errors' ? styles.tabActive : ''}`}
@@ -861,9 +675,65 @@ export function LogsPage() {
               </div>
             </div>
 
+            <div className={styles.explorerBar}>
+              <div className={styles.viewToggle} role="group" aria-label={t('logs.view_mode')}>
+                {(['list', 'table'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    className={`${styles.viewToggleItem} ${view === mode ? styles.viewToggleActive : ''}`}
+                    aria-pressed={view === mode}
+                    onClick={() => {
+                      if (mode === 'list') pendingScrollToBottomRef.current = true;
+                      updateExplorer({ view: mode });
+                    }}
+                  >
+                    {t(`logs.view_${mode}`)}
+                  </button>
+                ))}
+              </div>
+              <Button variant="secondary" size="sm" onClick={() => setSavedSearchesOpen(true)}>
+                <span className={styles.buttonContent}>
+                  <IconBell size={16} />
+                  {t('logs.saved_searches.button')}
+                  {activeAlertCount > 0 && (
+                    <span className={styles.alertCount}>{activeAlertCount}</span>
+                  )}
+                </span>
+              </Button>
+              <LogFilterBar
+                filters={filters}
+                onChange={(next) => updateExplorer({ filters: next })}
+                onReset={() => updateExplorer({ filters: EMPTY_LOG_FILTERS })}
+              />
+              {isSearching && !loading && (
+                <div className={styles.filterStats}>
+                  <span>{t('logs.loaded_lines', { count: parsedVisibleLines.length })}</span>
+                  {removedCount + fieldRemovedCount > 0 && (
+                    <span className={styles.removedCount}>
+                      {t('logs.filtered_lines', { count: removedCount + fieldRemovedCount })}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
             {loading ? (
               <div className="hint">{t('logs.loading')}</div>
-            ) : logState.buffer.length > 0 && parsedVisibleLines.length > 0 ? (
+            ) : view === 'table' && tableLines.length > 0 ? (
+              <div className={styles.logPanel}>
+                <LogTable
+                  key={`${searchParams.toString()}|${trimmedSearchQuery}`}
+                  lines={tableLines}
+                  sort={sort}
+                  onSortChange={(next) => updateExplorer({ sort: next })}
+                  onCopy={(raw) => {
+                    void copyLogLine(raw);
+                  }}
+                  onRequestIdClick={setTraceRequestId}
+                />
+              </div>
+            ) : view === 'list' && logState.buffer.length > 0 && parsedVisibleLines.length > 0 ? (
               <div ref={logViewerRef} className={styles.logPanel} onScroll={handleLogScroll}>
                 {canLoadMore && (
                   <div className={styles.loadMoreBanner}>
@@ -909,18 +779,7 @@ export function LogsPage() {
                         <div className={styles.rowMain}>
                           {line.level && (
                             <span
-                              className={[
-                                styles.badge,
-                                line.level === 'info' ? styles.levelInfo : '',
-                                line.level === 'warn' ? styles.levelWarn : '',
-                                line.level === 'error' || line.level === 'fatal'
-                                  ? styles.levelError
-                                  : '',
-                                line.level === 'debug' ? styles.levelDebug : '',
-                                line.level === 'trace' ? styles.levelTrace : '',
-                              ]
-                                .filter(Boolean)
-                                .join(' ')}
+                              className={[styles.badge, getLevelClassName(line.level)].join(' ')}
                             >
                               {line.level.toUpperCase()}
                             </span>
@@ -933,12 +792,18 @@ export function LogsPage() {
                           )}
 
                           {line.requestId && (
-                            <span
-                              className={[styles.badge, styles.requestIdBadge].join(' ')}
-                              title={line.requestId}
+                            <button
+                              type="button"
+                              className={[
+                                styles.badge,
+                                styles.requestIdBadge,
+                                styles.requestIdButton,
+                              ].join(' ')}
+                              title={t('logs.trace.open_hint')}
+                              onClick={() => setTraceRequestId(line.requestId ?? null)}
                             >
                               {line.requestId}
-                            </span>
+                            </button>
                           )}
 
                           {typeof line.statusCode === 'number' && (
@@ -946,13 +811,7 @@ export function LogsPage() {
                               className={[
                                 styles.badge,
                                 styles.statusBadge,
-                                line.statusCode >= 200 && line.statusCode < 300
-                                  ? styles.statusSuccess
-                                  : line.statusCode >= 300 && line.statusCode < 400
-                                    ? styles.statusInfo
-                                    : line.statusCode >= 400 && line.statusCode < 500
-                                      ? styles.statusWarn
-                                      : styles.statusError,
+                                getStatusClassName(line.statusCode),
                               ].join(' ')}
                             >
                               {line.statusCode}
@@ -992,6 +851,30 @@ export function LogsPage() {
           </Card>
         )}
 
+        {activeTab === 'analytics' && (
+          <div className={styles.analyticsTab}>
+            <div className={styles.analyticsScope}>
+              <span className="hint">
+                {trimmedSearchQuery || activeFilterCount > 0
+                  ? t('logs.analytics.scope_filtered', { count: parsedVisibleLines.length })
+                  : t('logs.analytics.scope_all', { count: parsedVisibleLines.length })}
+              </span>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => loadLogs(false)}
+                disabled={disableControls || loading}
+              >
+                <span className={styles.buttonContent}>
+                  <IconRefreshCw size={16} />
+                  {t('logs.refresh_button')}
+                </span>
+              </Button>
+            </div>
+            <LogAnalyticsPanel lines={parsedVisibleLines} />
+          </div>
+        )}
+
         {activeTab === 'errors' && (
           <Card
             extra={
@@ -1053,31 +936,24 @@ export function LogsPage() {
         )}
       </div>
 
-      <Modal
-        open={Boolean(requestLogId)}
-        onClose={closeRequestLogModal}
-        title={t('logs.request_log_download_title')}
-        footer={
-          <>
-            <Button variant="secondary" onClick={closeRequestLogModal} disabled={requestLogDownloading}>
-              {t('common.cancel')}
-            </Button>
-            <Button
-              onClick={() => {
-                if (requestLogId) {
-                  void downloadRequestLog(requestLogId);
-                }
-              }}
-              loading={requestLogDownloading}
-              disabled={!requestLogId}
-            >
-              {t('common.confirm')}
-            </Button>
-          </>
-        }
-      >
-        {requestLogId ? t('logs.request_log_download_confirm', { id: requestLogId }) : null}
-      </Modal>
+      <LogSavedSearchesModal
+        open={savedSearchesOpen}
+        onClose={() => setSavedSearchesOpen(false)}
+        query={searchQuery}
+        filters={filters}
+        onApply={applySavedSearch}
+      />
+      <RequestTraceModal
+        key={traceRequestId ?? 'closed'}
+        open={Boolean(traceRequestId)}
+        onClose={() => setTraceRequestId(null)}
+        requestId={traceRequestId}
+        buffer={logState.buffer}
+        requestLogEnabled={requestLogEnabled}
+        onCopy={(text) => {
+          void copyLogLine(text);
+        }}
+      />
     </div>
   );
 }
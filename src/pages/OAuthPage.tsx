@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, type ChangeEvent } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -78,7 +79,16 @@ export function OAuthPage() {
   const { t } = useTranslation();
   const { showNotification } = useNotificationStore();
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
-  const [states, setStates] = useState<Record<OAuthProvider, ProviderState>>({} as Record<OAuthProvider, ProviderState>);
+  // 从认证文件页跳转重新登录：?provider=codex&account=...&project_id=...
+  const [searchParams] = useSearchParams();
+  const focusProvider = PROVIDERS.find((item) => item.id === searchParams.get('provider'))?.id ?? null;
+  const reloginAccount = searchParams.get('account');
+  const [states, setStates] = useState<Record<OAuthProvider, ProviderState>>(() => {
+    const projectId = searchParams.get('project_id');
+    return (focusProvider === 'gemini-cli' && projectId
+      ? { 'gemini-cli': { projectId } }
+      : {}) as Record<OAuthProvider, ProviderState>;
+  });
   const [iflowCookie, setIflowCookie] = useState<IFlowCookieState>({ cookie: '', loading: false });
   const [vertexState, setVertexState] = useState<VertexImportState>({
     fileName: '',
@@ -87,6 +97,12 @@ export function OAuthPage() {
   });
   const timers = useRef<Record<string, number>>({});
   const vertexFileInputRef = useRef<HTMLInputElement | null>(null);
+  const providerRefs = useRef<Partial<Record<OAuthProvider, HTMLDivElement | null>>>({});
+
+  useEffect(() => {
+    if (!focusProvider) return;
+    providerRefs.current[focusProvider]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [focusProvider]);
 
   useEffect(() => {
     return () => {
@@ -330,7 +346,13 @@ export function OAuthPage() {
               ? 'auth_login.oauth_callback_placeholder_kiro'
               : 'auth_login.oauth_callback_placeholder';
           return (
-            <div key={provider.id}>
+            <div
+              key={provider.id}
+              ref={(element) => {
+                providerRefs.current[provider.id] = element;
+              }}
+              className={focusProvider === provider.id ? styles.providerFocused : undefined}
+            >
               <Card
                 title={
                   <span className={styles.cardTitle}>
@@ -349,6 +371,13 @@ export function OAuthPage() {
                 }
               >
                 <div className="hint">{t(provider.hintKey)}</div>
+                {focusProvider === provider.id && (
+                  <div className={styles.reloginHint}>
+                    {reloginAccount
+                      ? t('auth_login.relogin_hint_account', { account: reloginAccount })
+                      : t('auth_login.relogin_hint')}
+                  </div>
+                )}
                 {provider.id === 'gemini-cli' && (
                   <div className={styles.geminiProjectField}>
                     <Input
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Chart as ChartJS,
@@ -23,11 +23,36 @@ import {
   ApiDetailsCard,
   ModelStatsCard,
   PriceSettingsCard,
+  UsageRangePicker,
+  UsageBreakdownCard,
+  UsageBudgetsCard,
+  UsageRequestsCard,
+  UsageAnomaliesCard,
+  UsageImportModal,
+  UsageHeatmapCard,
+  UsageLatencyCard,
+  UsageReportModal,
   useUsageData,
+  useAuthFileNames,
+  useUsageLogLines,
+  useUsageBudgets,
   useSparklines,
   useChartData
 } from '@/components/usage';
-import { getModelNamesFromUsage, getApiStats, getModelStats } from '@/utils/usage';
+import {
+  getModelNamesFromUsage,
+  getApiStats,
+  getModelStats,
+  computeKeyStats
+} from '@/utils/usage';
+import {
+  resolveUsageRange,
+  getPreviousUsageRange,
+  filterUsageByRange,
+  type UsageRangeSelection,
+  type UsageTimeRange
+} from '@/utils/usage/range';
+import { detectUsageAnomalies, type UsageAnomaly } from '@/utils/usage/anomalies';
 import styles from './UsagePage.module.scss';
 
 // Register Chart.js components
@@ -53,6 +78,7 @@ export function UsagePage() {
     usage,
     loading,
     error,
+    loadedAt,
     modelPrices,
     setModelPrices,
     loadUsage,
@@ -60,12 +86,71 @@ export function UsagePage() {
     handleImport,
     handleImportChange,
     importInputRef,
+    importFiles,
+    cancelImport,
+    confirmImport,
     exporting,
     importing
   } = useUsageData();
 
   useHeaderRefresh(loadUsage);
 
+  // Auth file names for the auth_index breakdown, reloaded together with usage
+  const { authFileNames, authFileProviders } = useAuthFileNames(loadedAt);
+
+  // Request logs supply per-request latency for the latency card
+  const {
+    lines: logLines,
+    loading: logsLoading,
+    unavailable: logsUnavailable
+  } = useUsageLogLines(loadedAt);
+
+  // Budgets always use the full usage: their periods are the current day / month
+  const { statuses: budgetStatuses } = useUsageBudgets({
+    usage,
+    modelPrices,
+    loadedAt,
+    authFileProviders
+  });
+
+  // Date range state: every stat, chart and table below uses the range-filtered usage
+  const [rangeSelection, setRangeSelection] = useState<UsageRangeSelection>({
+    preset: 'all',
+    customFrom: '',
+    customTo: ''
+  });
+  const [compareEnabled, setCompareEnabled] = useState(false);
+  const range = useMemo(
+    () => (loadedAt ? resolveUsageRange(rangeSelection, loadedAt) : null),
+    [rangeSelection, loadedAt]
+  );
+  const previousRange = useMemo(
+    () => (range && compareEnabled ? getPreviousUsageRange(range, rangeSelection.preset) : null),
+    [range, compareEnabled, rangeSelection.preset]
+  );
+  const rangedUsage = useMemo(
+    () => (usage && range ? filterUsageByRange(usage, range) : usage),
+    [usage, range]
+  );
+  const previousUsage = useMemo(
+    () => (usage && previousRange ? filterUsageByRange(usage, previousRange) : null),
+    [usage, previousRange]
+  );
+
+  // Anomalies use the full usage so the rolling baseline can look back before the range start
+  const anomalies = useMemo(() => detectUsageAnomalies(usage, { range }), [usage, range]);
+  const [requestsTimeRange, setRequestsTimeRange] = useState<UsageTimeRange | null>(null);
+  const requestsRef = useRef<HTMLDivElement | null>(null);
+  const handleViewAnomalyRequests = (anomaly: UsageAnomaly) => {
+    setRequestsTimeRange({
+      start: anomaly.bucketStart,
+      end: anomaly.bucketStart + 60 * 60 * 1000
+    });
+    requestsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const [reportOpen, setReportOpen] = useState(false);
+
   // Chart lines state
   const [chartLines, setChartLines] = useState<string[]>(['all']);
   const MAX_CHART_LINES = 9;
@@ -77,7 +162,7 @@ export function UsagePage() {
     rpmSparkline,
     tpmSparkline,
     costSparkline
-  } = useSparklines({ usage, loading });
+  } = useSparklines({ usage: rangedUsage, loading, endTime: range?.end });
 
   // Chart data hook
   const {
@@ -89,13 +174,35 @@ export function UsagePage() {
     tokensChartData,
     requestsChartOptions,
     tokensChartOptions
-  } = useChartData({ usage, chartLines, isDark, isMobile });
+  } = useChartData({
+    usage: rangedUsage,
+    chartLines,
+    isDark,
+    isMobile,
+    range,
+    previousUsage,
+    previousRange,
+    previousLabel: t('usage_stats.range.previous_period'),
+    anomalies,
+    anomalyLabel: t('usage_stats.anomalies.marker')
+  });
 
-  // Derived data
+  // Derived data (model names come from all usage so prices can be set for any model)
   const modelNames = useMemo(() => getModelNamesFromUsage(usage), [usage]);
-  const apiStats = useMemo(() => getApiStats(usage, modelPrices), [usage, modelPrices]);
-  const modelStats = useMemo(() => getModelStats(usage, modelPrices), [usage, modelPrices]);
+  const apiStats = useMemo(() => getApiStats(rangedUsage, modelPrices), [rangedUsage, modelPrices]);
+  const modelStats = useMemo(
+    () => getModelStats(rangedUsage, modelPrices),
+    [rangedUsage, modelPrices]
+  );
   const hasPrices = Object.keys(modelPrices).length > 0;
+  const budgetTargets = useMemo(
+    () => ({
+      model: modelNames,
+      source: Object.keys(computeKeyStats(usage).bySource).sort(),
+      provider: Array.from(new Set(authFileProviders.values())).sort()
+    }),
+    [modelNames, usage, authFileProviders]
+  );
 
   return (
     <div className={styles.container}>
@@ -129,6 +236,14 @@ export function UsagePage() {
           >
             {t('usage_stats.import')}
           </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setReportOpen(true)}
+            disabled={!usage}
+          >
+            {t('usage_stats.report.button')}
+          </Button>
           <Button
             variant="secondary"
             size="sm"
@@ -141,6 +256,7 @@ export function UsagePage() {
             ref={importInputRef}
             type="file"
             accept=".json,application/json"
+            multiple
             style={{ display: 'none' }}
             onChange={handleImportChange}
           />
@@ -149,11 +265,42 @@ export function UsagePage() {
 
       {error && <div className={styles.errorBox}>{error}</div>}
 
+      <UsageImportModal
+        files={importFiles}
+        currentUsage={usage}
+        importing={importing}
+        onCancel={cancelImport}
+        onConfirm={confirmImport}
+      />
+
+      <UsageReportModal
+        open={reportOpen}
+        onClose={() => setReportOpen(false)}
+        usage={usage}
+        modelPrices={modelPrices}
+        defaultRange={range}
+        loadedAt={loadedAt}
+      />
+
+      {/* Date Range */}
+      <UsageRangePicker
+        selection={rangeSelection}
+        onSelectionChange={setRangeSelection}
+        compare={compareEnabled}
+        onCompareChange={setCompareEnabled}
+        range={range}
+        previousRange={previousRange}
+        disabled={!usage}
+      />
+
       {/* Stats Overview Cards */}
       <StatCards
-        usage={usage}
+        usage={rangedUsage}
         loading={loading}
         modelPrices={modelPrices}
+        range={range}
+        previousUsage={previousUsage}
+        previousRange={previousRange}
         sparklines={{
           requests: requestsSparkline,
           tokens: tokensSparkline,
@@ -195,12 +342,66 @@ export function UsagePage() {
         />
       </div>
 
+      {/* Day × hour heatmap */}
+      <UsageHeatmapCard
+        usage={rangedUsage}
+        loading={loading}
+        modelPrices={modelPrices}
+        modelNames={modelNames}
+        range={range}
+      />
+
       {/* Details Grid */}
       <div className={styles.detailsGrid}>
         <ApiDetailsCard apiStats={apiStats} loading={loading} hasPrices={hasPrices} />
         <ModelStatsCard modelStats={modelStats} loading={loading} hasPrices={hasPrices} />
       </div>
 
+      {/* Breakdown by client API key / auth file */}
+      <UsageBreakdownCard
+        usage={rangedUsage}
+        loading={loading}
+        modelPrices={modelPrices}
+        authFileNames={authFileNames}
+        range={range}
+        isDark={isDark}
+        isMobile={isMobile}
+      />
+
+      {/* Latency and throughput from request logs */}
+      <UsageLatencyCard
+        usage={rangedUsage}
+        loading={loading}
+        logLines={logLines}
+        logsLoading={logsLoading}
+        logsUnavailable={logsUnavailable}
+        authFileProviders={authFileProviders}
+        isDark={isDark}
+        isMobile={isMobile}
+      />
+
+      {/* Hourly anomalies */}
+      <UsageAnomaliesCard
+        anomalies={anomalies}
+        loading={loading}
+        onViewRequests={handleViewAnomalyRequests}
+      />
+
+      {/* Per-request explorer */}
+      <div ref={requestsRef}>
+        <UsageRequestsCard
+          usage={rangedUsage}
+          loading={loading}
+          modelPrices={modelPrices}
+          authFileNames={authFileNames}
+          timeRange={requestsTimeRange}
+          onTimeRangeChange={setRequestsTimeRange}
+        />
+      </div>
+
+      {/* Budgets */}
+      <UsageBudgetsCard statuses={budgetStatuses} targetOptions={budgetTargets} />
+
       {/* Price Settings */}
       <PriceSettingsCard
         modelNames={modelNames}
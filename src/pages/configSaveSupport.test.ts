@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'vitest';
+import { checkConfigBeforeSave } from './configSaveSupport';
+
+describe('checkConfigBeforeSave', () => {
+  test('saves when the server still has the loaded version', async () => {
+    await expect(checkConfigBeforeSave(async () => 'a: 1', 'a: 1', 'a: 2')).resolves.toEqual({
+      status: 'clear',
+      latest: 'a: 1'
+    });
+  });
+
+  test('asks for a merge when the server version changed', async () => {
+    await expect(checkConfigBeforeSave(async () => 'b: 1', 'a: 1', 'a: 2')).resolves.toEqual({
+      status: 'conflict',
+      base: 'a: 1',
+      latest: 'b: 1'
+    });
+  });
+
+  test('does not save when the server version cannot be fetched', async () => {
+    const error = new Error('Network Error');
+    await expect(
+      checkConfigBeforeSave(() => Promise.reject(error), 'a: 1', 'a: 2')
+    ).resolves.toEqual({ status: 'unavailable', error });
+  });
+});
@@ -0,0 +1,24 @@
+export type ConfigSaveCheck =
+  | { status: 'clear'; latest: string }
+  | { status: 'conflict'; base: string; latest: string }
+  | { status: 'unavailable'; error: unknown };
+
+/**
+ * 保存前读取服务器最新版本并与编辑基线比较；读取失败时无法确认是否会覆盖他人的修改，返回 unavailable
+ */
+export async function checkConfigBeforeSave(
+  fetchLatest: () => Promise<string>,
+  base: string | null,
+  next: string
+): Promise<ConfigSaveCheck> {
+  let latest: string;
+  try {
+    latest = await fetchLatest();
+  } catch (error: unknown) {
+    return { status: 'unavailable', error };
+  }
+  if (base !== null && latest !== base && latest !== next) {
+    return { status: 'conflict', base, latest };
+  }
+  return { status: 'clear', latest };
+}
@@ -3,8 +3,15 @@
  * 替代原项目 src/core/api-client.js
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  AxiosResponseHeaders
+} from 'axios';
 import type { ApiClientConfig, ApiError } from '@/types';
+import { mockAdapter } from '@/services/mock';
+import { isMockApiBase } from '@/utils/connection';
 import {
   BUILD_DATE_HEADER_KEYS,
   MANAGEMENT_API_PREFIX,
@@ -12,18 +19,29 @@ import {
   VERSION_HEADER_KEYS
 } from '@/utils/constants';
 
+interface ApiClientOptions {
+  /**
+   * 独立客户端不广播全局事件（未授权登出、版本更新），用于探测或访问非当前连接的服务器
+   */
+  isolated?: boolean;
+}
+
 class ApiClient {
   private instance: AxiosInstance;
   private apiBase: string = '';
   private managementKey: string = '';
+  private isolated: boolean;
+  private defaultAdapter: AxiosInstance['defaults']['adapter'];
 
-  constructor() {
+  constructor(options: ApiClientOptions = {}) {
+    this.isolated = options.isolated ?? false;
     this.instance = axios.create({
       timeout: REQUEST_TIMEOUT_MS,
       headers: {
         'Content-Type': 'application/json'
       }
     });
+    this.defaultAdapter = this.instance.defaults.adapter;
 
     this.setupInterceptors();
   }
@@ -35,6 +53,11 @@ class ApiClient {
     this.apiBase = this.normalizeApiBase(config.apiBase);
     this.managementKey = config.managementKey;
 
+    // 离线演示地址由内存中的模拟服务器响应
+    this.instance.defaults.adapter = isMockApiBase(this.apiBase)
+      ? mockAdapter
+      : this.defaultAdapter;
+
     if (config.timeout) {
       this.instance.defaults.timeout = config.timeout;
     } else {
@@ -98,6 +121,19 @@ class ApiClient {
     return null;
   }
 
+  /**
+   * 从响应头读取服务器版本与构建时间
+   */
+  readVersionHeaders(headers: AxiosResponseHeaders | Record<string, unknown> | undefined): {
+    version: string | null;
+    buildDate: string | null;
+  } {
+    return {
+      version: this.readHeader(headers, VERSION_HEADER_KEYS),
+      buildDate: this.readHeader(headers, BUILD_DATE_HEADER_KEYS)
+    };
+  }
+
   /**
    * 设置请求/响应拦截器
    */
@@ -125,12 +161,10 @@ class ApiClient {
     // 响应拦截器
     this.instance.interceptors.response.use(
       (response) => {
-        const headers = response.headers as Record<string, string | undefined>;
-        const version = this.readHeader(headers, VERSION_HEADER_KEYS);
-        const buildDate = this.readHeader(headers, BUILD_DATE_HEADER_KEYS);
+        const { version, buildDate } = this.readVersionHeaders(response.headers);
 
         // 触发版本更新事件（后续通过 store 处理）
-        if (version || buildDate) {
+        if ((version || buildDate) && !this.isolated) {
           window.dispatchEvent(
             new CustomEvent('server-version-update', {
               detail: { version: version || null, buildDate: buildDate || null }
@@ -159,7 +193,7 @@ class ApiClient {
       apiError.data = responseData;
 
       // 401 未授权 - 触发登出事件
-      if (error.response?.status === 401) {
+      if (error.response?.status === 401 && !this.isolated) {
         window.dispatchEvent(new Event('unauthorized'));
       }
 
@@ -242,3 +276,12 @@ class ApiClient {
 
 // 导出单例
 export const apiClient = new ApiClient();
+
+/**
+ * 创建独立的 API 客户端（不影响全局连接状态）
+ */
+export const createIsolatedApiClient = (config: ApiClientConfig): ApiClient => {
+  const client = new ApiClient({ isolated: true });
+  client.setConfig(config);
+  return client;
+};
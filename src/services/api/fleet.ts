@@ -0,0 +1,102 @@
+/**
+ * 多服务器概览 API
+ * 使用独立客户端并发访问多个已保存的服务器，不影响当前连接
+ */
+
+import { createIsolatedApiClient } from './client';
+import type { ApiClientConfig, AuthFilesResponse } from '@/types';
+
+const FLEET_TIMEOUT_MS = 15 * 1000;
+
+export type FleetServerHealth = 'healthy' | 'degraded' | 'unreachable';
+
+export interface FleetServerSnapshot {
+  health: FleetServerHealth;
+  version: string | null;
+  buildDate: string | null;
+  latencyMs: number | null;
+  usageEnabled: boolean | null;
+  totalRequests: number | null;
+  failedRequests: number | null;
+  authFiles: number | null;
+  disabledAuthFiles: number | null;
+  unavailableAuthFiles: number | null;
+  error: string | null;
+  checkedAt: number;
+}
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const errorMessage = (reason: unknown): string =>
+  reason instanceof Error ? reason.message : String(reason ?? '');
+
+export const fleetApi = {
+  /**
+   * 获取单个服务器的概览：/config 决定连通性，/usage 与 /auth-files 失败时记为部分可用
+   */
+  async fetchServerSnapshot(target: ApiClientConfig): Promise<FleetServerSnapshot> {
+    const client = createIsolatedApiClient({ ...target, timeout: FLEET_TIMEOUT_MS });
+    const startedAt = Date.now();
+
+    const [configRes, usageRes, filesRes] = await Promise.allSettled([
+      client.getRaw('/config').then((response) => ({
+        response,
+        latencyMs: Date.now() - startedAt
+      })),
+      client.get('/usage'),
+      client.get<AuthFilesResponse>('/auth-files')
+    ]);
+
+    const snapshot: FleetServerSnapshot = {
+      health: 'healthy',
+      version: null,
+      buildDate: null,
+      latencyMs: null,
+      usageEnabled: null,
+      totalRequests: null,
+      failedRequests: null,
+      authFiles: null,
+      disabledAuthFiles: null,
+      unavailableAuthFiles: null,
+      error: null,
+      checkedAt: Date.now()
+    };
+
+    if (configRes.status === 'rejected') {
+      return { ...snapshot, health: 'unreachable', error: errorMessage(configRes.reason) };
+    }
+
+    const { response, latencyMs } = configRes.value;
+    const { version, buildDate } = client.readVersionHeaders(response.headers);
+    snapshot.latencyMs = latencyMs;
+    snapshot.version = version;
+    snapshot.buildDate = buildDate;
+    const rawConfig = response.data ?? {};
+    const usageFlag = rawConfig['usage-statistics-enabled'] ?? rawConfig.usageStatisticsEnabled;
+    snapshot.usageEnabled = typeof usageFlag === 'boolean' ? usageFlag : null;
+
+    if (usageRes.status === 'fulfilled') {
+      const usage = usageRes.value?.usage ?? usageRes.value ?? {};
+      snapshot.totalRequests = toNumber(usage.total_requests);
+      snapshot.failedRequests = toNumber(usage.failure_count);
+    } else {
+      snapshot.health = 'degraded';
+      snapshot.error = errorMessage(usageRes.reason);
+    }
+
+    if (filesRes.status === 'fulfilled') {
+      const files = Array.isArray(filesRes.value?.files) ? filesRes.value.files : [];
+      snapshot.authFiles = files.length;
+      snapshot.disabledAuthFiles = files.filter((file) => file.disabled).length;
+      snapshot.unavailableAuthFiles = files.filter((file) => file.unavailable).length;
+    } else {
+      snapshot.health = 'degraded';
+      snapshot.error = snapshot.error ?? errorMessage(filesRes.reason);
+    }
+
+    return snapshot;
+  }
+};
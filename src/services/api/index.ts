@@ -13,3 +13,4 @@ export * from './version';
 export * from './models';
 export * from './transformers';
 export * from './vertex';
+export * from './fleet';
@@ -3,6 +3,8 @@
  */
 
 import axios from 'axios';
+import { mockAdapter } from '@/services/mock';
+import { isMockApiBase } from '@/utils/connection';
 import { normalizeModelList } from '@/utils/models';
 import { apiCallApi, getApiCallErrorMessage } from './apiCall';
 
@@ -36,7 +38,8 @@ export const modelsApi = {
     }
 
     const response = await axios.get(endpoint, {
-      headers: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined
+      headers: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined,
+      adapter: isMockApiBase(baseUrl) ? mockAdapter : undefined
     });
     const payload = response.data?.data ?? response.data?.models ?? response.data;
     return normalizeModelList(payload, { dedupe: true });
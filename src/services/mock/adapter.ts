@@ -0,0 +1,125 @@
+/**
+ * axios 适配器：把发往离线演示地址的请求交给内存中的模拟服务器处理
+ */
+
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig
+} from 'axios';
+import { MANAGEMENT_API_PREFIX } from '@/utils/constants';
+import { createMockServer, type MockRequest, type MockServer } from './server';
+
+/** 模拟网络延迟，保证页面的加载态可见 */
+const MOCK_RESPONSE_DELAY_MS = 120;
+
+let server: MockServer | null = null;
+
+/**
+ * 获取（必要时创建）当前页面会话内共享的模拟服务器
+ */
+export const getMockServer = (): MockServer => {
+  if (!server) {
+    server = createMockServer();
+  }
+  return server;
+};
+
+/**
+ * 丢弃所有写入，下次请求时重新生成初始数据
+ */
+export const resetMockServer = () => {
+  server = null;
+};
+
+const buildUrl = (config: InternalAxiosRequestConfig): URL => {
+  const url = config.url ?? '';
+  if (/^https?:\/\//i.test(url)) return new URL(url);
+  const base = (config.baseURL ?? '').replace(/\/+$/, '');
+  return new URL(`${base}/${url.replace(/^\/+/, '')}`);
+};
+
+const readHeaders = (config: InternalAxiosRequestConfig): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const source = AxiosHeaders.from(config.headers).toJSON();
+  Object.entries(source).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) headers[key.toLowerCase()] = String(value);
+  });
+  return headers;
+};
+
+const readBody = (data: unknown): Pick<MockRequest, 'body' | 'rawBody' | 'formData'> => {
+  if (typeof FormData !== 'undefined' && data instanceof FormData) {
+    return { body: null, rawBody: null, formData: data };
+  }
+  if (typeof data === 'string') {
+    try {
+      return { body: JSON.parse(data), rawBody: data, formData: null };
+    } catch {
+      return { body: data, rawBody: data, formData: null };
+    }
+  }
+  return { body: data ?? null, rawBody: null, formData: null };
+};
+
+const toResponseData = (data: unknown, config: InternalAxiosRequestConfig, contentType: string) => {
+  if (config.responseType === 'blob') {
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return new Blob([text], { type: contentType });
+  }
+  if (config.responseType === 'text') {
+    return typeof data === 'string' ? data : JSON.stringify(data);
+  }
+  return data;
+};
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  const url = buildUrl(config);
+  const query = new URLSearchParams(url.search);
+  Object.entries((config.params ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query.set(key, String(value));
+  });
+
+  const path = url.pathname.startsWith(MANAGEMENT_API_PREFIX)
+    ? url.pathname.slice(MANAGEMENT_API_PREFIX.length) || '/'
+    : url.pathname;
+
+  await new Promise((resolve) => window.setTimeout(resolve, MOCK_RESPONSE_DELAY_MS));
+
+  const result = await getMockServer().handle({
+    method: (config.method ?? 'get').toUpperCase(),
+    path,
+    query,
+    headers: readHeaders(config),
+    ...readBody(config.data)
+  });
+
+  const headers = new AxiosHeaders({
+    'content-type': 'application/json; charset=utf-8',
+    ...(result.headers ?? {})
+  });
+  const response: AxiosResponse = {
+    data: toResponseData(result.data, config, String(headers.get('content-type') ?? '')),
+    status: result.status,
+    statusText: result.status < 400 ? 'OK' : 'Error',
+    headers,
+    config,
+    request: null
+  };
+
+  const validateStatus = config.validateStatus;
+  if (!validateStatus || validateStatus(result.status)) {
+    return response;
+  }
+
+  const message = (result.data as { error?: string } | null)?.error ?? `Request failed with status code ${result.status}`;
+  throw new AxiosError(
+    message,
+    result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response
+  );
+};
@@ -0,0 +1,7 @@
+/**
+ * 离线演示服务器 barrel export.
+ */
+
+export * from './adapter';
+export { createMockServer, buildUsageSnapshot } from './server';
+export type { MockRequest, MockResponse, MockServer } from './server';
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import type { LogsResponse } from '@/services/api/logs';
+import type { Config } from '@/types';
+import { createMockServer, type MockRequest, type MockServer } from './server';
+import { parseYaml, stringifyYaml } from './yaml';
+
+const NOW = Date.UTC(2025, 0, 15, 12, 0, 0);
+const SEED = 42;
+
+const request = (
+  method: string,
+  path: string,
+  options: { query?: Record<string, string>; body?: unknown; rawBody?: string; auth?: boolean } = {}
+): MockRequest => ({
+  method,
+  path,
+  query: new URLSearchParams(options.query ?? {}),
+  headers: options.auth === false ? {} : { authorization: 'Bearer demo' },
+  body: options.body ?? null,
+  rawBody: options.rawBody ?? null,
+  formData: null
+});
+
+// 读取响应体，按对应管理接口的响应类型使用
+const fetchData = async <T>(server: MockServer, req: MockRequest, now = NOW): Promise<T> =>
+  (await server.handle(req, now)).data as T;
+
+describe('createMockServer', () => {
+  it('generates identical fixtures for the same seed and time', async () => {
+    const first = await createMockServer({ now: NOW, seed: SEED }).handle(request('GET', '/usage'), NOW);
+    const second = await createMockServer({ now: NOW, seed: SEED }).handle(request('GET', '/usage'), NOW);
+
+    expect(first.status).toBe(200);
+    expect(first.data).toEqual(second.data);
+    const { usage } = first.data as { usage: { total_requests: number } };
+    expect(usage.total_requests).toBeGreaterThan(0);
+  });
+
+  it('rejects management requests without a bearer key', async () => {
+    const server = createMockServer({ now: NOW, seed: SEED });
+
+    const response = await server.handle(request('GET', '/config', { auth: false }), NOW);
+
+    expect(response.status).toBe(401);
+    expect(response.headers?.['x-cpa-version']).toBeTruthy();
+  });
+
+  it('applies config.yaml writes to the structured config', async () => {
+    const server = createMockServer({ now: NOW, seed: SEED });
+    const yaml = (await server.handle(request('GET', '/config.yaml'), NOW)).data as string;
+    const edited = yaml.replace(/^debug: .*$/m, 'debug: true');
+
+    const saved = await server.handle(request('PUT', '/config.yaml', { rawBody: edited }), NOW);
+    const config = await fetchData<Config>(server, request('GET', '/config'));
+
+    expect(saved.status).toBe(200);
+    expect(config.debug).toBe(true);
+    expect((await server.handle(request('GET', '/config.yaml'), NOW)).data).toBe(edited);
+  });
+
+  it('rejects invalid yaml without touching the config', async () => {
+    const server = createMockServer({ now: NOW, seed: SEED });
+    const before = (await server.handle(request('GET', '/config'), NOW)).data;
+
+    const response = await server.handle(
+      request('PUT', '/config.yaml', { rawBody: 'debug: [unterminated' }),
+      NOW
+    );
+
+    expect(response.status).toBe(400);
+    expect((await server.handle(request('GET', '/config'), NOW)).data).toEqual(before);
+  });
+
+  it('updates and deletes api-keys entries', async () => {
+    const server = createMockServer({ now: NOW, seed: SEED });
+    const list = async () =>
+      (await fetchData<{ 'api-keys': string[] }>(server, request('GET', '/api-keys')))['api-keys'];
+    const [firstKey] = await list();
+
+    await server.handle(request('PATCH', '/api-keys', { body: { old: firstKey, new: 'sk-renamed' } }), NOW);
+    expect((await list())[0]).toBe('sk-renamed');
+
+    await server.handle(request('DELETE', '/api-keys', { query: { index: '0' } }), NOW);
+    expect(await list()).not.toContain('sk-renamed');
+  });
+
+  it('returns only newer log lines for incremental fetches', async () => {
+    const server = createMockServer({ now: NOW, seed: SEED });
+    const initial = await fetchData<LogsResponse>(server, request('GET', '/logs'));
+    expect(initial['line-count']).toBeGreaterThan(0);
+
+    const cursor = String(initial['latest-timestamp']);
+    const unchanged = await fetchData<LogsResponse>(
+      server,
+      request('GET', '/logs', { query: { after: cursor } })
+    );
+    expect(unchanged['line-count']).toBe(0);
+
+    const later = NOW + 5 * 60 * 1000;
+    const next = await fetchData<LogsResponse>(
+      server,
+      request('GET', '/logs', { query: { after: cursor } }),
+      later
+    );
+    expect(next['line-count']).toBeGreaterThan(0);
+    expect(next['latest-timestamp']).toBeGreaterThan(initial['latest-timestamp']);
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const server = createMockServer({ now: NOW, seed: SEED });
+
+    expect((await server.handle(request('GET', '/does-not-exist'), NOW)).status).toBe(404);
+    expect((await server.handle(request('POST', '/config'), NOW)).status).toBe(405);
+  });
+});
+
+describe('mock yaml', () => {
+  it('round-trips nested maps, lists and quoted strings', () => {
+    const value = {
+      debug: false,
+      port: 8317,
+      'api-keys': ['sk-a', 'sk-b'],
+      'openai-compatibility': [
+        { name: 'openrouter', 'base-url': 'https://openrouter.ai/api/v1', models: [{ name: 'a: b' }] }
+      ],
+      empty: [],
+      note: 'line one\nline two'
+    };
+
+    expect(parseYaml(stringifyYaml(value))).toEqual(value);
+  });
+});
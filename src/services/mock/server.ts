@@ -0,0 +1,906 @@
+/**
+ * 离线演示服务器：按 方法 + 路径 分发到内存状态上的处理函数
+ * 覆盖 src/services/api 中用到的全部管理接口，写操作直接修改内存状态
+ */
+
+import {
+  CLIENT_API_KEYS,
+  MOCK_LATEST_VERSION,
+  MOCK_MODEL_CATALOG,
+  MOCK_SERVER_BUILD_DATE,
+  MOCK_SERVER_VERSION,
+  advanceMockState,
+  buildAuthFileMeta,
+  buildRequestLogContent,
+  createMockState,
+  type CreateMockStateOptions,
+  type MockConfig,
+  type MockState,
+  type MockUsageRecord
+} from './fixtures';
+import { parseYaml, stringifyYaml } from './yaml';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  /** JSON 请求体（无法解析时为原始字符串） */
+  body: unknown;
+  rawBody: string | null;
+  formData: FormData | null;
+}
+
+export interface MockResponse {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface MockServer {
+  state: MockState;
+  handle: (request: MockRequest, now?: number) => Promise<MockResponse>;
+}
+
+interface AmpModelMapping {
+  from: string;
+  to: string;
+}
+
+type MockHandler = (request: MockRequest, params: string[], now: number) => MockResponse | Promise<MockResponse>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handler: MockHandler;
+}
+
+const ok = (data: unknown = { status: 'ok' }): MockResponse => ({ status: 200, data });
+
+const fail = (status: number, message: string): MockResponse => ({ status, data: { error: message } });
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// 请求体不是对象时按空对象处理，字段统一在使用处校验
+const asObject = (value: unknown): JsonObject => (isObject(value) ? value : {});
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const escapePath = (path: string) => path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const OAUTH_PROVIDERS = ['codex', 'anthropic', 'antigravity', 'gemini-cli', 'kiro', 'qwen', 'iflow'];
+
+const OAUTH_FILE_TYPES: Record<string, string> = {
+  anthropic: 'claude',
+  'gemini-cli': 'gemini'
+};
+
+/**
+ * 标量设置：路径 -> 配置中的键路径
+ */
+const SETTING_ROUTES: Record<string, string[]> = {
+  '/debug': ['debug'],
+  '/proxy-url': ['proxy-url'],
+  '/request-retry': ['request-retry'],
+  '/quota-exceeded/switch-project': ['quota-exceeded', 'switch-project'],
+  '/quota-exceeded/switch-preview-model': ['quota-exceeded', 'switch-preview-model'],
+  '/usage-statistics-enabled': ['usage-statistics-enabled'],
+  '/request-log': ['request-log'],
+  '/logging-to-file': ['logging-to-file'],
+  '/logs-max-total-size-mb': ['logs-max-total-size-mb'],
+  '/ws-auth': ['ws-auth'],
+  '/force-model-prefix': ['force-model-prefix'],
+  '/routing/strategy': ['routing', 'strategy'],
+  '/ampcode/upstream-url': ['ampcode', 'upstream-url'],
+  '/ampcode/upstream-api-key': ['ampcode', 'upstream-api-key'],
+  '/ampcode/force-model-mappings': ['ampcode', 'force-model-mappings']
+};
+
+const ROUTING_STRATEGIES = ['round-robin', 'fill-first'];
+
+/**
+ * 列表型配置段：删除时用于匹配条目的查询参数
+ */
+const LIST_SECTIONS: Record<string, { matchParam: string; matchField?: string }> = {
+  'api-keys': { matchParam: 'index' },
+  'gemini-api-key': { matchParam: 'api-key', matchField: 'api-key' },
+  'codex-api-key': { matchParam: 'api-key', matchField: 'api-key' },
+  'claude-api-key': { matchParam: 'api-key', matchField: 'api-key' },
+  'vertex-api-key': { matchParam: 'api-key', matchField: 'api-key' },
+  'openai-compatibility': { matchParam: 'name', matchField: 'name' }
+};
+
+const readPath = (source: JsonObject, keys: string[]) =>
+  keys.reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), source);
+
+const writePath = (source: JsonObject, keys: string[], value: unknown) => {
+  let node = source;
+  keys.slice(0, -1).forEach((key) => {
+    const child = node[key];
+    node = isObject(child) ? child : (node[key] = {});
+  });
+  node[keys[keys.length - 1]] = value;
+};
+
+const emptyValueLike = (value: unknown) =>
+  typeof value === 'boolean' ? false : typeof value === 'number' ? 0 : '';
+
+const readBodyValue = (body: unknown) => (isObject(body) && 'value' in body ? body.value : body);
+
+const sumTokens = (record: MockUsageRecord) => record.detail.tokens.total_tokens;
+
+/**
+ * 将明细记录聚合为 /usage 的响应结构
+ */
+interface MockUsageModelSnapshot {
+  total_requests: number;
+  total_tokens: number;
+  details: MockUsageRecord['detail'][];
+}
+
+interface MockUsageApiSnapshot {
+  total_requests: number;
+  total_tokens: number;
+  models: Record<string, MockUsageModelSnapshot>;
+}
+
+export const buildUsageSnapshot = (records: MockUsageRecord[]) => {
+  const apis: Record<string, MockUsageApiSnapshot> = {};
+  const requestsByDay: Record<string, number> = {};
+  const requestsByHour: Record<string, number> = {};
+  const tokensByDay: Record<string, number> = {};
+  const tokensByHour: Record<string, number> = {};
+  let failureCount = 0;
+  let totalTokens = 0;
+
+  records.forEach((record) => {
+    const tokens = sumTokens(record);
+    const date = new Date(record.detail.timestamp);
+    const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+      date.getDate()
+    ).padStart(2, '0')}`;
+    const hour = String(date.getHours()).padStart(2, '0');
+
+    const api = (apis[record.api] ??= { total_requests: 0, total_tokens: 0, models: {} });
+    api.total_requests += 1;
+    api.total_tokens += tokens;
+    const model = (api.models[record.model] ??= { total_requests: 0, total_tokens: 0, details: [] });
+    model.total_requests += 1;
+    model.total_tokens += tokens;
+    model.details.push(clone(record.detail));
+
+    requestsByDay[day] = (requestsByDay[day] ?? 0) + 1;
+    requestsByHour[hour] = (requestsByHour[hour] ?? 0) + 1;
+    tokensByDay[day] = (tokensByDay[day] ?? 0) + tokens;
+    tokensByHour[hour] = (tokensByHour[hour] ?? 0) + tokens;
+    if (record.detail.failed) failureCount += 1;
+    totalTokens += tokens;
+  });
+
+  return {
+    total_requests: records.length,
+    success_count: records.length - failureCount,
+    failure_count: failureCount,
+    total_tokens: totalTokens,
+    requests_by_day: requestsByDay,
+    requests_by_hour: requestsByHour,
+    tokens_by_day: tokensByDay,
+    tokens_by_hour: tokensByHour,
+    apis
+  };
+};
+
+const usageRecordKey = (record: MockUsageRecord) =>
+  [
+    record.api,
+    record.model,
+    record.detail.timestamp,
+    record.detail.source,
+    record.detail.auth_index,
+    record.detail.tokens.total_tokens
+  ].join('|');
+
+const buildCodexUsagePayload = (now: number) => ({
+  plan_type: 'plus',
+  rate_limit: {
+    allowed: true,
+    limit_reached: false,
+    primary_window: {
+      used_percent: 37,
+      limit_window_seconds: 5 * 60 * 60,
+      reset_after_seconds: 2 * 60 * 60 + 14 * 60,
+      reset_at: Math.floor(now / 1000) + 2 * 60 * 60 + 14 * 60
+    },
+    secondary_window: {
+      used_percent: 62,
+      limit_window_seconds: 7 * 24 * 60 * 60,
+      reset_after_seconds: 3 * 24 * 60 * 60,
+      reset_at: Math.floor(now / 1000) + 3 * 24 * 60 * 60
+    }
+  },
+  code_review_rate_limit: {
+    allowed: true,
+    limit_reached: false,
+    primary_window: {
+      used_percent: 5,
+      limit_window_seconds: 7 * 24 * 60 * 60,
+      reset_after_seconds: 5 * 24 * 60 * 60,
+      reset_at: Math.floor(now / 1000) + 5 * 24 * 60 * 60
+    }
+  }
+});
+
+const buildGeminiCliQuotaPayload = (now: number) => {
+  const resetTime = new Date(now + 9 * 3600 * 1000).toISOString();
+  const bucket = (modelId: string, remainingFraction: number) => ({
+    modelId,
+    tokenType: 'REQUESTS',
+    remainingFraction,
+    resetTime
+  });
+  return {
+    buckets: [
+      bucket('gemini-2.5-pro', 0.42),
+      bucket('gemini-2.5-flash', 0.88),
+      bucket('gemini-2.5-flash-lite', 1)
+    ]
+  };
+};
+
+const buildAntigravityModelsPayload = (now: number) => {
+  const reset = new Date(now + 4 * 3600 * 1000).toISOString();
+  const entry = (displayName: string, remainingFraction: number) => ({
+    displayName,
+    quotaInfo: { remainingFraction, resetTime: reset }
+  });
+  return {
+    models: {
+      'claude-sonnet-4-5-thinking': entry('Claude Sonnet 4.5 (Thinking)', 0.64),
+      'claude-sonnet-4-5': entry('Claude Sonnet 4.5', 0.64),
+      'gemini-3-pro-high': entry('Gemini 3 Pro (High)', 0.21),
+      'gemini-3-pro-low': entry('Gemini 3 Pro (Low)', 0.21),
+      'gemini-2.5-flash': entry('Gemini 2.5 Flash', 0.93),
+      'gemini-3-pro-image': entry('Gemini 3 Pro Image', 1)
+    }
+  };
+};
+
+const listAllModels = (state: MockState) => {
+  const owners = new Set<string>(state.authFiles.filter((file) => !file.meta.disabled).map((file) => String(file.meta.type)));
+  if (asArray(state.config['openai-compatibility']).length) owners.add('openrouter');
+  if (asArray(state.config['claude-api-key']).length) owners.add('claude');
+  if (asArray(state.config['codex-api-key']).length) owners.add('codex');
+  if (asArray(state.config['gemini-api-key']).length) owners.add('gemini-cli');
+
+  const seen = new Set<string>();
+  const models: { id: string; object: string; created: number; owned_by: string }[] = [];
+  owners.forEach((owner) => {
+    (MOCK_MODEL_CATALOG[owner] ?? []).forEach((model) => {
+      if (seen.has(model.id)) return;
+      seen.add(model.id);
+      models.push({ id: model.id, object: 'model', created: 1735689600, owned_by: model.owned_by });
+    });
+  });
+  return models.sort((a, b) => a.id.localeCompare(b.id));
+};
+
+const apiCallResult = (statusCode: number, body: unknown) => ({
+  status_code: statusCode,
+  header: { 'Content-Type': ['application/json'] },
+  body: typeof body === 'string' ? body : JSON.stringify(body)
+});
+
+export function createMockServer(options: CreateMockStateOptions = {}): MockServer {
+  const state = createMockState(options);
+  const routes: MockRoute[] = [];
+  let oauthCounter = 0;
+
+  const on = (method: string, path: string | RegExp, handler: MockHandler) => {
+    const pattern = typeof path === 'string' ? new RegExp(`^${escapePath(path)}$`) : path;
+    routes.push({ method, pattern, handler });
+  };
+
+  const touchConfig = () => {
+    state.configYaml = null;
+  };
+
+  const findAuthFile = (idOrName: unknown) => {
+    const key = String(idOrName ?? '');
+    return state.authFiles.find((file) => file.meta.id === key || file.meta.name === key);
+  };
+
+  const saveAuthFile = (name: string, content: string, now: number) => {
+    const meta = buildAuthFileMeta(name, content, now);
+    const existing = state.authFiles.findIndex((file) => file.meta.name === name);
+    if (existing >= 0) {
+      state.authFiles[existing] = { meta: { ...state.authFiles[existing].meta, ...meta }, content };
+    } else {
+      state.authFiles.push({ meta, content });
+    }
+    return meta;
+  };
+
+  // ---- 配置 ----
+  on('GET', '/config', () => ok(clone(state.config)));
+
+  on('GET', '/config.yaml', () => ({
+    status: 200,
+    data: state.configYaml ?? stringifyYaml(state.config),
+    headers: { 'content-type': 'application/yaml; charset=utf-8' }
+  }));
+
+  on('PUT', '/config.yaml', (request) => {
+    const text = request.rawBody ?? '';
+    let parsed: unknown;
+    try {
+      parsed = parseYaml(text);
+    } catch (error) {
+      return fail(400, `invalid yaml: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return fail(400, 'invalid yaml: top-level value must be a mapping');
+    }
+    state.config = parsed as MockConfig;
+    state.configYaml = text;
+    return ok({ ok: true, changed: ['config'] });
+  });
+
+  Object.entries(SETTING_ROUTES).forEach(([path, keys]) => {
+    const responseKey = keys[keys.length - 1];
+    on('GET', path, () => ok({ [responseKey]: readPath(state.config, keys) ?? null }));
+
+    const update: MockHandler = (request) => {
+      const value = readBodyValue(request.body);
+      const current = readPath(state.config, keys);
+      const expected = current === undefined || current === null ? typeof value : typeof current;
+      if (value === undefined || value === null || typeof value !== expected) {
+        return fail(400, 'invalid value');
+      }
+      if (path === '/routing/strategy' && !ROUTING_STRATEGIES.includes(String(value))) {
+        return fail(400, 'invalid strategy');
+      }
+      if (typeof value === 'number' && (!Number.isFinite(value) || value < 0)) {
+        return fail(400, 'invalid value');
+      }
+      writePath(state.config, keys, value);
+      touchConfig();
+      return ok();
+    };
+    on('PUT', path, update);
+    on('PATCH', path, update);
+    on('DELETE', path, () => {
+      writePath(state.config, keys, emptyValueLike(readPath(state.config, keys)));
+      touchConfig();
+      return ok();
+    });
+  });
+
+  Object.entries(LIST_SECTIONS).forEach(([section, { matchParam, matchField }]) => {
+    const path = `/${section}`;
+    const list = (): unknown[] => {
+      const items = state.config[section];
+      if (Array.isArray(items)) return items;
+      const created: unknown[] = [];
+      state.config[section] = created;
+      return created;
+    };
+
+    on('GET', path, () => ok({ [section]: clone(list()) }));
+
+    on('PUT', path, (request) => {
+      const value = Array.isArray(request.body) ? request.body : asObject(request.body).items;
+      if (!Array.isArray(value)) return fail(400, 'invalid body');
+      state.config[section] = clone(value);
+      touchConfig();
+      return ok();
+    });
+
+    on('PATCH', path, (request) => {
+      const items = list();
+      const body = asObject(request.body);
+      if (section === 'api-keys' && typeof body.old === 'string') {
+        const index = items.indexOf(body.old);
+        if (index < 0) return fail(404, 'item not found');
+        items[index] = body.new;
+      } else {
+        const index = Number(body.index);
+        if (!Number.isInteger(index) || index < 0 || index >= items.length) {
+          return fail(404, 'item not found');
+        }
+        if (body.value === undefined) return fail(400, 'invalid body');
+        items[index] = clone(body.value);
+      }
+      touchConfig();
+      return ok();
+    });
+
+    on('DELETE', path, (request) => {
+      const items = list();
+      const raw = request.query.get(matchParam) ?? request.query.get('index');
+      if (raw === null) return fail(400, `missing ${matchParam}`);
+      let index = -1;
+      if (matchField && request.query.has(matchParam)) {
+        index = items.findIndex((item) => isObject(item) && item[matchField] === raw);
+      } else {
+        const parsed = Number(raw);
+        index = Number.isInteger(parsed) ? parsed : -1;
+      }
+      if (index < 0 || index >= items.length) return fail(404, 'item not found');
+      items.splice(index, 1);
+      touchConfig();
+      return ok();
+    });
+  });
+
+  // ---- Amp CLI ----
+  const ampcode = (): JsonObject => {
+    const config = state.config.ampcode;
+    if (isObject(config)) return config;
+    const created: JsonObject = {};
+    state.config.ampcode = created;
+    return created;
+  };
+  const ampMappings = (): AmpModelMapping[] => {
+    const config = ampcode();
+    const mappings = config['model-mappings'];
+    if (Array.isArray(mappings)) return mappings as AmpModelMapping[];
+    const created: AmpModelMapping[] = [];
+    config['model-mappings'] = created;
+    return created;
+  };
+
+  on('GET', '/ampcode', () => ok({ ampcode: clone(ampcode()) }));
+  on('GET', '/ampcode/model-mappings', () => ok({ 'model-mappings': clone(ampMappings()) }));
+  on('PUT', '/ampcode/model-mappings', (request) => {
+    const value = readBodyValue(request.body);
+    if (!Array.isArray(value)) return fail(400, 'invalid body');
+    ampcode()['model-mappings'] = clone(value);
+    touchConfig();
+    return ok();
+  });
+  on('PATCH', '/ampcode/model-mappings', (request) => {
+    const value = readBodyValue(request.body);
+    if (!Array.isArray(value)) return fail(400, 'invalid body');
+    const mappings = ampMappings();
+    value.forEach((raw) => {
+      const entry = asObject(raw);
+      const from = String(entry.from ?? '');
+      const to = String(entry.to ?? '');
+      const existing = mappings.find((item) => item.from === from);
+      if (existing) existing.to = to;
+      else mappings.push({ from, to });
+    });
+    touchConfig();
+    return ok();
+  });
+  on('DELETE', '/ampcode/model-mappings', (request) => {
+    const value = readBodyValue(request.body);
+    if (Array.isArray(value)) {
+      const remove = new Set(value.map(String));
+      ampcode()['model-mappings'] = ampMappings().filter((item) => !remove.has(item.from));
+    } else {
+      ampcode()['model-mappings'] = [];
+    }
+    touchConfig();
+    return ok();
+  });
+
+  // ---- OAuth 排除模型与模型映射 ----
+  const mapSection = (key: string): JsonObject => {
+    const section = state.config[key];
+    if (isObject(section)) return section;
+    const created: JsonObject = {};
+    state.config[key] = created;
+    return created;
+  };
+
+  on('GET', '/oauth-excluded-models', () =>
+    ok({ 'oauth-excluded-models': clone(mapSection('oauth-excluded-models')) })
+  );
+  on('PUT', '/oauth-excluded-models', (request) => {
+    const value = asObject(request.body).items ?? request.body;
+    if (!isObject(value)) return fail(400, 'invalid body');
+    state.config['oauth-excluded-models'] = clone(value);
+    touchConfig();
+    return ok();
+  });
+  on('PATCH', '/oauth-excluded-models', (request) => {
+    const body = asObject(request.body);
+    const provider = String(body.provider ?? '').trim().toLowerCase();
+    if (!provider) return fail(400, 'missing provider');
+    const models = asArray(body.models);
+    const section = mapSection('oauth-excluded-models');
+    if (models.length) section[provider] = models.map(String);
+    else delete section[provider];
+    touchConfig();
+    return ok();
+  });
+  on('DELETE', '/oauth-excluded-models', (request) => {
+    const provider = request.query.get('provider') ?? '';
+    const section = mapSection('oauth-excluded-models');
+    if (!(provider in section)) return fail(404, 'provider not found');
+    delete section[provider];
+    touchConfig();
+    return ok();
+  });
+
+  on('GET', '/oauth-model-mappings', () =>
+    ok({ 'oauth-model-mappings': clone(mapSection('oauth-model-mappings')) })
+  );
+  on('PATCH', '/oauth-model-mappings', (request) => {
+    const body = asObject(request.body);
+    const channel = String(body.channel ?? '').trim();
+    if (!channel) return fail(400, 'missing channel');
+    const mappings = asArray(body.mappings);
+    const section = mapSection('oauth-model-mappings');
+    if (mappings.length) section[channel] = clone(mappings);
+    else delete section[channel];
+    touchConfig();
+    return ok();
+  });
+  on('DELETE', '/oauth-model-mappings', (request) => {
+    const channel = request.query.get('channel') ?? '';
+    const section = mapSection('oauth-model-mappings');
+    if (!(channel in section)) return fail(404, 'channel not found');
+    delete section[channel];
+    touchConfig();
+    return ok();
+  });
+
+  // ---- 认证文件 ----
+  on('GET', '/auth-files', () => {
+    const files = state.authFiles.map((file) => clone(file.meta));
+    return ok({ files, total: files.length });
+  });
+
+  on('POST', '/auth-files', async (request, _params, now) => {
+    const uploads = (request.formData?.getAll('file') ?? []).filter(
+      (entry): entry is File => typeof entry !== 'string'
+    );
+    if (!uploads.length) return fail(400, 'no file uploaded');
+    for (const file of uploads) {
+      if (!file.name.toLowerCase().endsWith('.json')) {
+        return fail(400, `${file.name}: only .json files are accepted`);
+      }
+      const text = await file.text();
+      try {
+        JSON.parse(text);
+      } catch {
+        return fail(400, `${file.name}: invalid JSON`);
+      }
+      saveAuthFile(file.name, text, now);
+    }
+    return ok({ status: 'ok', uploaded: uploads.length });
+  });
+
+  on('DELETE', '/auth-files', (request) => {
+    if (request.query.get('all') === 'true') {
+      const deleted = state.authFiles.length;
+      state.authFiles = [];
+      return ok({ status: 'ok', deleted });
+    }
+    const name = request.query.get('name') ?? '';
+    const index = state.authFiles.findIndex((file) => file.meta.name === name);
+    if (index < 0) return fail(404, 'file not found');
+    state.authFiles.splice(index, 1);
+    return ok();
+  });
+
+  on('GET', '/auth-files/models', (request) => {
+    const file = findAuthFile(request.query.get('name'));
+    if (!file) return fail(404, 'file not found');
+    const type = String(file.meta.type ?? '');
+    const models = (MOCK_MODEL_CATALOG[type] ?? []).map((model) => ({
+      id: model.id,
+      display_name: model.id,
+      type,
+      owned_by: model.owned_by
+    }));
+    return ok({ models });
+  });
+
+  on('GET', '/auth-files/download', (request) => {
+    const file = findAuthFile(request.query.get('name'));
+    if (!file) return fail(404, 'file not found');
+    return { status: 200, data: file.content, headers: { 'content-type': 'application/json' } };
+  });
+
+  on('PUT', '/auth-files/disabled', (request) => {
+    const body = asObject(request.body);
+    const file = findAuthFile(body.id);
+    if (!file) return fail(404, 'file not found');
+    const disabled = Boolean(body.disabled);
+    file.meta.disabled = disabled;
+    file.meta.status = disabled ? 'disabled' : file.meta.unavailable ? 'error' : 'active';
+    return ok();
+  });
+
+  on('POST', '/auth-files/codex-quota', (request, _params, now) => {
+    const file = findAuthFile(asObject(request.body).id);
+    if (!file) return fail(404, 'file not found');
+    const usage = buildCodexUsagePayload(now);
+    file.meta.codex_quota = {
+      plan_type: usage.plan_type,
+      primary_used_percent: usage.rate_limit.primary_window.used_percent,
+      primary_reset_after_seconds: usage.rate_limit.primary_window.reset_after_seconds,
+      primary_window_minutes: usage.rate_limit.primary_window.limit_window_seconds / 60,
+      secondary_used_percent: usage.rate_limit.secondary_window.used_percent,
+      secondary_reset_after_seconds: usage.rate_limit.secondary_window.reset_after_seconds,
+      secondary_window_minutes: usage.rate_limit.secondary_window.limit_window_seconds / 60,
+      updated_at: new Date(now).toISOString()
+    };
+    return ok({ auth: clone(file.meta) });
+  });
+
+  on('POST', '/auth-files/kiro-quota', (request) => {
+    const file = findAuthFile(asObject(request.body).id);
+    if (!file) return fail(404, 'file not found');
+    return ok({ auth: clone(file.meta) });
+  });
+
+  on('GET', '/auth-files/session-bindings', () => {
+    const bindings = state.authFiles
+      .map((file) => {
+        const binding = state.sessionBindings[String(file.meta.auth_index ?? '')];
+        if (!binding) return null;
+        return { auth_id: String(file.meta.id ?? file.meta.name), ...binding };
+      })
+      .filter(Boolean);
+    return ok({ bindings });
+  });
+
+  // ---- 使用统计 ----
+  on('GET', '/usage', () => {
+    const usage = buildUsageSnapshot(state.usage);
+    return ok({ usage, failed_requests: usage.failure_count });
+  });
+
+  on('GET', '/usage/export', (_request, _params, now) =>
+    ok({ version: 1, exported_at: new Date(now).toISOString(), usage: buildUsageSnapshot(state.usage) })
+  );
+
+  on('POST', '/usage/import', (request) => {
+    const payload = asObject(request.body).usage ?? request.body;
+    const apis = asObject(payload).apis;
+    if (!isObject(apis)) return fail(400, 'invalid usage payload');
+
+    const existing = new Set(state.usage.map(usageRecordKey));
+    let added = 0;
+    let skipped = 0;
+    Object.entries(apis).forEach(([api, apiEntry]) => {
+      Object.entries(asObject(asObject(apiEntry).models)).forEach(([model, modelEntry]) => {
+        asArray(asObject(modelEntry).details).forEach((raw) => {
+          const detail = asObject(raw);
+          if (!detail.timestamp) {
+            skipped += 1;
+            return;
+          }
+          const tokens = asObject(detail.tokens);
+          const record: MockUsageRecord = {
+            api,
+            model,
+            detail: {
+              timestamp: String(detail.timestamp),
+              source: String(detail.source ?? ''),
+              auth_index: String(detail.auth_index ?? ''),
+              tokens: {
+                input_tokens: Number(tokens.input_tokens) || 0,
+                output_tokens: Number(tokens.output_tokens) || 0,
+                reasoning_tokens: Number(tokens.reasoning_tokens) || 0,
+                cached_tokens: Number(tokens.cached_tokens ?? tokens.cache_tokens) || 0,
+                total_tokens: Number(tokens.total_tokens) || 0
+              },
+              failed: detail.failed === true
+            }
+          };
+          const key = usageRecordKey(record);
+          if (existing.has(key)) {
+            skipped += 1;
+            return;
+          }
+          existing.add(key);
+          state.usage.push(record);
+          added += 1;
+        });
+      });
+    });
+    state.usage.sort((a, b) => a.detail.timestamp.localeCompare(b.detail.timestamp));
+    const failed = state.usage.filter((record) => record.detail.failed).length;
+    return ok({ added, skipped, total_requests: state.usage.length, failed_requests: failed });
+  });
+
+  // ---- 日志 ----
+  on('GET', '/logs', (request) => {
+    const after = Number(request.query.get('after') ?? 0);
+    const lines = state.logs.filter((entry) => !after || Math.floor(entry.timestamp / 1000) > after);
+    const latest = lines.length ? Math.floor(lines[lines.length - 1].timestamp / 1000) : after;
+    return ok({ lines: lines.map((entry) => entry.line), 'line-count': lines.length, 'latest-timestamp': latest });
+  });
+
+  on('DELETE', '/logs', () => {
+    const removed = state.logs.length;
+    state.logs = [];
+    return ok({ success: true, message: 'Logs cleared successfully', removed });
+  });
+
+  on('GET', '/request-error-logs', () =>
+    ok({
+      files: state.errorLogs.map((log) => ({
+        name: log.name,
+        size: new Blob([log.content]).size,
+        modified: log.modified
+      }))
+    })
+  );
+
+  on('GET', /^\/request-error-logs\/([^/]+)$/, (_request, [name]) => {
+    const log = state.errorLogs.find((item) => item.name === name);
+    if (!log) return fail(404, 'log file not found');
+    return { status: 200, data: log.content, headers: { 'content-type': 'text/plain; charset=utf-8' } };
+  });
+
+  on('GET', /^\/request-log-by-id\/([^/]+)$/, (_request, [id]) => {
+    const event = state.requests.get(id);
+    if (!event) return fail(404, 'request log not found');
+    const log = state.errorLogs.find((item) => item.name.endsWith(`-${id}.log`));
+    return {
+      status: 200,
+      data: log?.content ?? buildRequestLogContent(event),
+      headers: { 'content-type': 'text/plain; charset=utf-8' }
+    };
+  });
+
+  // ---- OAuth ----
+  on('GET', /^\/([a-z-]+)-auth-url$/, (_request, [provider]) => {
+    if (!OAUTH_PROVIDERS.includes(provider)) return fail(404, 'not found');
+    oauthCounter += 1;
+    const stateId = `mock-${provider}-${oauthCounter}`;
+    state.oauthSessions[stateId] = { provider, polls: 0 };
+    return ok({
+      status: 'ok',
+      url: `https://auth.example.com/${provider}/authorize?state=${encodeURIComponent(stateId)}`,
+      state: stateId
+    });
+  });
+
+  on('GET', '/get-auth-status', (request, _params, now) => {
+    const stateId = request.query.get('state') ?? '';
+    const session = state.oauthSessions[stateId];
+    if (!session) return ok({ status: 'error', error: 'unknown or expired state' });
+    session.polls += 1;
+    if (session.polls < 2) return ok({ status: 'wait' });
+
+    delete state.oauthSessions[stateId];
+    const type = OAUTH_FILE_TYPES[session.provider] ?? session.provider;
+    const email = `demo-${session.provider}-${stateId.split('-').pop()}@example.com`;
+    const content = JSON.stringify(
+      {
+        type,
+        email,
+        access_token: `mock-${session.provider}-access-${stateId}`,
+        refresh_token: `mock-${session.provider}-refresh-${stateId}`,
+        expired: new Date(now + 60 * 60 * 1000).toISOString()
+      },
+      null,
+      2
+    );
+    saveAuthFile(`${session.provider}-${email}.json`, content, now);
+    return ok({ status: 'ok' });
+  });
+
+  on('POST', '/oauth-callback', (request) => {
+    const body = asObject(request.body);
+    const redirectUrl = String(body.redirect_url ?? '');
+    if (!/[?&]code=/.test(redirectUrl)) return fail(400, 'redirect url does not contain an authorization code');
+    const stateId = String(body.state ?? '');
+    const session = state.oauthSessions[stateId];
+    if (session) session.polls = Math.max(session.polls, 1);
+    return ok({ status: 'ok' });
+  });
+
+  on('POST', '/iflow-auth-url', (request, _params, now) => {
+    const cookie = String(asObject(request.body).cookie ?? '').trim();
+    if (!cookie) return fail(400, 'cookie is required');
+    oauthCounter += 1;
+    const email = `iflow-demo-${oauthCounter}@example.com`;
+    const expired = new Date(now + 30 * 24 * 60 * 60 * 1000).toISOString();
+    const name = `iflow-${email}.json`;
+    saveAuthFile(name, JSON.stringify({ type: 'iflow', email, api_key: 'sk-mock-iflow-cookie', expired }, null, 2), now);
+    return ok({ status: 'ok', saved_path: `~/.cli-proxy-api/${name}`, email, expired, type: 'iflow' });
+  });
+
+  on('POST', '/vertex/import', async (request, _params, now) => {
+    const file = request.formData?.get('file');
+    if (!file || typeof file === 'string') return fail(400, 'no file uploaded');
+    let parsed: JsonObject;
+    try {
+      parsed = asObject(JSON.parse(await file.text()));
+    } catch {
+      return fail(400, 'invalid service account JSON');
+    }
+    const projectId = String(parsed.project_id ?? '').trim();
+    if (!projectId) return fail(400, 'service account is missing project_id');
+    const location = String(request.formData?.get('location') ?? '') || 'us-central1';
+    const email = String(parsed.client_email ?? '');
+    const name = `vertex-${projectId}.json`;
+    saveAuthFile(
+      name,
+      JSON.stringify({ type: 'vertex', project_id: projectId, location, email, service_account: parsed }, null, 2),
+      now
+    );
+    return ok({ status: 'ok', project_id: projectId, email, location, 'auth-file': name });
+  });
+
+  // ---- 其他 ----
+  on('POST', '/api-call', (request, _params, now) => {
+    const url = String(asObject(request.body).url ?? '');
+    if (!url) return fail(400, 'missing url');
+    if (/\/models(?:\?|$)/.test(url)) {
+      return ok(apiCallResult(200, { object: 'list', data: listAllModels(state) }));
+    }
+    if (url.includes('/wham/usage')) return ok(apiCallResult(200, buildCodexUsagePayload(now)));
+    if (url.includes(':retrieveUserQuota')) return ok(apiCallResult(200, buildGeminiCliQuotaPayload(now)));
+    if (url.includes(':fetchAvailableModels')) return ok(apiCallResult(200, buildAntigravityModelsPayload(now)));
+    if (/\/(chat\/completions|messages|responses)(?:\?|$)/.test(url)) {
+      return ok(
+        apiCallResult(200, {
+          id: 'chatcmpl-mock',
+          object: 'chat.completion',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'pong' }, finish_reason: 'stop' }]
+        })
+      );
+    }
+    return ok(apiCallResult(502, { error: { message: 'offline demo server cannot reach upstream hosts' } }));
+  });
+
+  on('GET', '/latest-version', () => ok({ 'latest-version': MOCK_LATEST_VERSION }));
+
+  const handle = async (request: MockRequest, now: number = Date.now()): Promise<MockResponse> => {
+    advanceMockState(state, now);
+    const versionHeaders = {
+      'x-cpa-version': MOCK_SERVER_VERSION,
+      'x-cpa-build-date': MOCK_SERVER_BUILD_DATE
+    };
+
+    // 代理自身的 OpenAI 兼容接口（模型列表），使用客户端 API Key
+    if (request.path === '/v1/models') {
+      const key = (request.headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+      const configuredKeys = state.config['api-keys'];
+      const validKeys = Array.isArray(configuredKeys) ? configuredKeys.map(String) : CLIENT_API_KEYS;
+      if (key && !validKeys.includes(key)) {
+        return { status: 401, data: { error: 'invalid api key' }, headers: versionHeaders };
+      }
+      return { status: 200, data: { object: 'list', data: listAllModels(state) }, headers: versionHeaders };
+    }
+
+    const authorization = request.headers.authorization ?? '';
+    if (!/^Bearer\s+\S+/i.test(authorization)) {
+      return { status: 401, data: { error: 'missing management key' }, headers: versionHeaders };
+    }
+
+    const method = request.method.toUpperCase();
+    let pathMatched = false;
+    for (const route of routes) {
+      const match = route.pattern.exec(request.path);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== method) continue;
+      const params = match.slice(1).map((value) => decodeURIComponent(value));
+      const response = await route.handler(request, params, now);
+      return { ...response, headers: { ...versionHeaders, ...(response.headers ?? {}) } };
+    }
+
+    return {
+      ...(pathMatched ? fail(405, 'method not allowed') : fail(404, 'not found')),
+      headers: versionHeaders
+    };
+  };
+
+  return { state, handle };
+}
+
@@ -0,0 +1,365 @@
+/**
+ * 离线演示服务器使用的精简 YAML 读写
+ * 只覆盖 config.yaml 用到的子集：块状映射/序列、标量、行内 [] / {}、| 与 > 块文本、# 注释
+ */
+
+type YamlValue = unknown;
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNo: number;
+}
+
+const PLAIN_SAFE_REGEX = /^[A-Za-z0-9_./~+-][A-Za-z0-9_ ./@~:+-]*$/;
+const RESERVED_SCALAR_REGEX = /^(?:true|false|yes|no|on|off|null|~|[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?)$/i;
+
+const formatScalar = (value: YamlValue): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  const text = String(value);
+  if (
+    text === '' ||
+    !PLAIN_SAFE_REGEX.test(text) ||
+    RESERVED_SCALAR_REGEX.test(text) ||
+    text.endsWith(' ') ||
+    text.endsWith(':') ||
+    /^-(?:\s|$)/.test(text) ||
+    text.includes(': ') ||
+    text.includes(' #')
+  ) {
+    return JSON.stringify(text);
+  }
+  return text;
+};
+
+const formatKey = (key: string): string => (PLAIN_SAFE_REGEX.test(key) && !key.includes(':') ? key : JSON.stringify(key));
+
+const isPlainObject = (value: YamlValue): value is Record<string, YamlValue> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const stringifyNode = (value: YamlValue, indent: number): string[] => {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    const lines: string[] = [];
+    value.forEach((item) => {
+      if (isPlainObject(item) && Object.keys(item).length) {
+        const nested = stringifyNode(item, indent + 2);
+        lines.push(`${pad}- ${nested[0].trimStart()}`, ...nested.slice(1));
+      } else if (Array.isArray(item) && item.length) {
+        lines.push(`${pad}-`, ...stringifyNode(item, indent + 2));
+      } else {
+        lines.push(`${pad}- ${stringifyInline(item)}`);
+      }
+    });
+    return lines;
+  }
+
+  if (isPlainObject(value)) {
+    const lines: string[] = [];
+    Object.entries(value).forEach(([key, child]) => {
+      if (child === undefined) return;
+      const hasChildren =
+        (Array.isArray(child) && child.length > 0) ||
+        (isPlainObject(child) && Object.keys(child).length > 0);
+      if (hasChildren) {
+        lines.push(`${pad}${formatKey(key)}:`);
+        lines.push(...stringifyNode(child, indent + 2));
+      } else {
+        lines.push(`${pad}${formatKey(key)}: ${stringifyInline(child)}`);
+      }
+    });
+    return lines;
+  }
+
+  return [`${pad}${formatScalar(value)}`];
+};
+
+const stringifyInline = (value: YamlValue): string => {
+  if (Array.isArray(value)) return '[]';
+  if (isPlainObject(value)) return '{}';
+  return formatScalar(value);
+};
+
+/**
+ * 将对象序列化为 YAML 文本（键顺序保持插入顺序）
+ */
+export function stringifyYaml(value: YamlValue): string {
+  if (!isPlainObject(value) && !Array.isArray(value)) {
+    return `${formatScalar(value)}\n`;
+  }
+  return `${stringifyNode(value, 0).join('\n')}\n`;
+}
+
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+/**
+ * 在引号与括号外查找第一个 "key: value" 分隔符
+ */
+const findMappingColon = (text: string): number => {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') depth--;
+    else if (char === ':' && depth === 0 && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const splitFlowItems = (body: string): string[] => {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote) {
+      current += char;
+      if (char === '\\' && quote === '"' && i + 1 < body.length) {
+        current += body[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') depth--;
+    if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+const parseKey = (raw: string): string => {
+  const trimmed = raw.trim();
+  const parsed = parseScalar(trimmed, 0);
+  return typeof parsed === 'string' ? parsed : trimmed;
+};
+
+const parseScalar = (raw: string, lineNo: number): YamlValue => {
+  const text = raw.trim();
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^[-+]?(?:\d+\.\d*|\.\d+|\d+)(?:[eE][-+]?\d+)?$/.test(text)) return Number(text);
+
+  if (text.startsWith('"')) {
+    if (!text.endsWith('"') || text.length < 2) {
+      throw new Error(`line ${lineNo}: unterminated double-quoted string`);
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`line ${lineNo}: invalid double-quoted string`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) {
+      throw new Error(`line ${lineNo}: unterminated single-quoted string`);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw new Error(`line ${lineNo}: unterminated flow sequence`);
+    return splitFlowItems(text.slice(1, -1)).map((item) => parseScalar(item, lineNo));
+  }
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) throw new Error(`line ${lineNo}: unterminated flow mapping`);
+    const result: Record<string, YamlValue> = {};
+    splitFlowItems(text.slice(1, -1)).forEach((item) => {
+      const colon = findMappingColon(item);
+      if (colon < 0) throw new Error(`line ${lineNo}: expected "key: value" in flow mapping`);
+      result[parseKey(item.slice(0, colon))] = parseScalar(item.slice(colon + 1), lineNo);
+    });
+    return result;
+  }
+  return text;
+};
+
+class YamlParser {
+  private index = 0;
+  private lines: YamlLine[];
+  private rawLines: string[];
+
+  constructor(lines: YamlLine[], rawLines: string[]) {
+    this.lines = lines;
+    this.rawLines = rawLines;
+  }
+
+  parseDocument(): YamlValue {
+    if (!this.lines.length) return {};
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      throw new Error(`line ${line.lineNo}: unexpected indentation`);
+    }
+    return value;
+  }
+
+  private peek(): YamlLine | undefined {
+    return this.lines[this.index];
+  }
+
+  private parseBlock(indent: number): YamlValue {
+    const line = this.peek();
+    if (!line) return null;
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return this.parseSequence(indent);
+    }
+    return this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const result: YamlValue[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) throw new Error(`line ${line.lineNo}: unexpected indentation`);
+      if (!(line.text === '-' || line.text.startsWith('- '))) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.index++;
+        const next = this.peek();
+        result.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+        continue;
+      }
+
+      const childIndent = indent + (line.text.length - rest.length);
+      if (rest === '-' || rest.startsWith('- ') || findMappingColon(rest) >= 0) {
+        // "- key: value" 视为从该列开始的嵌套块
+        this.lines[this.index] = { ...line, indent: childIndent, text: rest };
+        result.push(this.parseBlock(childIndent));
+        continue;
+      }
+
+      this.index++;
+      result.push(parseScalar(rest, line.lineNo));
+    }
+    return result;
+  }
+
+  private parseMapping(indent: number): Record<string, YamlValue> {
+    const result: Record<string, YamlValue> = {};
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) throw new Error(`line ${line.lineNo}: unexpected indentation`);
+      if (line.text === '-' || line.text.startsWith('- ')) break;
+
+      const colon = findMappingColon(line.text);
+      if (colon < 0) throw new Error(`line ${line.lineNo}: expected "key: value"`);
+      const key = parseKey(line.text.slice(0, colon));
+      const rest = line.text.slice(colon + 1).trim();
+      this.index++;
+
+      if (rest === '|' || rest === '>' || /^[|>][-+]?$/.test(rest)) {
+        result[key] = this.parseBlockScalar(indent, rest.startsWith('>'), rest.endsWith('-'));
+        continue;
+      }
+      if (rest) {
+        result[key] = parseScalar(rest, line.lineNo);
+        continue;
+      }
+
+      const next = this.peek();
+      if (next && next.indent > indent) {
+        result[key] = this.parseBlock(next.indent);
+      } else if (next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+        result[key] = this.parseSequence(indent);
+      } else {
+        result[key] = null;
+      }
+    }
+    return result;
+  }
+
+  private parseBlockScalar(parentIndent: number, folded: boolean, strip: boolean): string {
+    const startLineNo = this.lines[this.index - 1].lineNo;
+    const collected: string[] = [];
+    let blockIndent = -1;
+    let rawIndex = startLineNo;
+
+    while (rawIndex < this.rawLines.length) {
+      const raw = this.rawLines[rawIndex];
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.trim() && indent <= parentIndent) break;
+      if (raw.trim() && blockIndent < 0) blockIndent = indent;
+      collected.push(blockIndent >= 0 ? raw.slice(blockIndent) : '');
+      rawIndex++;
+    }
+
+    while (this.index < this.lines.length && this.lines[this.index].lineNo <= rawIndex) {
+      this.index++;
+    }
+
+    while (collected.length && !collected[collected.length - 1].trim()) collected.pop();
+    const text = folded ? collected.join(' ').replace(/ {2,}/g, ' ') : collected.join('\n');
+    return strip ? text : `${text}\n`;
+  }
+}
+
+/**
+ * 解析 YAML 文本；语法不受支持时抛出带行号的错误
+ */
+export function parseYaml(text: string): YamlValue {
+  const rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+  const lines: YamlLine[] = [];
+
+  rawLines.forEach((raw, index) => {
+    if (/^\s*(?:---|\.\.\.)\s*$/.test(raw)) return;
+    if (raw.includes('\t') && /^\s*\t/.test(raw)) {
+      throw new Error(`line ${index + 1}: tabs are not allowed for indentation`);
+    }
+    const content = stripComment(raw).replace(/\s+$/, '');
+    if (!content.trim()) return;
+    lines.push({
+      indent: content.length - content.trimStart().length,
+      text: content.trim(),
+      lineNo: index + 1
+    });
+  });
+
+  return new YamlParser(lines, rawLines).parseDocument();
+}
@@ -9,3 +9,7 @@ export { useAuthStore } from './useAuthStore';
 export { useConfigStore } from './useConfigStore';
 export { useModelsStore } from './useModelsStore';
 export { useQuotaStore } from './useQuotaStore';
+export { useProfilesStore } from './useProfilesStore';
+export { useConfigHistoryStore } from './useConfigHistoryStore';
+export { useLogSearchesStore } from './useLogSearchesStore';
+export { useUsageBudgetsStore } from './useUsageBudgetsStore';
@@ -5,11 +5,15 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { AuthState, LoginCredentials, ConnectionStatus } from '@/types';
+import type { AuthState, LoginCredentials, ConnectionStatus, ConnectionProfile } from '@/types';
 import { STORAGE_KEY_AUTH } from '@/utils/constants';
 import { secureStorage } from '@/services/storage/secureStorage';
-import { apiClient } from '@/services/api/client';
+import { apiClient, createIsolatedApiClient } from '@/services/api/client';
 import { useConfigStore } from './useConfigStore';
+import { useQuotaStore } from './useQuotaStore';
+import { useModelsStore } from './useModelsStore';
+import { useUsageBudgetsStore } from './useUsageBudgetsStore';
+import { useProfilesStore } from './useProfilesStore';
 import { detectApiBaseFromLocation, normalizeApiBase } from '@/utils/connection';
 
 interface AuthStoreState extends AuthState {
@@ -21,11 +25,33 @@ interface AuthStoreState extends AuthState {
   logout: () => void;
   checkAuth: () => Promise<boolean>;
   restoreSession: () => Promise<boolean>;
+  switchProfile: (profile: ConnectionProfile) => Promise<void>;
   updateServerVersion: (version: string | null, buildDate?: string | null) => void;
   updateConnectionStatus: (status: ConnectionStatus, error?: string | null) => void;
 }
 
 let restoreSessionPromise: Promise<boolean> | null = null;
+let activeConnectionScope: string | null = null;
+
+/**
+ * 切换缓存作用域：每个连接档案（或未保存档案的连接地址）拥有独立的配置/配额/模型缓存与用量预算，
+ * 避免切换服务器后展示另一台服务器的旧数据
+ */
+const applyConnectionScope = (apiBase: string, managementKey: string) => {
+  const profile = useProfilesStore.getState().findProfile(apiBase, managementKey);
+  useProfilesStore.getState().setActiveProfile(profile?.id ?? null);
+
+  const scope = profile ? `profile:${profile.id}` : `base:${apiBase}`;
+  if (scope === activeConnectionScope) return;
+
+  if (activeConnectionScope !== null) {
+    useConfigStore.getState().clearCache();
+  }
+  useQuotaStore.getState().switchScope(scope);
+  useModelsStore.getState().switchScope(scope);
+  useUsageBudgetsStore.getState().switchScope(scope);
+  activeConnectionScope = scope;
+};
 
 export const useAuthStore = create<AuthStoreState>()(
   persist(
@@ -99,6 +125,7 @@ export const useAuthStore = create<AuthStoreState>()(
             apiBase,
             managementKey
           });
+          applyConnectionScope(apiBase, managementKey);
 
           // 测试连接 - 获取配置
           await useConfigStore.getState().fetchConfig(undefined, true);
@@ -126,6 +153,20 @@ export const useAuthStore = create<AuthStoreState>()(
         }
       },
 
+      // 切换到已保存的连接档案：先用独立客户端探测，避免凭据错误时影响当前会话
+      switchProfile: async (profile) => {
+        await createIsolatedApiClient({
+          apiBase: profile.apiBase,
+          managementKey: profile.managementKey
+        }).get('/config');
+
+        await get().login({
+          apiBase: profile.apiBase,
+          managementKey: profile.managementKey,
+          rememberPassword: get().rememberPassword
+        });
+      },
+
       // 登出
       logout: () => {
         restoreSessionPromise = null;
@@ -153,6 +194,7 @@ export const useAuthStore = create<AuthStoreState>()(
         try {
           // 重新配置客户端
           apiClient.setConfig({ apiBase, managementKey });
+          applyConnectionScope(apiBase, managementKey);
 
           // 验证连接
           await useConfigStore.getState().fetchConfig();
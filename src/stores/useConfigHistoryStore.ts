@@ -0,0 +1,116 @@
+/**
+ * 配置文件历史版本
+ * 按服务器地址在本地保存每次保存的 config.yaml（以及保存前服务器上的版本），用于对比与回滚
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { ConfigRevision, ConfigRevisionSource } from '@/types';
+import { STORAGE_KEY_CONFIG_HISTORY } from '@/utils/constants';
+import { secureStorage } from '@/services/storage/secureStorage';
+import { normalizeApiBase } from '@/utils/connection';
+import { generateId } from '@/utils/helpers';
+
+/** 每个服务器最多保留的版本数，超出后丢弃最旧的版本 */
+const MAX_REVISIONS_PER_SERVER = 50;
+/** 每个服务器保留版本的内容总长度上限（字符），避免占满 localStorage */
+const MAX_HISTORY_CHARS_PER_SERVER = 1024 * 1024;
+
+interface ConfigHistoryState {
+  histories: Record<string, ConfigRevision[]>;
+
+  // 操作
+  recordRevision: (
+    apiBase: string,
+    content: string,
+    source: ConfigRevisionSource
+  ) => ConfigRevision | null;
+  removeRevision: (apiBase: string, id: string) => void;
+  clearHistory: (apiBase: string) => void;
+}
+
+const historyKey = (apiBase: string) => normalizeApiBase(apiBase);
+
+// 从最新版本往前保留，直到超出数量或总长度上限；最新版本始终保留
+const trimRevisions = (revisions: ConfigRevision[]): ConfigRevision[] => {
+  const kept: ConfigRevision[] = [];
+  let size = 0;
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    size += revisions[i].content.length;
+    if (
+      kept.length &&
+      (kept.length >= MAX_REVISIONS_PER_SERVER || size > MAX_HISTORY_CHARS_PER_SERVER)
+    ) {
+      break;
+    }
+    kept.unshift(revisions[i]);
+  }
+  return kept;
+};
+
+export const useConfigHistoryStore = create<ConfigHistoryState>()(
+  persist(
+    (set, get) => ({
+      histories: {},
+
+      // 内容与最新版本相同时不重复记录
+      recordRevision: (apiBase, content, source) => {
+        const key = historyKey(apiBase);
+        if (!key) return null;
+        const revisions = get().histories[key] ?? [];
+        const latest = revisions[revisions.length - 1];
+        if (latest && latest.content === content) return null;
+
+        const revision: ConfigRevision = { id: generateId(), content, savedAt: Date.now(), source };
+        set((state) => ({
+          histories: {
+            ...state.histories,
+            [key]: trimRevisions([...revisions, revision])
+          }
+        }));
+        return revision;
+      },
+
+      removeRevision: (apiBase, id) => {
+        const key = historyKey(apiBase);
+        set((state) => ({
+          histories: {
+            ...state.histories,
+            [key]: (state.histories[key] ?? []).filter((revision) => revision.id !== id)
+          }
+        }));
+      },
+
+      clearHistory: (apiBase) => {
+        const key = historyKey(apiBase);
+        set((state) => {
+          const histories = { ...state.histories };
+          delete histories[key];
+          return { histories };
+        });
+      }
+    }),
+    {
+      name: STORAGE_KEY_CONFIG_HISTORY,
+      // 配置中包含密钥，与登录凭据一样混淆存储
+      storage: createJSONStorage(() => ({
+        getItem: (name) => {
+          const data = secureStorage.getItem<ConfigHistoryState>(name);
+          return data ? JSON.stringify(data) : null;
+        },
+        // 历史记录只是辅助功能，写入失败（如超出存储配额）不能影响配置保存
+        setItem: (name, value) => {
+          try {
+            secureStorage.setItem(name, JSON.parse(value));
+          } catch (error) {
+            console.warn('Failed to persist config history', error);
+          }
+        },
+        removeItem: (name) => {
+          secureStorage.removeItem(name);
+        }
+      })),
+      partialize: (state) => ({ histories: state.histories })
+    }
+  )
+);
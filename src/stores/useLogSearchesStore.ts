@@ -0,0 +1,79 @@
+/**
+ * 日志保存的搜索与告警规则
+ * 保存常用的关键字 + 字段过滤组合，并可将其设为在增量拉取日志时评估的阈值告警
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEY_LOG_SEARCHES } from '@/utils/constants';
+import { generateId } from '@/utils/helpers';
+import {
+  DEFAULT_LOG_ALERT_RULE,
+  type LogAlertRule,
+  type LogFieldFilters,
+  type SavedLogSearch,
+} from '@/utils/logs';
+
+interface LogSearchesState {
+  searches: SavedLogSearch[];
+
+  // 操作
+  saveSearch: (name: string, query: string, filters: LogFieldFilters) => SavedLogSearch;
+  updateAlert: (id: string, patch: Partial<LogAlertRule>) => void;
+  markTriggered: (ids: string[], at: number) => void;
+  removeSearch: (id: string) => void;
+}
+
+export const useLogSearchesStore = create<LogSearchesState>()(
+  persist(
+    (set, get) => ({
+      searches: [],
+
+      // 同名搜索直接覆盖条件，保留已有的告警设置
+      saveSearch: (name, query, filters) => {
+        const trimmedName = name.trim();
+        const existing = get().searches.find((search) => search.name === trimmedName);
+        const saved: SavedLogSearch = existing
+          ? { ...existing, query: query.trim(), filters }
+          : {
+              id: generateId(),
+              name: trimmedName,
+              query: query.trim(),
+              filters,
+              alert: { ...DEFAULT_LOG_ALERT_RULE },
+              createdAt: Date.now(),
+            };
+        set((state) => ({
+          searches: existing
+            ? state.searches.map((search) => (search.id === saved.id ? saved : search))
+            : [...state.searches, saved],
+        }));
+        return saved;
+      },
+
+      updateAlert: (id, patch) => {
+        set((state) => ({
+          searches: state.searches.map((search) =>
+            search.id === id ? { ...search, alert: { ...search.alert, ...patch } } : search
+          ),
+        }));
+      },
+
+      markTriggered: (ids, at) => {
+        set((state) => ({
+          searches: state.searches.map((search) =>
+            ids.includes(search.id) ? { ...search, lastTriggeredAt: at } : search
+          ),
+        }));
+      },
+
+      removeSearch: (id) => {
+        set((state) => ({ searches: state.searches.filter((search) => search.id !== id) }));
+      },
+    }),
+    {
+      name: STORAGE_KEY_LOG_SEARCHES,
+      partialize: (state) => ({ searches: state.searches }),
+    }
+  )
+);
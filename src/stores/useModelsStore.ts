@@ -13,7 +13,13 @@ interface ModelsCache {
   apiBase: string;
 }
 
+interface ModelsSnapshot {
+  models: ModelInfo[];
+  cache: ModelsCache | null;
+}
+
 interface ModelsState {
+  scope: string | null;
   models: ModelInfo[];
   loading: boolean;
   error: string | null;
@@ -22,9 +28,14 @@ interface ModelsState {
   fetchModels: (apiBase: string, apiKey?: string, forceRefresh?: boolean) => Promise<ModelInfo[]>;
   clearCache: () => void;
   isCacheValid: (apiBase: string) => boolean;
+  switchScope: (scope: string) => void;
 }
 
+// 非活动连接档案的模型缓存，按 scope 保存
+const scopeSnapshots = new Map<string, ModelsSnapshot>();
+
 export const useModelsStore = create<ModelsState>((set, get) => ({
+  scope: null,
   models: [],
   loading: false,
   error: null,
@@ -72,5 +83,17 @@ export const useModelsStore = create<ModelsState>((set, get) => ({
     if (!cache) return false;
     if (cache.apiBase !== apiBase) return false;
     return Date.now() - cache.timestamp < CACHE_EXPIRY_MS;
+  },
+
+  // 切换连接档案时保存当前缓存，并恢复目标档案的缓存
+  switchScope: (scope) => {
+    const { scope: currentScope, models, cache } = get();
+    if (currentScope === scope) return;
+    if (currentScope !== null) {
+      scopeSnapshots.set(currentScope, { models, cache });
+    }
+    const next = scopeSnapshots.get(scope) ?? { models: [], cache: null };
+    scopeSnapshots.delete(scope);
+    set({ scope, models: next.models, cache: next.cache, loading: false, error: null });
   }
 }));
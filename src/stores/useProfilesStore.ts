@@ -0,0 +1,98 @@
+/**
+ * 连接配置档案管理
+ * 保存多个 CLIProxyAPI 实例的连接信息，便于在服务器之间快速切换
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { ConnectionProfile } from '@/types';
+import { STORAGE_KEY_PROFILES } from '@/utils/constants';
+import { secureStorage } from '@/services/storage/secureStorage';
+import { normalizeApiBase } from '@/utils/connection';
+import { generateId } from '@/utils/helpers';
+
+export type ConnectionProfileInput = Omit<ConnectionProfile, 'id'>;
+
+interface ProfilesState {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+
+  // 操作
+  addProfile: (input: ConnectionProfileInput) => ConnectionProfile;
+  updateProfile: (id: string, input: Partial<ConnectionProfileInput>) => void;
+  removeProfile: (id: string) => void;
+  setActiveProfile: (id: string | null) => void;
+  findProfile: (apiBase: string, managementKey: string) => ConnectionProfile | null;
+}
+
+const normalizeInput = <T extends Partial<ConnectionProfileInput>>(input: T): T => ({
+  ...input,
+  ...(input.label !== undefined ? { label: input.label.trim() } : {}),
+  ...(input.apiBase !== undefined ? { apiBase: normalizeApiBase(input.apiBase) } : {}),
+  ...(input.managementKey !== undefined ? { managementKey: input.managementKey.trim() } : {})
+});
+
+export const useProfilesStore = create<ProfilesState>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+      activeProfileId: null,
+
+      addProfile: (input) => {
+        const profile: ConnectionProfile = { id: generateId(), ...normalizeInput(input) };
+        set((state) => ({ profiles: [...state.profiles, profile] }));
+        return profile;
+      },
+
+      updateProfile: (id, input) => {
+        const patch = normalizeInput(input);
+        set((state) => ({
+          profiles: state.profiles.map((profile) =>
+            profile.id === id ? { ...profile, ...patch } : profile
+          )
+        }));
+      },
+
+      removeProfile: (id) => {
+        set((state) => ({
+          profiles: state.profiles.filter((profile) => profile.id !== id),
+          activeProfileId: state.activeProfileId === id ? null : state.activeProfileId
+        }));
+      },
+
+      setActiveProfile: (id) => {
+        set({ activeProfileId: id });
+      },
+
+      // 按连接地址与密钥匹配已保存的档案
+      findProfile: (apiBase, managementKey) => {
+        const base = normalizeApiBase(apiBase);
+        const key = managementKey.trim();
+        return (
+          get().profiles.find(
+            (profile) => profile.apiBase === base && profile.managementKey === key
+          ) ?? null
+        );
+      }
+    }),
+    {
+      name: STORAGE_KEY_PROFILES,
+      storage: createJSONStorage(() => ({
+        getItem: (name) => {
+          const data = secureStorage.getItem<ProfilesState>(name);
+          return data ? JSON.stringify(data) : null;
+        },
+        setItem: (name, value) => {
+          secureStorage.setItem(name, JSON.parse(value));
+        },
+        removeItem: (name) => {
+          secureStorage.removeItem(name);
+        }
+      })),
+      partialize: (state) => ({
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId
+      })
+    }
+  )
+);
@@ -7,7 +7,15 @@ import type { AntigravityQuotaState, CodexQuotaState, GeminiCliQuotaState, KiroQ
 
 type QuotaUpdater<T> = T | ((prev: T) => T);
 
+interface QuotaSnapshot {
+  antigravityQuota: Record<string, AntigravityQuotaState>;
+  codexQuota: Record<string, CodexQuotaState>;
+  geminiCliQuota: Record<string, GeminiCliQuotaState>;
+  kiroQuota: Record<string, KiroQuotaState>;
+}
+
 interface QuotaStoreState {
+  scope: string | null;
   antigravityQuota: Record<string, AntigravityQuotaState>;
   codexQuota: Record<string, CodexQuotaState>;
   geminiCliQuota: Record<string, GeminiCliQuotaState>;
@@ -17,8 +25,19 @@ interface QuotaStoreState {
   setGeminiCliQuota: (updater: QuotaUpdater<Record<string, GeminiCliQuotaState>>) => void;
   setKiroQuota: (updater: QuotaUpdater<Record<string, KiroQuotaState>>) => void;
   clearQuotaCache: () => void;
+  switchScope: (scope: string) => void;
 }
 
+// 非活动连接档案的配额缓存，按 scope 保存
+const scopeSnapshots = new Map<string, QuotaSnapshot>();
+
+const emptySnapshot = (): QuotaSnapshot => ({
+  antigravityQuota: {},
+  codexQuota: {},
+  geminiCliQuota: {},
+  kiroQuota: {}
+});
+
 const resolveUpdater = <T,>(updater: QuotaUpdater<T>, prev: T): T => {
   if (typeof updater === 'function') {
     return (updater as (value: T) => T)(prev);
@@ -26,11 +45,9 @@ const resolveUpdater = <T,>(updater: QuotaUpdater<T>, prev: T): T => {
   return updater;
 };
 
-export const useQuotaStore = create<QuotaStoreState>((set) => ({
-  antigravityQuota: {},
-  codexQuota: {},
-  geminiCliQuota: {},
-  kiroQuota: {},
+export const useQuotaStore = create<QuotaStoreState>((set, get) => ({
+  scope: null,
+  ...emptySnapshot(),
   setAntigravityQuota: (updater) =>
     set((state) => ({
       antigravityQuota: resolveUpdater(updater, state.antigravityQuota)
@@ -47,11 +64,20 @@ export const useQuotaStore = create<QuotaStoreState>((set) => ({
     set((state) => ({
       kiroQuota: resolveUpdater(updater, state.kiroQuota)
     })),
-  clearQuotaCache: () =>
-    set({
-      antigravityQuota: {},
-      codexQuota: {},
-      geminiCliQuota: {},
-      kiroQuota: {}
-    })
+  clearQuotaCache: () => set(emptySnapshot()),
+  switchScope: (scope) => {
+    const state = get();
+    if (state.scope === scope) return;
+    if (state.scope !== null) {
+      scopeSnapshots.set(state.scope, {
+        antigravityQuota: state.antigravityQuota,
+        codexQuota: state.codexQuota,
+        geminiCliQuota: state.geminiCliQuota,
+        kiroQuota: state.kiroQuota
+      });
+    }
+    const next = scopeSnapshots.get(scope) ?? emptySnapshot();
+    scopeSnapshots.delete(scope);
+    set({ scope, ...next });
+  }
 }));
@@ -0,0 +1,107 @@
+/**
+ * 使用统计预算
+ * 保存按模型、客户端密钥、提供商或全局设置的日/月费用与 token 上限，以及各预算本周期已提醒的阈值；
+ * 预算与提醒记录按连接作用域（连接档案或服务器地址）分别保存
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEY_USAGE_BUDGETS } from '@/utils/constants';
+import { generateId } from '@/utils/helpers';
+import type { BudgetAlertMark, UsageBudget } from '@/utils/usage/budgets';
+
+interface BudgetsSnapshot {
+  budgets: UsageBudget[];
+  alertMarks: Record<string, BudgetAlertMark>;
+}
+
+interface UsageBudgetsState extends BudgetsSnapshot {
+  /** 当前连接作用域，为 null 时尚未连接过（旧版本未分作用域保存的预算） */
+  scope: string | null;
+  /** 非活动连接作用域的预算 */
+  inactiveScopes: Record<string, BudgetsSnapshot>;
+
+  // 操作
+  addBudget: (budget: Omit<UsageBudget, 'id' | 'createdAt'>) => UsageBudget;
+  updateBudget: (id: string, patch: Partial<Omit<UsageBudget, 'id' | 'createdAt'>>) => void;
+  removeBudget: (id: string) => void;
+  markAlerted: (marks: Record<string, BudgetAlertMark>) => void;
+  switchScope: (scope: string) => void;
+}
+
+export const useUsageBudgetsStore = create<UsageBudgetsState>()(
+  persist(
+    (set, get) => ({
+      scope: null,
+      budgets: [],
+      alertMarks: {},
+      inactiveScopes: {},
+
+      addBudget: (budget) => {
+        const created: UsageBudget = { ...budget, id: generateId(), createdAt: Date.now() };
+        set((state) => ({ budgets: [...state.budgets, created] }));
+        return created;
+      },
+
+      // 修改预算后清除提醒记录，按新的上限重新判断
+      updateBudget: (id, patch) => {
+        set((state) => {
+          const alertMarks = { ...state.alertMarks };
+          delete alertMarks[id];
+          return {
+            budgets: state.budgets.map((budget) =>
+              budget.id === id ? { ...budget, ...patch } : budget
+            ),
+            alertMarks,
+          };
+        });
+      },
+
+      removeBudget: (id) => {
+        set((state) => {
+          const alertMarks = { ...state.alertMarks };
+          delete alertMarks[id];
+          return { budgets: state.budgets.filter((budget) => budget.id !== id), alertMarks };
+        });
+      },
+
+      markAlerted: (marks) => {
+        set((state) => ({ alertMarks: { ...state.alertMarks, ...marks } }));
+      },
+
+      switchScope: (scope) => {
+        const { scope: currentScope, budgets, alertMarks, inactiveScopes } = get();
+        if (currentScope === scope) return;
+        const nextInactive = { ...inactiveScopes };
+        const next = nextInactive[scope];
+        delete nextInactive[scope];
+        if (currentScope === null) {
+          // 升级前未分作用域的预算归入首次连接的服务器
+          set({
+            scope,
+            budgets: next ? next.budgets : budgets,
+            alertMarks: next ? next.alertMarks : alertMarks,
+            inactiveScopes: nextInactive,
+          });
+          return;
+        }
+        nextInactive[currentScope] = { budgets, alertMarks };
+        set({
+          scope,
+          budgets: next?.budgets ?? [],
+          alertMarks: next?.alertMarks ?? {},
+          inactiveScopes: nextInactive,
+        });
+      },
+    }),
+    {
+      name: STORAGE_KEY_USAGE_BUDGETS,
+      partialize: (state) => ({
+        scope: state.scope,
+        budgets: state.budgets,
+        alertMarks: state.alertMarks,
+        inactiveScopes: state.inactiveScopes,
+      }),
+    }
+  )
+);
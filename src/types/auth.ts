@@ -28,3 +28,15 @@ export interface ConnectionInfo {
   lastCheck: Date | null;
   error: string | null;
 }
+
+// 连接配置档案颜色标签
+export type ConnectionProfileColor = 'blue' | 'green' | 'amber' | 'red' | 'purple' | 'gray';
+
+// 连接配置档案（多服务器快速切换）
+export interface ConnectionProfile {
+  id: string;
+  label: string;
+  apiBase: string;
+  managementKey: string;
+  color: ConnectionProfileColor;
+}
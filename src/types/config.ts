@@ -59,3 +59,13 @@ export interface ConfigCache {
   data: Config;
   timestamp: number;
 }
+
+// 配置文件历史版本来源：保存前从服务器读取的版本 / 本地保存 / 回滚恢复
+export type ConfigRevisionSource = 'server' | 'saved' | 'restored';
+
+export interface ConfigRevision {
+  id: string;
+  content: string;
+  savedAt: number;
+  source: ConfigRevisionSource;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  AuthFileBatchSkip,
+  runAuthFileBatch,
+  runWithConcurrency,
+  setAuthFilePriority,
+  summarizeAuthFileBatch,
+} from './batch';
+
+describe('runWithConcurrency', () => {
+  it('limits parallel tasks and keeps the input order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([30, 10, 20, 5, 1], 2, async (delay, index) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running -= 1;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('runAuthFileBatch', () => {
+  it('reports per-file success, failure and skips', async () => {
+    const updates: string[] = [];
+    const items = await runAuthFileBatch(
+      ['ok.json', 'bad.json', 'virtual.json'],
+      async (name) => {
+        if (name === 'bad.json') throw new Error('boom');
+        if (name === 'virtual.json') throw new AuthFileBatchSkip('runtime only');
+      },
+      (name, item) => updates.push(`${name}:${item.status}`)
+    );
+    expect(items).toEqual([
+      { name: 'ok.json', status: 'success' },
+      { name: 'bad.json', status: 'error', message: 'boom' },
+      { name: 'virtual.json', status: 'skipped', message: 'runtime only' },
+    ]);
+    expect(updates).toContain('bad.json:running');
+    expect(summarizeAuthFileBatch(items)).toEqual({
+      total: 3,
+      done: 3,
+      success: 1,
+      error: 1,
+      skipped: 1,
+    });
+  });
+});
+
+describe('setAuthFilePriority', () => {
+  it('sets or removes the priority field', () => {
+    const text = '{"type":"codex","priority":1}';
+    expect(JSON.parse(setAuthFilePriority(text, 5))).toEqual({ type: 'codex', priority: 5 });
+    expect(JSON.parse(setAuthFilePriority(text, null))).toEqual({ type: 'codex' });
+    expect(() => setAuthFilePriority('[1]', 1)).toThrow();
+  });
+});
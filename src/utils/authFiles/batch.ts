@@ -0,0 +1,120 @@
+/**
+ * Batch actions over several auth files with per-file progress.
+ */
+
+export type AuthFileBatchAction =
+  | 'enable'
+  | 'disable'
+  | 'delete'
+  | 'download'
+  | 'refreshQuota'
+  | 'priority';
+
+export type AuthFileBatchStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped';
+
+export interface AuthFileBatchItem {
+  name: string;
+  status: AuthFileBatchStatus;
+  /** 失败原因或跳过原因 */
+  message?: string;
+}
+
+export interface AuthFileBatchSummary {
+  total: number;
+  /** 已结束（成功、失败或跳过）的数量 */
+  done: number;
+  success: number;
+  error: number;
+  skipped: number;
+}
+
+/**
+ * 批量任务中主动跳过某个文件（例如不支持该操作），不计为失败
+ */
+export class AuthFileBatchSkip extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthFileBatchSkip';
+  }
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * 以固定并发数依次执行任务，保持结果顺序与输入一致
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * 对每个文件执行 task，并通过 onProgress 报告每个文件的状态；单个文件失败不影响其他文件
+ */
+export async function runAuthFileBatch(
+  names: string[],
+  task: (name: string) => Promise<void>,
+  onProgress: (name: string, item: AuthFileBatchItem) => void,
+  concurrency = DEFAULT_BATCH_CONCURRENCY
+): Promise<AuthFileBatchItem[]> {
+  return runWithConcurrency(names, concurrency, async (name) => {
+    onProgress(name, { name, status: 'running' });
+    let item: AuthFileBatchItem;
+    try {
+      await task(name);
+      item = { name, status: 'success' };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      item = { name, status: err instanceof AuthFileBatchSkip ? 'skipped' : 'error', message };
+    }
+    onProgress(name, item);
+    return item;
+  });
+}
+
+export function summarizeAuthFileBatch(items: AuthFileBatchItem[]): AuthFileBatchSummary {
+  const summary: AuthFileBatchSummary = {
+    total: items.length,
+    done: 0,
+    success: 0,
+    error: 0,
+    skipped: 0,
+  };
+  items.forEach((item) => {
+    if (item.status === 'success' || item.status === 'error' || item.status === 'skipped') {
+      summary.done += 1;
+      summary[item.status] += 1;
+    }
+  });
+  return summary;
+}
+
+/**
+ * 修改认证文件 JSON 中的 priority 字段；priority 为 null 时移除该字段
+ */
+export function setAuthFilePriority(text: string, priority: number | null): string {
+  const parsed: unknown = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('auth file is not a JSON object');
+  }
+  const next: Record<string, unknown> = { ...(parsed as Record<string, unknown>) };
+  if (priority === null) {
+    delete next.priority;
+  } else {
+    next.priority = priority;
+  }
+  return JSON.stringify(next, null, 2);
+}
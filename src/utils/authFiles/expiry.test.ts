@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  extractAuthFileExpiry,
+  getAuthFileExpiryGroup,
+  getRelativeTimeParts,
+  sortAuthFileExpiries,
+} from './expiry';
+
+const now = Date.parse('2026-03-10T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+const iso = (ms: number) => new Date(ms).toISOString();
+
+describe('extractAuthFileExpiry', () => {
+  it('reads nested and top-level expiry and last refresh fields', () => {
+    const gemini = extractAuthFileExpiry(
+      'gemini.json',
+      JSON.stringify({
+        type: 'gemini',
+        email: 'alice@example.com',
+        project_id: 'demo-project-1024',
+        token: { access_token: 'a', refresh_token: 'r', expiry: iso(now + HOUR_MS) },
+      }),
+      'gemini-cli',
+      now
+    );
+    expect(gemini).toMatchObject({
+      type: 'gemini',
+      email: 'alice@example.com',
+      projectId: 'demo-project-1024',
+      expiresAt: now + HOUR_MS,
+      hasRefreshToken: true,
+      status: 'expiring',
+      needsRelogin: false,
+    });
+
+    const codex = extractAuthFileExpiry(
+      'codex.json',
+      JSON.stringify({
+        access_token: 'a',
+        refresh_token: 'r',
+        last_refresh: iso(now - 2 * HOUR_MS),
+        expired: iso(now + 8 * 24 * HOUR_MS),
+      }),
+      'codex',
+      now
+    );
+    expect(codex).toMatchObject({ type: 'codex', lastRefresh: now - 2 * HOUR_MS, status: 'valid' });
+  });
+
+  it('reminds to re-login when the token cannot be or was not refreshed', () => {
+    const extract = (content: object) =>
+      extractAuthFileExpiry('x.json', JSON.stringify(content), 'claude', now);
+    expect(
+      extract({ access_token: 'a', refresh_token: 'r', expired: iso(now - 10_000) })
+    ).toMatchObject({ status: 'expired', needsRelogin: false });
+    expect(
+      extract({ access_token: 'a', refresh_token: 'r', expired: iso(now - HOUR_MS) }).needsRelogin
+    ).toBe(true);
+    expect(
+      extract({ access_token: 'a', refresh_token: '', expired: iso(now + HOUR_MS) })
+    ).toMatchObject({ status: 'expiring', needsRelogin: true });
+    expect(extract({ access_token: 'a' })).toMatchObject({
+      status: 'unknown',
+      needsRelogin: false,
+    });
+  });
+});
+
+describe('expiry timeline helpers', () => {
+  it('groups, sorts and formats relative times', () => {
+    const base = extractAuthFileExpiry(
+      'a.json',
+      '{"expired":"2026-03-10T18:00:00Z"}',
+      'codex',
+      now
+    );
+    const later = { ...base, name: 'b.json', expiresAt: now + 30 * 24 * HOUR_MS };
+    const relogin = { ...base, name: 'c.json', expiresAt: now - HOUR_MS, needsRelogin: true };
+    const unknown = { ...base, name: 'd.json', expiresAt: null };
+    expect(getAuthFileExpiryGroup(base, now)).toBe('day');
+    expect(getAuthFileExpiryGroup(later, now)).toBe('later');
+    expect(getAuthFileExpiryGroup(relogin, now)).toBe('expired');
+    expect(getAuthFileExpiryGroup(unknown, now)).toBe('unknown');
+    expect(sortAuthFileExpiries([unknown, later, base, relogin]).map((e) => e.name)).toEqual([
+      'c.json',
+      'a.json',
+      'b.json',
+      'd.json',
+    ]);
+    expect(getRelativeTimeParts(-3 * HOUR_MS)).toEqual({ value: -3, unit: 'hour' });
+    expect(getRelativeTimeParts(2.6 * 24 * HOUR_MS)).toEqual({ value: 3, unit: 'day' });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Token expiry and last-refresh extraction for OAuth auth files (expiry timeline, re-login reminders).
+ */
+
+import { inspectAuthFile, parseAuthFileTime } from './inspect';
+
+export type AuthFileExpiryStatus = 'expired' | 'expiring' | 'valid' | 'unknown';
+
+export type AuthFileExpiryGroup = 'expired' | 'day' | 'week' | 'later' | 'unknown';
+
+export interface AuthFileExpiry {
+  name: string;
+  type: string;
+  email?: string;
+  projectId?: string;
+  expiresAt: number | null;
+  lastRefresh: number | null;
+  hasRefreshToken: boolean;
+  status: AuthFileExpiryStatus;
+  /** 是否需要提醒重新登录 */
+  needsRelogin: boolean;
+}
+
+// 会过期或被吊销、可通过 OAuth 重新登录的类型（gemini 为 gemini-cli 文件内容中的 type）
+export const OAUTH_EXPIRY_TYPES = new Set([
+  'codex',
+  'claude',
+  'gemini',
+  'gemini-cli',
+  'antigravity',
+  'kiro',
+  'qwen',
+]);
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// 距离过期不足该时长视为即将过期
+export const EXPIRY_SOON_MS = 3 * DAY_MS;
+// 带刷新令牌的访问令牌过期超过该时长仍未被服务端刷新，视为刷新失败
+const REFRESH_GRACE_MS = 30 * 60 * 1000;
+
+const LAST_REFRESH_PATHS = ['last_refresh', 'last_refreshed', 'timestamp'];
+
+/**
+ * 从认证文件内容提取过期时间、上次刷新时间，并判断是否需要重新登录
+ */
+export function extractAuthFileExpiry(
+  name: string,
+  text: string,
+  fallbackType: string | undefined,
+  now: number
+): AuthFileExpiry {
+  const inspection = inspectAuthFile(text, fallbackType, now);
+  const { data, expiresAt } = inspection;
+  const token =
+    data.token && typeof data.token === 'object' ? (data.token as Record<string, unknown>) : {};
+  const hasRefreshToken = [data.refresh_token, token.refresh_token].some(
+    (value) => typeof value === 'string' && value.trim() !== ''
+  );
+  const lastRefreshKey = LAST_REFRESH_PATHS.find((key) => data[key] !== undefined);
+  const lastRefresh = lastRefreshKey ? parseAuthFileTime(data[lastRefreshKey]) : null;
+
+  let status: AuthFileExpiryStatus = 'unknown';
+  if (expiresAt !== null) {
+    status =
+      expiresAt <= now ? 'expired' : expiresAt - now <= EXPIRY_SOON_MS ? 'expiring' : 'valid';
+  }
+  // 有刷新令牌时服务端会自动续期，只有续期明显失败或无法续期时才提醒
+  const needsRelogin =
+    expiresAt !== null &&
+    ((status === 'expired' && (!hasRefreshToken || now - expiresAt > REFRESH_GRACE_MS)) ||
+      (status === 'expiring' && !hasRefreshToken));
+
+  return {
+    name,
+    type: inspection.type,
+    email: typeof data.email === 'string' ? data.email : undefined,
+    projectId: typeof data.project_id === 'string' ? data.project_id : undefined,
+    expiresAt,
+    lastRefresh,
+    hasRefreshToken,
+    status,
+    needsRelogin,
+  };
+}
+
+/**
+ * 时间轴分组：已过期、24 小时内、7 天内、更晚、未知
+ */
+export function getAuthFileExpiryGroup(entry: AuthFileExpiry, now: number): AuthFileExpiryGroup {
+  if (entry.expiresAt === null) return 'unknown';
+  const remaining = entry.expiresAt - now;
+  if (remaining <= 0) return 'expired';
+  if (remaining <= DAY_MS) return 'day';
+  if (remaining <= 7 * DAY_MS) return 'week';
+  return 'later';
+}
+
+/**
+ * 按过期时间排序（需要重新登录的优先，未知的排在最后）
+ */
+export function sortAuthFileExpiries(entries: AuthFileExpiry[]): AuthFileExpiry[] {
+  return [...entries].sort((a, b) => {
+    if (a.needsRelogin !== b.needsRelogin) return a.needsRelogin ? -1 : 1;
+    return (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity);
+  });
+}
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['day', DAY_MS],
+  ['hour', HOUR_MS],
+  ['minute', 60 * 1000],
+];
+
+/**
+ * 将时间差转换为 Intl.RelativeTimeFormat 的数值和单位
+ */
+export function getRelativeTimeParts(deltaMs: number): {
+  value: number;
+  unit: Intl.RelativeTimeFormatUnit;
+} {
+  const abs = Math.abs(deltaMs);
+  const match = RELATIVE_UNITS.find(([, size]) => abs >= size);
+  if (!match) return { value: Math.round(deltaMs / 1000), unit: 'second' };
+  const [unit, size] = match;
+  return { value: Math.round(deltaMs / size), unit };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildAuthFileHealthInput,
+  buildLastRequestMap,
+  buildLastUsedMap,
+  groupRecentUsageByAuthIndex,
+  scoreAuthFileHealth,
+  type AuthFileHealthInput,
+} from './health';
+
+const now = Date.parse('2026-03-10T12:00:00Z');
+const day = 24 * 60 * 60 * 1000;
+
+const input = (overrides: Partial<AuthFileHealthInput> = {}): AuthFileHealthInput => ({
+  recent: { requests: 20, failures: 0 },
+  quotaExceeded: false,
+  backoffLevel: 0,
+  unavailable: false,
+  disabled: false,
+  lastUsedAt: now - 60_000,
+  ...overrides,
+});
+
+describe('scoreAuthFileHealth', () => {
+  it('keeps a busy credential without failures at full score', () => {
+    expect(scoreAuthFileHealth(input(), now)).toEqual({
+      score: 100,
+      level: 'healthy',
+      issues: [],
+      suggestion: null,
+    });
+  });
+
+  it('suggests re-login for failing or unavailable credentials', () => {
+    const failing = scoreAuthFileHealth(input({ recent: { requests: 10, failures: 8 } }), now);
+    expect(failing).toMatchObject({
+      score: 60,
+      issues: ['high_failure_rate'],
+      suggestion: 'relogin',
+    });
+    const unavailable = scoreAuthFileHealth(input({ unavailable: true }), now);
+    expect(unavailable).toMatchObject({ level: 'warning', suggestion: 'relogin' });
+  });
+
+  it('suggests disabling credentials over quota and ignores tiny samples', () => {
+    const exceeded = scoreAuthFileHealth(input({ quotaExceeded: true, backoffLevel: 5 }), now);
+    expect(exceeded).toMatchObject({
+      score: 60,
+      issues: ['quota_exceeded', 'backoff'],
+      suggestion: 'disable',
+    });
+    expect(scoreAuthFileHealth(input({ recent: { requests: 2, failures: 2 } }), now).score).toBe(
+      100
+    );
+  });
+
+  it('suggests deleting long unused credentials only when sessions are known', () => {
+    expect(scoreAuthFileHealth(input({ lastUsedAt: now - 40 * day }), now)).toMatchObject({
+      score: 75,
+      issues: ['stale'],
+      suggestion: 'delete',
+    });
+    expect(scoreAuthFileHealth(input({ lastUsedAt: null, disabled: true }), now).suggestion).toBe(
+      'delete'
+    );
+    expect(scoreAuthFileHealth(input({ lastUsedAt: undefined }), now).issues).toEqual([]);
+  });
+});
+
+describe('buildAuthFileHealthInput', () => {
+  it('combines recent usage, quota state and session bindings', () => {
+    const recent = groupRecentUsageByAuthIndex(
+      [
+        { timestamp: new Date(now - 1000).toISOString(), failed: true, auth_index: 3 },
+        { timestamp: new Date(now - 2000).toISOString(), failed: false, auth_index: '3' },
+        { timestamp: new Date(now - 2 * day).toISOString(), failed: true, auth_index: 3 },
+      ],
+      now
+    );
+    const lastUsed = buildLastUsedMap([
+      { auth_id: 'codex-a', last_used_at: new Date(now - day).toISOString() },
+    ]);
+    const file = {
+      id: 'codex-a',
+      name: 'codex-a.json',
+      auth_index: 3,
+      quota: { exceeded: true, next_recover_at: new Date(now - 1000).toISOString() },
+    };
+    expect(buildAuthFileHealthInput(file, recent, lastUsed, now)).toEqual({
+      recent: { requests: 2, failures: 1 },
+      quotaExceeded: false,
+      backoffLevel: 0,
+      unavailable: false,
+      disabled: false,
+      lastUsedAt: now - day,
+    });
+    expect(buildAuthFileHealthInput(file, recent, null, now).lastUsedAt).toBeUndefined();
+  });
+
+  it('falls back to the latest usage record when a credential has no session binding', () => {
+    const details = [
+      { timestamp: new Date(now - 3 * day).toISOString(), failed: false, auth_index: 7 },
+      { timestamp: new Date(now - 2 * day).toISOString(), failed: false, auth_index: '7' },
+    ];
+    const file = { id: 'claude-b', name: 'claude-b.json', auth_index: 7, disabled: true };
+    const health = buildAuthFileHealthInput(
+      file,
+      groupRecentUsageByAuthIndex(details, now),
+      buildLastUsedMap([]),
+      now,
+      buildLastRequestMap(details)
+    );
+    expect(health.lastUsedAt).toBe(now - 2 * day);
+    expect(scoreAuthFileHealth(health, now)).toMatchObject({ issues: [], suggestion: null });
+    expect(
+      buildAuthFileHealthInput(file, new Map(), null, now, buildLastRequestMap(details)).lastUsedAt
+    ).toBe(now - 2 * day);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Health scoring for auth files: recent failure rate, quota state, availability and last use.
+ */
+
+import type { AuthFileItem } from '@/types';
+import { normalizeAuthIndexValue } from '../quota/parsers';
+
+export type AuthFileHealthLevel = 'healthy' | 'warning' | 'critical';
+
+export type AuthFileHealthIssue =
+  | 'high_failure_rate'
+  | 'some_failures'
+  | 'quota_exceeded'
+  | 'backoff'
+  | 'unavailable'
+  | 'never_used'
+  | 'stale';
+
+export type AuthFileHealthSuggestion = 'disable' | 'relogin' | 'delete';
+
+export interface AuthFileRecentUsage {
+  requests: number;
+  failures: number;
+}
+
+export interface AuthFileHealthInput {
+  recent: AuthFileRecentUsage;
+  quotaExceeded: boolean;
+  backoffLevel: number;
+  unavailable: boolean;
+  disabled: boolean;
+  /** 最近使用时间；null 表示从未使用，undefined 表示后端未提供会话记录 */
+  lastUsedAt?: number | null;
+}
+
+export interface AuthFileHealth {
+  /** 0-100，越高越健康 */
+  score: number;
+  level: AuthFileHealthLevel;
+  issues: AuthFileHealthIssue[];
+  suggestion: AuthFileHealthSuggestion | null;
+}
+
+export const HEALTH_RECENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+// 请求数少于该值时不计算失败率，避免一两次失败拉低分数
+export const HEALTH_MIN_REQUESTS = 3;
+const STALE_MS = 7 * 24 * 60 * 60 * 1000;
+const ABANDONED_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 按 auth_index 统计最近窗口内的请求数和失败数
+ */
+export function groupRecentUsageByAuthIndex(
+  details: Array<{ timestamp: string; failed: boolean; auth_index?: unknown }>,
+  now: number,
+  windowMs: number = HEALTH_RECENT_WINDOW_MS
+): Map<string, AuthFileRecentUsage> {
+  const result = new Map<string, AuthFileRecentUsage>();
+  details.forEach((detail) => {
+    const key = normalizeAuthIndexValue(detail.auth_index);
+    const time = Date.parse(detail.timestamp);
+    if (!key || Number.isNaN(time) || time < now - windowMs || time > now) return;
+    const bucket = result.get(key) ?? { requests: 0, failures: 0 };
+    bucket.requests += 1;
+    if (detail.failed) bucket.failures += 1;
+    result.set(key, bucket);
+  });
+  return result;
+}
+
+/**
+ * 由会话绑定列表得到 auth_id → 最近使用时间
+ */
+export function buildLastUsedMap(
+  bindings: Array<{ auth_id: string; last_used_at: string }>
+): Map<string, number> {
+  const result = new Map<string, number>();
+  bindings.forEach((binding) => {
+    const time = Date.parse(binding.last_used_at);
+    if (!binding.auth_id || Number.isNaN(time)) return;
+    result.set(binding.auth_id, Math.max(result.get(binding.auth_id) ?? 0, time));
+  });
+  return result;
+}
+
+/**
+ * 由请求明细得到 auth_index → 最近一次请求时间（不限时间窗口）
+ */
+export function buildLastRequestMap(
+  details: Array<{ timestamp: string; auth_index?: unknown }>
+): Map<string, number> {
+  const result = new Map<string, number>();
+  details.forEach((detail) => {
+    const key = normalizeAuthIndexValue(detail.auth_index);
+    const time = Date.parse(detail.timestamp);
+    if (!key || Number.isNaN(time)) return;
+    result.set(key, Math.max(result.get(key) ?? 0, time));
+  });
+  return result;
+}
+
+/**
+ * 从认证文件条目、最近用量和会话记录整理评分输入；
+ * 没有会话记录的凭据以使用统计中最近一次请求的时间作为最近使用时间
+ */
+export function buildAuthFileHealthInput(
+  file: AuthFileItem,
+  recentByAuthIndex: Map<string, AuthFileRecentUsage>,
+  lastUsed: Map<string, number> | null,
+  now: number,
+  lastRequestByAuthIndex: Map<string, number> = new Map()
+): AuthFileHealthInput {
+  const authIndexKey = normalizeAuthIndexValue(file['auth_index'] ?? file.authIndex);
+  const sessionUsedAt = lastUsed?.get(String(file.id ?? file.name));
+  const requestedAt = authIndexKey ? lastRequestByAuthIndex.get(authIndexKey) : undefined;
+  const usedAt = Math.max(sessionUsedAt ?? 0, requestedAt ?? 0) || null;
+  const recoverAt = file.quota?.next_recover_at ? Date.parse(file.quota.next_recover_at) : NaN;
+  // 已过恢复时间的超额状态视为已恢复
+  const quotaExceeded =
+    file.quota?.exceeded === true && (Number.isNaN(recoverAt) || recoverAt > now);
+  return {
+    recent: (authIndexKey && recentByAuthIndex.get(authIndexKey)) || { requests: 0, failures: 0 },
+    quotaExceeded,
+    backoffLevel: quotaExceeded ? Math.max(0, Number(file.quota?.backoff_level) || 0) : 0,
+    unavailable: file.unavailable === true,
+    disabled: file.disabled === true,
+    lastUsedAt: lastUsed || usedAt !== null ? usedAt : undefined,
+  };
+}
+
+/**
+ * 计算健康分（0-100）、问题列表和处理建议
+ */
+export function scoreAuthFileHealth(input: AuthFileHealthInput, now: number): AuthFileHealth {
+  const issues: AuthFileHealthIssue[] = [];
+  let score = 100;
+
+  const { requests, failures } = input.recent;
+  const failureRate = requests >= HEALTH_MIN_REQUESTS ? failures / requests : 0;
+  if (failureRate > 0) {
+    score -= Math.round(failureRate * 50);
+    if (failureRate >= 0.5) {
+      issues.push('high_failure_rate');
+    } else if (failureRate >= 0.1) {
+      issues.push('some_failures');
+    }
+  }
+
+  if (input.quotaExceeded) {
+    score -= 25;
+    issues.push('quota_exceeded');
+  }
+  if (input.backoffLevel > 0) {
+    score -= Math.min(input.backoffLevel * 5, 15);
+    issues.push('backoff');
+  }
+  if (input.unavailable) {
+    score -= 30;
+    issues.push('unavailable');
+  }
+
+  const idleMs = input.lastUsedAt ? now - input.lastUsedAt : null;
+  if (input.lastUsedAt === null) {
+    score -= 10;
+    issues.push('never_used');
+  } else if (idleMs !== null && idleMs > STALE_MS) {
+    score -= idleMs > ABANDONED_MS ? 25 : 15;
+    issues.push('stale');
+  }
+
+  score = Math.max(0, Math.min(100, score));
+  const level: AuthFileHealthLevel = score >= 80 ? 'healthy' : score >= 50 ? 'warning' : 'critical';
+
+  // 建议优先级：失败率高或不可用 → 重新登录；超额 → 暂时禁用；长期未使用 → 删除
+  const abandoned = input.lastUsedAt === null || (idleMs !== null && idleMs > ABANDONED_MS);
+  let suggestion: AuthFileHealthSuggestion | null = null;
+  if (input.disabled) {
+    suggestion = abandoned ? 'delete' : null;
+  } else if (issues.includes('high_failure_rate') || input.unavailable) {
+    suggestion = 'relogin';
+  } else if (input.quotaExceeded || level === 'critical') {
+    suggestion = 'disable';
+  } else if (abandoned && issues.includes('stale')) {
+    suggestion = 'delete';
+  }
+
+  return { score, level, issues, suggestion };
+}
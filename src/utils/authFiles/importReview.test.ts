@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createZip } from '../zip';
+import {
+  MAX_AUTH_FILE_SIZE,
+  hashAuthFileContent,
+  reviewAuthFileImports,
+  selectExistingForHashing,
+  type AuthFileImportCandidate,
+} from './importReview';
+import { AUTH_FILE_IMPORT_LIMITS, expandAuthFileSources } from './importSources';
+
+const candidate = (name: string, text: string, path = name): AuthFileImportCandidate => ({
+  name,
+  path,
+  size: new TextEncoder().encode(text).length,
+  text,
+});
+
+const existingText = '{"type":"codex","email":"bob@example.com","account_id":"acct-1"}';
+const existing = [
+  {
+    item: { name: 'codex-bob.json', type: 'codex', email: 'bob@example.com', size: 64 },
+    hash: hashAuthFileContent(existingText),
+  },
+  { item: { name: 'qwen-frank.json', type: 'qwen', email: 'frank@example.com' } },
+];
+
+describe('reviewAuthFileImports', () => {
+  it('classifies new, duplicate, conflicting and invalid files', () => {
+    const rows = reviewAuthFileImports(
+      [
+        candidate('copy.json', existingText),
+        candidate(
+          'claude.json',
+          '{"type":"claude","email":"carol@example.com"}',
+          'dir/claude.json'
+        ),
+        candidate('claude-2.json', '{"type":"claude","email":"carol@example.com"}'),
+        candidate('codex-new.json', '{"type":"codex","email":"BOB@example.com","x":1}'),
+        candidate('qwen-frank.json', '{"type":"qwen","email":"other@example.com"}'),
+        candidate('broken.json', '{"type":'),
+        candidate('notes.txt', 'hello'),
+        candidate('big.json', `{"pad":"${'a'.repeat(MAX_AUTH_FILE_SIZE)}"}`),
+      ],
+      existing
+    );
+    expect(rows.map((row) => [row.name, row.status, row.reasons, row.matches])).toEqual([
+      ['copy.json', 'duplicate', ['same_content'], ['codex-bob.json']],
+      ['claude.json', 'new', [], []],
+      ['claude-2.json', 'duplicate', ['duplicate_in_batch'], ['dir/claude.json']],
+      ['codex-new.json', 'conflicting', ['same_account'], ['codex-bob.json']],
+      ['qwen-frank.json', 'conflicting', ['same_name'], ['qwen-frank.json']],
+      ['broken.json', 'invalid', ['invalid_json'], []],
+      ['notes.txt', 'invalid', ['not_json'], []],
+      ['big.json', 'invalid', ['too_large'], []],
+    ]);
+    expect(rows[1]).toMatchObject({ type: 'claude', account: 'carol@example.com' });
+  });
+
+  it('only downloads existing files whose size could match', () => {
+    const picked = selectExistingForHashing(
+      [candidate('a.json', existingText)],
+      existing.map((entry) => entry.item)
+    );
+    expect(picked.map((item) => item.name)).toEqual(['codex-bob.json', 'qwen-frank.json']);
+    expect(selectExistingForHashing([candidate('a.json', '{}')], [existing[0].item])).toEqual([]);
+  });
+});
+
+describe('expandAuthFileSources', () => {
+  it('unpacks zip archives and ignores non-JSON files from folders and archives', async () => {
+    const zip = createZip([
+      { name: 'creds/a.json', data: '{"type":"codex"}' },
+      { name: 'creds/readme.md', data: '# notes' },
+      { name: '__MACOSX/creds/._a.json', data: 'x' },
+    ]);
+    const result = await expandAuthFileSources([
+      { file: new File([zip], 'backup.zip'), path: 'backup.zip' },
+      { file: new File(['{}'], 'b.json'), path: 'folder/b.json' },
+      { file: new File(['x'], '.DS_Store'), path: 'folder/.DS_Store' },
+      { file: new File(['x'], 'c.txt'), path: 'folder/c.txt' },
+      { file: new File(['x'], 'd.txt'), path: 'd.txt' },
+      { file: new File(['nope'], 'bad.zip'), path: 'bad.zip' },
+    ]);
+    expect(result.candidates.map((item) => [item.name, item.path])).toEqual([
+      ['a.json', 'backup.zip/creds/a.json'],
+      ['b.json', 'folder/b.json'],
+      ['d.txt', 'd.txt'],
+    ]);
+    expect(result.candidates[0].text).toBe('{"type":"codex"}');
+    expect(result.ignored).toEqual(['backup.zip/creds/readme.md', 'folder/c.txt']);
+    expect(result.failed).toEqual([{ path: 'bad.zip', message: 'invalid zip archive' }]);
+  });
+
+  it('does not read files larger than the size limit', async () => {
+    const big = new File(['x'.repeat(MAX_AUTH_FILE_SIZE + 1)], 'big.json');
+    const readText = vi.spyOn(big, 'text');
+    const result = await expandAuthFileSources([{ file: big, path: 'big.json' }]);
+    expect(readText).not.toHaveBeenCalled();
+    expect(result.candidates).toEqual([
+      { name: 'big.json', path: 'big.json', size: MAX_AUTH_FILE_SIZE + 1, text: '' },
+    ]);
+    expect(reviewAuthFileImports(result.candidates, [])[0].reasons).toEqual(['too_large']);
+  });
+
+  it('skips folder files beyond the file count and total size limits', async () => {
+    const files = ['a', 'b', 'c'].map((name) => ({
+      file: new File(['{"n":1}'], `${name}.json`),
+      path: `folder/${name}.json`,
+    }));
+    const byCount = await expandAuthFileSources(files, {
+      ...AUTH_FILE_IMPORT_LIMITS,
+      maxEntries: 2,
+    });
+    expect(byCount.candidates.map((item) => item.path)).toEqual(['folder/a.json', 'folder/b.json']);
+    expect(byCount.failed).toEqual([
+      {
+        path: 'folder/c.json',
+        message: 'import limit of 2 files or 20971520 bytes reached, 1 file(s) skipped',
+      },
+    ]);
+
+    const bySize = await expandAuthFileSources(files, {
+      ...AUTH_FILE_IMPORT_LIMITS,
+      maxTotalSize: 10,
+    });
+    expect(bySize.candidates.map((item) => item.path)).toEqual(['folder/a.json']);
+    expect(bySize.failed[0]).toMatchObject({ path: 'folder/b.json' });
+    expect(bySize.failed[0].message).toContain('2 file(s) skipped');
+  });
+});
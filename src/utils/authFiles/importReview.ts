@@ -0,0 +1,211 @@
+/**
+ * Pre-upload review for bulk auth file imports: invalid JSON, duplicates by content hash
+ * and conflicts by account identity or file name against existing auth files.
+ */
+
+import type { AuthFileItem } from '@/types';
+import { crc32 } from '../zip';
+
+export const MAX_AUTH_FILE_SIZE = 50 * 1024;
+
+export type AuthFileImportStatus = 'new' | 'duplicate' | 'conflicting' | 'invalid';
+
+export type AuthFileImportReason =
+  | 'not_json'
+  | 'too_large'
+  | 'invalid_json'
+  | 'same_content'
+  | 'duplicate_in_batch'
+  | 'same_account'
+  | 'same_name'
+  | 'same_name_in_batch';
+
+export interface AuthFileImportCandidate {
+  /** 上传时使用的文件名 */
+  name: string;
+  /** 来源路径（文件夹或 zip 内的相对路径） */
+  path: string;
+  /** 字节数 */
+  size: number;
+  text: string;
+}
+
+export interface AuthFileImportRow extends AuthFileImportCandidate {
+  status: AuthFileImportStatus;
+  reasons: AuthFileImportReason[];
+  /** 命中的已有认证文件名或本批次中的来源路径 */
+  matches: string[];
+  hash: string;
+  type?: string;
+  /** 账号标识（邮箱或用户 ID），用于展示 */
+  account?: string;
+}
+
+export interface ExistingAuthFileForReview {
+  item: AuthFileItem;
+  /** 已下载内容的哈希；未下载时为 undefined */
+  hash?: string;
+}
+
+const ACCOUNT_FIELDS = ['email', 'account_id', 'user_id', 'client_email'];
+
+const normalizeType = (value: unknown): string => {
+  const type = String(value ?? '')
+    .trim()
+    .toLowerCase();
+  return type === 'gemini' ? 'gemini-cli' : type || 'unknown';
+};
+
+const pickStrings = (source: Record<string, unknown> | null | undefined): string[] => {
+  if (!source) return [];
+  return ACCOUNT_FIELDS.map((key) => source[key])
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+    .map((value) => value.trim().toLowerCase());
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+// 内容哈希（CRC-32 与 FNV-1a 拼接为 64 位），只用于去重，无需加密强度；
+// 避免依赖 crypto.subtle（非 HTTPS 访问管理面板时不可用）
+const fnv1a = (bytes: Uint8Array) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export function hashAuthFileContent(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const hex = (value: number) => value.toString(16).padStart(8, '0');
+  return `${hex(crc32(bytes))}${hex(fnv1a(bytes))}`;
+}
+
+/**
+ * 认证文件内容中的账号标识，格式为 "类型:标识"
+ */
+export function getAuthFileIdentities(data: Record<string, unknown>, fallbackType?: string) {
+  const type = normalizeType(data.type ?? fallbackType);
+  const values = [
+    ...pickStrings(data),
+    ...pickStrings(asRecord(data.token)),
+    ...pickStrings(asRecord(data.service_account)),
+  ];
+  return Array.from(new Set(values)).map((value) => `${type}:${value}`);
+}
+
+/**
+ * 已有认证文件（列表元数据）的账号标识
+ */
+export function getExistingAuthFileIdentities(item: AuthFileItem): string[] {
+  const type = normalizeType(item.type);
+  const idToken = asRecord(item.id_token);
+  const values = [
+    ...pickStrings(item),
+    ...(typeof item.account === 'string' ? [item.account.trim().toLowerCase()] : []),
+    ...pickStrings(idToken),
+    ...(typeof idToken?.chatgpt_account_id === 'string'
+      ? [idToken.chatgpt_account_id.trim().toLowerCase()]
+      : []),
+  ];
+  return Array.from(new Set(values.filter(Boolean))).map((value) => `${type}:${value}`);
+}
+
+/**
+ * 需要下载内容以比较哈希的已有文件：大小与某个待导入文件相同（内容相同则字节数必然相同），
+ * 或大小未知
+ */
+export function selectExistingForHashing(
+  candidates: AuthFileImportCandidate[],
+  existing: AuthFileItem[]
+): AuthFileItem[] {
+  const sizes = new Set(candidates.map((candidate) => candidate.size));
+  return existing.filter((item) => typeof item.size !== 'number' || sizes.has(item.size));
+}
+
+/**
+ * 为每个待导入文件给出 新增 / 重复 / 冲突 / 无效 的结论
+ */
+export function reviewAuthFileImports(
+  candidates: AuthFileImportCandidate[],
+  existing: ExistingAuthFileForReview[]
+): AuthFileImportRow[] {
+  const existingByHash = new Map<string, string[]>();
+  const existingByIdentity = new Map<string, string[]>();
+  const existingNames = new Set<string>();
+  const add = (map: Map<string, string[]>, key: string, name: string) =>
+    map.set(key, [...(map.get(key) ?? []), name]);
+  existing.forEach(({ item, hash }) => {
+    existingNames.add(item.name);
+    if (hash) add(existingByHash, hash, item.name);
+    getExistingAuthFileIdentities(item).forEach((identity) =>
+      add(existingByIdentity, identity, item.name)
+    );
+  });
+
+  const seenHashes = new Map<string, string>();
+  const seenNames = new Set<string>();
+
+  return candidates.map((candidate) => {
+    const hash = hashAuthFileContent(candidate.text);
+    const row: AuthFileImportRow = {
+      ...candidate,
+      hash,
+      status: 'new',
+      reasons: [],
+      matches: [],
+    };
+    const invalid = (reason: AuthFileImportReason): AuthFileImportRow => ({
+      ...row,
+      status: 'invalid',
+      reasons: [reason],
+    });
+
+    if (!candidate.name.toLowerCase().endsWith('.json')) return invalid('not_json');
+    if (candidate.size > MAX_AUTH_FILE_SIZE) return invalid('too_large');
+    let data: Record<string, unknown> | null = null;
+    try {
+      data = asRecord(JSON.parse(candidate.text));
+    } catch {
+      data = null;
+    }
+    if (!data) return invalid('invalid_json');
+
+    const identities = getAuthFileIdentities(data);
+    row.type = normalizeType(data.type);
+    row.account = identities[0]?.slice(row.type.length + 1);
+
+    const sameContent = existingByHash.get(hash);
+    const earlier = seenHashes.get(hash);
+    if (sameContent) {
+      return { ...row, status: 'duplicate', reasons: ['same_content'], matches: sameContent };
+    }
+    if (earlier !== undefined) {
+      return { ...row, status: 'duplicate', reasons: ['duplicate_in_batch'], matches: [earlier] };
+    }
+    seenHashes.set(hash, candidate.path);
+
+    const sameAccount = new Set<string>();
+    identities.forEach((identity) =>
+      (existingByIdentity.get(identity) ?? []).forEach((name) => sameAccount.add(name))
+    );
+    if (sameAccount.size) {
+      row.reasons.push('same_account');
+      row.matches.push(...sameAccount);
+    }
+    if (existingNames.has(candidate.name)) {
+      row.reasons.push('same_name');
+      if (!sameAccount.has(candidate.name)) row.matches.push(candidate.name);
+    }
+    if (seenNames.has(candidate.name)) {
+      row.reasons.push('same_name_in_batch');
+    }
+    seenNames.add(candidate.name);
+    if (row.reasons.length) row.status = 'conflicting';
+    return row;
+  });
+}
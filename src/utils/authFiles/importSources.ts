@@ -0,0 +1,163 @@
+/**
+ * Collects auth file import candidates from picked files, dropped folders and .zip archives.
+ */
+
+import { readZip, type ZipReadOptions } from '../zip';
+import { MAX_AUTH_FILE_SIZE, type AuthFileImportCandidate } from './importReview';
+
+export interface AuthFileImportSource {
+  file: File;
+  /** 相对路径；直接选择的文件为文件名 */
+  path: string;
+}
+
+export interface ExpandedAuthFileImport {
+  candidates: AuthFileImportCandidate[];
+  /** 文件夹或压缩包中被忽略的非 JSON 文件 */
+  ignored: string[];
+  /** 无法读取的压缩包、超出导入上限而跳过的文件及原因 */
+  failed: Array<{ path: string; message: string }>;
+}
+
+export type AuthFileImportLimits = Required<ZipReadOptions>;
+
+// 超过 MAX_AUTH_FILE_SIZE 的文件不读取内容，在审查中标记为过大；
+// 文件数与总大小上限分别作用于每个压缩包和直接选择或拖放的文件
+export const AUTH_FILE_IMPORT_LIMITS: AuthFileImportLimits = {
+  maxEntrySize: MAX_AUTH_FILE_SIZE,
+  maxTotalSize: 20 * 1024 * 1024,
+  maxEntries: 2000,
+};
+
+const basename = (path: string) => path.split('/').pop() || path;
+
+// 系统生成的隐藏文件（.DS_Store、__MACOSX 等）
+const isHiddenPath = (path: string) =>
+  path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+
+const isZip = (file: File) =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries 每次最多返回一部分，需要读到空数组为止
+  return new Promise((resolve, reject) => {
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (!batch.length) {
+          resolve(entries);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    readBatch();
+  });
+};
+
+const walkEntry = async (entry: FileSystemEntry): Promise<AuthFileImportSource[]> => {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, path }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(walkEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+/**
+ * 读取拖放的文件与文件夹（文件夹递归展开）
+ */
+export async function readDroppedAuthFiles(
+  dataTransfer: DataTransfer
+): Promise<AuthFileImportSource[]> {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.() ?? null);
+  if (!entries.length || entries.some((entry) => entry === null)) {
+    // 不支持目录接口时退回普通文件列表
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+  const nested = await Promise.all(entries.map((entry) => walkEntry(entry as FileSystemEntry)));
+  return nested.flat();
+}
+
+/**
+ * 展开为待导入文件：解压 .zip，忽略文件夹与压缩包中的非 JSON 文件；
+ * 直接选择的非 JSON 文件保留，在审查中标记为无效
+ */
+export async function expandAuthFileSources(
+  sources: AuthFileImportSource[],
+  limits: AuthFileImportLimits = AUTH_FILE_IMPORT_LIMITS
+): Promise<ExpandedAuthFileImport> {
+  const result: ExpandedAuthFileImport = { candidates: [], ignored: [], failed: [] };
+  const decoder = new TextDecoder();
+  let fileCount = 0;
+  let totalSize = 0;
+  const skipped: string[] = [];
+
+  for (const { file, path } of sources) {
+    if (isHiddenPath(path)) continue;
+    if (isZip(file)) {
+      if (file.size > limits.maxTotalSize) {
+        result.failed.push({ path, message: `zip archive exceeds ${limits.maxTotalSize} bytes` });
+        continue;
+      }
+      try {
+        const entries = await readZip(new Uint8Array(await file.arrayBuffer()), limits);
+        entries.forEach((entry) => {
+          const entryPath = `${path}/${entry.name}`;
+          if (isHiddenPath(entry.name)) return;
+          if (!entry.name.toLowerCase().endsWith('.json')) {
+            result.ignored.push(entryPath);
+            return;
+          }
+          result.candidates.push({
+            name: basename(entry.name),
+            path: entryPath,
+            size: entry.size,
+            text: decoder.decode(entry.data),
+          });
+        });
+      } catch (err: unknown) {
+        result.failed.push({ path, message: err instanceof Error ? err.message : String(err) });
+      }
+      continue;
+    }
+    const fromFolder = path.includes('/');
+    if (fromFolder && !file.name.toLowerCase().endsWith('.json')) {
+      result.ignored.push(path);
+      continue;
+    }
+    const tooLarge = file.size > limits.maxEntrySize;
+    if (
+      fileCount >= limits.maxEntries ||
+      (!tooLarge && totalSize + file.size > limits.maxTotalSize)
+    ) {
+      skipped.push(path);
+      continue;
+    }
+    fileCount += 1;
+    // 过大的文件不读取内容，审查时按大小标记为过大
+    if (tooLarge) {
+      result.candidates.push({ name: file.name, path, size: file.size, text: '' });
+      continue;
+    }
+    totalSize += file.size;
+    result.candidates.push({ name: file.name, path, size: file.size, text: await file.text() });
+  }
+  if (skipped.length) {
+    result.failed.push({
+      path: skipped[0],
+      message: `import limit of ${limits.maxEntries} files or ${limits.maxTotalSize} bytes reached, ${skipped.length} file(s) skipped`,
+    });
+  }
+  return result;
+}
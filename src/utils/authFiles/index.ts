@@ -0,0 +1,11 @@
+/**
+ * Auth file utility functions barrel export.
+ */
+
+export * from './selection';
+export * from './batch';
+export * from './health';
+export * from './inspect';
+export * from './expiry';
+export * from './importReview';
+export * from './importSources';
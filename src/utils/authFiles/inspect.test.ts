@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyAuthFileEdits,
+  inspectAuthFile,
+  maskAuthFileSecrets,
+  parseAuthFileTime,
+  validateAuthFileEdits,
+} from './inspect';
+
+const now = Date.parse('2026-03-10T12:00:00Z');
+
+const gemini = JSON.stringify({
+  type: 'gemini',
+  email: 'alice@example.com',
+  project_id: 'demo-project-1024',
+  token: {
+    access_token: 'ya29.mock-gemini-access-token-alice',
+    refresh_token: '1//mock-gemini-refresh-token-alice',
+    token_type: 'Bearer',
+    expiry: '2026-03-10T11:00:00Z',
+  },
+});
+
+describe('inspectAuthFile', () => {
+  it('lists known fields with masked secrets and warns about expired tokens', () => {
+    const inspection = inspectAuthFile(gemini, undefined, now);
+    expect(inspection.type).toBe('gemini');
+    expect(inspection.fields.map((field) => field.path)).toEqual([
+      'type',
+      'email',
+      'project_id',
+      'token.token_type',
+      'token.expiry',
+      'token.access_token',
+      'token.refresh_token',
+    ]);
+    expect(inspection.fields.find((field) => field.path === 'token.access_token')?.value).toBe(
+      'ya********ce'
+    );
+    expect(inspection.warnings).toEqual(['access_token_expired']);
+    expect(inspection.expiresAt).toBe(Date.parse('2026-03-10T11:00:00Z'));
+    expect(inspection.projectIdEditable).toBe(true);
+  });
+
+  it('warns about missing refresh tokens on OAuth credentials only', () => {
+    const qwen = inspectAuthFile('{"access_token":"abc","refresh_token":""}', 'qwen', now);
+    expect(qwen).toMatchObject({ type: 'qwen', warnings: ['refresh_token_missing'] });
+    expect(inspectAuthFile('{"type":"vertex","access_token":"abc"}', 'x', now).warnings).toEqual(
+      []
+    );
+    expect(() => inspectAuthFile('[]', 'qwen', now)).toThrow();
+  });
+
+  it('masks nested secrets in the raw view', () => {
+    expect(
+      maskAuthFileSecrets({ token: { access_token: 'ya29.secret-value', token_type: 'Bearer' } })
+    ).toEqual({ token: { access_token: 'ya********ue', token_type: 'Bearer' } });
+  });
+});
+
+describe('parseAuthFileTime', () => {
+  it('accepts ISO strings and second or millisecond timestamps', () => {
+    expect(parseAuthFileTime('2026-03-10T12:00:00Z')).toBe(now);
+    expect(parseAuthFileTime(now / 1000)).toBe(now);
+    expect(parseAuthFileTime(String(now))).toBe(now);
+    expect(parseAuthFileTime('soon')).toBeNull();
+  });
+});
+
+describe('auth file edits', () => {
+  it('validates and applies project_id and priority without touching secrets', () => {
+    const inspection = inspectAuthFile(gemini, undefined, now);
+    expect(
+      validateAuthFileEdits(inspection, { projectId: 'Bad_Project', priority: '1.5' })
+    ).toEqual({ projectId: 'project_id_invalid', priority: 'priority_invalid' });
+    expect(validateAuthFileEdits(inspection, { projectId: '', priority: '' })).toEqual({
+      projectId: 'project_id_invalid',
+    });
+    const edits = { projectId: 'new-project-42', priority: '5' };
+    expect(validateAuthFileEdits(inspection, edits)).toEqual({});
+    const updated = JSON.parse(applyAuthFileEdits(inspection, edits));
+    expect(updated).toMatchObject({ project_id: 'new-project-42', priority: 5 });
+    expect(updated.token.refresh_token).toBe('1//mock-gemini-refresh-token-alice');
+  });
+});
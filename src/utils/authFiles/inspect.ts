@@ -0,0 +1,237 @@
+/**
+ * Parses auth file JSON for the inspector: known fields per type, masked secrets,
+ * token expiry warnings and validated edits of non-secret fields.
+ */
+
+export type AuthFileFieldKind = 'text' | 'date' | 'secret';
+
+export interface AuthFileField {
+  /** 字段路径，如 email、token.expiry */
+  path: string;
+  kind: AuthFileFieldKind;
+  /** 展示值；secret 字段已遮罩 */
+  value: string;
+}
+
+export type AuthFileWarning = 'access_token_expired' | 'refresh_token_missing';
+
+export interface AuthFileInspection {
+  type: string;
+  data: Record<string, unknown>;
+  fields: AuthFileField[];
+  warnings: AuthFileWarning[];
+  /** access token 过期时间（毫秒），无法识别时为 null */
+  expiresAt: number | null;
+  /** 是否可编辑 project_id */
+  projectIdEditable: boolean;
+}
+
+export interface AuthFileEdits {
+  /** 输入框原始值 */
+  projectId: string;
+  priority: string;
+}
+
+export type AuthFileEditErrors = Partial<
+  Record<keyof AuthFileEdits, 'project_id_invalid' | 'priority_invalid'>
+>;
+
+interface FieldSpec {
+  path: string;
+  kind: AuthFileFieldKind;
+}
+
+const COMMON_FIELDS: FieldSpec[] = [
+  { path: 'type', kind: 'text' },
+  { path: 'email', kind: 'text' },
+  { path: 'project_id', kind: 'text' },
+  { path: 'account_id', kind: 'text' },
+  { path: 'priority', kind: 'text' },
+  { path: 'auth_method', kind: 'text' },
+  { path: 'token_type', kind: 'text' },
+  { path: 'expired', kind: 'date' },
+  { path: 'expiry', kind: 'date' },
+  { path: 'expires_at', kind: 'date' },
+  { path: 'last_refresh', kind: 'date' },
+  { path: 'access_token', kind: 'secret' },
+  { path: 'refresh_token', kind: 'secret' },
+  { path: 'id_token', kind: 'secret' },
+  { path: 'api_key', kind: 'secret' },
+];
+
+const GOOGLE_TOKEN_FIELDS: FieldSpec[] = [
+  { path: 'token.token_type', kind: 'text' },
+  { path: 'token.expiry', kind: 'date' },
+  { path: 'token.access_token', kind: 'secret' },
+  { path: 'token.refresh_token', kind: 'secret' },
+];
+
+// 各类型特有（通常为嵌套）的字段
+const TYPE_FIELDS: Record<string, FieldSpec[]> = {
+  gemini: GOOGLE_TOKEN_FIELDS,
+  'gemini-cli': GOOGLE_TOKEN_FIELDS,
+  qwen: [{ path: 'resource_url', kind: 'text' }],
+  vertex: [
+    { path: 'location', kind: 'text' },
+    { path: 'service_account.client_email', kind: 'text' },
+    { path: 'service_account.private_key_id', kind: 'secret' },
+    { path: 'service_account.private_key', kind: 'secret' },
+  ],
+};
+
+// 使用 Google Cloud 项目的类型
+const PROJECT_TYPES = new Set(['gemini', 'gemini-cli', 'antigravity', 'vertex']);
+// 不使用 OAuth 刷新令牌的类型
+const NON_OAUTH_TYPES = new Set(['vertex', 'aistudio', 'empty']);
+
+const EXPIRY_PATHS = ['token.expiry', 'expired', 'expiry', 'expires_at'];
+const ACCESS_TOKEN_PATHS = ['token.access_token', 'access_token'];
+const REFRESH_TOKEN_PATHS = ['token.refresh_token', 'refresh_token'];
+
+const SECRET_KEY_REGEX = /(^token$|_token$|secret|password|private_key|api_key)/i;
+// Google Cloud 项目 ID：6-30 位小写字母、数字和连字符，字母开头，不以连字符结尾（可带 example.com: 域前缀）
+const PROJECT_ID_REGEX = /^([a-z][a-z0-9.-]*[a-z0-9]:)?[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+
+const getPath = (data: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>((current, key) => {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, data);
+
+const isPresent = (value: unknown) =>
+  value !== undefined && value !== null && !(typeof value === 'string' && !value.trim());
+
+/**
+ * 遮罩密钥，保留前后各两位，长度固定以免泄露原始长度
+ */
+export const maskAuthSecret = (value: string): string =>
+  value.length <= 8 ? '*'.repeat(value.length) : `${value.slice(0, 2)}********${value.slice(-2)}`;
+
+/**
+ * 解析时间字段：ISO 字符串、秒或毫秒时间戳
+ */
+export function parseAuthFileTime(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return parseAuthFileTime(numeric);
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+/**
+ * 深拷贝并遮罩所有敏感字段，用于展示原始 JSON
+ */
+export function maskAuthFileSecrets(value: unknown, key = ''): unknown {
+  if (Array.isArray(value)) return value.map((item) => maskAuthFileSecrets(item, key));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([childKey, child]) => [
+        childKey,
+        maskAuthFileSecrets(child, childKey),
+      ])
+    );
+  }
+  if (typeof value === 'string' && SECRET_KEY_REGEX.test(key)) {
+    return maskAuthSecret(value);
+  }
+  return value;
+}
+
+/**
+ * 解析认证文件内容；内容不是 JSON 对象时抛出异常
+ */
+export function inspectAuthFile(
+  text: string,
+  fallbackType: string | undefined,
+  now: number
+): AuthFileInspection {
+  const parsed: unknown = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('auth file is not a JSON object');
+  }
+  const data = parsed as Record<string, unknown>;
+  const rawType = typeof data.type === 'string' && data.type.trim() ? data.type : fallbackType;
+  const type = (rawType || 'unknown').trim().toLowerCase();
+
+  const specs = [...COMMON_FIELDS, ...(TYPE_FIELDS[type] ?? [])];
+  const fields: AuthFileField[] = [];
+  specs.forEach(({ path, kind }) => {
+    const value = getPath(data, path);
+    if (!isPresent(value) || typeof value === 'object') return;
+    const text = String(value);
+    fields.push({ path, kind, value: kind === 'secret' ? maskAuthSecret(text) : text });
+  });
+
+  const expiryPath = EXPIRY_PATHS.find((path) => isPresent(getPath(data, path)));
+  const expiresAt = expiryPath ? parseAuthFileTime(getPath(data, expiryPath)) : null;
+  const hasAccessToken = ACCESS_TOKEN_PATHS.some((path) => isPresent(getPath(data, path)));
+  const hasRefreshToken = REFRESH_TOKEN_PATHS.some((path) => isPresent(getPath(data, path)));
+
+  const warnings: AuthFileWarning[] = [];
+  if (hasAccessToken && expiresAt !== null && expiresAt <= now) {
+    warnings.push('access_token_expired');
+  }
+  if (hasAccessToken && !hasRefreshToken && !NON_OAUTH_TYPES.has(type)) {
+    warnings.push('refresh_token_missing');
+  }
+
+  return {
+    type,
+    data,
+    fields,
+    warnings,
+    expiresAt,
+    projectIdEditable: PROJECT_TYPES.has(type) || typeof data.project_id === 'string',
+  };
+}
+
+/**
+ * 校验编辑内容：project_id 需符合 Google Cloud 项目 ID 格式（原本已设置时不可清空），
+ * priority 为空或整数
+ */
+export function validateAuthFileEdits(
+  inspection: AuthFileInspection,
+  edits: AuthFileEdits
+): AuthFileEditErrors {
+  const errors: AuthFileEditErrors = {};
+  const projectId = edits.projectId.trim();
+  const hadProjectId = isPresent(inspection.data.project_id);
+  if (
+    inspection.projectIdEditable &&
+    (projectId ? !PROJECT_ID_REGEX.test(projectId) : hadProjectId)
+  ) {
+    errors.projectId = 'project_id_invalid';
+  }
+  const priority = edits.priority.trim();
+  if (priority && !/^-?\d+$/.test(priority)) {
+    errors.priority = 'priority_invalid';
+  }
+  return errors;
+}
+
+/**
+ * 应用编辑并返回新的 JSON 文本；其他字段（包括密钥）保持原样
+ */
+export function applyAuthFileEdits(inspection: AuthFileInspection, edits: AuthFileEdits): string {
+  const next: Record<string, unknown> = { ...inspection.data };
+  const projectId = edits.projectId.trim();
+  if (inspection.projectIdEditable) {
+    if (projectId) {
+      next.project_id = projectId;
+    } else {
+      delete next.project_id;
+    }
+  }
+  const priority = edits.priority.trim();
+  if (priority) {
+    next.priority = Number(priority);
+  } else {
+    delete next.priority;
+  }
+  return JSON.stringify(next, null, 2);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyRangeSelection, isAllSelected } from './selection';
+
+const names = ['a.json', 'b.json', 'c.json', 'd.json', 'e.json'];
+
+describe('applyRangeSelection', () => {
+  it('toggles a single file without an anchor', () => {
+    expect([...applyRangeSelection(new Set(), names, 'c.json', true)]).toEqual(['c.json']);
+    expect([...applyRangeSelection(new Set(['c.json']), names, 'c.json', false)]).toEqual([]);
+  });
+
+  it('selects or clears every file between the anchor and the target', () => {
+    const selected = applyRangeSelection(new Set(['a.json']), names, 'b.json', true, 'd.json');
+    expect([...selected].sort()).toEqual(['a.json', 'b.json', 'c.json', 'd.json']);
+    const cleared = applyRangeSelection(selected, names, 'd.json', false, 'c.json');
+    expect([...cleared].sort()).toEqual(['a.json', 'b.json']);
+  });
+
+  it('falls back to a single toggle when the anchor is no longer listed', () => {
+    expect([...applyRangeSelection(new Set(), names, 'e.json', true, 'gone.json')]).toEqual([
+      'e.json',
+    ]);
+  });
+});
+
+describe('isAllSelected', () => {
+  it('requires a non-empty list', () => {
+    expect(isAllSelected(new Set(names), names)).toBe(true);
+    expect(isAllSelected(new Set(['a.json']), names)).toBe(false);
+    expect(isAllSelected(new Set(), [])).toBe(false);
+  });
+});
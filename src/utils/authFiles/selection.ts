@@ -0,0 +1,39 @@
+/**
+ * Multi-select helpers for the auth file list (shift-click ranges).
+ */
+
+/**
+ * 切换单个文件的选中状态；按住 Shift 且存在锚点时，将锚点到目标之间（按当前列表顺序）
+ * 的所有文件设置为与目标相同的状态
+ */
+export function applyRangeSelection(
+  selected: ReadonlySet<string>,
+  ordered: string[],
+  target: string,
+  checked: boolean,
+  anchor: string | null = null
+): Set<string> {
+  const next = new Set(selected);
+  const targetIndex = ordered.indexOf(target);
+  const anchorIndex = anchor === null ? -1 : ordered.indexOf(anchor);
+  const names =
+    anchorIndex < 0 || targetIndex < 0
+      ? [target]
+      : ordered.slice(Math.min(anchorIndex, targetIndex), Math.max(anchorIndex, targetIndex) + 1);
+
+  names.forEach((name) => {
+    if (checked) {
+      next.add(name);
+    } else {
+      next.delete(name);
+    }
+  });
+  return next;
+}
+
+/**
+ * 列表中的文件是否全部被选中（空列表返回 false）
+ */
+export function isAllSelected(selected: ReadonlySet<string>, names: string[]): boolean {
+  return names.length > 0 && names.every((name) => selected.has(name));
+}
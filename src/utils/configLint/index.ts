@@ -0,0 +1,6 @@
+/**
+ * config.yaml validation barrel export.
+ */
+
+export * from './schema';
+export * from './lint';
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import { lintConfigYaml } from './lint';
+
+const codes = (text: string) =>
+  lintConfigYaml(text).map((diagnostic) => [diagnostic.code, diagnostic.path, diagnostic.severity]);
+
+describe('lintConfigYaml', () => {
+  it('accepts a valid config', () => {
+    const text = [
+      'port: 8317',
+      'debug: false',
+      'request-retry: 3',
+      'proxy-url: socks5://127.0.0.1:1080',
+      'routing:',
+      '  strategy: fill-first',
+      'api-keys:',
+      '  - sk-a',
+      '  - sk-b',
+      'gemini-api-key:',
+      '  - api-key: AIza-1',
+      '    base-url: https://generativelanguage.googleapis.com',
+      '    headers:',
+      '      X-Custom: value',
+      'oauth-excluded-models:',
+      '  gemini-cli: [gemini-2.0-flash-lite]',
+    ].join('\n');
+
+    expect(lintConfigYaml(text)).toEqual([]);
+  });
+
+  it('flags unknown keys and wrong types', () => {
+    const text = ['gemini-api-keys: []', 'debug: yes', 'request-retry: "3"', 'api-keys: sk-a'].join(
+      '\n'
+    );
+
+    expect(codes(text)).toEqual([
+      ['unknown_key', 'gemini-api-keys', 'warning'],
+      ['wrong_type', 'debug', 'error'],
+      ['wrong_type', 'request-retry', 'error'],
+      ['wrong_type', 'api-keys', 'error'],
+    ]);
+  });
+
+  it('flags duplicate api keys in lists and provider entries', () => {
+    const text = [
+      'api-keys: [sk-a, sk-b, sk-a]',
+      'claude-api-key:',
+      '  - api-key: sk-ant-123456',
+      '  - api-key: "sk-ant-123456"',
+    ].join('\n');
+
+    expect(codes(text)).toEqual([
+      ['duplicate_api_key', 'api-keys[2]', 'error'],
+      ['duplicate_api_key', 'claude-api-key[1].api-key', 'error'],
+    ]);
+  });
+
+  it('validates urls, enums and ranges', () => {
+    const text = [
+      'port: 70000',
+      'proxy-url: ftp://proxy',
+      'routing:',
+      '  strategy: random',
+      'codex-api-key:',
+      '  - api-key: sk-1',
+      '    base-url: api.openai.com',
+    ].join('\n');
+
+    expect(codes(text)).toEqual([
+      ['out_of_range', 'port', 'error'],
+      ['invalid_url', 'proxy-url', 'error'],
+      ['invalid_enum', 'routing.strategy', 'error'],
+      ['invalid_url', 'codex-api-key[0].base-url', 'error'],
+    ]);
+  });
+
+  it('reports duplicate keys and syntax errors with a usable range', () => {
+    const text = 'debug: true\ndebug: false\nbad: [unterminated\n';
+    const diagnostics = lintConfigYaml(text);
+
+    expect(diagnostics.find((item) => item.code === 'duplicate_key')?.path).toBe('debug');
+    const syntax = diagnostics.find((item) => item.code === 'syntax');
+    expect(syntax).toBeDefined();
+    expect(syntax!.to).toBeGreaterThan(syntax!.from);
+  });
+
+  it('treats empty values as defaults', () => {
+    expect(lintConfigYaml('proxy-url:\nrequest-retry: ~\ngemini-api-key:\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * config.yaml 语义校验
+ * 基于 CodeMirror 的 YAML 语法树逐项对照 CONFIG_SCHEMA，返回带位置信息的诊断结果
+ */
+
+import { yamlLanguage } from '@codemirror/lang-yaml';
+import type { SyntaxNode } from '@lezer/common';
+import { maskApiKey } from '@/utils/format';
+import { CONFIG_SCHEMA, type ConfigSchemaNode } from './schema';
+
+export type ConfigDiagnosticSeverity = 'error' | 'warning';
+
+export type ConfigDiagnosticCode =
+  | 'syntax'
+  | 'duplicate_key'
+  | 'unknown_key'
+  | 'wrong_type'
+  | 'invalid_enum'
+  | 'out_of_range'
+  | 'invalid_url'
+  | 'duplicate_api_key'
+  | 'duplicate_value';
+
+export interface ConfigDiagnostic {
+  from: number;
+  to: number;
+  severity: ConfigDiagnosticSeverity;
+  code: ConfigDiagnosticCode;
+  /** 出错位置的配置路径，如 gemini-api-key[1].base-url */
+  path: string;
+  /** 用于拼装提示文案的参数 */
+  params: Record<string, string | number>;
+}
+
+type ValueType = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'list' | 'mapping' | 'alias';
+
+const SEVERITY: Record<ConfigDiagnosticCode, ConfigDiagnosticSeverity> = {
+  syntax: 'error',
+  duplicate_key: 'error',
+  unknown_key: 'warning',
+  wrong_type: 'error',
+  invalid_enum: 'error',
+  out_of_range: 'error',
+  invalid_url: 'error',
+  duplicate_api_key: 'error',
+  duplicate_value: 'warning'
+};
+
+const PLAIN_NULL = /^(~|null|Null|NULL)$/;
+const PLAIN_BOOL = /^(true|True|TRUE|false|False|FALSE)$/;
+const PLAIN_INT = /^[-+]?(0|[1-9][0-9_]*|0x[0-9a-fA-F_]+|0o[0-7_]+)$/;
+const PLAIN_FLOAT =
+  /^([-+]?(\.[0-9]+|[0-9][0-9_]*(\.[0-9_]*)?)([eE][-+]?[0-9]+)?|[-+]?\.(inf|Inf|INF)|\.(nan|NaN|NAN))$/;
+
+const URL_PROTOCOLS = ['http:', 'https:'];
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks5:', 'socks5h:'];
+
+const VALUE_NODES = new Set([
+  'BlockMapping',
+  'FlowMapping',
+  'BlockSequence',
+  'FlowSequence',
+  'Literal',
+  'QuotedLiteral',
+  'BlockLiteral',
+  'Alias',
+  'Tagged',
+  'Anchored'
+]);
+
+/**
+ * 校验 config.yaml 文本，返回按位置排序的诊断结果
+ */
+export function lintConfigYaml(text: string): ConfigDiagnostic[] {
+  const tree = yamlLanguage.parser.parse(text);
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  const report = (
+    node: { from: number; to: number },
+    code: ConfigDiagnosticCode,
+    path: string,
+    params: Record<string, string | number> = {}
+  ) => {
+    diagnostics.push({ from: node.from, to: node.to, severity: SEVERITY[code], code, path, params });
+  };
+
+  collectSyntaxErrors(text, tree.topNode, report);
+
+  const documents = tree.topNode.getChildren('Document');
+  documents.forEach((document) => {
+    const root = findValueNode(document);
+    if (root) checkNode(text, root, CONFIG_SCHEMA, '', report);
+  });
+
+  return diagnostics.sort((a, b) => a.from - b.from || a.to - b.to);
+}
+
+type Reporter = (
+  node: { from: number; to: number },
+  code: ConfigDiagnosticCode,
+  path: string,
+  params?: Record<string, string | number>
+) => void;
+
+function collectSyntaxErrors(text: string, top: SyntaxNode, report: Reporter) {
+  const seenLines = new Set<number>();
+  top.cursor().iterate((node) => {
+    if (!node.type.isError) return;
+    // 零宽度的错误节点（常见于文件末尾）回退到最近的非空内容所在行，便于在编辑器中标注
+    let { from, to } = node;
+    if (to <= from) {
+      let end = Math.min(from, text.length);
+      while (end > 0 && /\s/.test(text[end - 1])) end -= 1;
+      from = text.lastIndexOf('\n', end - 1) + 1;
+      to = Math.max(end, from);
+    }
+    const lineStart = text.lastIndexOf('\n', from - 1) + 1;
+    if (seenLines.has(lineStart)) return;
+    seenLines.add(lineStart);
+    report({ from, to }, 'syntax', '');
+  });
+}
+
+function findValueNode(parent: SyntaxNode | null): SyntaxNode | null {
+  if (!parent) return null;
+  for (let child = parent.firstChild; child; child = child.nextSibling) {
+    if (VALUE_NODES.has(child.name)) return unwrap(child);
+  }
+  return null;
+}
+
+// 跳过锚点与标签，取实际的值节点
+function unwrap(node: SyntaxNode): SyntaxNode {
+  if (node.name !== 'Tagged' && node.name !== 'Anchored') return node;
+  let last: SyntaxNode | null = null;
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (VALUE_NODES.has(child.name)) last = child;
+  }
+  return last ? unwrap(last) : node;
+}
+
+function readScalar(text: string, node: SyntaxNode): string {
+  const raw = text.slice(node.from, node.to);
+  if (node.name === 'QuotedLiteral') {
+    if (raw.startsWith("'")) return raw.slice(1, -1).replace(/''/g, "'");
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw.slice(1, -1);
+    }
+  }
+  return raw.trim();
+}
+
+function readKey(text: string, pair: SyntaxNode): { node: SyntaxNode; name: string } | null {
+  const key = pair.getChild('Key');
+  if (!key) return null;
+  const scalar = key.getChild('QuotedLiteral') ?? key.getChild('Literal') ?? key;
+  return { node: key, name: readScalar(text, scalar) };
+}
+
+function valueType(text: string, node: SyntaxNode | null): ValueType {
+  if (!node) return 'null';
+  switch (node.name) {
+    case 'BlockMapping':
+    case 'FlowMapping':
+      return 'mapping';
+    case 'BlockSequence':
+    case 'FlowSequence':
+      return 'list';
+    case 'QuotedLiteral':
+    case 'BlockLiteral':
+      return 'string';
+    case 'Alias':
+      return 'alias';
+    default: {
+      const value = readScalar(text, node);
+      if (!value || PLAIN_NULL.test(value)) return 'null';
+      if (PLAIN_BOOL.test(value)) return 'boolean';
+      if (PLAIN_INT.test(value)) return 'integer';
+      if (PLAIN_FLOAT.test(value)) return 'number';
+      return 'string';
+    }
+  }
+}
+
+function expectedType(schema: ConfigSchemaNode): string {
+  switch (schema.kind) {
+    case 'object':
+      return 'mapping';
+    case 'array':
+      return 'list';
+    case 'enum':
+      return 'string';
+    default:
+      return schema.kind;
+  }
+}
+
+function isCompatible(schema: ConfigSchemaNode, actual: ValueType): boolean {
+  switch (schema.kind) {
+    case 'any':
+      return true;
+    case 'object':
+      return actual === 'mapping';
+    case 'array':
+      return actual === 'list';
+    case 'boolean':
+      return actual === 'boolean';
+    case 'integer':
+      return actual === 'integer';
+    // 标量会被服务端按字符串读取
+    case 'string':
+    case 'enum':
+      return actual === 'string' || actual === 'integer' || actual === 'number' || actual === 'boolean';
+  }
+}
+
+const joinPath = (base: string, key: string) => (base ? `${base}.${key}` : key);
+
+function isApiKeyField(path: string, field?: string) {
+  return field === 'api-key' || /(^|\.)api-keys$/.test(path);
+}
+
+function checkNode(
+  text: string,
+  node: SyntaxNode | null,
+  schema: ConfigSchemaNode,
+  path: string,
+  report: Reporter
+) {
+  const actual = valueType(text, node);
+  // 空值与别名不做校验：空值表示使用默认值，别名的内容在其它位置已校验
+  if (!node || actual === 'null' || actual === 'alias' || schema.kind === 'any') return;
+
+  if (!isCompatible(schema, actual)) {
+    report(node, 'wrong_type', path, { expected: expectedType(schema), actual });
+    return;
+  }
+
+  switch (schema.kind) {
+    case 'object':
+      checkMapping(text, node, schema, path, report);
+      return;
+    case 'array':
+      checkSequence(text, node, schema, path, report);
+      return;
+    case 'integer': {
+      const value = Number(readScalar(text, node).replace(/_/g, ''));
+      if (
+        (schema.min !== undefined && value < schema.min) ||
+        (schema.max !== undefined && value > schema.max)
+      ) {
+        report(node, 'out_of_range', path, {
+          min: schema.min ?? '-∞',
+          max: schema.max ?? '∞'
+        });
+      }
+      return;
+    }
+    case 'enum': {
+      const value = readScalar(text, node);
+      if (!schema.values.includes(value)) {
+        report(node, 'invalid_enum', path, { value, values: schema.values.join(', ') });
+      }
+      return;
+    }
+    case 'string': {
+      if (!schema.format) return;
+      const value = readScalar(text, node);
+      if (!value) return;
+      const protocols = schema.format === 'proxy-url' ? PROXY_PROTOCOLS : URL_PROTOCOLS;
+      let valid = false;
+      try {
+        const parsed = new URL(value);
+        valid = protocols.includes(parsed.protocol) && Boolean(parsed.host);
+      } catch {
+        valid = false;
+      }
+      if (!valid) {
+        report(node, 'invalid_url', path, {
+          value,
+          protocols: protocols.map((protocol) => protocol.replace(':', '')).join(', ')
+        });
+      }
+      return;
+    }
+    default:
+      return;
+  }
+}
+
+function checkMapping(
+  text: string,
+  node: SyntaxNode,
+  schema: Extract<ConfigSchemaNode, { kind: 'object' }>,
+  path: string,
+  report: Reporter
+) {
+  const seen = new Set<string>();
+  node.getChildren('Pair').forEach((pair) => {
+    const key = readKey(text, pair);
+    if (!key) return;
+    const childPath = joinPath(path, key.name);
+
+    if (seen.has(key.name)) {
+      report(key.node, 'duplicate_key', childPath, { key: key.name });
+      return;
+    }
+    seen.add(key.name);
+
+    const childSchema = schema.properties[key.name] ?? schema.additional;
+    if (!childSchema) {
+      report(key.node, 'unknown_key', childPath, { key: key.name });
+      return;
+    }
+    checkNode(text, findValueNode(pair), childSchema, childPath, report);
+  });
+}
+
+function checkSequence(
+  text: string,
+  node: SyntaxNode,
+  schema: Extract<ConfigSchemaNode, { kind: 'array' }>,
+  path: string,
+  report: Reporter
+) {
+  const uniqueFields = schema.uniqueBy ?? [];
+  const seenScalars = new Set<string>();
+  const seenFields = new Map<string, Set<string>>(uniqueFields.map((field) => [field, new Set()]));
+
+  const reportDuplicate = (target: SyntaxNode, itemPath: string, value: string, field?: string) => {
+    if (isApiKeyField(path, field)) {
+      report(target, 'duplicate_api_key', itemPath, { value: maskApiKey(value) });
+    } else {
+      report(target, 'duplicate_value', itemPath, { field: field ?? path, value });
+    }
+  };
+
+  node.getChildren('Item').forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    const value = findValueNode(item);
+    checkNode(text, value, schema.items, itemPath, report);
+    if (!value) return;
+
+    const type = valueType(text, value);
+    if (schema.unique && type !== 'mapping' && type !== 'list' && type !== 'null') {
+      const scalar = readScalar(text, value);
+      if (seenScalars.has(scalar)) reportDuplicate(value, itemPath, scalar);
+      seenScalars.add(scalar);
+    }
+
+    if (uniqueFields.length && type === 'mapping') {
+      value.getChildren('Pair').forEach((pair) => {
+        const key = readKey(text, pair);
+        const seenValues = key ? seenFields.get(key.name) : undefined;
+        const fieldValue = findValueNode(pair);
+        if (!key || !seenValues || !fieldValue) return;
+        const fieldType = valueType(text, fieldValue);
+        if (fieldType === 'mapping' || fieldType === 'list' || fieldType === 'null') return;
+        const scalar = readScalar(text, fieldValue);
+        if (seenValues.has(scalar)) {
+          reportDuplicate(fieldValue, joinPath(itemPath, key.name), scalar, key.name);
+        }
+        seenValues.add(scalar);
+      });
+    }
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * config.yaml 结构定义
+ * 覆盖 RawConfigSection 对应的配置项以及各提供商条目的字段，用于编辑器内校验
+ */
+
+export type ConfigSchemaNode =
+  | { kind: 'any' }
+  | { kind: 'string'; format?: 'url' | 'proxy-url' }
+  | { kind: 'boolean' }
+  | { kind: 'integer'; min?: number; max?: number }
+  | { kind: 'enum'; values: string[] }
+  | {
+      kind: 'object';
+      properties: Record<string, ConfigSchemaNode>;
+      /** 允许任意键名时，所有值都按该结构校验（如 headers、按提供商分组的映射） */
+      additional?: ConfigSchemaNode;
+    }
+  | {
+      kind: 'array';
+      items: ConfigSchemaNode;
+      /** 元素本身（标量）不可重复 */
+      unique?: boolean;
+      /** 元素（对象）中这些字段的值不可重复 */
+      uniqueBy?: string[];
+    };
+
+const any: ConfigSchemaNode = { kind: 'any' };
+const string: ConfigSchemaNode = { kind: 'string' };
+const url: ConfigSchemaNode = { kind: 'string', format: 'url' };
+const proxyUrl: ConfigSchemaNode = { kind: 'string', format: 'proxy-url' };
+const boolean: ConfigSchemaNode = { kind: 'boolean' };
+const nonNegativeInteger: ConfigSchemaNode = { kind: 'integer', min: 0 };
+
+const object = (
+  properties: Record<string, ConfigSchemaNode>,
+  additional?: ConfigSchemaNode
+): ConfigSchemaNode => ({ kind: 'object', properties, additional });
+
+const stringList: ConfigSchemaNode = { kind: 'array', items: string };
+const headers = object({}, string);
+
+const modelAlias = object({
+  name: string,
+  alias: string,
+  priority: { kind: 'integer' },
+  'test-model': string
+});
+
+const providerKeyEntry = object({
+  'api-key': string,
+  prefix: string,
+  'base-url': url,
+  'proxy-url': proxyUrl,
+  headers,
+  models: { kind: 'array', items: modelAlias },
+  'excluded-models': stringList
+});
+
+const providerKeyList: ConfigSchemaNode = {
+  kind: 'array',
+  items: providerKeyEntry,
+  uniqueBy: ['api-key']
+};
+
+const openAIProvider = object({
+  name: string,
+  prefix: string,
+  'base-url': url,
+  headers,
+  'api-key-entries': {
+    kind: 'array',
+    items: object({ 'api-key': string, 'proxy-url': proxyUrl }),
+    uniqueBy: ['api-key']
+  },
+  'api-keys': { kind: 'array', items: string, unique: true },
+  models: { kind: 'array', items: modelAlias },
+  priority: { kind: 'integer' },
+  'test-model': string
+});
+
+const oauthModelMappings = object(
+  {},
+  { kind: 'array', items: object({ name: string, alias: string, fork: boolean }) }
+);
+
+export const CONFIG_SCHEMA: ConfigSchemaNode = object({
+  host: string,
+  port: { kind: 'integer', min: 1, max: 65535 },
+  tls: object({ enable: boolean, cert: string, key: string }),
+  'remote-management': object({
+    'allow-remote': boolean,
+    'secret-key': string,
+    'disable-control-panel': boolean,
+    'panel-github-repository': url
+  }),
+  'auth-dir': string,
+  'api-keys': { kind: 'array', items: string, unique: true },
+  debug: boolean,
+  'commercial-mode': boolean,
+  'logging-to-file': boolean,
+  'logs-max-total-size-mb': nonNegativeInteger,
+  'usage-statistics-enabled': boolean,
+  'request-log': boolean,
+  'proxy-url': proxyUrl,
+  'force-model-prefix': boolean,
+  'request-retry': nonNegativeInteger,
+  'max-retry-interval': nonNegativeInteger,
+  'quota-exceeded': object({ 'switch-project': boolean, 'switch-preview-model': boolean }),
+  routing: object({ strategy: { kind: 'enum', values: ['round-robin', 'fill-first'] } }),
+  'ws-auth': boolean,
+  'gemini-api-key': providerKeyList,
+  'codex-api-key': providerKeyList,
+  'claude-api-key': providerKeyList,
+  'vertex-api-key': providerKeyList,
+  'openai-compatibility': { kind: 'array', items: openAIProvider, uniqueBy: ['name'] },
+  ampcode: object({
+    'upstream-url': url,
+    'upstream-api-key': string,
+    'restrict-management-to-localhost': boolean,
+    'model-mappings': {
+      kind: 'array',
+      items: object({ from: string, to: string }),
+      uniqueBy: ['from']
+    },
+    'force-model-mappings': boolean
+  }),
+  'oauth-excluded-models': object({}, stringList),
+  'oauth-model-mappings': oauthModelMappings,
+  'oauth-model-alias': oauthModelMappings,
+  payload: any
+});
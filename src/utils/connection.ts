@@ -1,4 +1,4 @@
-import { DEFAULT_API_PORT, MANAGEMENT_API_PREFIX } from './constants';
+import { DEFAULT_API_PORT, MANAGEMENT_API_PREFIX, MOCK_API_BASE } from './constants';
 
 export const normalizeApiBase = (input: string): string => {
   let base = (input || '').trim();
@@ -32,3 +32,16 @@ export const isLocalhost = (hostname: string): boolean => {
   const value = (hostname || '').toLowerCase();
   return value === 'localhost' || value === '127.0.0.1' || value === '[::1]';
 };
+
+/**
+ * 判断地址是否指向离线演示服务器（忽略路径，只比较 origin）
+ */
+export const isMockApiBase = (base: string): boolean => {
+  const normalized = normalizeApiBase(base);
+  if (!normalized) return false;
+  try {
+    return new URL(normalized).origin === MOCK_API_BASE;
+  } catch {
+    return false;
+  }
+};
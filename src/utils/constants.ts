@@ -10,6 +10,9 @@ export const CACHE_EXPIRY_MS = 30 * 1000; // 与基线保持一致，减少管
 export const DEFAULT_API_PORT = 8317;
 export const MANAGEMENT_API_PREFIX = '/v0/management';
 export const REQUEST_TIMEOUT_MS = 30 * 1000;
+// 离线演示服务器地址（.invalid 为保留域名，永远不会发出真实请求）
+export const MOCK_API_BASE = 'http://offline-demo.invalid';
+export const MOCK_MANAGEMENT_KEY = 'demo';
 export const VERSION_HEADER_KEYS = ['x-cpa-version', 'x-server-version'];
 export const BUILD_DATE_HEADER_KEYS = ['x-cpa-build-date', 'x-server-build-date'];
 export const STATUS_UPDATE_INTERVAL_MS = 1000;
@@ -32,6 +35,20 @@ export const STORAGE_KEY_THEME = 'cli-proxy-theme';
 export const STORAGE_KEY_LANGUAGE = 'cli-proxy-language';
 export const STORAGE_KEY_SIDEBAR = 'cli-proxy-sidebar-collapsed';
 export const STORAGE_KEY_AUTH_FILES_PAGE_SIZE = 'cli-proxy-auth-files-page-size';
+export const STORAGE_KEY_PROFILES = 'cli-proxy-connection-profiles';
+export const STORAGE_KEY_CONFIG_HISTORY = 'cli-proxy-config-history';
+export const STORAGE_KEY_LOG_SEARCHES = 'cli-proxy-log-searches';
+export const STORAGE_KEY_USAGE_BUDGETS = 'cli-proxy-usage-budgets';
+
+// 连接配置档案颜色标签
+export const CONNECTION_PROFILE_COLORS = {
+  blue: '#3b82f6',
+  green: '#10b981',
+  amber: '#f59e0b',
+  red: '#ef4444',
+  purple: '#8b5cf6',
+  gray: '#6b7280'
+} as const;
 
 // 通知持续时间
 export const NOTIFICATION_DURATION_MS = 3000;
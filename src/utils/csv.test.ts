@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseCsv, toCsv } from './csv';
+
+describe('csv utils', () => {
+  it('quotes cells that need escaping', () => {
+    expect(toCsv([['a', 'b,c', 'say "hi"', 1, null]])).toBe('a,"b,c","say ""hi""",1,');
+  });
+
+  it('prefixes text cells that spreadsheets would run as formulas', () => {
+    expect(toCsv([['=HYPERLINK("x")', '+1', '-cmd', '@SUM(A1)', '\tx', '\rx', -5, 'a=b']])).toBe(
+      `"'=HYPERLINK(""x"")",'+1,'-cmd,'@SUM(A1),'\tx,"'\rx",-5,a=b`
+    );
+  });
+
+  it('round-trips quoted cells and skips blank lines', () => {
+    const rows = [
+      ['model', 'note'],
+      ['claude-*', 'line1\nline2'],
+      ['gpt-5', '"quoted", comma'],
+    ];
+    expect(parseCsv(`\uFEFF${toCsv(rows)}\r\n\r\n`)).toEqual(rows);
+  });
+});
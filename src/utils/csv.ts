@@ -0,0 +1,71 @@
+/**
+ * CSV 工具
+ * 按 RFC 4180 处理引号与换行，供价格表、使用统计等表格的导入导出使用
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// 以这些字符开头的文本会被电子表格当作公式执行，导出时加 ' 前缀
+const FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: CsvCell): string => {
+  if (value === null || value === undefined) return '';
+  const text =
+    typeof value === 'string' && FORMULA_PREFIX_REGEX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 将二维数组序列化为 CSV 文本（CRLF 换行）
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * 解析 CSV 文本为二维数组，忽略空行与 UTF-8 BOM
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const pushRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      pushRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) {
+    pushRow();
+  }
+  return rows;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  collapseUnchangedRows,
+  diffLines,
+  getDiffStats,
+  splitLines,
+  toSideBySideRows,
+} from './diff';
+
+const rebuild = (ops: ReturnType<typeof diffLines>, side: 'old' | 'new') =>
+  ops
+    .filter((op) => op.type === 'equal' || op.type === (side === 'old' ? 'remove' : 'add'))
+    .map((op) => op.text);
+
+describe('diff utils', () => {
+  it('splits lines and ignores the trailing newline', () => {
+    expect(splitLines('a\r\nb\n')).toEqual(['a', 'b']);
+    expect(splitLines('')).toEqual([]);
+  });
+
+  it('produces a minimal edit script that rebuilds both sides', () => {
+    const oldText = 'port: 8317\ndebug: false\napi-keys:\n  - a\n  - b\n';
+    const newText = 'port: 8317\ndebug: true\napi-keys:\n  - a\n  - c\n  - b\n';
+    const ops = diffLines(oldText, newText);
+
+    expect(rebuild(ops, 'old')).toEqual(splitLines(oldText));
+    expect(rebuild(ops, 'new')).toEqual(splitLines(newText));
+    expect(getDiffStats(ops)).toEqual({ added: 2, removed: 1 });
+  });
+
+  it('numbers lines on both sides', () => {
+    const ops = diffLines('a\nb\nc', 'a\nc\nd');
+
+    expect(ops).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', text: 'b', oldLine: 2, newLine: undefined },
+      { type: 'equal', text: 'c', oldLine: 3, newLine: 2 },
+      { type: 'add', text: 'd', oldLine: undefined, newLine: 3 },
+    ]);
+  });
+
+  it('handles texts without any common line', () => {
+    const ops = diffLines('a\nb', 'c\nd');
+
+    expect(rebuild(ops, 'old')).toEqual(['a', 'b']);
+    expect(rebuild(ops, 'new')).toEqual(['c', 'd']);
+    expect(getDiffStats(ops)).toEqual({ added: 2, removed: 2 });
+  });
+
+  it('pairs removals with additions in side-by-side rows', () => {
+    const rows = toSideBySideRows(diffLines('a\nb\nc', 'a\nB\nc\nd'));
+
+    expect(rows.map((row) => row.type)).toEqual(['equal', 'change', 'equal', 'add']);
+    expect(rows[1].left?.text).toBe('b');
+    expect(rows[1].right?.text).toBe('B');
+    expect(rows[3].left).toBeUndefined();
+  });
+
+  it('collapses unchanged rows outside the context window', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const newText = oldText.replace('line 10', 'line ten');
+    const collapsed = collapseUnchangedRows(toSideBySideRows(diffLines(oldText, newText)), 2);
+
+    expect(collapsed[0]).toEqual({ type: 'collapsed', count: 8 });
+    expect(collapsed).toHaveLength(7);
+    expect(collapsed[collapsed.length - 1]).toEqual({ type: 'collapsed', count: 7 });
+  });
+});
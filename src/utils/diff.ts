@@ -0,0 +1,260 @@
+/**
+ * 文本行级差异工具
+ * 基于 Myers 差分算法，供配置历史对比等场景使用
+ */
+
+export type DiffOpType = 'equal' | 'add' | 'remove';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+  /** 在旧文本中的行号（从 1 开始），新增行为 undefined */
+  oldLine?: number;
+  /** 在新文本中的行号（从 1 开始），删除行为 undefined */
+  newLine?: number;
+}
+
+export interface DiffSide {
+  line: number;
+  text: string;
+}
+
+export type SideBySideRowType = 'equal' | 'change' | 'add' | 'remove';
+
+export interface SideBySideRow {
+  type: SideBySideRowType;
+  left?: DiffSide;
+  right?: DiffSide;
+}
+
+export interface CollapsedRows {
+  type: 'collapsed';
+  count: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+/**
+ * 按行拆分文本，统一换行符并忽略结尾的单个换行
+ */
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const lines = normalized.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Myers 最短编辑脚本，返回按顺序排列的行操作
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const n = a.length;
+  const m = b.length;
+
+  // 先去掉公共前后缀，缩小需要搜索的范围
+  let prefix = 0;
+  while (prefix < n && prefix < m && a[prefix] === b[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < n - prefix &&
+    suffix < m - prefix &&
+    a[n - 1 - suffix] === b[m - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middle = myers(a.slice(prefix, n - suffix), b.slice(prefix, m - suffix));
+  middle.forEach((op) => {
+    ops.push({
+      ...op,
+      oldLine: op.oldLine !== undefined ? op.oldLine + prefix : undefined,
+      newLine: op.newLine !== undefined ? op.newLine + prefix : undefined
+    });
+  });
+
+  for (let i = suffix; i > 0; i--) {
+    ops.push({ type: 'equal', text: a[n - i], oldLine: n - i + 1, newLine: m - i + 1 });
+  }
+
+  return ops;
+}
+
+/** 编辑距离超过该值时不再逐行搜索，直接视为整段替换，避免大文件占用过多内存 */
+const MAX_EDIT_DISTANCE = 4000;
+
+function replaceAll(a: string[], b: string[]): DiffOp[] {
+  return [
+    ...a.map((text, index): DiffOp => ({ type: 'remove', text, oldLine: index + 1 })),
+    ...b.map((text, index): DiffOp => ({ type: 'add', text, newLine: index + 1 }))
+  ];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return replaceAll(a, b);
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] 仅保存第 d 步开始前 k ∈ [-d-1, d+1] 范围内的 V，回溯时按 d + 1 + k 取值
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  outer: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) break;
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+  if (!found) return replaceAll(a, b);
+
+  // 回溯编辑路径
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && snapshot[d + k] < snapshot[d + k + 2])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = snapshot[d + 1 + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', text: a[x - 1], oldLine: x, newLine: y });
+      x -= 1;
+      y -= 1;
+    }
+    if (d === 0) break;
+    if (x === prevX) {
+      ops.push({ type: 'add', text: b[y - 1], newLine: y });
+    } else {
+      ops.push({ type: 'remove', text: a[x - 1], oldLine: x });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * 统计新增 / 删除行数
+ */
+export function getDiffStats(ops: DiffOp[]): DiffStats {
+  return ops.reduce<DiffStats>(
+    (stats, op) => {
+      if (op.type === 'add') stats.added += 1;
+      if (op.type === 'remove') stats.removed += 1;
+      return stats;
+    },
+    { added: 0, removed: 0 }
+  );
+}
+
+/**
+ * 转换为左右对照的行：连续的删除与新增两两配对为修改行
+ */
+export function toSideBySideRows(ops: DiffOp[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === 'equal') {
+      rows.push({
+        type: 'equal',
+        left: { line: op.oldLine ?? 0, text: op.text },
+        right: { line: op.newLine ?? 0, text: op.text }
+      });
+      index += 1;
+      continue;
+    }
+
+    const removed: DiffOp[] = [];
+    const added: DiffOp[] = [];
+    while (index < ops.length && ops[index].type !== 'equal') {
+      if (ops[index].type === 'remove') removed.push(ops[index]);
+      else added.push(ops[index]);
+      index += 1;
+    }
+
+    const count = Math.max(removed.length, added.length);
+    for (let i = 0; i < count; i++) {
+      const left = removed[i];
+      const right = added[i];
+      rows.push({
+        type: left && right ? 'change' : left ? 'remove' : 'add',
+        left: left ? { line: left.oldLine ?? 0, text: left.text } : undefined,
+        right: right ? { line: right.newLine ?? 0, text: right.text } : undefined
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * 折叠距离改动较远的未变化行，仅保留上下文
+ */
+export function collapseUnchangedRows(
+  rows: SideBySideRow[],
+  context = 3
+): Array<SideBySideRow | CollapsedRows> {
+  const keep = new Array<boolean>(rows.length).fill(false);
+  rows.forEach((row, index) => {
+    if (row.type === 'equal') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(rows.length - 1, index + context);
+    for (let i = start; i <= end; i++) keep[i] = true;
+  });
+
+  const result: Array<SideBySideRow | CollapsedRows> = [];
+  let hidden = 0;
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      if (hidden > 0) {
+        result.push({ type: 'collapsed', count: hidden });
+        hidden = 0;
+      }
+      result.push(row);
+    } else {
+      hidden += 1;
+    }
+  });
+  if (hidden > 0) result.push({ type: 'collapsed', count: hidden });
+
+  return result;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_LOG_ALERT_RULE,
+  evaluateLogAlerts,
+  matchesSavedSearch,
+  type SavedLogSearch,
+} from './alerts';
+import { EMPTY_LOG_FILTERS } from './filters';
+import { parseLogLine } from './parser';
+
+const access = (time: string, status: number, path: string) =>
+  parseLogLine(
+    `[2026-01-02 ${time}] [a1b2c3d4] [info ] [gin_logger.go:94] ${status} | 12ms | 10.0.0.1 | POST ${path}`
+  );
+
+const search = (patch: Partial<SavedLogSearch> = {}): SavedLogSearch => ({
+  id: 'rule-1',
+  name: '5xx burst',
+  query: '',
+  filters: { ...EMPTY_LOG_FILTERS, statusClasses: ['5xx'] },
+  alert: { ...DEFAULT_LOG_ALERT_RULE, enabled: true, threshold: 3, windowMinutes: 5 },
+  createdAt: 0,
+  ...patch,
+});
+
+describe('matchesSavedSearch', () => {
+  it('requires both the keyword and the field filters to match', () => {
+    const line = access('10:00:00', 502, '/v1/messages');
+    expect(matchesSavedSearch(line, search())).toBe(true);
+    expect(matchesSavedSearch(line, search({ query: 'MESSAGES' }))).toBe(true);
+    expect(matchesSavedSearch(line, search({ query: 'chat' }))).toBe(false);
+    expect(matchesSavedSearch(access('10:00:00', 200, '/v1/messages'), search())).toBe(false);
+  });
+});
+
+describe('evaluateLogAlerts', () => {
+  it('accumulates hits across polls and fires once the threshold is reached', () => {
+    const rules = [search()];
+    const first = evaluateLogAlerts(rules, {}, [
+      access('10:00:00', 502, '/a'),
+      access('10:00:01', 200, '/a'),
+    ]);
+    expect(first.fired).toHaveLength(0);
+    expect(first.hits['rule-1']).toHaveLength(1);
+
+    const second = evaluateLogAlerts(rules, first.hits, [
+      access('10:01:00', 500, '/a'),
+      access('10:02:00', 503, '/b'),
+    ]);
+    expect(second.fired).toHaveLength(1);
+    expect(second.fired[0].count).toBe(3);
+    expect(second.fired[0].sample).toContain('503');
+    expect(second.hits['rule-1']).toEqual([]);
+  });
+
+  it('drops hits that fall out of the window and ignores disabled rules', () => {
+    const rules = [search()];
+    const first = evaluateLogAlerts(rules, {}, [
+      access('10:00:00', 502, '/a'),
+      access('10:00:30', 502, '/a'),
+    ]);
+    const later = evaluateLogAlerts(rules, first.hits, [access('10:09:00', 502, '/a')]);
+    expect(later.fired).toHaveLength(0);
+    expect(later.hits['rule-1']).toHaveLength(1);
+
+    const disabled = [search({ alert: { ...DEFAULT_LOG_ALERT_RULE, threshold: 1 } })];
+    expect(evaluateLogAlerts(disabled, {}, [access('10:00:00', 502, '/a')]).fired).toEqual([]);
+  });
+});
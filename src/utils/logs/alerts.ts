@@ -0,0 +1,101 @@
+/**
+ * Saved log searches and threshold alert rules evaluated on incremental log polls.
+ */
+
+import { countActiveLogFilters, matchesLogFilters, type LogFieldFilters } from './filters';
+import type { ParsedLogLine } from './parser';
+import { parseLogTimestamp } from './trace';
+
+export interface LogAlertRule {
+  enabled: boolean;
+  /** 时间窗口内命中行数达到该值即触发 */
+  threshold: number;
+  windowMinutes: number;
+  /** 同时弹出浏览器桌面通知 */
+  desktop: boolean;
+}
+
+export interface SavedLogSearch {
+  id: string;
+  name: string;
+  /** 关键字搜索（不区分大小写） */
+  query: string;
+  filters: LogFieldFilters;
+  alert: LogAlertRule;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+export const DEFAULT_LOG_ALERT_RULE: LogAlertRule = {
+  enabled: false,
+  threshold: 5,
+  windowMinutes: 5,
+  desktop: false,
+};
+
+/** 每条规则在窗口内的命中时间（毫秒），仅保存在内存中 */
+export type LogAlertHits = Record<string, number[]>;
+
+export interface FiredLogAlert {
+  search: SavedLogSearch;
+  count: number;
+  /** 最近一条命中的日志行 */
+  sample: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 判断日志行是否命中保存的搜索：关键字与字段过滤需同时满足
+ */
+export const matchesSavedSearch = (
+  line: ParsedLogLine,
+  search: Pick<SavedLogSearch, 'query' | 'filters'>
+): boolean => {
+  const query = search.query.trim().toLowerCase();
+  if (query && !line.raw.toLowerCase().includes(query)) return false;
+  if (countActiveLogFilters(search.filters) > 0 && !matchesLogFilters(line, search.filters)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * 用一批新拉取的日志评估所有启用的告警规则。
+ * 命中时间取日志自身时间戳（缺失时取 now），窗口以本批最新时间为基准向前滑动；
+ * 规则触发后清空其命中记录，需重新累计到阈值才会再次触发。
+ */
+export function evaluateLogAlerts(
+  searches: SavedLogSearch[],
+  hits: LogAlertHits,
+  lines: ParsedLogLine[],
+  now = Date.now()
+): { hits: LogAlertHits; fired: FiredLogAlert[] } {
+  const nextHits: LogAlertHits = {};
+  const fired: FiredLogAlert[] = [];
+  const timed = lines.map((line) => ({ line, time: parseLogTimestamp(line.timestamp) ?? now }));
+  const reference = timed.reduce((latest, item) => Math.max(latest, item.time), 0) || now;
+
+  searches.forEach((search) => {
+    const { alert } = search;
+    if (!alert.enabled || alert.threshold < 1 || alert.windowMinutes <= 0) return;
+
+    const since = reference - alert.windowMinutes * MINUTE_MS;
+    const ruleHits = (hits[search.id] ?? []).filter((time) => time >= since);
+    let sample = '';
+    timed.forEach(({ line, time }) => {
+      if (time < since || !matchesSavedSearch(line, search)) return;
+      ruleHits.push(time);
+      sample = line.raw;
+    });
+
+    if (sample && ruleHits.length >= alert.threshold) {
+      fired.push({ search, count: ruleHits.length, sample });
+      nextHits[search.id] = [];
+    } else {
+      nextHits[search.id] = ruleHits;
+    }
+  });
+
+  return { hits: nextHits, fired };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildLogAnalytics, percentile } from './analytics';
+import { parseLogLine } from './parser';
+
+const access = (time: string, status: number, latency: string, ip: string, path: string) =>
+  `[2026-01-02 ${time}] [a1b2c3d4] [info ] [gin_logger.go:94] ${status} | ${latency} | ${ip} | POST ${path}`;
+
+describe('buildLogAnalytics', () => {
+  const lines = [
+    access('10:00:05', 200, '100ms', '10.0.0.1', '/v1/chat/completions'),
+    access('10:00:40', 200, '300ms', '10.0.0.1', '/v1/chat/completions?alt=sse'),
+    access('10:01:10', 429, '50ms', '10.0.0.2', '/v1/messages'),
+    '[2026-01-02 10:01:11] [a1b2c3d4] [warn ] [conductor.go:312] codex: 429 rate limit exceeded',
+    access('10:03:00', 502, '2s', '10.0.0.1', '/v1/chat/completions'),
+  ].map((line) => parseLogLine(line));
+  const analytics = buildLogAnalytics(lines);
+
+  it('counts only access lines and groups status codes', () => {
+    expect(analytics.totalRequests).toBe(4);
+    expect(analytics.errorRequests).toBe(2);
+    expect(analytics.statusClasses).toMatchObject({ '2xx': 2, '4xx': 1, '5xx': 1 });
+    expect(analytics.statusCodes).toEqual([
+      { code: 200, count: 2 },
+      { code: 429, count: 1 },
+      { code: 502, count: 1 },
+    ]);
+  });
+
+  it('builds per-minute buckets including empty minutes', () => {
+    expect(analytics.bucketMinutes).toBe(1);
+    expect(analytics.buckets.map((bucket) => [bucket.label, bucket.requests])).toEqual([
+      ['01-02 10:00', 2],
+      ['01-02 10:01', 1],
+      ['01-02 10:02', 0],
+      ['01-02 10:03', 1],
+    ]);
+    expect(analytics.buckets[0]).toMatchObject({ p50: 100, p99: 300 });
+    expect(analytics.buckets[2].p50).toBeUndefined();
+  });
+
+  it('ranks paths without query strings and ips', () => {
+    expect(analytics.topPaths[0]).toMatchObject({
+      key: '/v1/chat/completions',
+      requests: 3,
+      errors: 1,
+    });
+    expect(analytics.topIps.map((item) => [item.key, item.requests])).toEqual([
+      ['10.0.0.1', 3],
+      ['10.0.0.2', 1],
+    ]);
+  });
+
+  it('computes nearest-rank percentiles', () => {
+    const sorted = Array.from({ length: 100 }, (_, index) => index + 1);
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(95);
+    expect(percentile(sorted, 99)).toBe(99);
+    expect(percentile([], 50)).toBeUndefined();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Aggregations over parsed access log lines for the logs analytics tab.
+ */
+
+import { getStatusClass, parseLatencyMs, type LogStatusClass, type ParsedLogLine } from './parser';
+import { parseLogTimestamp } from './trace';
+
+export interface LatencyPercentiles {
+  p50?: number;
+  p95?: number;
+  p99?: number;
+}
+
+export interface LogAnalyticsBucket extends LatencyPercentiles {
+  /** 桶起始时间（毫秒时间戳） */
+  start: number;
+  /** MM-DD HH:mm */
+  label: string;
+  requests: number;
+  /** 每分钟请求数 */
+  rpm: number;
+}
+
+export interface LogRankedItem extends LatencyPercentiles {
+  key: string;
+  requests: number;
+  /** 4xx/5xx 请求数 */
+  errors: number;
+}
+
+export interface LogAnalytics {
+  totalRequests: number;
+  errorRequests: number;
+  statusClasses: Record<LogStatusClass, number>;
+  statusCodes: Array<{ code: number; count: number }>;
+  latency: LatencyPercentiles;
+  /** 每个时间桶覆盖的分钟数，随时间跨度自动放大 */
+  bucketMinutes: number;
+  buckets: LogAnalyticsBucket[];
+  topPaths: LogRankedItem[];
+  topIps: LogRankedItem[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const BUCKET_SIZES_MINUTES = [1, 2, 5, 10, 15, 30, 60, 120, 240, 720, 1440];
+const MAX_BUCKETS = 120;
+const DEFAULT_TOP_N = 10;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatBucketLabel = (time: number) => {
+  const date = new Date(time);
+  return `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+};
+
+/**
+ * 最近秩法计算百分位数，values 需已升序排列
+ */
+export const percentile = (sorted: number[], p: number): number | undefined => {
+  if (!sorted.length) return undefined;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
+
+const summarizeLatency = (values: number[]): LatencyPercentiles => {
+  if (!values.length) return {};
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+};
+
+/**
+ * 是否为访问日志（带状态码与请求方法/路径的行），只有这类行计入请求统计
+ */
+export const isAccessLogLine = (line: ParsedLogLine) =>
+  line.statusCode !== undefined && Boolean(line.method || line.path);
+
+type RankAccumulator = { requests: number; errors: number; latencies: number[] };
+
+const rank = (groups: Map<string, RankAccumulator>, topN: number): LogRankedItem[] =>
+  Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      requests: group.requests,
+      errors: group.errors,
+      ...summarizeLatency(group.latencies),
+    }))
+    .sort((a, b) => b.requests - a.requests || a.key.localeCompare(b.key))
+    .slice(0, topN);
+
+/**
+ * 汇总日志缓冲区中的访问日志：请求速率、状态码分布、耗时百分位与热门路径/IP
+ */
+export function buildLogAnalytics(lines: ParsedLogLine[], topN = DEFAULT_TOP_N): LogAnalytics {
+  const statusClasses: Record<LogStatusClass, number> = {
+    '1xx': 0,
+    '2xx': 0,
+    '3xx': 0,
+    '4xx': 0,
+    '5xx': 0,
+  };
+  const statusCodes = new Map<number, number>();
+  const paths = new Map<string, RankAccumulator>();
+  const ips = new Map<string, RankAccumulator>();
+  const latencies: number[] = [];
+  const timed: Array<{ time: number; latency?: number }> = [];
+  let totalRequests = 0;
+  let errorRequests = 0;
+
+  const addTo = (
+    groups: Map<string, RankAccumulator>,
+    key: string,
+    failed: boolean,
+    latency?: number
+  ) => {
+    const group = groups.get(key) ?? { requests: 0, errors: 0, latencies: [] };
+    group.requests += 1;
+    if (failed) group.errors += 1;
+    if (latency !== undefined) group.latencies.push(latency);
+    groups.set(key, group);
+  };
+
+  lines.forEach((line) => {
+    if (!isAccessLogLine(line)) return;
+    const statusCode = line.statusCode as number;
+    const statusClass = getStatusClass(statusCode);
+    const failed = statusCode >= 400;
+    const latency = parseLatencyMs(line.latency);
+
+    totalRequests += 1;
+    if (failed) errorRequests += 1;
+    if (statusClass) statusClasses[statusClass] += 1;
+    statusCodes.set(statusCode, (statusCodes.get(statusCode) ?? 0) + 1);
+    if (latency !== undefined) latencies.push(latency);
+    // 忽略查询参数，避免同一路径被拆成多行
+    if (line.path) addTo(paths, line.path.split('?')[0], failed, latency);
+    if (line.ip) addTo(ips, line.ip, failed, latency);
+
+    const time = parseLogTimestamp(line.timestamp);
+    if (time !== undefined) timed.push({ time, latency });
+  });
+
+  let bucketMinutes = 1;
+  const buckets: LogAnalyticsBucket[] = [];
+  if (timed.length) {
+    let minTime = timed[0].time;
+    let maxTime = timed[0].time;
+    timed.forEach(({ time }) => {
+      if (time < minTime) minTime = time;
+      if (time > maxTime) maxTime = time;
+    });
+    const spanMinutes = (maxTime - minTime) / MINUTE_MS + 1;
+    bucketMinutes =
+      BUCKET_SIZES_MINUTES.find((size) => spanMinutes / size <= MAX_BUCKETS) ??
+      BUCKET_SIZES_MINUTES[BUCKET_SIZES_MINUTES.length - 1];
+    const bucketMs = bucketMinutes * MINUTE_MS;
+    // 以本地时间对齐桶边界
+    const offset = new Date(minTime).getTimezoneOffset() * MINUTE_MS;
+    const first = Math.floor((minTime - offset) / bucketMs) * bucketMs + offset;
+    const count = Math.floor((maxTime - first) / bucketMs) + 1;
+
+    const grouped = Array.from({ length: count }, () => ({
+      requests: 0,
+      latencies: [] as number[],
+    }));
+    timed.forEach(({ time, latency }) => {
+      const group = grouped[Math.floor((time - first) / bucketMs)];
+      group.requests += 1;
+      if (latency !== undefined) group.latencies.push(latency);
+    });
+
+    grouped.forEach((group, index) => {
+      const start = first + index * bucketMs;
+      buckets.push({
+        start,
+        label: formatBucketLabel(start),
+        requests: group.requests,
+        rpm: group.requests / bucketMinutes,
+        ...summarizeLatency(group.latencies),
+      });
+    });
+  }
+
+  return {
+    totalRequests,
+    errorRequests,
+    statusClasses,
+    statusCodes: Array.from(statusCodes.entries())
+      .map(([code, count]) => ({ code, count }))
+      .sort((a, b) => a.code - b.code),
+    latency: summarizeLatency(latencies),
+    bucketMinutes,
+    buckets,
+    topPaths: rank(paths, topN),
+    topIps: rank(ips, topN),
+  };
+}
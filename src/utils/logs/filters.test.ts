@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  EMPTY_LOG_FILTERS,
+  matchesLogFilters,
+  readLogExplorerState,
+  sortLogLines,
+  writeLogExplorerState,
+} from './filters';
+import { parseLatencyMs, parseLogLine } from './parser';
+
+const lines = [
+  '[2026-01-02 10:00:00] [a1b2c3d4] [info] [gin_logger.go:94] 200 | 1.2s | 10.0.0.1 | POST /v1/chat/completions',
+  '[2026-01-02 10:00:01] [b1b2c3d4] [warn] [gin_logger.go:94] 429 | 350ms | 10.0.0.2 | POST /v1/messages',
+  '[2026-01-02 10:00:02] [c1b2c3d4] [error] [gin_logger.go:94] 502 | 1m2s | 192.168.1.9 | GET /v1/models',
+  '[2026-01-02 10:00:03] [info] [server.go:12] config reloaded',
+].map((line) => parseLogLine(line));
+
+describe('log parsing', () => {
+  it('extracts structured fields from gin access lines', () => {
+    expect(lines[0]).toMatchObject({
+      timestamp: '2026-01-02 10:00:00',
+      requestId: 'a1b2c3d4',
+      level: 'info',
+      source: 'gin_logger.go:94',
+      statusCode: 200,
+      latency: '1.2s',
+      ip: '10.0.0.1',
+      method: 'POST',
+      path: '/v1/chat/completions',
+    });
+  });
+
+  it('converts latency text to milliseconds', () => {
+    expect(parseLatencyMs('350ms')).toBe(350);
+    expect(parseLatencyMs('1m2.5s')).toBe(62500);
+    expect(parseLatencyMs('12.5µs')).toBeCloseTo(0.0125);
+    expect(parseLatencyMs('fast')).toBeUndefined();
+  });
+});
+
+describe('log field filters', () => {
+  const run = (filters: Partial<typeof EMPTY_LOG_FILTERS>) =>
+    lines
+      .filter((line) => matchesLogFilters(line, { ...EMPTY_LOG_FILTERS, ...filters }))
+      .map((line) => line.requestId ?? line.message);
+
+  it('filters by level, method, status class, path prefix, ip and latency', () => {
+    expect(run({})).toHaveLength(4);
+    expect(run({ levels: ['warn', 'error'] })).toEqual(['b1b2c3d4', 'c1b2c3d4']);
+    expect(run({ methods: ['POST'] })).toEqual(['a1b2c3d4', 'b1b2c3d4']);
+    expect(run({ statusClasses: ['4xx', '5xx'] })).toEqual(['b1b2c3d4', 'c1b2c3d4']);
+    expect(run({ pathPrefix: '/v1/m' })).toEqual(['b1b2c3d4', 'c1b2c3d4']);
+    expect(run({ ip: '192.168.' })).toEqual(['c1b2c3d4']);
+    expect(run({ minLatencyMs: 1000 })).toEqual(['a1b2c3d4', 'c1b2c3d4']);
+  });
+
+  it('sorts by column and keeps lines without the field last', () => {
+    const ids = (sorted: typeof lines) => sorted.map((line) => line.requestId ?? '-');
+
+    expect(ids(sortLogLines(lines, { key: 'latency', direction: 'asc' }))).toEqual([
+      'b1b2c3d4',
+      'a1b2c3d4',
+      'c1b2c3d4',
+      '-',
+    ]);
+    expect(ids(sortLogLines(lines, { key: 'statusCode', direction: 'desc' }))).toEqual([
+      'c1b2c3d4',
+      'b1b2c3d4',
+      'a1b2c3d4',
+      '-',
+    ]);
+  });
+
+  it('round-trips explorer state through the query string', () => {
+    const state = {
+      view: 'table' as const,
+      filters: {
+        ...EMPTY_LOG_FILTERS,
+        levels: ['error' as const],
+        statusClasses: ['5xx' as const],
+        pathPrefix: '/v1',
+        minLatencyMs: 500,
+      },
+      sort: { key: 'latency' as const, direction: 'desc' as const },
+    };
+    const params = writeLogExplorerState(new URLSearchParams('tab=logs'), state);
+
+    expect(params.get('tab')).toBe('logs');
+    expect(params.has('method')).toBe(false);
+    expect(readLogExplorerState(params)).toEqual(state);
+    expect(readLogExplorerState(new URLSearchParams('level=bogus&latency=-1&sort=nope'))).toEqual({
+      view: 'list',
+      filters: EMPTY_LOG_FILTERS,
+      sort: null,
+    });
+  });
+});
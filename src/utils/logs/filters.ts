@@ -0,0 +1,234 @@
+/**
+ * Field filters, sorting and URL query persistence for the structured log explorer.
+ */
+
+import {
+  HTTP_METHODS,
+  LOG_LEVELS,
+  getStatusClass,
+  parseLatencyMs,
+  type HttpMethod,
+  type LogLevel,
+  type LogStatusClass,
+  type ParsedLogLine,
+} from './parser';
+
+export const LOG_STATUS_CLASSES: LogStatusClass[] = ['2xx', '3xx', '4xx', '5xx'];
+
+export type LogViewMode = 'list' | 'table';
+
+export type LogSortKey =
+  | 'timestamp'
+  | 'level'
+  | 'source'
+  | 'requestId'
+  | 'statusCode'
+  | 'latency'
+  | 'ip'
+  | 'method'
+  | 'path'
+  | 'message';
+
+export const LOG_SORT_KEYS: LogSortKey[] = [
+  'timestamp',
+  'level',
+  'source',
+  'requestId',
+  'statusCode',
+  'latency',
+  'ip',
+  'method',
+  'path',
+  'message',
+];
+
+export type LogSortDirection = 'asc' | 'desc';
+
+export interface LogSort {
+  key: LogSortKey;
+  direction: LogSortDirection;
+}
+
+export interface LogFieldFilters {
+  levels: LogLevel[];
+  methods: HttpMethod[];
+  statusClasses: LogStatusClass[];
+  /** 请求路径前缀 */
+  pathPrefix: string;
+  /** IP 前缀，如 192.168. */
+  ip: string;
+  /** 最小耗时（毫秒），为 null 时不过滤 */
+  minLatencyMs: number | null;
+}
+
+export interface LogExplorerState {
+  view: LogViewMode;
+  filters: LogFieldFilters;
+  sort: LogSort | null;
+}
+
+export const EMPTY_LOG_FILTERS: LogFieldFilters = {
+  levels: [],
+  methods: [],
+  statusClasses: [],
+  pathPrefix: '',
+  ip: '',
+  minLatencyMs: null,
+};
+
+// URL 查询参数名
+const QUERY_KEYS = {
+  view: 'view',
+  levels: 'level',
+  methods: 'method',
+  statusClasses: 'status',
+  pathPrefix: 'path',
+  ip: 'ip',
+  minLatencyMs: 'latency',
+  sort: 'sort',
+} as const;
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  trace: 0,
+  debug: 1,
+  info: 2,
+  warn: 3,
+  error: 4,
+  fatal: 5,
+};
+
+const readList = <T extends string>(
+  params: URLSearchParams,
+  key: string,
+  allowed: readonly T[]
+) => {
+  const value = params.get(key);
+  if (!value) return [];
+  const items = value.split(',').map((item) => item.trim());
+  return allowed.filter((item) => items.includes(item));
+};
+
+/**
+ * 从 URL 查询参数中读取日志浏览器状态，非法值会被忽略
+ */
+export function readLogExplorerState(params: URLSearchParams): LogExplorerState {
+  const latency = Number(params.get(QUERY_KEYS.minLatencyMs) ?? '');
+  const [sortKey, sortDirection] = (params.get(QUERY_KEYS.sort) ?? '').split(':');
+
+  return {
+    view: params.get(QUERY_KEYS.view) === 'table' ? 'table' : 'list',
+    filters: {
+      levels: readList(params, QUERY_KEYS.levels, LOG_LEVELS),
+      methods: readList(params, QUERY_KEYS.methods, HTTP_METHODS),
+      statusClasses: readList(params, QUERY_KEYS.statusClasses, LOG_STATUS_CLASSES),
+      pathPrefix: params.get(QUERY_KEYS.pathPrefix) ?? '',
+      ip: params.get(QUERY_KEYS.ip) ?? '',
+      minLatencyMs:
+        params.has(QUERY_KEYS.minLatencyMs) && Number.isFinite(latency) && latency >= 0
+          ? latency
+          : null,
+    },
+    sort: LOG_SORT_KEYS.includes(sortKey as LogSortKey)
+      ? { key: sortKey as LogSortKey, direction: sortDirection === 'desc' ? 'desc' : 'asc' }
+      : null,
+  };
+}
+
+/**
+ * 将日志浏览器状态写入 URL 查询参数，保留其它无关参数；默认值不会写入
+ */
+export function writeLogExplorerState(
+  params: URLSearchParams,
+  state: LogExplorerState
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  };
+  const { filters } = state;
+
+  set(QUERY_KEYS.view, state.view === 'table' ? 'table' : '');
+  set(QUERY_KEYS.levels, filters.levels.join(','));
+  set(QUERY_KEYS.methods, filters.methods.join(','));
+  set(QUERY_KEYS.statusClasses, filters.statusClasses.join(','));
+  set(QUERY_KEYS.pathPrefix, filters.pathPrefix);
+  set(QUERY_KEYS.ip, filters.ip);
+  set(QUERY_KEYS.minLatencyMs, filters.minLatencyMs === null ? '' : String(filters.minLatencyMs));
+  set(QUERY_KEYS.sort, state.sort ? `${state.sort.key}:${state.sort.direction}` : '');
+  return next;
+}
+
+export function countActiveLogFilters(filters: LogFieldFilters): number {
+  return [
+    filters.levels.length > 0,
+    filters.methods.length > 0,
+    filters.statusClasses.length > 0,
+    Boolean(filters.pathPrefix.trim()),
+    Boolean(filters.ip.trim()),
+    filters.minLatencyMs !== null,
+  ].filter(Boolean).length;
+}
+
+/**
+ * 判断解析后的日志行是否满足字段过滤条件；启用某个字段过滤时，缺少该字段的行会被排除
+ */
+export function matchesLogFilters(line: ParsedLogLine, filters: LogFieldFilters): boolean {
+  if (filters.levels.length && (!line.level || !filters.levels.includes(line.level))) {
+    return false;
+  }
+  if (filters.methods.length && (!line.method || !filters.methods.includes(line.method))) {
+    return false;
+  }
+  if (filters.statusClasses.length) {
+    const statusClass = getStatusClass(line.statusCode);
+    if (!statusClass || !filters.statusClasses.includes(statusClass)) return false;
+  }
+  const pathPrefix = filters.pathPrefix.trim();
+  if (pathPrefix && !line.path?.startsWith(pathPrefix)) {
+    return false;
+  }
+  const ip = filters.ip.trim();
+  if (ip && !line.ip?.startsWith(ip)) {
+    return false;
+  }
+  if (filters.minLatencyMs !== null) {
+    const latencyMs = parseLatencyMs(line.latency);
+    if (latencyMs === undefined || latencyMs < filters.minLatencyMs) return false;
+  }
+  return true;
+}
+
+const sortValue = (line: ParsedLogLine, key: LogSortKey): string | number | undefined => {
+  switch (key) {
+    case 'level':
+      return line.level ? LEVEL_RANK[line.level] : undefined;
+    case 'latency':
+      return parseLatencyMs(line.latency);
+    case 'message':
+      return line.message || undefined;
+    default:
+      return line[key];
+  }
+};
+
+/**
+ * 按指定列排序，缺少该字段的行始终排在最后；值相同时保持原有顺序
+ */
+export function sortLogLines(lines: ParsedLogLine[], sort: LogSort): ParsedLogLine[] {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return lines
+    .map((line, index) => ({ line, index, value: sortValue(line, sort.key) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        if (a.value === b.value) return a.index - b.index;
+        return a.value === undefined ? 1 : -1;
+      }
+      const compared =
+        typeof a.value === 'number' && typeof b.value === 'number'
+          ? a.value - b.value
+          : String(a.value).localeCompare(String(b.value));
+      return compared * factor || a.index - b.index;
+    })
+    .map((item) => item.line);
+}
@@ -0,0 +1,10 @@
+/**
+ * Log utility functions barrel export.
+ */
+
+export * from './parser';
+export * from './filters';
+export * from './trace';
+export * from './requestLog';
+export * from './analytics';
+export * from './alerts';
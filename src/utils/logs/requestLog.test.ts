@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatRequestLog, parseRequestLog } from './requestLog';
+
+const log = [
+  '=== REQUEST INFO ===',
+  'URL: /v1/chat/completions?key=AIzaSyA-1234567890abcdef',
+  'Method: POST',
+  '',
+  '=== HEADERS ===',
+  'Authorization: Bearer sk-live-1234567890',
+  'X-Goog-Api-Key: AIzaSyA-1234567890abcdef',
+  'Content-Type: application/json',
+  '',
+  '=== REQUEST BODY ===',
+  '{"model":"gpt-5","api_key":"plain-secret-value","messages":[{"role":"user","content":"hi"}]}',
+  '',
+  '=== RESPONSE ===',
+  'Status: 200',
+  '',
+  'data: {"id":"r1","usage":{"output_tokens":12}}',
+  'data: [DONE]',
+  '',
+].join('\n');
+
+describe('parseRequestLog', () => {
+  const sections = parseRequestLog(log);
+
+  it('splits sections into fields and bodies', () => {
+    expect(sections.map((section) => section.title)).toEqual([
+      'REQUEST INFO',
+      'HEADERS',
+      'REQUEST BODY',
+      'RESPONSE',
+    ]);
+    expect(sections[1].fields.map((field) => field.name)).toEqual([
+      'Authorization',
+      'X-Goog-Api-Key',
+      'Content-Type',
+    ]);
+    expect(sections[2].bodyFormat).toBe('json');
+    expect(sections[2].body).toContain('\n  "model": "gpt-5"');
+    expect(sections[3].fields).toEqual([{ name: 'Status', value: '200' }]);
+    expect(sections[3].bodyFormat).toBe('sse');
+  });
+
+  it('masks secrets in headers, query strings and json bodies', () => {
+    const text = formatRequestLog(sections);
+
+    expect(text).not.toContain('sk-live-1234567890');
+    expect(text).not.toContain('AIzaSyA-1234567890abcdef');
+    expect(text).not.toContain('plain-secret-value');
+    expect(sections[1].fields[0].value).toMatch(/^Bearer sk\*+90$/);
+    expect(sections[1].fields[2].value).toBe('application/json');
+    expect(text).toContain('"output_tokens":12');
+  });
+
+  it('masks OAuth token fields while keeping usage counters', () => {
+    const body = [
+      '=== RESPONSE ===',
+      'Status: 200',
+      '',
+      '{"access_token":"opaque-access-value","refresh_token":"opaque-refresh-value","id_token":"opaque-id-value","usage":{"input_tokens":3,"total_tokens":5,"max_tokens":9,"token_count":5}}',
+    ].join('\n');
+    const text = formatRequestLog(parseRequestLog(body));
+
+    expect(text).not.toContain('opaque-access-value');
+    expect(text).not.toContain('opaque-refresh-value');
+    expect(text).not.toContain('opaque-id-value');
+    expect(text).toContain('"input_tokens": 3');
+    expect(text).toContain('"total_tokens": 5');
+    expect(text).toContain('"max_tokens": 9');
+    expect(text).toContain('"token_count": 5');
+  });
+
+  it('masks strings inside arrays under secret keys', () => {
+    const body = [
+      '=== REQUEST ===',
+      '',
+      '{"api_keys":["opaque-key-one","opaque-key-two"],"models":["gpt-5"]}',
+    ].join('\n');
+    const text = formatRequestLog(parseRequestLog(body));
+
+    expect(text).not.toContain('opaque-key-one');
+    expect(text).not.toContain('opaque-key-two');
+    expect(text).toContain('"gpt-5"');
+  });
+
+  it('keeps unrecognised content as a single text section', () => {
+    const sections = parseRequestLog('plain text with sk-abcdef123456 inside');
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].title).toBe('');
+    expect(sections[0].body).not.toContain('sk-abcdef123456');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Request log (request-log-by-id) parsing and secret masking for the trace viewer.
+ *
+ * 服务端请求日志由若干 "=== TITLE ===" 段组成，每段以 "Key: Value" 形式的字段开头，
+ * 空行之后为请求/响应正文。
+ */
+
+import { maskApiKey } from '@/utils/format';
+
+export type RequestLogBodyFormat = 'json' | 'sse' | 'text';
+
+export interface RequestLogField {
+  name: string;
+  value: string;
+}
+
+export interface RequestLogSection {
+  /** 段标题，如 REQUEST INFO、HEADERS、RESPONSE；无法识别格式时为空字符串 */
+  title: string;
+  fields: RequestLogField[];
+  /** 已脱敏、已格式化的正文 */
+  body: string;
+  bodyFormat: RequestLogBodyFormat;
+}
+
+const SECTION_HEADER_REGEX = /^=== (.+?) ===\s*$/;
+const FIELD_REGEX = /^([A-Za-z][\w-]*(?: [\w-]+){0,3}):[ \t]*(.*)$/;
+const SECRET_FIELD_REGEX =
+  /(authorization|cookie|api[-_]?key|token|secret|password|credential|session|private[-_]?key)/i;
+// 不含敏感信息、但名称命中上述规则的字段
+// 仅放行明确的用量计数字段，access_token / refresh_token / id_token 等仍需遮罩
+const SAFE_FIELD_REGEX =
+  /^(upstream credential|(input|output|cached|reasoning|total|max)[-_]tokens|token[-_]count)$/i;
+const INLINE_SECRET_REGEX =
+  /\b(sk-[A-Za-z0-9_-]{6,}|sk-ant-[A-Za-z0-9_-]{6,}|AIza[0-9A-Za-z_-]{8,}|ya29\.[0-9A-Za-z._-]{6,}|eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}|hf_[A-Za-z0-9]{6,}|1\/\/[0-9A-Za-z_-]{10,})/g;
+const QUERY_SECRET_REGEX = /([?&](?:api[-_]?key|key|token|access_token)=)([^&#\s"]+)/gi;
+
+const isSecretName = (name: string) =>
+  SECRET_FIELD_REGEX.test(name) && !SAFE_FIELD_REGEX.test(name);
+
+/**
+ * 遮罩单个敏感值，保留 Bearer/Basic 等认证方案前缀
+ */
+export const maskSecretValue = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return value;
+  const scheme = trimmed.match(/^(Bearer|Basic|Token)\s+(.+)$/i);
+  if (scheme) return `${scheme[1]} ${maskApiKey(scheme[2])}`;
+  return maskApiKey(trimmed);
+};
+
+/**
+ * 遮罩自由文本中的常见密钥格式与 URL 查询参数中的密钥
+ */
+export const maskInlineSecrets = (text: string): string =>
+  text
+    .replace(
+      QUERY_SECRET_REGEX,
+      (_full, prefix: string, value: string) => `${prefix}${maskApiKey(value)}`
+    )
+    .replace(INLINE_SECRET_REGEX, (match) => maskApiKey(match));
+
+const maskJsonValue = (value: unknown, key?: string): unknown => {
+  if (typeof value === 'string') {
+    return key && isSecretName(key) ? maskSecretValue(value) : maskInlineSecrets(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => maskJsonValue(item, key));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([childKey, child]) => [
+        childKey,
+        maskJsonValue(child, childKey),
+      ])
+    );
+  }
+  return value;
+};
+
+const tryParseJson = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+};
+
+const formatBody = (raw: string): { body: string; bodyFormat: RequestLogBodyFormat } => {
+  const text = raw.replace(/^\n+|\n+$/g, '');
+  const json = tryParseJson(text);
+  if (json !== undefined) {
+    return { body: JSON.stringify(maskJsonValue(json), null, 2), bodyFormat: 'json' };
+  }
+
+  const lines = text.split('\n');
+  if (lines.some((line) => /^(data|event):/.test(line))) {
+    // SSE 流：逐条遮罩 data 中的 JSON，保持每个事件一行便于浏览
+    const body = lines
+      .map((line) => {
+        const match = line.match(/^data:\s?(.*)$/);
+        const payload = match ? tryParseJson(match[1]) : undefined;
+        if (payload === undefined) return maskInlineSecrets(line);
+        return `data: ${JSON.stringify(maskJsonValue(payload))}`;
+      })
+      .join('\n');
+    return { body, bodyFormat: 'sse' };
+  }
+
+  return { body: maskInlineSecrets(text), bodyFormat: 'text' };
+};
+
+const buildSection = (title: string, lines: string[]): RequestLogSection => {
+  const fields: RequestLogField[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      // 字段与正文之间以空行分隔；字段前的空行直接跳过
+      index += 1;
+      if (fields.length) break;
+      continue;
+    }
+    const match = line.match(FIELD_REGEX);
+    if (!match) break;
+    const [, name, value] = match;
+    fields.push({
+      name,
+      value: isSecretName(name) ? maskSecretValue(value) : maskInlineSecrets(value),
+    });
+    index += 1;
+  }
+
+  return { title, fields, ...formatBody(lines.slice(index).join('\n')) };
+};
+
+/**
+ * 解析请求日志文本为分段结构，所有字段与正文均已脱敏
+ */
+export function parseRequestLog(text: string): RequestLogSection[] {
+  const sections: RequestLogSection[] = [];
+  let title: string | null = null;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    if (title === null && !buffer.some((line) => line.trim())) return;
+    sections.push(buildSection(title ?? '', buffer));
+  };
+
+  text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .forEach((line) => {
+      const match = line.match(SECTION_HEADER_REGEX);
+      if (match) {
+        flush();
+        title = match[1].trim();
+        buffer = [];
+      } else {
+        buffer.push(line);
+      }
+    });
+  flush();
+
+  return sections;
+}
+
+/**
+ * 将解析后的请求日志重新拼装为（已脱敏的）文本，便于复制
+ */
+export function formatRequestLog(sections: RequestLogSection[]): string {
+  return sections
+    .map((section) => {
+      const parts: string[] = [];
+      if (section.title) parts.push(`=== ${section.title} ===`);
+      section.fields.forEach((field) => parts.push(`${field.name}: ${field.value}`));
+      if (section.body) {
+        if (section.fields.length) parts.push('');
+        parts.push(section.body);
+      }
+      return parts.join('\n');
+    })
+    .join('\n\n');
+}
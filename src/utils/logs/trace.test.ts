@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildRequestTrace } from './trace';
+
+describe('buildRequestTrace', () => {
+  it('collects lines for one request id with offsets and the access summary', () => {
+    const buffer = [
+      '[2026-01-02 10:00:00.100] [a1b2c3d4] [debug] [conductor.go:188] routing model gpt-5',
+      '[2026-01-02 10:00:00.200] [ffffffff] [info ] [gin_logger.go:94] 200 | 80ms | 10.0.0.9 | GET /v1/models',
+      '[2026-01-02 10:00:01.350] [a1b2c3d4] [warn ] [conductor.go:312] codex: 429 rate limit exceeded',
+      '[2026-01-02 10:00:01.400] [a1b2c3d4] [warn ] [gin_logger.go:94] 429 | 1.3s | 10.0.0.1 | POST /v1/responses',
+    ];
+    const trace = buildRequestTrace(buffer, 'a1b2c3d4');
+
+    expect(trace.entries).toHaveLength(3);
+    expect(trace.entries.map((entry) => entry.offsetMs)).toEqual([0, 1250, 1300]);
+    expect(trace.entries.map((entry) => entry.deltaMs)).toEqual([undefined, 1250, 50]);
+    expect(trace).toMatchObject({
+      method: 'POST',
+      path: '/v1/responses',
+      statusCode: 429,
+      latencyMs: 1300,
+      spanMs: 1300,
+    });
+  });
+});
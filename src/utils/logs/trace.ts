@@ -0,0 +1,101 @@
+/**
+ * Request-id trace: groups buffered log lines sharing a request id into a timeline.
+ */
+
+import { parseLatencyMs, parseLogLine, type ParsedLogLine } from './parser';
+
+export interface RequestTraceEntry {
+  line: ParsedLogLine;
+  /** 相对第一条日志的偏移（毫秒），缺少时间戳时为 undefined */
+  offsetMs?: number;
+  /** 相对上一条带时间戳日志的间隔（毫秒） */
+  deltaMs?: number;
+}
+
+export interface RequestTrace {
+  requestId: string;
+  entries: RequestTraceEntry[];
+  /** 访问日志（含状态码的那一行）中的请求概要 */
+  method?: ParsedLogLine['method'];
+  path?: string;
+  statusCode?: number;
+  ip?: string;
+  latency?: string;
+  latencyMs?: number;
+  /** 第一条到最后一条日志之间的时间跨度（毫秒） */
+  spanMs?: number;
+}
+
+const TIMESTAMP_REGEX = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?$/;
+
+/**
+ * 将日志时间戳（本地时间，精确到毫秒）转换为毫秒时间戳
+ */
+export const parseLogTimestamp = (timestamp?: string): number | undefined => {
+  const match = timestamp?.match(TIMESTAMP_REGEX);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second, fraction = '0'] = match;
+  return new Date(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    Number(fraction.padEnd(3, '0'))
+  ).getTime();
+};
+
+/**
+ * 从原始日志缓冲区中收集指定请求 ID 的所有日志行，按出现顺序组成时间线
+ */
+export function buildRequestTrace(buffer: string[], requestId: string): RequestTrace {
+  const lines = buffer
+    .filter((raw) => raw.includes(requestId))
+    .map((raw) => parseLogLine(raw))
+    .filter((line) => line.requestId === requestId);
+
+  let firstTime: number | undefined;
+  let previousTime: number | undefined;
+  let lastTime: number | undefined;
+  const entries = lines.map((line) => {
+    const time = parseLogTimestamp(line.timestamp);
+    if (time === undefined) return { line };
+    if (firstTime === undefined) firstTime = time;
+    const entry: RequestTraceEntry = {
+      line,
+      offsetMs: time - firstTime,
+      deltaMs: previousTime === undefined ? undefined : time - previousTime,
+    };
+    previousTime = time;
+    lastTime = time;
+    return entry;
+  });
+
+  const access =
+    lines.find((line) => line.statusCode !== undefined && line.latency) ??
+    lines.find((line) => line.method && line.path);
+
+  return {
+    requestId,
+    entries,
+    method: access?.method,
+    path: access?.path,
+    statusCode: access?.statusCode,
+    ip: access?.ip,
+    latency: access?.latency,
+    latencyMs: parseLatencyMs(access?.latency),
+    spanMs: firstTime !== undefined && lastTime !== undefined ? lastTime - firstTime : undefined,
+  };
+}
+
+/**
+ * 格式化毫秒耗时：1 秒以下显示毫秒，以上显示秒
+ */
+export const formatDurationMs = (ms: number): string => {
+  if (ms < 1) return `${Number(ms.toFixed(3))}ms`;
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${Number((ms / 1000).toFixed(2))}s`;
+  const minutes = Math.floor(ms / 60000);
+  return `${minutes}m${Number(((ms - minutes * 60000) / 1000).toFixed(1))}s`;
+};
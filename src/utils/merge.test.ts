@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildMergedText, hasConflictMarkers, mergeThreeWay } from './merge';
+
+const base = ['debug: false', 'request-retry: 3', 'api-keys:', '  - sk-a', '  - sk-b', ''].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('combines non-overlapping edits from both sides', () => {
+    const theirs = base.replace('  - sk-b', '  - sk-b\n  - sk-c');
+    const mine = base.replace('debug: false', 'debug: true');
+    const result = mergeThreeWay(base, theirs, mine);
+
+    expect(result.conflicts).toBe(0);
+    expect(buildMergedText(result)).toBe(
+      ['debug: true', 'request-retry: 3', 'api-keys:', '  - sk-a', '  - sk-b', '  - sk-c', ''].join(
+        '\n'
+      )
+    );
+  });
+
+  it('accepts identical edits on both sides without conflict', () => {
+    const changed = base.replace('request-retry: 3', 'request-retry: 5');
+    const result = mergeThreeWay(base, changed, changed);
+
+    expect(result.conflicts).toBe(0);
+    expect(buildMergedText(result)).toBe(changed);
+  });
+
+  it('marks overlapping edits as conflicts', () => {
+    const theirs = base.replace('request-retry: 3', 'request-retry: 5');
+    const mine = base.replace('request-retry: 3', 'request-retry: 1');
+    const result = mergeThreeWay(base, theirs, mine);
+    const merged = buildMergedText(result);
+
+    expect(result.conflicts).toBe(1);
+    expect(hasConflictMarkers(merged)).toBe(true);
+    expect(merged).toContain(
+      [
+        '<<<<<<< mine',
+        'request-retry: 1',
+        '||||||| base',
+        'request-retry: 3',
+        '=======',
+        'request-retry: 5',
+        '>>>>>>> theirs',
+      ].join('\n')
+    );
+  });
+
+  it('applies conflict resolutions', () => {
+    const theirs = base.replace('request-retry: 3', 'request-retry: 5');
+    const mine = base.replace('request-retry: 3', 'request-retry: 1');
+    const result = mergeThreeWay(base, theirs, mine);
+
+    expect(buildMergedText(result, { 0: 'theirs' })).toBe(theirs);
+    expect(buildMergedText(result, { 0: 'mine' })).toBe(mine);
+    expect(hasConflictMarkers(buildMergedText(result, { 0: 'both' }))).toBe(false);
+  });
+
+  it('handles edits at the end of the file', () => {
+    const theirs = `${base}ws-auth: true\n`;
+    const mine = `${base}request-log: true\n`;
+    const result = mergeThreeWay(base, theirs, mine);
+
+    expect(result.conflicts).toBe(1);
+    expect(buildMergedText(result, { 0: 'both' })).toBe(`${base}request-log: true\nws-auth: true\n`);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * 文本三方合并工具（diff3）
+ * 以共同的基准版本为参照，合并“对方的修改”与“我的修改”，无法自动合并的区块标记为冲突
+ */
+
+import { diffLines, splitLines } from './diff';
+
+export type MergeResolution = 'mine' | 'theirs' | 'both';
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  /** 只有一方修改，或双方修改一致，已自动合并 */
+  | { type: 'resolved'; origin: 'mine' | 'theirs' | 'both'; base: string[]; lines: string[] }
+  | { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  mine: '<<<<<<< mine',
+  base: '||||||| base',
+  separator: '=======',
+  theirs: '>>>>>>> theirs'
+};
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+// base 每一行在另一版本中对应的行下标，未保留的行为 -1
+function matchBaseLines(base: string, other: string, baseLength: number): number[] {
+  const matches = new Array<number>(baseLength).fill(-1);
+  diffLines(base, other).forEach((op) => {
+    if (op.type === 'equal' && op.oldLine !== undefined && op.newLine !== undefined) {
+      matches[op.oldLine - 1] = op.newLine - 1;
+    }
+  });
+  return matches;
+}
+
+/**
+ * 三方合并：base 为双方共同的起点，theirs 为服务器上的最新版本，mine 为本地编辑的版本
+ */
+export function mergeThreeWay(base: string, theirs: string, mine: string): MergeResult {
+  const baseLines = splitLines(base);
+  const theirLines = splitLines(theirs);
+  const myLines = splitLines(mine);
+  const matchTheirs = matchBaseLines(base, theirs, baseLines.length);
+  const matchMine = matchBaseLines(base, mine, baseLines.length);
+
+  const chunks: MergeChunk[] = [];
+  let conflicts = 0;
+
+  const pushStable = (line: string) => {
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === 'stable') last.lines.push(line);
+    else chunks.push({ type: 'stable', lines: [line] });
+  };
+
+  let i = 0;
+  let t = 0;
+  let m = 0;
+  while (i < baseLines.length || t < theirLines.length || m < myLines.length) {
+    if (i < baseLines.length && matchTheirs[i] === t && matchMine[i] === m) {
+      pushStable(baseLines[i]);
+      i += 1;
+      t += 1;
+      m += 1;
+      continue;
+    }
+
+    // 找到下一个双方都保留的基准行作为同步点
+    let next = i;
+    while (next < baseLines.length && (matchTheirs[next] < 0 || matchMine[next] < 0)) next += 1;
+    const nextTheirs = next < baseLines.length ? matchTheirs[next] : theirLines.length;
+    const nextMine = next < baseLines.length ? matchMine[next] : myLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const theirChunk = theirLines.slice(t, nextTheirs);
+    const myChunk = myLines.slice(m, nextMine);
+
+    if (sameLines(myChunk, baseChunk)) {
+      chunks.push({ type: 'resolved', origin: 'theirs', base: baseChunk, lines: theirChunk });
+    } else if (sameLines(theirChunk, baseChunk)) {
+      chunks.push({ type: 'resolved', origin: 'mine', base: baseChunk, lines: myChunk });
+    } else if (sameLines(myChunk, theirChunk)) {
+      chunks.push({ type: 'resolved', origin: 'both', base: baseChunk, lines: myChunk });
+    } else {
+      chunks.push({ type: 'conflict', base: baseChunk, mine: myChunk, theirs: theirChunk });
+      conflicts += 1;
+    }
+
+    i = next;
+    t = nextTheirs;
+    m = nextMine;
+  }
+
+  return { chunks, conflicts };
+}
+
+/**
+ * 生成合并后的文本；未指定处理方式的冲突以冲突标记的形式保留
+ * @param resolutions 以冲突序号（从 0 开始）为键的处理方式
+ */
+export function buildMergedText(
+  result: MergeResult,
+  resolutions: Record<number, MergeResolution> = {}
+): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  result.chunks.forEach((chunk) => {
+    if (chunk.type !== 'conflict') {
+      lines.push(...chunk.lines);
+      return;
+    }
+    const resolution = resolutions[conflictIndex];
+    conflictIndex += 1;
+    if (resolution === 'mine') {
+      lines.push(...chunk.mine);
+    } else if (resolution === 'theirs') {
+      lines.push(...chunk.theirs);
+    } else if (resolution === 'both') {
+      lines.push(...chunk.mine, ...chunk.theirs);
+    } else {
+      lines.push(
+        CONFLICT_MARKERS.mine,
+        ...chunk.mine,
+        CONFLICT_MARKERS.base,
+        ...chunk.base,
+        CONFLICT_MARKERS.separator,
+        ...chunk.theirs,
+        CONFLICT_MARKERS.theirs
+      );
+    }
+  });
+
+  return lines.length ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * 文本中是否仍有未处理的冲突标记
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return /^<{7} /m.test(text) && /^>{7} /m.test(text);
+}
@@ -5,6 +5,7 @@
 
 import type { ScriptableContext } from 'chart.js';
 import { maskApiKey } from './format';
+import type { UsageTimeRange } from './usage/range';
 
 export interface KeyStatBucket {
   success: number;
@@ -29,10 +30,24 @@ export interface RateStats {
   tokenCount: number;
 }
 
+export interface ModelPriceTier {
+  /** 输入 tokens 超过该阈值时，整次请求按此档位计价 */
+  threshold: number;
+  prompt: number;
+  completion: number;
+  cache: number;
+}
+
+/**
+ * 模型价格（美元 / 1M tokens）
+ * 键可以是精确模型名、glob（如 claude-*-sonnet*）或 /regex/flags；精确匹配优先，其次按列表顺序取第一个匹配的模式
+ */
 export interface ModelPrice {
   prompt: number;
   completion: number;
   cache: number;
+  /** 长上下文档位 */
+  longContext?: ModelPriceTier;
 }
 
 export interface UsageDetail {
@@ -309,13 +324,82 @@ export function getModelNamesFromUsage(usageData: any): string[] {
   return Array.from(names).sort((a, b) => a.localeCompare(b));
 }
 
+const REGEX_PATTERN = /^\/(.+)\/([gimsuy]*)$/;
+
+const escapeRegExp = (value: string) => value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 价格键是否为模型名模式（glob 或 /regex/）
+ */
+export function isModelPricePattern(key: string): boolean {
+  return REGEX_PATTERN.test(key) || /[*?]/.test(key);
+}
+
+/**
+ * 将价格键编译为正则；glob 不区分大小写且匹配整个模型名，无效的正则返回 null
+ */
+export function compileModelPricePattern(key: string): RegExp | null {
+  const regexMatch = key.match(REGEX_PATTERN);
+  try {
+    if (regexMatch) {
+      return new RegExp(regexMatch[1], regexMatch[2].replace('g', ''));
+    }
+    const source = key
+      .split('')
+      .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : escapeRegExp(char)))
+      .join('');
+    return new RegExp(`^${source}$`, 'i');
+  } catch {
+    return null;
+  }
+}
+
+const pricePatternCache = new WeakMap<
+  Record<string, ModelPrice>,
+  Array<{ regex: RegExp; price: ModelPrice }>
+>();
+
+const getPricePatterns = (modelPrices: Record<string, ModelPrice>) => {
+  const cached = pricePatternCache.get(modelPrices);
+  if (cached) {
+    return cached;
+  }
+  const patterns: Array<{ regex: RegExp; price: ModelPrice }> = [];
+  Object.entries(modelPrices).forEach(([key, price]) => {
+    if (!isModelPricePattern(key)) return;
+    const regex = compileModelPricePattern(key);
+    if (regex) {
+      patterns.push({ regex, price });
+    }
+  });
+  pricePatternCache.set(modelPrices, patterns);
+  return patterns;
+};
+
+/**
+ * 查找模型适用的价格：精确匹配优先，其次为第一个匹配的 glob/正则模式
+ */
+export function resolveModelPrice(
+  modelName: string,
+  modelPrices: Record<string, ModelPrice>
+): ModelPrice | null {
+  if (!modelName) {
+    return null;
+  }
+  if (Object.prototype.hasOwnProperty.call(modelPrices, modelName)) {
+    return modelPrices[modelName];
+  }
+  const matched = getPricePatterns(modelPrices).find(({ regex }) => regex.test(modelName));
+  return matched ? matched.price : null;
+}
+
 /**
  * 计算成本数据
  */
 export function calculateCost(detail: any, modelPrices: Record<string, ModelPrice>): number {
   const modelName = detail.__modelName || '';
-  const price = modelPrices[modelName];
-  if (!price) {
+  const basePrice = resolveModelPrice(modelName, modelPrices);
+  if (!basePrice) {
     return 0;
   }
   const tokens = detail?.tokens || {};
@@ -332,6 +416,10 @@ export function calculateCost(detail: any, modelPrices: Record<string, ModelPric
   );
   const promptTokens = Math.max(inputTokens - cachedTokens, 0);
 
+  // 长上下文请求（输入超过阈值）整次按长上下文档位计价
+  const tier = basePrice.longContext;
+  const price = tier && tier.threshold > 0 && inputTokens > tier.threshold ? tier : basePrice;
+
   const promptCost = (promptTokens / TOKENS_PER_PRICE_UNIT) * (Number(price.prompt) || 0);
   const cachedCost = (cachedTokens / TOKENS_PER_PRICE_UNIT) * (Number(price.cache) || 0);
   const completionCost = (completionTokens / TOKENS_PER_PRICE_UNIT) * (Number(price.completion) || 0);
@@ -350,6 +438,50 @@ export function calculateTotalCost(usageData: any, modelPrices: Record<string, M
   return details.reduce((sum, detail) => sum + calculateCost(detail, modelPrices), 0);
 }
 
+const toPrice = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? num : null;
+};
+
+/**
+ * 规范化单个模型价格；三项价格均无效时返回 null，缓存价格缺省时沿用输入价格
+ */
+export function normalizeModelPrice(raw: unknown): ModelPrice | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const value = raw as Record<string, unknown>;
+  const promptRaw = toPrice(value.prompt);
+  const completionRaw = toPrice(value.completion);
+  const cacheRaw = toPrice(value.cache);
+  if (promptRaw === null && completionRaw === null && cacheRaw === null) {
+    return null;
+  }
+
+  const prompt = promptRaw ?? 0;
+  const price: ModelPrice = {
+    prompt,
+    completion: completionRaw ?? 0,
+    cache: cacheRaw ?? prompt
+  };
+
+  const tierRaw = value.longContext as Record<string, unknown> | undefined;
+  const threshold = toPrice(tierRaw?.threshold);
+  const tier = threshold ? normalizeModelPrice(tierRaw) : null;
+  if (threshold && tier) {
+    price.longContext = {
+      threshold,
+      prompt: tier.prompt,
+      completion: tier.completion,
+      cache: tier.cache
+    };
+  }
+  return price;
+}
+
 /**
  * 从 localStorage 加载模型价格
  */
@@ -367,30 +499,12 @@ export function loadModelPrices(): Record<string, ModelPrice> {
       return {};
     }
     const normalized: Record<string, ModelPrice> = {};
-    Object.entries(parsed).forEach(([model, price]: [string, any]) => {
+    Object.entries(parsed).forEach(([model, price]) => {
       if (!model) return;
-      const promptRaw = Number(price?.prompt);
-      const completionRaw = Number(price?.completion);
-      const cacheRaw = Number(price?.cache);
-
-      if (!Number.isFinite(promptRaw) && !Number.isFinite(completionRaw) && !Number.isFinite(cacheRaw)) {
-        return;
+      const normalizedPrice = normalizeModelPrice(price);
+      if (normalizedPrice) {
+        normalized[model] = normalizedPrice;
       }
-
-      const prompt = Number.isFinite(promptRaw) && promptRaw >= 0 ? promptRaw : 0;
-      const completion = Number.isFinite(completionRaw) && completionRaw >= 0 ? completionRaw : 0;
-      const cache =
-        Number.isFinite(cacheRaw) && cacheRaw >= 0
-          ? cacheRaw
-          : Number.isFinite(promptRaw) && promptRaw >= 0
-            ? promptRaw
-            : prompt;
-
-      normalized[model] = {
-        prompt,
-        completion,
-        cache
-      };
     });
     return normalized;
   } catch {
@@ -433,7 +547,7 @@ export function getApiStats(usageData: any, modelPrices: Record<string, ModelPri
         tokens: modelData.total_tokens || 0
       };
 
-      const price = modelPrices[modelName];
+      const price = resolveModelPrice(modelName, modelPrices);
       if (price) {
         const details = Array.isArray(modelData.details) ? modelData.details : [];
         details.forEach((detail: any) => {
@@ -476,7 +590,7 @@ export function getModelStats(usageData: any, modelPrices: Record<string, ModelP
       existing.requests += modelData.total_requests || 0;
       existing.tokens += modelData.total_tokens || 0;
 
-      const price = modelPrices[modelName];
+      const price = resolveModelPrice(modelName, modelPrices);
       if (price) {
         const details = Array.isArray(modelData.details) ? modelData.details : [];
         details.forEach((detail: any) => {
@@ -520,24 +634,40 @@ export function formatDayLabel(date: Date): string {
 
 /**
  * 构建小时级别的数据序列
+ * 默认为最近 24 小时；指定时间范围时覆盖整个范围（最多 31 天）
  */
-export function buildHourlySeriesByModel(usageData: any, metric: 'requests' | 'tokens' = 'requests'): {
+export function buildHourlySeriesByModel(
+  usageData: any,
+  metric: 'requests' | 'tokens' = 'requests',
+  range?: UsageTimeRange | null
+): {
   labels: string[];
+  /** 每个小时桶的起始时间（毫秒） */
+  bucketStarts: number[];
   dataByModel: Map<string, number[]>;
   hasData: boolean;
 } {
   const hourMs = 60 * 60 * 1000;
+  const maxRangeHours = 31 * 24;
   const now = new Date();
-  const currentHour = new Date(now);
+  const currentHour = new Date(range ? Math.min(range.end - 1, now.getTime()) : now);
   currentHour.setMinutes(0, 0, 0);
 
-  const earliestBucket = new Date(currentHour);
-  earliestBucket.setHours(earliestBucket.getHours() - 23);
-  const earliestTime = earliestBucket.getTime();
+  let bucketCount = 24;
+  if (range) {
+    const rangeStartHour = new Date(range.start);
+    rangeStartHour.setMinutes(0, 0, 0);
+    const spanHours = Math.floor((currentHour.getTime() - rangeStartHour.getTime()) / hourMs) + 1;
+    bucketCount = Math.min(Math.max(spanHours, 1), maxRangeHours);
+  }
+
+  const earliestTime = currentHour.getTime() - (bucketCount - 1) * hourMs;
 
   const labels: string[] = [];
-  for (let i = 0; i < 24; i++) {
+  const bucketStarts: number[] = [];
+  for (let i = 0; i < bucketCount; i++) {
     const bucketStart = earliestTime + i * hourMs;
+    bucketStarts.push(bucketStart);
     labels.push(formatHourLabel(new Date(bucketStart)));
   }
 
@@ -546,7 +676,7 @@ export function buildHourlySeriesByModel(usageData: any, metric: 'requests' | 't
   let hasData = false;
 
   if (!details.length) {
-    return { labels, dataByModel, hasData };
+    return { labels, bucketStarts, dataByModel, hasData };
   }
 
   details.forEach(detail => {
@@ -582,13 +712,18 @@ export function buildHourlySeriesByModel(usageData: any, metric: 'requests' | 't
     hasData = true;
   });
 
-  return { labels, dataByModel, hasData };
+  return { labels, bucketStarts, dataByModel, hasData };
 }
 
 /**
  * 构建日级别的数据序列
+ * 指定时间范围时补齐范围内没有数据的日期
  */
-export function buildDailySeriesByModel(usageData: any, metric: 'requests' | 'tokens' = 'requests'): {
+export function buildDailySeriesByModel(
+  usageData: any,
+  metric: 'requests' | 'tokens' = 'requests',
+  range?: UsageTimeRange | null
+): {
   labels: string[];
   dataByModel: Map<string, number[]>;
   hasData: boolean;
@@ -598,8 +733,15 @@ export function buildDailySeriesByModel(usageData: any, metric: 'requests' | 'to
   const labelsSet = new Set<string>();
   let hasData = false;
 
+  if (range) {
+    const lastTime = Math.min(range.end - 1, Date.now());
+    for (const day = new Date(range.start); day.getTime() <= lastTime; day.setDate(day.getDate() + 1)) {
+      labelsSet.add(formatDayLabel(day));
+    }
+  }
+
   if (!details.length) {
-    return { labels: [], dataByModel: new Map(), hasData };
+    return { labels: Array.from(labelsSet).sort(), dataByModel: new Map(), hasData };
   }
 
   details.forEach(detail => {
@@ -640,7 +782,11 @@ export interface ChartDataset {
   backgroundColor: string | CanvasGradient | ((context: ScriptableContext<'line'>) => string | CanvasGradient);
   pointBackgroundColor?: string;
   pointBorderColor?: string;
-  fill: boolean;
+  pointRadius?: number;
+  pointHoverRadius?: number;
+  showLine?: boolean;
+  borderDash?: number[];
+  fill: boolean | string;
   tension: number;
 }
 
@@ -649,7 +795,7 @@ export interface ChartData {
   datasets: ChartDataset[];
 }
 
-const CHART_COLORS = [
+export const CHART_COLORS = [
   { borderColor: '#3b82f6', backgroundColor: 'rgba(59, 130, 246, 0.15)' },
   { borderColor: '#22c55e', backgroundColor: 'rgba(34, 197, 94, 0.15)' },
   { borderColor: '#f59e0b', backgroundColor: 'rgba(245, 158, 11, 0.15)' },
@@ -709,11 +855,12 @@ export function buildChartData(
   usageData: any,
   period: 'hour' | 'day' = 'day',
   metric: 'requests' | 'tokens' = 'requests',
-  selectedModels: string[] = []
+  selectedModels: string[] = [],
+  range?: UsageTimeRange | null
 ): ChartData {
   const baseSeries = period === 'hour'
-    ? buildHourlySeriesByModel(usageData, metric)
-    : buildDailySeriesByModel(usageData, metric);
+    ? buildHourlySeriesByModel(usageData, metric, range)
+    : buildDailySeriesByModel(usageData, metric, range);
 
   const { labels, dataByModel } = baseSeries;
 
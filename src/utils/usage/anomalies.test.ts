@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectUsageAnomalies, scoreAgainstBaseline, withAnomalyMarkers } from './anomalies';
+import { chatUsageSnapshot, localTime, usageDetail } from './testFixtures';
+
+const at = (day: number, hour: number, minute = 0) => localTime(0, day, hour, minute);
+const detail = (time: number, source: string, tokens = 100, failed = false) =>
+  usageDetail(time, { source, tokens, failed });
+
+// 1 月 1 日每小时 6 个请求作为基线，2 日 01:00 出现请求量突增，2 日 02:00 失败率突增
+const steady = Array.from({ length: 24 }, (_, hour) =>
+  Array.from({ length: 6 }, (_, index) => detail(at(1, hour, index * 5), 'sk-steady'))
+).flat();
+const burst = Array.from({ length: 60 }, (_, index) =>
+  detail(at(2, 1, index % 60), index < 45 ? 'sk-burstclient01' : 'sk-steady')
+);
+const failing = Array.from({ length: 6 }, (_, index) =>
+  detail(at(2, 2, index * 5), 'sk-steady', 100, index < 4)
+);
+
+const usage = chatUsageSnapshot({
+  'gpt-5': [...steady, ...burst.slice(0, 40), ...failing],
+  'claude-sonnet': burst.slice(40)
+});
+
+describe('scoreAgainstBaseline', () => {
+  it('uses the median absolute deviation when the baseline varies', () => {
+    const result = scoreAgainstBaseline(20, [4, 5, 6, 5, 4, 6]);
+    expect(result?.baseline).toBe(5);
+    expect(result?.score).toBeGreaterThan(10);
+  });
+
+  it('falls back to the minimum scale for a flat baseline', () => {
+    expect(scoreAgainstBaseline(0.6, [0, 0, 0, 0], 0.05)?.score).toBeCloseTo(12);
+    expect(scoreAgainstBaseline(1, [])).toBeNull();
+  });
+});
+
+describe('detectUsageAnomalies', () => {
+  const anomalies = detectUsageAnomalies(usage, {
+    range: { start: at(1, 0), end: at(2, 3) },
+    masker: (value) => value.slice(0, 5)
+  });
+
+  it('flags request and failure-rate spikes against the rolling baseline', () => {
+    expect(anomalies.map((anomaly) => anomaly.bucketStart)).toEqual([at(2, 2), at(2, 1)]);
+    const [failureSpike, requestSpike] = anomalies;
+    expect(failureSpike.hits.map((hit) => hit.metric)).toEqual(['failureRate']);
+    expect(failureSpike.failures).toBe(4);
+    expect(requestSpike.hits.map((hit) => hit.metric)).toEqual(
+      expect.arrayContaining(['requests', 'tokens'])
+    );
+    expect(requestSpike.requests).toBe(60);
+  });
+
+  it('reports the top contributing model and masked source', () => {
+    const requestSpike = anomalies[1];
+    expect(requestSpike.topModel).toMatchObject({ name: 'gpt-5', value: 40 });
+    expect(requestSpike.topSource).toMatchObject({ name: 'sk-bu', value: 45, share: 0.75 });
+  });
+
+  it('skips hours outside the requested range', () => {
+    expect(detectUsageAnomalies(usage, { range: { start: at(2, 2), end: at(2, 3) } })).toHaveLength(
+      1
+    );
+  });
+});
+
+describe('withAnomalyMarkers', () => {
+  it('adds a marker dataset on the highest line at flagged labels', () => {
+    const chart = {
+      labels: ['01-02 00:00', '01-02 01:00'],
+      datasets: [
+        {
+          label: 'All Models',
+          data: [6, 60],
+          borderColor: '#000',
+          backgroundColor: '#000',
+          fill: false,
+          tension: 0
+        }
+      ]
+    };
+    const anomaly = detectUsageAnomalies(usage, { range: { start: at(2, 1), end: at(2, 2) } })[0];
+    const marked = withAnomalyMarkers(chart, [anomaly], ['requests'], 'Anomalies');
+    expect(marked.datasets).toHaveLength(2);
+    expect(marked.datasets[1].data[0]).toBeNaN();
+    expect(marked.datasets[1].data[1]).toBe(60);
+    expect(withAnomalyMarkers(chart, [anomaly], ['failureRate'], 'Anomalies')).toBe(chart);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Hourly anomaly detection for request, token and failure-rate spikes
+ */
+
+import {
+  buildHourlySeriesByModel,
+  collectUsageDetails,
+  extractTotalTokens,
+  maskUsageSensitiveValue,
+  type ChartData,
+  type ChartDataset,
+  type UsageDetail
+} from '../usage';
+import type { UsageTimeRange } from './range';
+
+export type UsageAnomalyMetric = 'requests' | 'tokens' | 'failureRate';
+
+export const USAGE_ANOMALY_METRICS: UsageAnomalyMetric[] = ['requests', 'tokens', 'failureRate'];
+
+export interface UsageAnomalyOptions {
+  /**
+   * 检测范围；为空时使用数据自身的时间跨度（最多 31 天）。
+   * 基线会向前回看 windowHours，因此应传入未按范围裁剪的数据
+   */
+  range?: UsageTimeRange | null;
+  /** 滚动基线窗口（小时） */
+  windowHours?: number;
+  /** 基线中至少需要的有请求的小时数，不足时（如刚开始使用）不判定 */
+  minBaselineHours?: number;
+  /** 稳健 z 分数阈值 */
+  threshold?: number;
+  /** 请求数低于该值的小时不参与判定，避免零星请求造成误报 */
+  minRequests?: number;
+  masker?: (value: string) => string;
+}
+
+export interface UsageAnomalyHit {
+  metric: UsageAnomalyMetric;
+  value: number;
+  /** 基线中位数 */
+  baseline: number;
+  score: number;
+}
+
+export interface UsageAnomalyContributor {
+  name: string;
+  value: number;
+  /** 占该小时总量的比例 */
+  share: number;
+}
+
+export interface UsageAnomaly {
+  bucketStart: number;
+  /** 与小时图表一致的标签（MM-DD HH:00） */
+  label: string;
+  requests: number;
+  tokens: number;
+  failures: number;
+  /** 按分数降序 */
+  hits: UsageAnomalyHit[];
+  score: number;
+  /** 按分数最高的指标统计的主要来源（source 已遮罩） */
+  topModel: UsageAnomalyContributor | null;
+  topSource: UsageAnomalyContributor | null;
+}
+
+export const DEFAULT_ANOMALY_WINDOW_HOURS = 24;
+export const DEFAULT_ANOMALY_MIN_BASELINE_HOURS = 6;
+export const DEFAULT_ANOMALY_THRESHOLD = 3.5;
+export const DEFAULT_ANOMALY_MIN_REQUESTS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+// MAD 换算为标准差的系数（正态分布下）
+const MAD_SCALE = 1.4826;
+// 基线完全平坦时的最小尺度，避免除以 0
+const MIN_SCALE: Record<UsageAnomalyMetric, number> = {
+  requests: 1,
+  tokens: 1000,
+  failureRate: 0.05
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * 相对基线的稳健 z 分数：优先使用中位数绝对偏差（MAD），
+ * MAD 为 0 时退回标准差，基线完全平坦时使用指标的最小尺度
+ */
+export function scoreAgainstBaseline(
+  value: number,
+  baseline: number[],
+  minScale = 1
+): { baseline: number; score: number } | null {
+  if (!baseline.length) {
+    return null;
+  }
+  const center = median(baseline);
+  let scale = median(baseline.map((item) => Math.abs(item - center))) * MAD_SCALE;
+  if (scale === 0) {
+    const mean = baseline.reduce((sum, item) => sum + item, 0) / baseline.length;
+    scale = Math.sqrt(
+      baseline.reduce((sum, item) => sum + (item - mean) ** 2, 0) / baseline.length
+    );
+  }
+  if (scale === 0) {
+    scale = Math.max(center * 0.5, minScale);
+  }
+  return { baseline: center, score: (value - center) / scale };
+}
+
+/**
+ * 数据自身的时间跨度（用于 "全部" 范围）
+ */
+export function getUsageTimeExtent(usageData: unknown): UsageTimeRange | null {
+  let start = Infinity;
+  let end = -Infinity;
+  collectUsageDetails(usageData).forEach((detail) => {
+    const time = Date.parse(detail.timestamp);
+    if (Number.isNaN(time)) return;
+    start = Math.min(start, time);
+    end = Math.max(end, time);
+  });
+  return Number.isFinite(start) ? { start, end: end + 1 } : null;
+}
+
+const sumSeries = (dataByModel: Map<string, number[]>, length: number): number[] => {
+  const totals = new Array(length).fill(0);
+  dataByModel.forEach((values) => {
+    values.forEach((value, index) => {
+      totals[index] += value;
+    });
+  });
+  return totals;
+};
+
+const contributionOf = (detail: UsageDetail, metric: UsageAnomalyMetric): number => {
+  if (metric === 'tokens') return extractTotalTokens(detail);
+  if (metric === 'failureRate') return detail.failed === true ? 1 : 0;
+  return 1;
+};
+
+const pickTop = (totals: Map<string, number>): UsageAnomalyContributor | null => {
+  let total = 0;
+  let top: { name: string; value: number } | null = null;
+  for (const [name, value] of totals) {
+    total += value;
+    if (!top || value > top.value) top = { name, value };
+  }
+  return top && total > 0 ? { ...top, share: top.value / total } : null;
+};
+
+/**
+ * 逐小时与前 windowHours 小时的滚动基线比较，标记请求数、tokens 或失败率显著升高的小时，
+ * 结果按时间倒序
+ */
+export function detectUsageAnomalies(
+  usageData: unknown,
+  {
+    range,
+    windowHours = DEFAULT_ANOMALY_WINDOW_HOURS,
+    minBaselineHours = DEFAULT_ANOMALY_MIN_BASELINE_HOURS,
+    threshold = DEFAULT_ANOMALY_THRESHOLD,
+    minRequests = DEFAULT_ANOMALY_MIN_REQUESTS,
+    masker
+  }: UsageAnomalyOptions = {}
+): UsageAnomaly[] {
+  const targetRange = range ?? getUsageTimeExtent(usageData);
+  if (!targetRange) {
+    return [];
+  }
+  const detectionRange = {
+    start: targetRange.start - windowHours * HOUR_MS,
+    end: targetRange.end
+  };
+
+  const details = collectUsageDetails(usageData);
+  const requestSeries = buildHourlySeriesByModel(usageData, 'requests', detectionRange);
+  const { labels, bucketStarts } = requestSeries;
+  const requests = sumSeries(requestSeries.dataByModel, labels.length);
+  const tokens = sumSeries(
+    buildHourlySeriesByModel(usageData, 'tokens', detectionRange).dataByModel,
+    labels.length
+  );
+  const failures = new Array(labels.length).fill(0);
+  const firstBucket = bucketStarts[0] ?? 0;
+  details.forEach((detail) => {
+    if (detail.failed !== true) return;
+    const index = Math.floor((Date.parse(detail.timestamp) - firstBucket) / HOUR_MS);
+    if (index >= 0 && index < failures.length) failures[index] += 1;
+  });
+  const failureRates = requests.map((count, index) => (count > 0 ? failures[index] / count : 0));
+
+  const valuesOf: Record<UsageAnomalyMetric, number[]> = {
+    requests,
+    tokens,
+    failureRate: failureRates
+  };
+
+  const anomalies: UsageAnomaly[] = [];
+  for (let index = 0; index < labels.length; index++) {
+    if (bucketStarts[index] + HOUR_MS <= targetRange.start) continue;
+    if (requests[index] < minRequests) continue;
+    const from = Math.max(0, index - windowHours);
+    let activeHours = 0;
+    for (let i = from; i < index; i++) {
+      if (requests[i] > 0) activeHours += 1;
+    }
+    if (activeHours < minBaselineHours) continue;
+    const hits: UsageAnomalyHit[] = [];
+
+    USAGE_ANOMALY_METRICS.forEach((metric) => {
+      const values = valuesOf[metric];
+      // 失败率只与有请求的小时比较，空闲小时的 0 不代表成功率高
+      const baseline: number[] = [];
+      for (let i = from; i < index; i++) {
+        if (metric !== 'failureRate' || requests[i] > 0) baseline.push(values[i]);
+      }
+      const result = scoreAgainstBaseline(values[index], baseline, MIN_SCALE[metric]);
+      if (result && result.score >= threshold) {
+        hits.push({ metric, value: values[index], ...result });
+      }
+    });
+
+    if (!hits.length) continue;
+    hits.sort((a, b) => b.score - a.score);
+
+    const bucketStart = bucketStarts[index];
+    const primary = hits[0].metric;
+    const byModel = new Map<string, number>();
+    const bySource = new Map<string, number>();
+    details.forEach((detail) => {
+      const time = Date.parse(detail.timestamp);
+      if (Number.isNaN(time) || time < bucketStart || time >= bucketStart + HOUR_MS) return;
+      const value = contributionOf(detail, primary);
+      if (!value) return;
+      const model = detail.__modelName || '-';
+      const source = maskUsageSensitiveValue(detail.source, masker) || '-';
+      byModel.set(model, (byModel.get(model) ?? 0) + value);
+      bySource.set(source, (bySource.get(source) ?? 0) + value);
+    });
+
+    anomalies.push({
+      bucketStart,
+      label: labels[index],
+      requests: requests[index],
+      tokens: tokens[index],
+      failures: failures[index],
+      hits,
+      score: hits[0].score,
+      topModel: pickTop(byModel),
+      topSource: pickTop(bySource)
+    });
+  }
+
+  return anomalies.reverse();
+}
+
+/**
+ * 在小时图表上叠加异常点（仅标记与图表指标相关的异常，按标签对齐）
+ */
+export function withAnomalyMarkers(
+  chart: ChartData,
+  anomalies: UsageAnomaly[],
+  metrics: UsageAnomalyMetric[],
+  label: string
+): ChartData {
+  const flagged = new Set(
+    anomalies
+      .filter((anomaly) => anomaly.hits.some((hit) => metrics.includes(hit.metric)))
+      .map((anomaly) => anomaly.label)
+  );
+  if (!flagged.size || !chart.datasets.length) {
+    return chart;
+  }
+
+  let hasMarker = false;
+  // 非异常位置使用 NaN，Chart.js 会跳过这些点
+  const data = chart.labels.map((bucketLabel, index) => {
+    if (!flagged.has(bucketLabel)) return Number.NaN;
+    hasMarker = true;
+    return Math.max(...chart.datasets.map((dataset) => dataset.data[index] ?? 0));
+  });
+  if (!hasMarker) {
+    return chart;
+  }
+
+  const markers: ChartDataset = {
+    label,
+    data,
+    borderColor: '#ef4444',
+    backgroundColor: '#ef4444',
+    pointBackgroundColor: '#ef4444',
+    pointBorderColor: '#ffffff',
+    pointRadius: 6,
+    pointHoverRadius: 8,
+    showLine: false,
+    fill: false,
+    tension: 0
+  };
+  return { labels: chart.labels, datasets: [...chart.datasets, markers] };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildBreakdownChartData, buildUsageBreakdown } from './breakdown';
+import { chatUsageSnapshot, localTime, usageDetail, type UsageDetailTokens } from './testFixtures';
+
+const at = (day: number, hour: number) => localTime(0, day, hour);
+const detail = (
+  time: number,
+  source: string,
+  authIndex: string | number,
+  tokens: UsageDetailTokens,
+  failed = false
+) => usageDetail(time, { source, authIndex, tokens, failed });
+
+const usage = chatUsageSnapshot({
+  'gpt-5': [
+    detail(at(1, 10), 'sk-alpha1234567890', 'a1', { input: 1000, output: 500, cached: 200 }),
+    detail(at(2, 10), 'sk-alpha1234567890', 'a1', { input: 100, output: 0 }, true),
+    detail(at(2, 11), 'sk-beta1234567890', 7, { input: 300, output: 100, reasoning: 50 })
+  ],
+  'claude-sonnet': [detail(at(2, 12), '', ' a1 ', { input: 400, output: 0 })]
+});
+
+describe('buildUsageBreakdown', () => {
+  it('groups by masked source with token, failure and cost totals', () => {
+    const rows = buildUsageBreakdown(
+      usage,
+      'source',
+      { 'gpt-5': { prompt: 1, completion: 2, cache: 0.5 } },
+      { masker: (value) => `${value.slice(0, 5)}***` }
+    );
+
+    expect(rows.map((row) => row.key)).toEqual(['sk-al***', '', 'sk-be***']);
+    expect(rows[0]).toMatchObject({
+      requests: 2,
+      failures: 1,
+      failureRate: 0.5,
+      tokens: 1600,
+      cachedTokens: 200
+    });
+    // (800 prompt + 100 prompt) * $1 + 200 cached * $0.5 + 500 completion * $2 per 1M tokens
+    expect(rows[0].cost).toBeCloseTo(0.002);
+    expect(rows[2]).toMatchObject({ requests: 1, reasoningTokens: 50 });
+  });
+
+  it('normalizes auth_index and resolves labels', () => {
+    const rows = buildUsageBreakdown(
+      usage,
+      'authIndex',
+      {},
+      {
+        resolveLabel: (key) => (key === 'a1' ? 'gemini-user.json' : key)
+      }
+    );
+
+    expect(rows.map((row) => [row.key, row.label, row.requests])).toEqual([
+      ['a1', 'gemini-user.json', 3],
+      ['7', '7', 1]
+    ]);
+  });
+});
+
+describe('buildBreakdownChartData', () => {
+  it('stacks the top groups and folds the rest into other', () => {
+    const range = { start: at(1, 0), end: at(3, 0) };
+    const chart = buildBreakdownChartData(usage, 'authIndex', {
+      range,
+      maxGroups: 1,
+      otherLabel: 'Other'
+    });
+
+    expect(chart.labels).toEqual(['2026-01-01', '2026-01-02']);
+    expect(chart.datasets.map((dataset) => [dataset.label, dataset.data, dataset.fill])).toEqual([
+      ['a1', [1, 2], 'origin'],
+      ['Other', [0, 1], '-1']
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Usage breakdown by client API key (source) and by auth file (auth_index)
+ */
+
+import {
+  CHART_COLORS,
+  buildDailySeriesByModel,
+  buildHourlySeriesByModel,
+  calculateCost,
+  collectUsageDetails,
+  extractTotalTokens,
+  maskUsageSensitiveValue,
+  type ChartData,
+  type ChartDataset,
+  type ModelPrice,
+  type UsageDetail
+} from '../usage';
+import { normalizeAuthIndexValue } from '../quota/parsers';
+import type { UsageSnapshot, UsageTimeRange } from './range';
+
+export type UsageBreakdownDimension = 'source' | 'authIndex';
+
+export interface UsageBreakdownRow {
+  /** 分组键：遮罩后的 source 或标准化后的 auth_index，缺失时为空字符串 */
+  key: string;
+  label: string;
+  requests: number;
+  failures: number;
+  failureRate: number;
+  tokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
+  cost: number;
+}
+
+export interface UsageBreakdownOptions {
+  /** 将分组键转换为显示名称，例如 auth_index → 认证文件名 */
+  resolveLabel?: (key: string) => string;
+  masker?: (value: string) => string;
+}
+
+export interface UsageBreakdownChartOptions extends UsageBreakdownOptions {
+  period?: 'hour' | 'day';
+  metric?: 'requests' | 'tokens';
+  range?: UsageTimeRange | null;
+  /** 图表中单独显示的分组数，其余合并为 otherLabel */
+  maxGroups?: number;
+  otherLabel?: string;
+}
+
+export const DEFAULT_BREAKDOWN_CHART_GROUPS = 6;
+
+const toNonNegative = (value: unknown): number => {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.max(num, 0) : 0;
+};
+
+/**
+ * 明细所属分组：source 先遮罩再分组，避免明文密钥出现在界面上
+ */
+export function getBreakdownKey(
+  detail: Pick<UsageDetail, 'source' | 'auth_index'>,
+  dimension: UsageBreakdownDimension,
+  masker?: (value: string) => string
+): string {
+  if (dimension === 'source') {
+    return maskUsageSensitiveValue(detail.source, masker);
+  }
+  return normalizeAuthIndexValue(detail.auth_index) ?? '';
+}
+
+/**
+ * 按 source 或 auth_index 汇总请求数、tokens、失败率与成本，按请求数降序
+ */
+export function buildUsageBreakdown(
+  usageData: unknown,
+  dimension: UsageBreakdownDimension,
+  modelPrices: Record<string, ModelPrice> = {},
+  { resolveLabel, masker }: UsageBreakdownOptions = {}
+): UsageBreakdownRow[] {
+  const rows = new Map<string, UsageBreakdownRow>();
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    const key = getBreakdownKey(detail, dimension, masker);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        label: resolveLabel ? resolveLabel(key) : key,
+        requests: 0,
+        failures: 0,
+        failureRate: 0,
+        tokens: 0,
+        cachedTokens: 0,
+        reasoningTokens: 0,
+        cost: 0
+      };
+      rows.set(key, row);
+    }
+
+    const tokens = detail.tokens ?? ({} as Partial<UsageDetail['tokens']>);
+    row.requests += 1;
+    row.failures += detail.failed === true ? 1 : 0;
+    row.tokens += extractTotalTokens(detail);
+    row.cachedTokens += Math.max(
+      toNonNegative(tokens.cached_tokens),
+      toNonNegative(tokens.cache_tokens)
+    );
+    row.reasoningTokens += toNonNegative(tokens.reasoning_tokens);
+    row.cost += calculateCost(detail, modelPrices);
+  });
+
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, failureRate: row.requests ? row.failures / row.requests : 0 }))
+    .sort((a, b) => b.requests - a.requests || a.label.localeCompare(b.label));
+}
+
+/**
+ * 按分组重新组织明细（分组键作为“模型名”），以复用按模型构建时间序列的逻辑
+ */
+const regroupUsage = (
+  usageData: unknown,
+  groupOf: (detail: UsageDetail) => string
+): UsageSnapshot => {
+  const snapshot: UsageSnapshot = {
+    total_requests: 0,
+    success_count: 0,
+    failure_count: 0,
+    total_tokens: 0,
+    apis: { breakdown: { total_requests: 0, total_tokens: 0, models: {} } }
+  };
+  const models = snapshot.apis.breakdown.models;
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    const group = groupOf(detail);
+    if (!models[group]) {
+      models[group] = { total_requests: 0, total_tokens: 0, details: [] };
+    }
+    models[group].details.push(detail);
+  });
+
+  return snapshot;
+};
+
+/**
+ * 构建按分组堆叠的趋势图数据；请求数最多的若干分组单独显示，其余合并为“其他”
+ */
+export function buildBreakdownChartData(
+  usageData: unknown,
+  dimension: UsageBreakdownDimension,
+  {
+    period = 'day',
+    metric = 'requests',
+    range = null,
+    maxGroups = DEFAULT_BREAKDOWN_CHART_GROUPS,
+    otherLabel = 'Other',
+    resolveLabel,
+    masker
+  }: UsageBreakdownChartOptions = {}
+): ChartData {
+  const ranked = buildUsageBreakdown(usageData, dimension, {}, { masker });
+  const keys = ranked.slice(0, maxGroups).map((row) => row.key);
+  const hasOther = ranked.length > keys.length;
+  // 序列以分组序号命名，避免空分组键被当作缺失的模型名
+  const seriesIds = new Map(keys.map((key, index) => [key, String(index)]));
+  const otherId = String(keys.length);
+
+  const grouped = regroupUsage(
+    usageData,
+    (detail) => seriesIds.get(getBreakdownKey(detail, dimension, masker)) ?? otherId
+  );
+  const { labels, dataByModel } =
+    period === 'hour'
+      ? buildHourlySeriesByModel(grouped, metric, range)
+      : buildDailySeriesByModel(grouped, metric, range);
+
+  const series = keys.map((key, index) => ({
+    label: resolveLabel ? resolveLabel(key) : key,
+    id: String(index),
+    isOther: false
+  }));
+  if (hasOther) {
+    series.push({ label: otherLabel, id: otherId, isOther: true });
+  }
+
+  const datasets: ChartDataset[] = series.map(({ label, id, isOther }, index) => {
+    const style = CHART_COLORS[index % CHART_COLORS.length];
+    return {
+      label,
+      data: dataByModel.get(id) ?? new Array(labels.length).fill(0),
+      borderColor: isOther ? '#9ca3af' : style.borderColor,
+      backgroundColor: isOther ? 'rgba(156, 163, 175, 0.25)' : style.backgroundColor,
+      pointBackgroundColor: isOther ? '#9ca3af' : style.borderColor,
+      pointBorderColor: isOther ? '#9ca3af' : style.borderColor,
+      // 第一层填充到坐标轴，之后每层填充到下方一层形成堆叠面积图
+      fill: index === 0 ? 'origin' : '-1',
+      tension: 0.35
+    };
+  });
+
+  return { labels, datasets };
+}
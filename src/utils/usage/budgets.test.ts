@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectBudgetAlerts,
+  evaluateBudget,
+  getBudgetPeriodRange,
+  type UsageBudget
+} from './budgets';
+import { chatUsageSnapshot, localTime, usageDetail } from './testFixtures';
+
+const at = (day: number, hour: number) => localTime(0, day, hour);
+const detail = (time: number, source: string, authIndex: string, tokens: number) =>
+  usageDetail(time, { source, authIndex, tokens });
+
+const usage = chatUsageSnapshot({
+  'gpt-5': [
+    detail(at(10, 2), 'sk-alpha1234567890', 'a1', 400_000),
+    detail(at(10, 8), 'sk-beta1234567890', 'b2', 200_000),
+    detail(at(9, 23), 'sk-alpha1234567890', 'a1', 1_000_000)
+  ],
+  'claude-sonnet': [detail(at(10, 9), 'sk-alpha1234567890', 'b2', 100_000)]
+});
+
+const budget = (patch: Partial<UsageBudget>): UsageBudget => ({
+  id: 'b',
+  scope: 'global',
+  target: '',
+  period: 'daily',
+  metric: 'tokens',
+  limit: 1_000_000,
+  createdAt: 0,
+  ...patch
+});
+
+describe('getBudgetPeriodRange', () => {
+  it('uses calendar days and months', () => {
+    expect(getBudgetPeriodRange('daily', at(10, 12))).toEqual({ start: at(10, 0), end: at(11, 0) });
+    expect(getBudgetPeriodRange('monthly', at(10, 12))).toEqual({
+      start: at(1, 0),
+      end: new Date(2026, 1, 1).getTime()
+    });
+  });
+});
+
+describe('evaluateBudget', () => {
+  const now = at(10, 12);
+
+  it('sums the current period and projects the end-of-period total', () => {
+    const status = evaluateBudget(usage, budget({}), {}, now);
+    expect(status.used).toBe(700_000);
+    expect(status.ratio).toBeCloseTo(0.7);
+    expect(status.projected).toBeCloseTo(1_400_000);
+    expect(status).toMatchObject({ level: 'ok', threshold: 0 });
+  });
+
+  it('filters by model, masked key and provider', () => {
+    const model = evaluateBudget(usage, budget({ scope: 'model', target: 'gpt-5' }), {}, now);
+    expect(model.used).toBe(600_000);
+
+    const source = evaluateBudget(
+      usage,
+      budget({ scope: 'source', target: 'sk-al***', limit: 500_000 }),
+      { masker: (value) => `${value.slice(0, 5)}***` },
+      now
+    );
+    expect(source).toMatchObject({ used: 500_000, level: 'exceeded', threshold: 1 });
+
+    const provider = evaluateBudget(
+      usage,
+      budget({ scope: 'provider', target: 'Codex' }),
+      { resolveProvider: (authIndex) => (authIndex === 'b2' ? 'codex' : 'gemini-cli') },
+      now
+    );
+    expect(provider.used).toBe(300_000);
+  });
+
+  it('measures cost with model prices', () => {
+    const status = evaluateBudget(
+      usage,
+      budget({ metric: 'cost', limit: 1 }),
+      { modelPrices: { 'gpt-5': { prompt: 1, completion: 0, cache: 0 } } },
+      now
+    );
+    expect(status.used).toBeCloseTo(0.6);
+  });
+});
+
+describe('collectBudgetAlerts', () => {
+  it('alerts once per threshold and period', () => {
+    const now = at(10, 12);
+    const warning = evaluateBudget(usage, budget({ limit: 800_000 }), {}, now);
+    expect(warning.threshold).toBe(0.8);
+
+    expect(collectBudgetAlerts([warning], {})).toHaveLength(1);
+    expect(
+      collectBudgetAlerts([warning], { b: { periodStart: at(10, 0), threshold: 0.8 } })
+    ).toEqual([]);
+    // 上一周期的记录不影响本周期
+    expect(
+      collectBudgetAlerts([warning], { b: { periodStart: at(9, 0), threshold: 1 } })
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Usage budgets: daily/monthly cost or token caps with projected spend and threshold alerts
+ */
+
+import {
+  calculateCost,
+  collectUsageDetails,
+  extractTotalTokens,
+  maskUsageSensitiveValue,
+  type ModelPrice,
+  type UsageDetail
+} from '../usage';
+import { normalizeAuthIndexValue } from '../quota/parsers';
+import type { UsageTimeRange } from './range';
+
+export type UsageBudgetScope = 'global' | 'model' | 'source' | 'provider';
+export type UsageBudgetPeriod = 'daily' | 'monthly';
+export type UsageBudgetMetric = 'cost' | 'tokens';
+export type UsageBudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export const USAGE_BUDGET_SCOPES: UsageBudgetScope[] = ['global', 'model', 'source', 'provider'];
+export const USAGE_BUDGET_PERIODS: UsageBudgetPeriod[] = ['daily', 'monthly'];
+export const USAGE_BUDGET_METRICS: UsageBudgetMetric[] = ['cost', 'tokens'];
+
+/** 依次触发的告警阈值（占预算的比例） */
+export const BUDGET_ALERT_THRESHOLDS = [0.8, 1];
+
+export interface UsageBudget {
+  id: string;
+  scope: UsageBudgetScope;
+  /**
+   * 作用对象：模型名、遮罩后的客户端 API 密钥或提供商；global 时为空字符串。
+   * 密钥只保存遮罩值，不落地明文
+   */
+  target: string;
+  period: UsageBudgetPeriod;
+  metric: UsageBudgetMetric;
+  /** 上限：美元或 tokens */
+  limit: number;
+  createdAt: number;
+}
+
+export interface UsageBudgetStatus {
+  budget: UsageBudget;
+  range: UsageTimeRange;
+  used: number;
+  ratio: number;
+  /** 按当前周期已过去时间线性外推的周期末用量 */
+  projected: number;
+  projectedRatio: number;
+  level: UsageBudgetLevel;
+  /** 已越过的最高告警阈值，未越过为 0 */
+  threshold: number;
+}
+
+/**
+ * 已发送的告警记录：同一周期内每个阈值只提醒一次
+ */
+export interface BudgetAlertMark {
+  periodStart: number;
+  threshold: number;
+}
+
+export interface BudgetAlert {
+  status: UsageBudgetStatus;
+  threshold: number;
+}
+
+export interface UsageBudgetContext {
+  modelPrices?: Record<string, ModelPrice>;
+  /** auth_index → 提供商（来自认证文件列表），用于 provider 范围 */
+  resolveProvider?: (authIndex: string) => string | undefined;
+  masker?: (value: string) => string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 预算周期的时间范围：自然日或自然月（本地时间）
+ */
+export function getBudgetPeriodRange(
+  period: UsageBudgetPeriod,
+  now: number = Date.now()
+): UsageTimeRange {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  if (period === 'monthly') {
+    start.setDate(1);
+    end.setFullYear(start.getFullYear(), start.getMonth() + 1, 1);
+  } else {
+    end.setDate(end.getDate() + 1);
+  }
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+export function getBudgetLevel(ratio: number): UsageBudgetLevel {
+  if (ratio >= 1) return 'exceeded';
+  if (ratio >= BUDGET_ALERT_THRESHOLDS[0]) return 'warning';
+  return 'ok';
+}
+
+const matchesBudget = (
+  detail: UsageDetail,
+  budget: UsageBudget,
+  { resolveProvider, masker }: UsageBudgetContext
+): boolean => {
+  switch (budget.scope) {
+    case 'model':
+      return detail.__modelName === budget.target;
+    case 'source':
+      return maskUsageSensitiveValue(detail.source, masker) === budget.target;
+    case 'provider': {
+      const authIndex = normalizeAuthIndexValue(detail.auth_index);
+      const provider = authIndex && resolveProvider ? resolveProvider(authIndex) : undefined;
+      return provider ? provider.toLowerCase() === budget.target.toLowerCase() : false;
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * 计算单个预算在当前周期内的用量、占比与周期末预测
+ */
+export function evaluateBudget(
+  usageData: unknown,
+  budget: UsageBudget,
+  context: UsageBudgetContext = {},
+  now: number = Date.now()
+): UsageBudgetStatus {
+  const range = getBudgetPeriodRange(budget.period, now);
+  let used = 0;
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    const time = Date.parse(detail.timestamp);
+    if (Number.isNaN(time) || time < range.start || time >= range.end) return;
+    if (!matchesBudget(detail, budget, context)) return;
+    used +=
+      budget.metric === 'cost'
+        ? calculateCost(detail, context.modelPrices ?? {})
+        : extractTotalTokens(detail);
+  });
+
+  // 周期刚开始时外推误差过大，至少按 1 小时计算
+  const periodMs = range.end - range.start;
+  const elapsedMs = Math.min(Math.max(now - range.start, HOUR_MS), periodMs);
+  const projected = used * (periodMs / elapsedMs);
+  const limit = budget.limit > 0 ? budget.limit : 0;
+  const ratio = limit ? used / limit : 0;
+  const threshold = BUDGET_ALERT_THRESHOLDS.filter((value) => ratio >= value).pop() ?? 0;
+
+  return {
+    budget,
+    range,
+    used,
+    ratio,
+    projected,
+    projectedRatio: limit ? projected / limit : 0,
+    level: getBudgetLevel(ratio),
+    threshold
+  };
+}
+
+export function evaluateBudgets(
+  usageData: unknown,
+  budgets: UsageBudget[],
+  context: UsageBudgetContext = {},
+  now: number = Date.now()
+): UsageBudgetStatus[] {
+  return budgets.map((budget) => evaluateBudget(usageData, budget, context, now));
+}
+
+/**
+ * 找出本周期内新越过阈值、尚未提醒过的预算；新周期开始时记录自动失效
+ */
+export function collectBudgetAlerts(
+  statuses: UsageBudgetStatus[],
+  marks: Record<string, BudgetAlertMark>
+): BudgetAlert[] {
+  return statuses
+    .filter((status) => {
+      if (!status.threshold) return false;
+      const mark = marks[status.budget.id];
+      return !mark || mark.periodStart !== status.range.start || mark.threshold < status.threshold;
+    })
+    .map((status) => ({ status, threshold: status.threshold }));
+}
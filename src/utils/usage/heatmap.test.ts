@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildUsageHeatmap } from './heatmap';
+import { chatUsageSnapshot, usageDetail } from './testFixtures';
+
+const utc = (day: number, hour: number) => Date.UTC(2026, 0, day, hour, 30, 0);
+const detail = (time: number, tokens: number) => usageDetail(time, { tokens });
+
+// 2026-01-05 为周一
+const usage = chatUsageSnapshot({
+  'gpt-5': [detail(utc(5, 9), 100), detail(utc(5, 9), 300), detail(utc(7, 23), 50)],
+  'claude-sonnet': [detail(utc(12, 9), 1000)]
+});
+
+describe('buildUsageHeatmap', () => {
+  it('builds a calendar grid in UTC and fills empty days', () => {
+    const heatmap = buildUsageHeatmap(usage, { timeZone: 'utc' });
+    expect(heatmap.rows.map((row) => row.key)).toEqual([
+      '2026-01-05',
+      '2026-01-06',
+      '2026-01-07',
+      '2026-01-08',
+      '2026-01-09',
+      '2026-01-10',
+      '2026-01-11',
+      '2026-01-12'
+    ]);
+    expect(heatmap.rows[0].values[9]).toBe(2);
+    expect(heatmap.rows[2].values[23]).toBe(1);
+    expect(heatmap.total).toBe(4);
+    expect(heatmap.peak).toEqual({ rowKey: '2026-01-05', hour: 9, value: 2 });
+    expect(heatmap.hourTotals[9]).toBe(3);
+  });
+
+  it('aggregates weekdays, filters by model and sums tokens', () => {
+    const heatmap = buildUsageHeatmap(usage, {
+      timeZone: 'utc',
+      layout: 'weekday',
+      metric: 'tokens',
+      model: 'gpt-5'
+    });
+    expect(heatmap.rows.map((row) => row.key)).toEqual(['1', '2', '3', '4', '5', '6', '0']);
+    expect(heatmap.rows[0]).toMatchObject({ key: '1', total: 400 });
+    expect(heatmap.rows[2].values[23]).toBe(50);
+    expect(heatmap.quietestHour).toBe(0);
+  });
+
+  it('keeps only the most recent days', () => {
+    const heatmap = buildUsageHeatmap(usage, { timeZone: 'utc', maxDays: 3 });
+    expect(heatmap.rows.map((row) => row.key)).toEqual(['2026-01-10', '2026-01-11', '2026-01-12']);
+    expect(heatmap.total).toBe(1);
+  });
+});
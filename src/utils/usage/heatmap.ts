@@ -0,0 +1,186 @@
+/**
+ * Day × hour-of-day usage heatmap (calendar days or aggregated weekdays)
+ */
+
+import {
+  calculateCost,
+  collectUsageDetails,
+  extractTotalTokens,
+  type ModelPrice,
+  type UsageDetail
+} from '../usage';
+import type { UsageTimeRange } from './range';
+
+export type UsageHeatmapMetric = 'requests' | 'tokens' | 'cost';
+export type UsageHeatmapLayout = 'calendar' | 'weekday';
+export type UsageHeatmapTimeZone = 'local' | 'utc';
+
+export interface UsageHeatmapOptions {
+  metric?: UsageHeatmapMetric;
+  layout?: UsageHeatmapLayout;
+  timeZone?: UsageHeatmapTimeZone;
+  /** 只统计某个模型，空字符串表示全部 */
+  model?: string;
+  modelPrices?: Record<string, ModelPrice>;
+  /** 日历视图补齐范围内没有数据的日期 */
+  range?: UsageTimeRange | null;
+  /** 日历视图最多显示的天数（保留最近的日期） */
+  maxDays?: number;
+}
+
+export interface UsageHeatmapRow {
+  /** 日历视图为 YYYY-MM-DD，星期视图为 0-6（0 为周日） */
+  key: string;
+  /** 24 个小时的数值 */
+  values: number[];
+  total: number;
+}
+
+export interface UsageHeatmapCell {
+  rowKey: string;
+  hour: number;
+  value: number;
+}
+
+export interface UsageHeatmap {
+  rows: UsageHeatmapRow[];
+  /** 各小时（0-23）的合计 */
+  hourTotals: number[];
+  max: number;
+  total: number;
+  /** 数值最高的单元格 */
+  peak: UsageHeatmapCell | null;
+  /** 合计最低的小时，可作为维护窗口参考 */
+  quietestHour: number | null;
+}
+
+export const HEATMAP_HOURS = 24;
+export const DEFAULT_HEATMAP_MAX_DAYS = 62;
+/** 星期视图的行顺序：周一在前 */
+export const HEATMAP_WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const getParts = (time: number, timeZone: UsageHeatmapTimeZone) => {
+  const date = new Date(time);
+  return timeZone === 'utc'
+    ? {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth(),
+        day: date.getUTCDate(),
+        weekday: date.getUTCDay(),
+        hour: date.getUTCHours()
+      }
+    : {
+        year: date.getFullYear(),
+        month: date.getMonth(),
+        day: date.getDate(),
+        weekday: date.getDay(),
+        hour: date.getHours()
+      };
+};
+
+const dayKey = (time: number, timeZone: UsageHeatmapTimeZone) => {
+  const { year, month, day } = getParts(time, timeZone);
+  return `${year}-${pad(month + 1)}-${pad(day)}`;
+};
+
+// 以当天正午为锚点逐日递增，避免夏令时切换日导致跳过或重复日期
+const listDays = (start: number, end: number, timeZone: UsageHeatmapTimeZone): string[] => {
+  const first = getParts(start, timeZone);
+  const last = dayKey(end, timeZone);
+  const anchor =
+    timeZone === 'utc'
+      ? Date.UTC(first.year, first.month, first.day, 12)
+      : new Date(first.year, first.month, first.day, 12).getTime();
+  const days: string[] = [];
+  for (let time = anchor; ; time += DAY_MS) {
+    const key = dayKey(time, timeZone);
+    days.push(key);
+    if (key >= last) return days;
+  }
+};
+
+const metricValue = (
+  detail: UsageDetail,
+  metric: UsageHeatmapMetric,
+  modelPrices: Record<string, ModelPrice>
+): number => {
+  if (metric === 'tokens') return extractTotalTokens(detail);
+  if (metric === 'cost') return calculateCost(detail, modelPrices);
+  return 1;
+};
+
+/**
+ * 按 日期/星期 × 小时 汇总请求数、tokens 或费用；时间按本地时区或 UTC 拆分
+ */
+export function buildUsageHeatmap(
+  usageData: unknown,
+  {
+    metric = 'requests',
+    layout = 'calendar',
+    timeZone = 'local',
+    model = '',
+    modelPrices = {},
+    range = null,
+    maxDays = DEFAULT_HEATMAP_MAX_DAYS
+  }: UsageHeatmapOptions = {}
+): UsageHeatmap {
+  const cells = new Map<string, number[]>();
+  let start = range ? range.start : Infinity;
+  let end = range ? range.end - 1 : -Infinity;
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    if (model && detail.__modelName !== model) return;
+    const time = Date.parse(detail.timestamp);
+    if (Number.isNaN(time)) return;
+    const value = metricValue(detail, metric, modelPrices);
+    if (!value) return;
+
+    const parts = getParts(time, timeZone);
+    const key = layout === 'weekday' ? String(parts.weekday) : dayKey(time, timeZone);
+    let values = cells.get(key);
+    if (!values) {
+      values = new Array(HEATMAP_HOURS).fill(0);
+      cells.set(key, values);
+    }
+    values[parts.hour] += value;
+    if (!range) {
+      start = Math.min(start, time);
+      end = Math.max(end, time);
+    }
+  });
+
+  let keys: string[] = [];
+  if (layout === 'weekday') {
+    keys = HEATMAP_WEEKDAY_ORDER.map(String);
+  } else if (Number.isFinite(start)) {
+    // 只保留最近 maxDays 天
+    keys = listDays(Math.max(start, end - maxDays * DAY_MS), end, timeZone).slice(-maxDays);
+  }
+
+  const rows: UsageHeatmapRow[] = keys.map((key) => {
+    const values = cells.get(key) ?? new Array(HEATMAP_HOURS).fill(0);
+    return { key, values, total: values.reduce((sum, value) => sum + value, 0) };
+  });
+
+  const hourTotals = new Array(HEATMAP_HOURS).fill(0);
+  let max = 0;
+  let total = 0;
+  let peak: UsageHeatmapCell | null = null;
+  for (const row of rows) {
+    total += row.total;
+    row.values.forEach((value, hour) => {
+      hourTotals[hour] += value;
+      if (value > max) {
+        max = value;
+        peak = { rowKey: row.key, hour, value };
+      }
+    });
+  }
+  const quietestHour = total > 0 ? hourTotals.indexOf(Math.min(...hourTotals)) : null;
+
+  return { rows, hourTotals, max, total, peak, quietestHour };
+}
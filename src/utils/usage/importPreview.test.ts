@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildUsageImportPayload,
+  buildUsageImportPreview,
+  parseUsageSnapshotFile
+} from './importPreview';
+import { chatUsageSnapshot as snapshot, localTime, usageDetail } from './testFixtures';
+
+const at = (day: number, hour: number) => localTime(0, day, hour);
+const detail = (time: number, tokens: number, failed = false) =>
+  usageDetail(time, { tokens, failed });
+
+const first = snapshot({
+  'gpt-5': [detail(at(1, 10), 100), detail(at(2, 10), 200, true)],
+  'claude-sonnet': [detail(at(3, 10), 300)]
+});
+// 与第一个文件重叠一条 gpt-5 记录
+const second = snapshot({ 'gpt-5': [detail(at(2, 10), 200, true), detail(at(4, 10), 400)] });
+const current = snapshot({ 'gpt-5': [detail(at(1, 10), 100)] });
+
+describe('parseUsageSnapshotFile', () => {
+  it('accepts wrapped export payloads and bare usage objects', () => {
+    const wrapped = parseUsageSnapshotFile(
+      'a.json',
+      JSON.stringify({ version: 1, exported_at: '2026-01-05T00:00:00Z', usage: first })
+    );
+    expect(wrapped.exportedAt).toBe('2026-01-05T00:00:00Z');
+    expect(wrapped.usage).toEqual(first);
+    expect(parseUsageSnapshotFile('b.json', JSON.stringify(second)).usage).toEqual(second);
+  });
+
+  it('rejects invalid JSON and payloads without apis', () => {
+    expect(parseUsageSnapshotFile('c.json', '{').usage).toBeNull();
+    expect(parseUsageSnapshotFile('d.json', '{"usage":{"total":1}}').usage).toBeNull();
+  });
+});
+
+describe('buildUsageImportPreview', () => {
+  it('merges files and counts duplicates and overlap with current data', () => {
+    const preview = buildUsageImportPreview([first, second], current);
+    expect(preview).toMatchObject({
+      records: 4,
+      duplicates: 1,
+      range: { start: at(1, 10), end: at(4, 10) + 1 },
+      selected: 4,
+      selectedOverlapping: 1
+    });
+    expect(preview.models).toEqual([
+      { model: 'gpt-5', records: 3, overlapping: 1 },
+      { model: 'claude-sonnet', records: 1, overlapping: 0 }
+    ]);
+  });
+
+  it('applies the selected range and models', () => {
+    const preview = buildUsageImportPreview([first, second], current, {
+      range: { start: at(2, 0), end: at(4, 0) },
+      models: ['claude-sonnet']
+    });
+    expect(preview.models).toEqual([
+      { model: 'claude-sonnet', records: 1, overlapping: 0 },
+      { model: 'gpt-5', records: 1, overlapping: 0 }
+    ]);
+    expect(preview.selected).toBe(1);
+  });
+});
+
+describe('buildUsageImportPayload', () => {
+  it('builds a deduplicated snapshot with recomputed totals', () => {
+    const payload = buildUsageImportPayload(
+      [first, second],
+      { range: null, models: ['gpt-5'] },
+      at(5, 0)
+    );
+    expect(payload.exported_at).toBe(new Date(at(5, 0)).toISOString());
+    expect(payload.usage).toMatchObject({
+      total_requests: 3,
+      success_count: 2,
+      failure_count: 1,
+      total_tokens: 700
+    });
+    expect(Object.keys(payload.usage.apis['POST /v1/chat/completions'].models)).toEqual(['gpt-5']);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Client-side preview and selection for usage snapshot imports
+ */
+
+import { extractTotalTokens, type UsageDetail } from '../usage';
+import type { UsageApiSnapshot, UsageSnapshot, UsageTimeRange } from './range';
+
+/** 待导入的快照文件；解析失败时 usage 为 null */
+export interface UsageImportFile {
+  name: string;
+  usage: Record<string, unknown> | null;
+  /** 快照导出时间（UsageExportPayload.exported_at） */
+  exportedAt: string;
+}
+
+/**
+ * 导入范围：range 为空表示不限时间，models 为空表示全部模型
+ */
+export interface UsageImportSelection {
+  range: UsageTimeRange | null;
+  models: string[] | null;
+}
+
+export interface UsageImportModelSummary {
+  model: string;
+  /** 时间范围内的记录数 */
+  records: number;
+  /** 其中与当前数据重复、导入时会被跳过的记录数 */
+  overlapping: number;
+}
+
+export interface UsageImportPreview {
+  /** 所有文件合并去重后的记录数 */
+  records: number;
+  /** 多个文件之间重复的记录数 */
+  duplicates: number;
+  /** 记录的时间跨度 */
+  range: UsageTimeRange | null;
+  /** 按所选时间范围统计，按记录数降序 */
+  models: UsageImportModelSummary[];
+  /** 按所选时间范围与模型统计 */
+  selected: number;
+  selectedOverlapping: number;
+}
+
+export const ALL_USAGE_IMPORT_SELECTION: UsageImportSelection = { range: null, models: null };
+
+interface UsageImportRecord {
+  key: string;
+  endpoint: string;
+  model: string;
+  time: number;
+  detail: UsageDetail;
+}
+
+/**
+ * 解析导出的快照：兼容 UsageExportPayload 包装（{ usage: {...} }）与直接的 usage 对象，
+ * 无法解析或缺少 apis 时 usage 为 null
+ */
+export function parseUsageSnapshotFile(name: string, text: string): UsageImportFile {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { name, usage: null, exportedAt: '' };
+  }
+  if (!payload || typeof payload !== 'object') {
+    return { name, usage: null, exportedAt: '' };
+  }
+  const { usage: wrapped, exported_at: exportedAt } = payload as {
+    usage?: unknown;
+    exported_at?: unknown;
+  };
+  const usage = (wrapped && typeof wrapped === 'object' ? wrapped : payload) as Record<
+    string,
+    unknown
+  >;
+  return {
+    name,
+    usage: usage.apis && typeof usage.apis === 'object' ? usage : null,
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : ''
+  };
+}
+
+/**
+ * 记录去重键：接口 + 模型 + 时间 + 来源 + 认证文件 + 总 tokens，
+ * 用于合并多个文件以及预估导入时会被跳过的已有记录
+ */
+export function usageRecordKey(endpoint: string, model: string, detail: UsageDetail): string {
+  const time = Date.parse(detail.timestamp);
+  return [
+    endpoint,
+    model,
+    Number.isNaN(time) ? detail.timestamp : time,
+    detail.source ?? '',
+    detail.auth_index ?? '',
+    extractTotalTokens(detail)
+  ].join('|');
+}
+
+const collectRecords = (usageData: unknown): UsageImportRecord[] => {
+  const records: UsageImportRecord[] = [];
+  const apis = (usageData as { apis?: Record<string, unknown> } | null)?.apis ?? {};
+  Object.entries(apis).forEach(([endpoint, apiEntry]) => {
+    const models = (apiEntry as { models?: Record<string, unknown> } | null)?.models ?? {};
+    Object.entries(models).forEach(([model, modelEntry]) => {
+      const details = (modelEntry as { details?: unknown } | null)?.details;
+      if (!Array.isArray(details)) return;
+      details.forEach((detail: UsageDetail) => {
+        const time = Date.parse(detail?.timestamp ?? '');
+        if (Number.isNaN(time)) return;
+        records.push({
+          key: usageRecordKey(endpoint, model, detail),
+          endpoint,
+          model,
+          time,
+          detail
+        });
+      });
+    });
+  });
+  return records;
+};
+
+// 合并多个快照并去掉文件之间的重复记录
+const mergeSnapshots = (snapshots: unknown[]) => {
+  const seen = new Set<string>();
+  const records: UsageImportRecord[] = [];
+  let duplicates = 0;
+  snapshots.forEach((snapshot) => {
+    collectRecords(snapshot).forEach((record) => {
+      if (seen.has(record.key)) {
+        duplicates += 1;
+        return;
+      }
+      seen.add(record.key);
+      records.push(record);
+    });
+  });
+  return { records, duplicates };
+};
+
+const inRange = (record: UsageImportRecord, range: UsageTimeRange | null) =>
+  !range || (record.time >= range.start && record.time < range.end);
+
+const isSelected = (record: UsageImportRecord, selection: UsageImportSelection) =>
+  inRange(record, selection.range) &&
+  (!selection.models || selection.models.includes(record.model));
+
+export function buildUsageImportPreview(
+  snapshots: unknown[],
+  currentUsage: unknown,
+  selection: UsageImportSelection = ALL_USAGE_IMPORT_SELECTION
+): UsageImportPreview {
+  const { records, duplicates } = mergeSnapshots(snapshots);
+  const existing = new Set(collectRecords(currentUsage).map((record) => record.key));
+  const byModel = new Map<string, UsageImportModelSummary>();
+  let start = Infinity;
+  let end = -Infinity;
+  let selected = 0;
+  let selectedOverlapping = 0;
+
+  records.forEach((record) => {
+    start = Math.min(start, record.time);
+    end = Math.max(end, record.time);
+    let summary = byModel.get(record.model);
+    if (!summary) {
+      summary = { model: record.model, records: 0, overlapping: 0 };
+      byModel.set(record.model, summary);
+    }
+    if (!inRange(record, selection.range)) return;
+
+    const overlapping = existing.has(record.key);
+    summary.records += 1;
+    if (overlapping) summary.overlapping += 1;
+    if (isSelected(record, selection)) {
+      selected += 1;
+      if (overlapping) selectedOverlapping += 1;
+    }
+  });
+
+  return {
+    records: records.length,
+    duplicates,
+    range: Number.isFinite(start) ? { start, end: end + 1 } : null,
+    models: Array.from(byModel.values()).sort(
+      (a, b) => b.records - a.records || a.model.localeCompare(b.model)
+    ),
+    selected,
+    selectedOverlapping
+  };
+}
+
+/**
+ * 按所选范围与模型合并多个快照，生成提交给 /usage/import 的载荷
+ */
+export function buildUsageImportPayload(
+  snapshots: unknown[],
+  selection: UsageImportSelection = ALL_USAGE_IMPORT_SELECTION,
+  now: number = Date.now()
+): { version: number; exported_at: string; usage: UsageSnapshot } {
+  const usage: UsageSnapshot = {
+    total_requests: 0,
+    success_count: 0,
+    failure_count: 0,
+    total_tokens: 0,
+    apis: {}
+  };
+
+  mergeSnapshots(snapshots)
+    .records.filter((record) => isSelected(record, selection))
+    .forEach(({ endpoint, model, detail }) => {
+      const api: UsageApiSnapshot = (usage.apis[endpoint] ??= {
+        total_requests: 0,
+        total_tokens: 0,
+        models: {}
+      });
+      const entry = (api.models[model] ??= { total_requests: 0, total_tokens: 0, details: [] });
+      const tokens = extractTotalTokens(detail);
+      entry.details.push(detail);
+      entry.total_requests += 1;
+      entry.total_tokens += tokens;
+      api.total_requests += 1;
+      api.total_tokens += tokens;
+      usage.total_requests += 1;
+      usage.total_tokens += tokens;
+      if (detail.failed === true) usage.failure_count += 1;
+    });
+
+  usage.success_count = usage.total_requests - usage.failure_count;
+  return { version: 1, exported_at: new Date(now).toISOString(), usage };
+}
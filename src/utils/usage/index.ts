@@ -2,5 +2,186 @@
 export { sparklineOptions, buildChartOptions, getHourChartMinWidth } from './chartConfig';
 export type { ChartConfigOptions } from './chartConfig';
 
+// Date-range filtering and previous-period comparison
+export {
+  USAGE_RANGE_PRESETS,
+  formatDateInput,
+  getDefaultCustomRange,
+  resolveUsageRange,
+  getPreviousUsageRange,
+  isInUsageRange,
+  filterUsageByRange,
+  calculateRangePerMinuteRates,
+  calculateDelta,
+  withPreviousPeriod
+} from './range';
+export type {
+  UsageRangePreset,
+  UsageTimeRange,
+  UsageRangeSelection,
+  UsageSnapshot,
+  UsageApiSnapshot,
+  UsageModelSnapshot
+} from './range';
+
+// Breakdown by client API key and auth file
+export {
+  DEFAULT_BREAKDOWN_CHART_GROUPS,
+  getBreakdownKey,
+  buildUsageBreakdown,
+  buildBreakdownChartData
+} from './breakdown';
+export type {
+  UsageBreakdownDimension,
+  UsageBreakdownRow,
+  UsageBreakdownOptions,
+  UsageBreakdownChartOptions
+} from './breakdown';
+
+// Budgets and spend alerts
+export {
+  USAGE_BUDGET_SCOPES,
+  USAGE_BUDGET_PERIODS,
+  USAGE_BUDGET_METRICS,
+  BUDGET_ALERT_THRESHOLDS,
+  getBudgetPeriodRange,
+  getBudgetLevel,
+  evaluateBudget,
+  evaluateBudgets,
+  collectBudgetAlerts
+} from './budgets';
+export type {
+  UsageBudgetScope,
+  UsageBudgetPeriod,
+  UsageBudgetMetric,
+  UsageBudgetLevel,
+  UsageBudget,
+  UsageBudgetStatus,
+  UsageBudgetContext,
+  BudgetAlertMark,
+  BudgetAlert
+} from './budgets';
+
+// Price catalog import/export
+export {
+  PRICE_CATALOG_VERSION,
+  PRICE_CATALOG_CSV_COLUMNS,
+  isValidPriceKey,
+  serializePriceCatalog,
+  priceCatalogToCsv,
+  detectPriceCatalogFormat,
+  parsePriceCatalog,
+  mergePriceCatalog
+} from './priceCatalog';
+export type { PriceCatalogFormat, PriceCatalogParseResult } from './priceCatalog';
+
+// Per-request explorer
+export {
+  DEFAULT_USAGE_REQUEST_FILTERS,
+  DEFAULT_USAGE_REQUEST_SORT,
+  collectUsageRequests,
+  countActiveUsageRequestFilters,
+  filterUsageRequests,
+  sortUsageRequests,
+  usageRequestsToCsv
+} from './requests';
+export type {
+  UsageRequestRow,
+  UsageRequestSortKey,
+  UsageRequestSort,
+  UsageRequestStatusFilter,
+  UsageRequestFilters,
+  AuthFileResolver
+} from './requests';
+
+// Hourly anomaly detection
+export {
+  USAGE_ANOMALY_METRICS,
+  DEFAULT_ANOMALY_WINDOW_HOURS,
+  DEFAULT_ANOMALY_MIN_BASELINE_HOURS,
+  DEFAULT_ANOMALY_THRESHOLD,
+  DEFAULT_ANOMALY_MIN_REQUESTS,
+  scoreAgainstBaseline,
+  getUsageTimeExtent,
+  detectUsageAnomalies,
+  withAnomalyMarkers
+} from './anomalies';
+export type {
+  UsageAnomalyMetric,
+  UsageAnomalyOptions,
+  UsageAnomalyHit,
+  UsageAnomalyContributor,
+  UsageAnomaly
+} from './anomalies';
+
+// Snapshot import preview
+export {
+  ALL_USAGE_IMPORT_SELECTION,
+  parseUsageSnapshotFile,
+  usageRecordKey,
+  buildUsageImportPreview,
+  buildUsageImportPayload
+} from './importPreview';
+export type {
+  UsageImportFile,
+  UsageImportSelection,
+  UsageImportModelSummary,
+  UsageImportPreview
+} from './importPreview';
+
+// Day × hour heatmap
+export {
+  HEATMAP_HOURS,
+  DEFAULT_HEATMAP_MAX_DAYS,
+  HEATMAP_WEEKDAY_ORDER,
+  buildUsageHeatmap
+} from './heatmap';
+export type {
+  UsageHeatmapMetric,
+  UsageHeatmapLayout,
+  UsageHeatmapTimeZone,
+  UsageHeatmapOptions,
+  UsageHeatmapRow,
+  UsageHeatmapCell,
+  UsageHeatmap
+} from './heatmap';
+
+// Latency and throughput from request logs
+export {
+  DEFAULT_LATENCY_TOLERANCE_MS,
+  DEFAULT_LATENCY_SERIES_LIMIT,
+  matchUsageLatency,
+  summarizeUsageLatency,
+  buildUsageLatencySeries
+} from './latency';
+export type {
+  UsageLatencyDimension,
+  UsageLatencySample,
+  UsageLatencyMatchOptions,
+  UsageLatencyMatch,
+  UsageLatencyStats
+} from './latency';
+
+// Printable report and per-table CSV exports
+export {
+  USAGE_REPORT_TABLES,
+  getMonthRange,
+  buildUsageReport,
+  buildUsageReportChart,
+  usageReportTableToCsv,
+  renderUsageReportHtml
+} from './report';
+export type {
+  UsageReportTable,
+  UsageReportChartMetric,
+  UsageReportSummary,
+  UsageReportDay,
+  UsageReportRow,
+  UsageReport,
+  UsageReportOptions,
+  UsageReportChart,
+  UsageReportLabels
+} from './report';
+
 // Re-export everything from the main usage.ts for backwards compatibility
 export * from '../usage';
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildUsageLatencySeries, matchUsageLatency, summarizeUsageLatency } from './latency';
+import { localTime, usageDetail, usageSnapshot } from './testFixtures';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const at = (hour: number, second: number, ms = 0) => localTime(0, 5, hour, 0, second, ms);
+const logTime = (time: number) => {
+  const date = new Date(time);
+  return `2026-01-05 ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+const accessLine = (id: string, time: number, status: number, latency: string) =>
+  `[${logTime(time)}] [${id}] [info ] [gin_logger.go:94] ${status} | ${latency} | 127.0.0.1 | POST /v1/chat/completions`;
+const routingLine = (id: string, time: number, model: string) =>
+  `[${logTime(time)}] [${id}] [debug] [conductor.go:188] routing model ${model} to codex-a.json`;
+const detail = (time: number, authIndex: number, outputTokens: number, failed = false) =>
+  usageDetail(time, { authIndex, tokens: { input: 10, output: outputTokens }, failed });
+
+const usage = usageSnapshot({
+  'sk-test': {
+    'gpt-5': [detail(at(9, 10, 400), 1, 200), detail(at(10, 30, 200), 1, 0, true)],
+    'claude-sonnet': [detail(at(9, 10, 700), 2, 300), detail(at(11, 0, 100), 2, 100)]
+  }
+});
+
+const lines = [
+  routingLine('aaaa0001', at(9, 8), 'gpt-5'),
+  routingLine('aaaa0002', at(9, 7), 'claude-sonnet'),
+  // 同一秒内完成的两个请求依靠模型提示区分
+  accessLine('aaaa0002', at(9, 10), 200, '3s'),
+  accessLine('aaaa0001', at(9, 10), 200, '2s'),
+  accessLine('aaaa0003', at(10, 30), 429, '120ms'),
+  accessLine('aaaa0004', at(11, 0), 200, '500ms'),
+  `[${logTime(at(11, 0))}] [--------] [info ] [gin_logger.go:94] 200 | 5ms | 127.0.0.1 | GET /v0/management/usage`,
+  // 没有对应使用记录的请求
+  accessLine('aaaa0005', at(12, 0), 200, '1s')
+];
+
+const providers = new Map([
+  ['1', 'codex'],
+  ['2', 'claude']
+]);
+
+describe('matchUsageLatency', () => {
+  it('pairs access log lines with usage records using model hints and status', () => {
+    const match = matchUsageLatency(usage, lines, { providers });
+    expect(match.accessLines).toBe(5);
+    expect(match.usageRecords).toBe(4);
+    expect(
+      match.samples.map(({ model, provider, latencyMs, failed }) => ({
+        model,
+        provider,
+        latencyMs,
+        failed
+      }))
+    ).toEqual([
+      { model: 'claude-sonnet', provider: 'claude', latencyMs: 3000, failed: false },
+      { model: 'gpt-5', provider: 'codex', latencyMs: 2000, failed: false },
+      { model: 'gpt-5', provider: 'codex', latencyMs: 120, failed: true },
+      { model: 'claude-sonnet', provider: 'claude', latencyMs: 500, failed: false }
+    ]);
+  });
+
+  it('skips usage records outside the range', () => {
+    const match = matchUsageLatency(usage, lines, { range: { start: at(10, 0), end: at(12, 0) } });
+    expect(match.usageRecords).toBe(2);
+    expect(match.samples.map((sample) => sample.latencyMs)).toEqual([120, 500]);
+  });
+});
+
+describe('summarizeUsageLatency', () => {
+  it('computes percentiles and output speed over successful requests', () => {
+    const { samples } = matchUsageLatency(usage, lines, { providers });
+    expect(summarizeUsageLatency(samples, 'model')).toEqual([
+      { key: 'claude-sonnet', requests: 2, failures: 0, p50: 500, p95: 3000, tokensPerSecond: 100 },
+      { key: 'gpt-5', requests: 2, failures: 1, p50: 2000, p95: 2000, tokensPerSecond: 100 }
+    ]);
+    expect(summarizeUsageLatency(samples, 'provider').map((row) => row.key)).toEqual([
+      'claude',
+      'codex'
+    ]);
+  });
+});
+
+describe('buildUsageLatencySeries', () => {
+  it('builds hourly p50 latency in seconds with gaps', () => {
+    const { samples } = matchUsageLatency(usage, lines, { providers });
+    const chart = buildUsageLatencySeries(samples, 'model', 'hour', ['gpt-5', 'claude-sonnet']);
+    expect(chart.labels).toEqual(['01-05 09:00', '01-05 11:00']);
+    expect(chart.datasets[0].data).toEqual([2, NaN]);
+    expect(chart.datasets[1].data).toEqual([3, 0.5]);
+  });
+});
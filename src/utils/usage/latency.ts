@@ -0,0 +1,309 @@
+/**
+ * Latency and throughput per model / provider, joining request logs with usage records
+ */
+
+import { MANAGEMENT_API_PREFIX } from '../constants';
+import { isAccessLogLine, percentile } from '../logs/analytics';
+import { parseLatencyMs, parseLogLine } from '../logs/parser';
+import { parseLogTimestamp } from '../logs/trace';
+import { normalizeAuthIndexValue } from '../quota/parsers';
+import {
+  CHART_COLORS,
+  collectUsageDetails,
+  formatDayLabel,
+  formatHourLabel,
+  type ChartData
+} from '../usage';
+import type { UsageTimeRange } from './range';
+
+export type UsageLatencyDimension = 'model' | 'provider';
+
+export interface UsageLatencySample {
+  /** 使用记录的时间戳（毫秒），即请求完成时间 */
+  time: number;
+  model: string;
+  /** 认证文件所属提供商，无法识别时为空字符串 */
+  provider: string;
+  latencyMs: number;
+  outputTokens: number;
+  failed: boolean;
+}
+
+export interface UsageLatencyMatchOptions {
+  range?: UsageTimeRange | null;
+  /** auth_index → 提供商 */
+  providers?: Map<string, string>;
+  /** 日志时间与使用记录时间允许的偏差（毫秒） */
+  toleranceMs?: number;
+}
+
+export interface UsageLatencyMatch {
+  samples: UsageLatencySample[];
+  /** 参与匹配的访问日志行数 */
+  accessLines: number;
+  /** 范围内的使用记录数 */
+  usageRecords: number;
+}
+
+export interface UsageLatencyStats {
+  key: string;
+  /** 匹配到日志的请求数 */
+  requests: number;
+  failures: number;
+  /** 成功请求的延迟百分位（毫秒） */
+  p50?: number;
+  p95?: number;
+  /** 成功请求每秒输出 tokens 的中位数 */
+  tokensPerSecond?: number;
+}
+
+export const DEFAULT_LATENCY_TOLERANCE_MS = 1000;
+export const DEFAULT_LATENCY_SERIES_LIMIT = 5;
+
+const SECOND_MS = 1000;
+// 同一请求 ID 的其他日志行中出现的模型名，例如 "routing model gpt-5 to ..."
+const MODEL_HINT_REGEX = /\bmodel[=:\s]+"?([A-Za-z0-9][\w.:/@-]*)/i;
+
+interface AccessEntry {
+  time: number;
+  latencyMs: number;
+  failed: boolean;
+  model?: string;
+}
+
+interface UsageEntry {
+  time: number;
+  model: string;
+  provider: string;
+  outputTokens: number;
+  failed: boolean;
+}
+
+const collectAccessEntries = (lines: string[]): AccessEntry[] => {
+  const parsed = lines.map(parseLogLine);
+  const modelHints = new Map<string, string>();
+  parsed.forEach((line) => {
+    if (!line.requestId || modelHints.has(line.requestId) || isAccessLogLine(line)) return;
+    const match = line.message.match(MODEL_HINT_REGEX);
+    if (match) modelHints.set(line.requestId, match[1]);
+  });
+
+  const entries: AccessEntry[] = [];
+  parsed.forEach((line) => {
+    // 只有 POST 请求会产生使用记录，管理接口的访问日志不参与匹配
+    if (!isAccessLogLine(line) || line.method !== 'POST') return;
+    if (line.path?.startsWith(MANAGEMENT_API_PREFIX)) return;
+    const time = parseLogTimestamp(line.timestamp);
+    const latencyMs = parseLatencyMs(line.latency);
+    if (time === undefined || latencyMs === undefined) return;
+    entries.push({
+      time,
+      latencyMs,
+      failed: (line.statusCode ?? 0) >= 400,
+      model: line.requestId ? modelHints.get(line.requestId) : undefined
+    });
+  });
+  return entries.sort((a, b) => a.time - b.time);
+};
+
+const collectUsageEntries = (
+  usageData: unknown,
+  range: UsageTimeRange | null,
+  providers: Map<string, string>
+): UsageEntry[] => {
+  const entries: UsageEntry[] = [];
+  collectUsageDetails(usageData).forEach((detail) => {
+    const time = Date.parse(detail.timestamp);
+    if (Number.isNaN(time)) return;
+    if (range && (time < range.start || time >= range.end)) return;
+    const authIndex = normalizeAuthIndexValue(detail.auth_index);
+    entries.push({
+      time,
+      model: detail.__modelName || 'Unknown',
+      provider: (authIndex && providers.get(authIndex)) || '',
+      outputTokens: Number(detail.tokens?.output_tokens) || 0,
+      failed: detail.failed === true
+    });
+  });
+  return entries.sort((a, b) => a.time - b.time);
+};
+
+// 第一个时间不早于 time 的使用记录下标
+const lowerBound = (entries: UsageEntry[], time: number) => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].time < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * 将访问日志行与使用记录一一配对：日志时间精确到秒且记录于请求完成时，
+ * 因此在 [日志时间 - 容差, 日志时间 + 1s + 容差) 内选择候选记录，
+ * 依次优先模型一致、成功/失败状态一致、时间最接近的记录
+ */
+export function matchUsageLatency(
+  usageData: unknown,
+  lines: string[],
+  {
+    range = null,
+    providers = new Map(),
+    toleranceMs = DEFAULT_LATENCY_TOLERANCE_MS
+  }: UsageLatencyMatchOptions = {}
+): UsageLatencyMatch {
+  const accessEntries = collectAccessEntries(lines);
+  const usageEntries = collectUsageEntries(usageData, range, providers);
+  const used = new Array<boolean>(usageEntries.length).fill(false);
+  const samples: UsageLatencySample[] = [];
+
+  accessEntries.forEach((access) => {
+    const windowEnd = access.time + SECOND_MS + toleranceMs;
+    const center = access.time + SECOND_MS / 2;
+    let best = -1;
+    let bestRank: [number, number, number] | null = null;
+    for (
+      let index = lowerBound(usageEntries, access.time - toleranceMs);
+      index < usageEntries.length && usageEntries[index].time < windowEnd;
+      index++
+    ) {
+      if (used[index]) continue;
+      const entry = usageEntries[index];
+      const rank: [number, number, number] = [
+        access.model && access.model !== entry.model ? 1 : 0,
+        access.failed !== entry.failed ? 1 : 0,
+        Math.abs(entry.time - center)
+      ];
+      if (
+        !bestRank ||
+        rank[0] < bestRank[0] ||
+        (rank[0] === bestRank[0] &&
+          (rank[1] < bestRank[1] || (rank[1] === bestRank[1] && rank[2] < bestRank[2])))
+      ) {
+        best = index;
+        bestRank = rank;
+      }
+    }
+    if (best < 0) return;
+    used[best] = true;
+    const entry = usageEntries[best];
+    samples.push({
+      time: entry.time,
+      model: entry.model,
+      provider: entry.provider,
+      latencyMs: access.latencyMs,
+      outputTokens: entry.outputTokens,
+      failed: entry.failed
+    });
+  });
+
+  return { samples, accessLines: accessEntries.length, usageRecords: usageEntries.length };
+}
+
+const median = (values: number[]) =>
+  percentile(
+    [...values].sort((a, b) => a - b),
+    50
+  );
+
+/**
+ * 按模型或提供商汇总延迟百分位与输出速度，按匹配请求数降序；失败请求只计数
+ */
+export function summarizeUsageLatency(
+  samples: UsageLatencySample[],
+  dimension: UsageLatencyDimension
+): UsageLatencyStats[] {
+  const groups = new Map<string, UsageLatencySample[]>();
+  samples.forEach((sample) => {
+    const key = sample[dimension];
+    const group = groups.get(key);
+    if (group) {
+      group.push(sample);
+    } else {
+      groups.set(key, [sample]);
+    }
+  });
+
+  return Array.from(groups, ([key, group]) => {
+    const succeeded = group.filter((sample) => !sample.failed);
+    const latencies = succeeded.map((sample) => sample.latencyMs).sort((a, b) => a - b);
+    const speeds = succeeded
+      .filter((sample) => sample.outputTokens > 0 && sample.latencyMs > 0)
+      .map((sample) => sample.outputTokens / (sample.latencyMs / SECOND_MS));
+    return {
+      key,
+      requests: group.length,
+      failures: group.length - succeeded.length,
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      tokensPerSecond: median(speeds)
+    };
+  }).sort((a, b) => b.requests - a.requests || a.key.localeCompare(b.key));
+}
+
+/**
+ * 构建各分组成功请求 p50 延迟（秒）的时间序列，没有样本的时间桶为空缺
+ */
+export function buildUsageLatencySeries(
+  samples: UsageLatencySample[],
+  dimension: UsageLatencyDimension,
+  period: 'hour' | 'day',
+  keys: string[]
+): ChartData {
+  const bucketOf = (time: number) => {
+    const date = new Date(time);
+    if (period === 'hour') {
+      date.setMinutes(0, 0, 0);
+    } else {
+      date.setHours(0, 0, 0, 0);
+    }
+    return date.getTime();
+  };
+
+  const buckets = new Map<number, Map<string, number[]>>();
+  samples.forEach((sample) => {
+    if (sample.failed || !keys.includes(sample[dimension])) return;
+    const bucket = bucketOf(sample.time);
+    let byKey = buckets.get(bucket);
+    if (!byKey) {
+      byKey = new Map();
+      buckets.set(bucket, byKey);
+    }
+    const values = byKey.get(sample[dimension]);
+    if (values) {
+      values.push(sample.latencyMs);
+    } else {
+      byKey.set(sample[dimension], [sample.latencyMs]);
+    }
+  });
+
+  const starts = Array.from(buckets.keys()).sort((a, b) => a - b);
+  const labels = starts.map((start) =>
+    period === 'hour' ? formatHourLabel(new Date(start)) : formatDayLabel(new Date(start))
+  );
+
+  const datasets = keys.map((key, index) => {
+    const style = CHART_COLORS[index % CHART_COLORS.length];
+    return {
+      label: key,
+      data: starts.map((start) => {
+        const values = buckets.get(start)?.get(key);
+        const value = values ? median(values) : undefined;
+        return value === undefined ? NaN : Math.round(value / 10) / 100;
+      }),
+      borderColor: style.borderColor,
+      backgroundColor: style.backgroundColor,
+      pointBackgroundColor: style.borderColor,
+      pointBorderColor: style.borderColor,
+      fill: false,
+      tension: 0.35
+    };
+  });
+
+  return { labels, datasets };
+}
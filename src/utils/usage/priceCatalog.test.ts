@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculateCost, resolveModelPrice, type ModelPrice } from '../usage';
+import {
+  detectPriceCatalogFormat,
+  isValidPriceKey,
+  parsePriceCatalog,
+  priceCatalogToCsv,
+  serializePriceCatalog
+} from './priceCatalog';
+
+const prices: Record<string, ModelPrice> = {
+  'claude-sonnet-4': { prompt: 3, completion: 15, cache: 0.3 },
+  'claude-*-sonnet*': { prompt: 2, completion: 10, cache: 0.2 },
+  '/^gemini-2\\.5-pro/': {
+    prompt: 1.25,
+    completion: 10,
+    cache: 0.31,
+    longContext: { threshold: 200_000, prompt: 2.5, completion: 15, cache: 0.625 }
+  }
+};
+
+const detail = (model: string, input: number, output: number, cached = 0) => ({
+  __modelName: model,
+  tokens: {
+    input_tokens: input,
+    output_tokens: output,
+    cached_tokens: cached,
+    reasoning_tokens: 0,
+    total_tokens: input + output
+  }
+});
+
+describe('model price resolution', () => {
+  it('prefers exact names, then glob and regex patterns', () => {
+    expect(resolveModelPrice('claude-sonnet-4', prices)?.prompt).toBe(3);
+    expect(resolveModelPrice('Claude-3-7-Sonnet-latest', prices)?.prompt).toBe(2);
+    expect(resolveModelPrice('gemini-2.5-pro-preview', prices)?.prompt).toBe(1.25);
+    expect(resolveModelPrice('gemini-2.5-flash', prices)).toBeNull();
+  });
+
+  it('applies the long-context tier above the input threshold', () => {
+    expect(calculateCost(detail('gemini-2.5-pro', 100_000, 1_000), prices)).toBeCloseTo(
+      0.125 + 0.01
+    );
+    expect(calculateCost(detail('gemini-2.5-pro', 300_000, 1_000, 100_000), prices)).toBeCloseTo(
+      0.5 + 0.0625 + 0.015
+    );
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(isValidPriceKey('claude-*')).toBe(true);
+    expect(isValidPriceKey('/[unclosed/')).toBe(false);
+    expect(isValidPriceKey('  ')).toBe(false);
+  });
+});
+
+describe('price catalog import/export', () => {
+  it('round-trips JSON and CSV', () => {
+    expect(parsePriceCatalog(serializePriceCatalog(prices), 'json')).toEqual({
+      prices,
+      invalid: []
+    });
+    expect(parsePriceCatalog(priceCatalogToCsv(prices), 'csv')).toEqual({ prices, invalid: [] });
+  });
+
+  it('accepts plain maps and reports invalid entries', () => {
+    const result = parsePriceCatalog(
+      JSON.stringify({ 'gpt-5': { prompt: 1.25, completion: 10 }, '/[bad/': { prompt: 1 } }),
+      'json'
+    );
+    expect(result.prices).toEqual({ 'gpt-5': { prompt: 1.25, completion: 10, cache: 1.25 } });
+    expect(result.invalid).toEqual(['/[bad/']);
+
+    const csv = parsePriceCatalog('Model,Prompt,Completion\ngpt-5,1,2\n,3,4\no3,x,y', 'csv');
+    expect(Object.keys(csv.prices)).toEqual(['gpt-5']);
+    expect(csv.invalid).toEqual(['#3', 'o3']);
+  });
+
+  it('detects the format from the file name or content', () => {
+    expect(detectPriceCatalogFormat('prices.CSV', '{}')).toBe('csv');
+    expect(detectPriceCatalogFormat('prices.txt', ' {"a":1}')).toBe('json');
+    expect(detectPriceCatalogFormat('prices', 'model,prompt')).toBe('csv');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Model price catalog import/export (JSON and CSV)
+ */
+
+import { parseCsv, toCsv, type CsvCell } from '../csv';
+import {
+  compileModelPricePattern,
+  isModelPricePattern,
+  normalizeModelPrice,
+  type ModelPrice
+} from '../usage';
+
+export type PriceCatalogFormat = 'json' | 'csv';
+
+export const PRICE_CATALOG_VERSION = 2;
+
+export const PRICE_CATALOG_CSV_COLUMNS = [
+  'model',
+  'prompt',
+  'completion',
+  'cache',
+  'long_context_threshold',
+  'long_context_prompt',
+  'long_context_completion',
+  'long_context_cache'
+] as const;
+
+export interface PriceCatalogParseResult {
+  prices: Record<string, ModelPrice>;
+  /** 无法导入的条目（模型名或行号） */
+  invalid: string[];
+}
+
+/**
+ * 价格键是否可用：非空，且模式能编译为正则
+ */
+export function isValidPriceKey(key: string): boolean {
+  const trimmed = key.trim();
+  if (!trimmed) return false;
+  return !isModelPricePattern(trimmed) || compileModelPricePattern(trimmed) !== null;
+}
+
+export function serializePriceCatalog(
+  prices: Record<string, ModelPrice>,
+  exportedAt: Date = new Date()
+): string {
+  return JSON.stringify(
+    { version: PRICE_CATALOG_VERSION, exported_at: exportedAt.toISOString(), prices },
+    null,
+    2
+  );
+}
+
+export function priceCatalogToCsv(prices: Record<string, ModelPrice>): string {
+  const rows: CsvCell[][] = [[...PRICE_CATALOG_CSV_COLUMNS]];
+  Object.entries(prices).forEach(([model, price]) => {
+    const tier = price.longContext;
+    rows.push([
+      model,
+      price.prompt,
+      price.completion,
+      price.cache,
+      tier?.threshold,
+      tier?.prompt,
+      tier?.completion,
+      tier?.cache
+    ]);
+  });
+  return toCsv(rows);
+}
+
+export function detectPriceCatalogFormat(fileName: string, text: string): PriceCatalogFormat {
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  if (/\.json$/i.test(fileName)) return 'json';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+const addPrice = (result: PriceCatalogParseResult, key: string, raw: unknown, label: string) => {
+  const model = key.trim();
+  const price = isValidPriceKey(model) ? normalizeModelPrice(raw) : null;
+  if (price) {
+    result.prices[model] = price;
+  } else {
+    result.invalid.push(label);
+  }
+};
+
+const parseJsonCatalog = (text: string): PriceCatalogParseResult => {
+  const result: PriceCatalogParseResult = { prices: {}, invalid: [] };
+  const parsed: unknown = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid price catalog');
+  }
+
+  // 支持导出格式 { version, prices }、纯映射 { model: price } 与数组 [{ model, ...price }]
+  const body = (parsed as { prices?: unknown }).prices ?? parsed;
+  if (Array.isArray(body)) {
+    body.forEach((item, index) => {
+      const model = typeof item?.model === 'string' ? item.model : '';
+      addPrice(result, model, item, model || `#${index + 1}`);
+    });
+  } else if (body && typeof body === 'object') {
+    Object.entries(body as Record<string, unknown>).forEach(([model, price]) => {
+      addPrice(result, model, price, model);
+    });
+  } else {
+    throw new Error('Invalid price catalog');
+  }
+  return result;
+};
+
+const parseCsvCatalog = (text: string): PriceCatalogParseResult => {
+  const result: PriceCatalogParseResult = { prices: {}, invalid: [] };
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+  if (!columns.includes('model')) {
+    throw new Error('Missing "model" column');
+  }
+
+  const cell = (row: string[], column: string) => {
+    const index = columns.indexOf(column);
+    const value = index >= 0 ? (row[index] ?? '').trim() : '';
+    return value === '' ? undefined : value;
+  };
+
+  rows.forEach((row, index) => {
+    const model = cell(row, 'model') ?? '';
+    addPrice(
+      result,
+      model,
+      {
+        prompt: cell(row, 'prompt'),
+        completion: cell(row, 'completion'),
+        cache: cell(row, 'cache'),
+        longContext: {
+          threshold: cell(row, 'long_context_threshold'),
+          prompt: cell(row, 'long_context_prompt'),
+          completion: cell(row, 'long_context_completion'),
+          cache: cell(row, 'long_context_cache')
+        }
+      },
+      model || `#${index + 2}`
+    );
+  });
+  return result;
+};
+
+/**
+ * 解析导入的价格表；整体格式错误时抛出异常，单条无效时记录在 invalid 中
+ */
+export function parsePriceCatalog(
+  text: string,
+  format: PriceCatalogFormat
+): PriceCatalogParseResult {
+  return format === 'csv' ? parseCsvCatalog(text) : parseJsonCatalog(text);
+}
+
+/**
+ * 合并导入的价格：merge 时同名条目以导入为准，replace 时整体替换
+ */
+export function mergePriceCatalog(
+  current: Record<string, ModelPrice>,
+  imported: Record<string, ModelPrice>,
+  mode: 'merge' | 'replace'
+): Record<string, ModelPrice> {
+  return mode === 'replace' ? { ...imported } : { ...current, ...imported };
+}
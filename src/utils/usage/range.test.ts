@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildDailySeriesByModel } from '../usage';
+import {
+  calculateDelta,
+  filterUsageByRange,
+  getPreviousUsageRange,
+  resolveUsageRange,
+  withPreviousPeriod
+} from './range';
+import { CHAT_COMPLETIONS_ENDPOINT, localTime, usageDetail } from './testFixtures';
+
+const at = (day: number, hour: number) => localTime(0, day, hour);
+const detail = (time: number, tokens: number, failed = false) =>
+  usageDetail(time, { tokens, failed });
+
+const usage = {
+  total_requests: 4,
+  total_tokens: 1000,
+  apis: {
+    [CHAT_COMPLETIONS_ENDPOINT]: {
+      total_requests: 4,
+      total_tokens: 1000,
+      models: {
+        'gpt-5': {
+          total_requests: 3,
+          total_tokens: 600,
+          details: [detail(at(1, 10), 100), detail(at(5, 9), 200, true), detail(at(9, 12), 300)]
+        },
+        'claude-sonnet': {
+          total_requests: 1,
+          total_tokens: 400,
+          details: [detail(at(2, 8), 400)]
+        }
+      }
+    }
+  }
+};
+
+describe('resolveUsageRange', () => {
+  const now = at(10, 15);
+
+  it('resolves presets relative to the start of today', () => {
+    expect(resolveUsageRange({ preset: 'all', customFrom: '', customTo: '' }, now)).toBeNull();
+    expect(resolveUsageRange({ preset: 'today', customFrom: '', customTo: '' }, now)).toEqual({
+      start: at(10, 0),
+      end: now
+    });
+    expect(resolveUsageRange({ preset: '7d', customFrom: '', customTo: '' }, now)?.start).toBe(
+      at(4, 0)
+    );
+  });
+
+  it('treats custom dates as inclusive and ignores invalid input', () => {
+    expect(
+      resolveUsageRange({ preset: 'custom', customFrom: '2026-01-05', customTo: '2026-01-02' }, now)
+    ).toEqual({ start: at(2, 0), end: at(6, 0) });
+    expect(
+      resolveUsageRange({ preset: 'custom', customFrom: '', customTo: '2026-01-02' }, now)
+    ).toBeNull();
+  });
+
+  it('builds a previous period of the same length', () => {
+    expect(getPreviousUsageRange({ start: at(5, 0), end: at(8, 0) })).toEqual({
+      start: at(2, 0),
+      end: at(5, 0)
+    });
+  });
+
+  it('compares calendar presets with the same time of day on earlier days', () => {
+    const today = resolveUsageRange({ preset: 'today', customFrom: '', customTo: '' }, now);
+    expect(today && getPreviousUsageRange(today, 'today')).toEqual({
+      start: at(9, 0),
+      end: at(9, 15)
+    });
+    const week = resolveUsageRange({ preset: '7d', customFrom: '', customTo: '' }, now);
+    expect(week && getPreviousUsageRange(week, '7d')).toEqual({ start: at(-3, 0), end: at(3, 15) });
+  });
+});
+
+describe('filterUsageByRange', () => {
+  it('keeps only details inside the range and recomputes totals', () => {
+    const filtered = filterUsageByRange(usage, { start: at(2, 0), end: at(6, 0) });
+    expect(filtered).toMatchObject({
+      total_requests: 2,
+      success_count: 1,
+      failure_count: 1,
+      total_tokens: 600
+    });
+    const api = filtered.apis['POST /v1/chat/completions'];
+    expect(Object.keys(api.models).sort()).toEqual(['claude-sonnet', 'gpt-5']);
+    expect(api.models['gpt-5']).toMatchObject({ total_requests: 1, total_tokens: 200 });
+  });
+
+  it('fills empty days of the range in the daily series', () => {
+    const range = { start: at(2, 0), end: at(6, 0) };
+    const series = buildDailySeriesByModel(filterUsageByRange(usage, range), 'requests', range);
+    expect(series.labels).toEqual(['2026-01-02', '2026-01-03', '2026-01-04', '2026-01-05']);
+    expect(series.dataByModel.get('gpt-5')).toEqual([0, 0, 0, 1]);
+  });
+});
+
+describe('comparison helpers', () => {
+  it('computes relative deltas', () => {
+    expect(calculateDelta(150, 100)).toBeCloseTo(0.5);
+    expect(calculateDelta(5, 0)).toBeNull();
+  });
+
+  it('overlays the previous total aligned by bucket', () => {
+    const dataset = (label: string, data: number[]) => ({
+      label,
+      data,
+      borderColor: '#000',
+      backgroundColor: '#000',
+      fill: false,
+      tension: 0
+    });
+    const current = { labels: ['a', 'b'], datasets: [dataset('All Models', [1, 2])] };
+    const previous = {
+      labels: ['x', 'y'],
+      datasets: [dataset('gpt-5', [3, 4]), dataset('o3', [1])]
+    };
+    const merged = withPreviousPeriod(current, previous, 'Previous');
+    expect(merged.datasets).toHaveLength(2);
+    expect(merged.datasets[1]).toMatchObject({
+      label: 'Previous',
+      data: [4, 4],
+      borderDash: [6, 4]
+    });
+  });
+});
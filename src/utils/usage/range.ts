@@ -0,0 +1,272 @@
+/**
+ * Date-range selection and previous-period comparison for usage statistics
+ */
+
+import {
+  collectUsageDetails,
+  extractTotalTokens,
+  type ChartData,
+  type ChartDataset,
+  type RateStats,
+  type UsageDetail
+} from '../usage';
+
+export type UsageRangePreset = 'all' | 'today' | '7d' | '30d' | 'custom';
+
+export const USAGE_RANGE_PRESETS: UsageRangePreset[] = ['all', 'today', '7d', '30d', 'custom'];
+
+/**
+ * 时间范围（毫秒时间戳），左闭右开 [start, end)
+ */
+export interface UsageTimeRange {
+  start: number;
+  end: number;
+}
+
+export interface UsageRangeSelection {
+  preset: UsageRangePreset;
+  /** 自定义范围的起止日期（YYYY-MM-DD，含当天） */
+  customFrom: string;
+  customTo: string;
+}
+
+export interface UsageModelSnapshot {
+  total_requests: number;
+  total_tokens: number;
+  details: UsageDetail[];
+}
+
+export interface UsageApiSnapshot {
+  total_requests: number;
+  total_tokens: number;
+  models: Record<string, UsageModelSnapshot>;
+}
+
+/**
+ * 按时间范围裁剪后重新汇总的使用统计，结构与 /usage 接口一致
+ */
+export type UsageSnapshot = {
+  total_requests: number;
+  success_count: number;
+  failure_count: number;
+  total_tokens: number;
+  apis: Record<string, UsageApiSnapshot>;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DATE_INPUT_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// 按日历日偏移，避免夏令时切换日不是 24 小时
+const addDays = (time: number, days: number): number => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+const parseDateInput = (value: string): number | null => {
+  const match = value.match(DATE_INPUT_REGEX);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+};
+
+/**
+ * 格式化为 <input type="date"> 使用的 YYYY-MM-DD
+ */
+export function formatDateInput(time: number): string {
+  const date = new Date(time);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 自定义范围的默认值：截至今天的最近 N 天
+ */
+export function getDefaultCustomRange(
+  days = 7,
+  now: number = Date.now()
+): Pick<UsageRangeSelection, 'customFrom' | 'customTo'> {
+  return { customFrom: formatDateInput(addDays(now, 1 - days)), customTo: formatDateInput(now) };
+}
+
+/**
+ * 将预设或自定义日期解析为具体时间范围；"全部" 与无效的自定义日期返回 null
+ */
+export function resolveUsageRange(
+  selection: UsageRangeSelection,
+  now: number = Date.now()
+): UsageTimeRange | null {
+  const today = startOfDay(now);
+  switch (selection.preset) {
+    case 'today':
+      return { start: today, end: now };
+    case '7d':
+      return { start: addDays(today, -6), end: now };
+    case '30d':
+      return { start: addDays(today, -29), end: now };
+    case 'custom': {
+      const from = parseDateInput(selection.customFrom);
+      const to = parseDateInput(selection.customTo);
+      if (from === null || to === null) {
+        return null;
+      }
+      const start = Math.min(from, to);
+      return { start, end: addDays(Math.max(from, to), 1) };
+    }
+    default:
+      return null;
+  }
+}
+
+// 日历预设的上一周期按整天回退，对比的是前几天的同一时段
+const PRESET_PERIOD_DAYS: Partial<Record<UsageRangePreset, number>> = {
+  today: 1,
+  '7d': 7,
+  '30d': 30
+};
+
+/**
+ * 上一周期：日历预设整体回退 1/7/30 天（例如 "今天" 对比昨天零点到同一时刻），
+ * 自定义范围取紧邻其前、时长相同的时间段
+ */
+export function getPreviousUsageRange(
+  range: UsageTimeRange,
+  preset: UsageRangePreset = 'custom'
+): UsageTimeRange {
+  const days = PRESET_PERIOD_DAYS[preset];
+  if (days) {
+    return { start: addDays(range.start, -days), end: addDays(range.end, -days) };
+  }
+  return { start: range.start - (range.end - range.start), end: range.start };
+}
+
+export const isInUsageRange = (timestamp: string, range: UsageTimeRange): boolean => {
+  const time = Date.parse(timestamp);
+  return !Number.isNaN(time) && time >= range.start && time < range.end;
+};
+
+/**
+ * 只保留范围内的请求明细，并重新计算各级请求数与 token 汇总
+ */
+export function filterUsageByRange(usageData: unknown, range: UsageTimeRange): UsageSnapshot {
+  const snapshot: UsageSnapshot = {
+    total_requests: 0,
+    success_count: 0,
+    failure_count: 0,
+    total_tokens: 0,
+    apis: {}
+  };
+  const apis = (usageData as { apis?: Record<string, unknown> } | null)?.apis ?? {};
+
+  Object.entries(apis).forEach(([endpoint, apiEntry]) => {
+    const models = (apiEntry as { models?: Record<string, unknown> } | null)?.models ?? {};
+    const api: UsageApiSnapshot = { total_requests: 0, total_tokens: 0, models: {} };
+
+    Object.entries(models).forEach(([modelName, modelEntry]) => {
+      const rawDetails = (modelEntry as { details?: unknown } | null)?.details;
+      const details = (Array.isArray(rawDetails) ? rawDetails : []).filter(
+        (detail): detail is UsageDetail =>
+          Boolean(detail?.timestamp) && isInUsageRange(detail.timestamp, range)
+      );
+      if (!details.length) {
+        return;
+      }
+
+      const tokens = details.reduce((sum, detail) => sum + extractTotalTokens(detail), 0);
+      const failures = details.filter((detail) => detail.failed === true).length;
+      api.models[modelName] = { total_requests: details.length, total_tokens: tokens, details };
+      api.total_requests += details.length;
+      api.total_tokens += tokens;
+      snapshot.failure_count += failures;
+    });
+
+    if (api.total_requests > 0) {
+      snapshot.apis[endpoint] = api;
+      snapshot.total_requests += api.total_requests;
+      snapshot.total_tokens += api.total_tokens;
+    }
+  });
+
+  snapshot.success_count = snapshot.total_requests - snapshot.failure_count;
+  return snapshot;
+}
+
+/**
+ * 范围内的平均 RPM/TPM；范围延伸到未来时只计算到当前时刻
+ */
+export function calculateRangePerMinuteRates(
+  usageData: unknown,
+  range: UsageTimeRange,
+  now: number = Date.now()
+): RateStats {
+  const elapsedMs = Math.max(Math.min(range.end, now) - range.start, MINUTE_MS);
+  const windowMinutes = elapsedMs / MINUTE_MS;
+  let requestCount = 0;
+  let tokenCount = 0;
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    if (!isInUsageRange(detail.timestamp, range)) {
+      return;
+    }
+    requestCount += 1;
+    tokenCount += extractTotalTokens(detail);
+  });
+
+  return {
+    rpm: requestCount / windowMinutes,
+    tpm: tokenCount / windowMinutes,
+    windowMinutes,
+    requestCount,
+    tokenCount
+  };
+}
+
+/**
+ * 相对上一周期的变化比例；上一周期为 0 时无法计算，返回 null
+ */
+export function calculateDelta(current: number, previous: number): number | null {
+  if (!Number.isFinite(current) || !Number.isFinite(previous) || previous === 0) {
+    return null;
+  }
+  return (current - previous) / previous;
+}
+
+/**
+ * 在图表中叠加上一周期的总量曲线（按桶序号对齐，虚线显示）
+ */
+export function withPreviousPeriod(
+  current: ChartData,
+  previous: ChartData,
+  label: string
+): ChartData {
+  if (!current.labels.length || !previous.datasets.length) {
+    return current;
+  }
+  const allDataset = previous.datasets.find((dataset) => dataset.label === 'All Models');
+  const source = allDataset ? [allDataset] : previous.datasets;
+  const data = current.labels.map((_, index) =>
+    source.reduce((sum, dataset) => sum + (dataset.data[index] ?? 0), 0)
+  );
+
+  const overlay: ChartDataset = {
+    label,
+    data,
+    borderColor: '#9ca3af',
+    backgroundColor: 'rgba(156, 163, 175, 0.12)',
+    pointBackgroundColor: '#9ca3af',
+    pointBorderColor: '#9ca3af',
+    borderDash: [6, 4],
+    fill: false,
+    tension: 0.35
+  };
+  return { labels: current.labels, datasets: [...current.datasets, overlay] };
+}
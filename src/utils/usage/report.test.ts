@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildUsageReport,
+  getMonthRange,
+  renderUsageReportHtml,
+  usageReportTableToCsv,
+  type UsageReportLabels
+} from './report';
+import { chatUsageSnapshot, localTime, usageDetail } from './testFixtures';
+
+const at = (month: number, day: number, hour = 10) => localTime(month, day, hour);
+const detail = (time: number, tokens: number, source = 'sk-alpha1234567', failed = false) =>
+  usageDetail(time, { source, tokens, failed });
+
+const usage = chatUsageSnapshot({
+  'gpt-5': [
+    detail(at(0, 30), 500),
+    detail(at(1, 2), 1_000_000),
+    detail(at(1, 4), 2_000_000, 'sk-beta98765432', true)
+  ],
+  '<script>': [detail(at(1, 4), 100)]
+});
+
+const modelPrices = { 'gpt-5': { prompt: 1, completion: 0, cache: 0 } };
+
+const labels: UsageReportLabels = {
+  title: 'Usage Report',
+  period: 'Period',
+  allTime: 'All time',
+  generatedAt: 'Generated at',
+  requests: 'Requests',
+  successRate: 'Success rate',
+  failures: 'Failures',
+  tokens: 'Tokens',
+  cachedTokens: 'Cached',
+  reasoningTokens: 'Reasoning',
+  cost: 'Cost',
+  day: 'Day',
+  model: 'Model',
+  endpoint: 'Endpoint',
+  apiKey: 'API key',
+  failureRate: 'Failure rate',
+  tables: { days: 'Cost by day', models: 'Models', apis: 'APIs', keys: 'API keys' }
+};
+
+describe('getMonthRange', () => {
+  it('returns the current month up to now and the full previous month', () => {
+    const now = at(1, 10);
+    expect(getMonthRange(now)).toEqual({ start: at(1, 1, 0), end: now });
+    expect(getMonthRange(now, -1)).toEqual({ start: at(0, 1, 0), end: at(1, 1, 0) });
+  });
+});
+
+describe('buildUsageReport', () => {
+  it('summarizes the range and fills every day', () => {
+    const report = buildUsageReport(usage, {
+      range: { start: at(1, 1, 0), end: at(1, 5, 0) },
+      modelPrices,
+      generatedAt: at(1, 10)
+    });
+    expect(report.summary).toMatchObject({ requests: 3, failures: 1, successes: 2 });
+    expect(report.summary.cost).toBeCloseTo(3);
+    expect(report.days.map((day) => [day.day, day.requests])).toEqual([
+      ['2026-02-01', 0],
+      ['2026-02-02', 1],
+      ['2026-02-03', 0],
+      ['2026-02-04', 2]
+    ]);
+    expect(report.models.map((row) => row.name)).toEqual(['gpt-5', '<script>']);
+    expect(report.keys).toHaveLength(2);
+  });
+
+  it('exports each table as CSV', () => {
+    const report = buildUsageReport(usage, { modelPrices, generatedAt: at(1, 10) });
+    expect(usageReportTableToCsv(report, 'days').split('\r\n')).toEqual([
+      'day,requests,tokens,cost_usd',
+      '2026-01-30,1,500,0.000500',
+      '2026-02-02,1,1000000,1.000000',
+      '2026-02-04,2,2000100,2.000000'
+    ]);
+    expect(usageReportTableToCsv(report, 'models').split('\r\n')[0]).toBe(
+      'model,requests,tokens,cost_usd'
+    );
+    expect(usageReportTableToCsv(report, 'keys').split('\r\n')[0]).toBe(
+      'api_key,requests,failures,tokens,cached_tokens,reasoning_tokens,cost_usd'
+    );
+  });
+});
+
+describe('renderUsageReportHtml', () => {
+  it('renders a self-contained document with escaped values and chart images', () => {
+    const report = buildUsageReport(usage, { modelPrices, generatedAt: at(1, 10) });
+    const html = renderUsageReportHtml(report, labels, [
+      { title: 'Requests', image: 'data:image/png;base64,AAAA' }
+    ]);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('Period: All time');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('<img src="data:image/png;base64,AAAA"');
+    expect(html).toContain('$3.00');
+    expect(html).not.toMatch(/<link|src="http/);
+  });
+});
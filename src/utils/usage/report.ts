@@ -0,0 +1,426 @@
+/**
+ * Printable usage report (self-contained HTML) and per-table CSV exports
+ */
+
+import { toCsv, type CsvCell } from '../csv';
+import {
+  calculateCost,
+  collectUsageDetails,
+  extractTotalTokens,
+  formatDayLabel,
+  formatTokensInMillions,
+  formatUsd,
+  getApiStats,
+  getModelStats,
+  type ChartData,
+  type ModelPrice
+} from '../usage';
+import { buildUsageBreakdown, type UsageBreakdownRow } from './breakdown';
+import { filterUsageByRange, type UsageTimeRange } from './range';
+
+export type UsageReportTable = 'days' | 'models' | 'apis' | 'keys';
+
+export const USAGE_REPORT_TABLES: UsageReportTable[] = ['days', 'models', 'apis', 'keys'];
+
+export type UsageReportChartMetric = 'requests' | 'tokens' | 'cost';
+
+export interface UsageReportSummary {
+  requests: number;
+  successes: number;
+  failures: number;
+  tokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
+  cost: number;
+}
+
+export interface UsageReportDay {
+  /** YYYY-MM-DD */
+  day: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageReportRow {
+  /** 模型名或接口（已遮罩） */
+  name: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  /** 报表覆盖的时间范围，null 表示全部数据 */
+  range: UsageTimeRange | null;
+  generatedAt: number;
+  hasPrices: boolean;
+  summary: UsageReportSummary;
+  days: UsageReportDay[];
+  models: UsageReportRow[];
+  apis: UsageReportRow[];
+  /** 按客户端 API 密钥（遮罩后）汇总 */
+  keys: UsageBreakdownRow[];
+}
+
+export interface UsageReportOptions {
+  range?: UsageTimeRange | null;
+  modelPrices?: Record<string, ModelPrice>;
+  generatedAt?: number;
+}
+
+export interface UsageReportChart {
+  title: string;
+  /** 图表图片的 data URL */
+  image: string;
+}
+
+export interface UsageReportLabels {
+  title: string;
+  period: string;
+  allTime: string;
+  generatedAt: string;
+  requests: string;
+  successRate: string;
+  failures: string;
+  tokens: string;
+  cachedTokens: string;
+  reasoningTokens: string;
+  cost: string;
+  day: string;
+  model: string;
+  endpoint: string;
+  apiKey: string;
+  failureRate: string;
+  tables: Record<UsageReportTable, string>;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatDateTime = (time: number) => {
+  const date = new Date(time);
+  return `${formatDayLabel(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// 报表会以文件形式分享，不能依赖 DOM，因此单独转义（包括属性中的引号）
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * 按月取时间范围：offset 为 0 表示本月（截至 now），-1 表示上个整月
+ */
+export function getMonthRange(now: number, offset = 0): UsageTimeRange {
+  const date = new Date(now);
+  const start = new Date(date.getFullYear(), date.getMonth() + offset, 1).getTime();
+  const nextMonth = new Date(date.getFullYear(), date.getMonth() + offset + 1, 1).getTime();
+  return { start, end: Math.min(nextMonth, now) };
+}
+
+/**
+ * 汇总指定时间范围内的统计卡片、每日费用以及模型/接口/API 密钥表格
+ */
+export function buildUsageReport(
+  usageData: unknown,
+  { range = null, modelPrices = {}, generatedAt = Date.now() }: UsageReportOptions = {}
+): UsageReport {
+  const usage = range ? filterUsageByRange(usageData, range) : usageData;
+  const summary: UsageReportSummary = {
+    requests: 0,
+    successes: 0,
+    failures: 0,
+    tokens: 0,
+    cachedTokens: 0,
+    reasoningTokens: 0,
+    cost: 0
+  };
+  const days = new Map<string, UsageReportDay>();
+
+  // 指定范围时补齐没有数据的日期
+  if (range) {
+    const lastTime = Math.min(range.end - 1, generatedAt);
+    for (
+      const day = new Date(range.start);
+      day.getTime() <= lastTime;
+      day.setDate(day.getDate() + 1)
+    ) {
+      const key = formatDayLabel(day);
+      days.set(key, { day: key, requests: 0, tokens: 0, cost: 0 });
+    }
+  }
+
+  collectUsageDetails(usage).forEach((detail) => {
+    const time = Date.parse(detail.timestamp);
+    const tokens = extractTotalTokens(detail);
+    const cost = calculateCost(detail, modelPrices);
+    summary.requests += 1;
+    summary.failures += detail.failed === true ? 1 : 0;
+    summary.tokens += tokens;
+    summary.cachedTokens += Math.max(
+      Number(detail.tokens?.cached_tokens) || 0,
+      Number(detail.tokens?.cache_tokens) || 0
+    );
+    summary.reasoningTokens += Number(detail.tokens?.reasoning_tokens) || 0;
+    summary.cost += cost;
+    if (Number.isNaN(time)) return;
+
+    const key = formatDayLabel(new Date(time));
+    let day = days.get(key);
+    if (!day) {
+      day = { day: key, requests: 0, tokens: 0, cost: 0 };
+      days.set(key, day);
+    }
+    day.requests += 1;
+    day.tokens += tokens;
+    day.cost += cost;
+  });
+  summary.successes = summary.requests - summary.failures;
+
+  return {
+    range,
+    generatedAt,
+    hasPrices: Object.keys(modelPrices).length > 0,
+    summary,
+    days: Array.from(days.values()).sort((a, b) => a.day.localeCompare(b.day)),
+    models: getModelStats(usage, modelPrices).map(({ model, ...stats }) => ({
+      name: model,
+      ...stats
+    })),
+    apis: getApiStats(usage, modelPrices)
+      .map((api) => ({
+        name: api.endpoint,
+        requests: api.totalRequests,
+        tokens: api.totalTokens,
+        cost: api.totalCost
+      }))
+      .sort((a, b) => b.requests - a.requests),
+    keys: buildUsageBreakdown(usage, 'source', modelPrices)
+  };
+}
+
+/**
+ * 构建报表中的每日趋势图数据
+ */
+export function buildUsageReportChart(
+  report: UsageReport,
+  metric: UsageReportChartMetric,
+  label: string
+): ChartData {
+  return {
+    labels: report.days.map((day) => day.day),
+    datasets: [
+      {
+        label,
+        data: report.days.map((day) =>
+          metric === 'cost' ? Number(day.cost.toFixed(4)) : day[metric]
+        ),
+        borderColor: '#3b82f6',
+        backgroundColor: 'rgba(59, 130, 246, 0.15)',
+        pointBackgroundColor: '#3b82f6',
+        pointBorderColor: '#3b82f6',
+        fill: true,
+        tension: 0.35
+      }
+    ]
+  };
+}
+
+const formatCost = (value: number) => (value ? value.toFixed(6) : 0);
+
+/**
+ * 将报表中的某个表格导出为 CSV（列名固定为英文，便于表格软件处理）
+ */
+export function usageReportTableToCsv(report: UsageReport, table: UsageReportTable): string {
+  const rows: CsvCell[][] = [];
+  switch (table) {
+    case 'days':
+      rows.push(['day', 'requests', 'tokens', 'cost_usd']);
+      report.days.forEach((day) =>
+        rows.push([day.day, day.requests, day.tokens, formatCost(day.cost)])
+      );
+      break;
+    case 'models':
+    case 'apis':
+      rows.push([table === 'models' ? 'model' : 'endpoint', 'requests', 'tokens', 'cost_usd']);
+      report[table].forEach((row) =>
+        rows.push([row.name, row.requests, row.tokens, formatCost(row.cost)])
+      );
+      break;
+    case 'keys':
+      rows.push([
+        'api_key',
+        'requests',
+        'failures',
+        'tokens',
+        'cached_tokens',
+        'reasoning_tokens',
+        'cost_usd'
+      ]);
+      report.keys.forEach((row) =>
+        rows.push([
+          row.key,
+          row.requests,
+          row.failures,
+          row.tokens,
+          row.cachedTokens,
+          row.reasoningTokens,
+          formatCost(row.cost)
+        ])
+      );
+      break;
+  }
+  return toCsv(rows);
+}
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; background: #fff; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  h2 { margin: 28px 0 12px; font-size: 17px; }
+  .meta { color: #6b7280; font-size: 13px; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 12px; margin-top: 20px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; }
+  .card-label { color: #6b7280; font-size: 12px; }
+  .card-value { font-size: 22px; font-weight: 600; }
+  .card-sub { color: #6b7280; font-size: 12px; }
+  figure { margin: 0 0 16px; break-inside: avoid; }
+  figcaption { font-weight: 600; margin-bottom: 6px; }
+  figure img { width: 100%; border: 1px solid #e5e7eb; border-radius: 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 6px 10px; border-bottom: 1px solid #e5e7eb; text-align: right; }
+  th:first-child, td:first-child { text-align: left; word-break: break-all; }
+  th { background: #f9fafb; font-weight: 600; }
+  section { break-inside: avoid-page; }
+  @media print {
+    body { padding: 0; }
+    h2 { break-after: avoid; }
+    tr { break-inside: avoid; }
+  }
+`;
+
+const renderTable = (headers: string[], rows: string[][]) =>
+  `<table><thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead><tbody>${rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('')}</tbody></table>`;
+
+/**
+ * 生成不依赖外部资源的 HTML 报表，可直接在浏览器中打印为 PDF
+ */
+export function renderUsageReportHtml(
+  report: UsageReport,
+  labels: UsageReportLabels,
+  charts: UsageReportChart[] = []
+): string {
+  const { summary, hasPrices } = report;
+  const period = report.range
+    ? `${formatDateTime(report.range.start)} ~ ${formatDateTime(report.range.end)}`
+    : labels.allTime;
+  const money = (value: number) => (hasPrices ? formatUsd(value) : '--');
+  const withCost = (headers: string[]) => (hasPrices ? [...headers, labels.cost] : headers);
+  const costCell = (value: number) => (hasPrices ? [money(value)] : []);
+
+  const cards = [
+    [labels.requests, summary.requests.toLocaleString(), `${labels.failures}: ${summary.failures}`],
+    [
+      labels.successRate,
+      summary.requests ? formatPercent(summary.successes / summary.requests) : '--',
+      ''
+    ],
+    [
+      labels.tokens,
+      formatTokensInMillions(summary.tokens),
+      `${labels.cachedTokens}: ${formatTokensInMillions(summary.cachedTokens)} · ${
+        labels.reasoningTokens
+      }: ${formatTokensInMillions(summary.reasoningTokens)}`
+    ],
+    ...(hasPrices ? [[labels.cost, money(summary.cost), '']] : [])
+  ];
+
+  const sections = [
+    [
+      labels.tables.days,
+      renderTable(
+        withCost([labels.day, labels.requests, labels.tokens]),
+        report.days.map((day) => [
+          day.day,
+          day.requests.toLocaleString(),
+          day.tokens.toLocaleString(),
+          ...costCell(day.cost)
+        ])
+      )
+    ],
+    [
+      labels.tables.models,
+      renderTable(
+        withCost([labels.model, labels.requests, labels.tokens]),
+        report.models.map((row) => [
+          row.name,
+          row.requests.toLocaleString(),
+          row.tokens.toLocaleString(),
+          ...costCell(row.cost)
+        ])
+      )
+    ],
+    [
+      labels.tables.apis,
+      renderTable(
+        withCost([labels.endpoint, labels.requests, labels.tokens]),
+        report.apis.map((row) => [
+          row.name,
+          row.requests.toLocaleString(),
+          row.tokens.toLocaleString(),
+          ...costCell(row.cost)
+        ])
+      )
+    ],
+    [
+      labels.tables.keys,
+      renderTable(
+        withCost([labels.apiKey, labels.requests, labels.tokens, labels.failureRate]),
+        report.keys.map((row) => [
+          row.key || '--',
+          row.requests.toLocaleString(),
+          row.tokens.toLocaleString(),
+          formatPercent(row.failureRate),
+          ...costCell(row.cost)
+        ])
+      )
+    ]
+  ];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${labels.title} · ${period}`)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(labels.title)}</h1>
+<div class="meta">${escapeHtml(`${labels.period}: ${period}`)}</div>
+<div class="meta">${escapeHtml(`${labels.generatedAt}: ${formatDateTime(report.generatedAt)}`)}</div>
+<div class="cards">${cards
+    .map(
+      ([label, value, sub]) =>
+        `<div class="card"><div class="card-label">${escapeHtml(label)}</div><div class="card-value">${escapeHtml(value)}</div>${
+          sub ? `<div class="card-sub">${escapeHtml(sub)}</div>` : ''
+        }</div>`
+    )
+    .join('')}</div>
+${charts
+  .map(
+    (chart) =>
+      `<figure><figcaption>${escapeHtml(chart.title)}</figcaption><img src="${escapeHtml(chart.image)}" alt="${escapeHtml(chart.title)}"></figure>`
+  )
+  .join('\n')}
+${sections.map(([title, table]) => `<section><h2>${escapeHtml(title)}</h2>${table}</section>`).join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseCsv } from '../csv';
+import {
+  DEFAULT_USAGE_REQUEST_FILTERS,
+  collectUsageRequests,
+  filterUsageRequests,
+  sortUsageRequests,
+  usageRequestsToCsv
+} from './requests';
+import { CHAT_COMPLETIONS_ENDPOINT, localTime, usageDetail, usageSnapshot } from './testFixtures';
+
+const at = (hour: number) => localTime(0, 10, hour);
+const detail = (hour: number, source: string, authIndex: string, input: number, failed = false) =>
+  usageDetail(at(hour), {
+    source,
+    authIndex,
+    tokens: { input, output: 100, reasoning: 10, cached: 50 },
+    failed
+  });
+
+const usage = usageSnapshot({
+  [CHAT_COMPLETIONS_ENDPOINT]: {
+    'gpt-5': [detail(9, 'sk-alpha1234567890', 'a1', 1000), { timestamp: 'bad' }],
+    'claude-sonnet': [detail(11, 'sk-beta1234567890', 'b2', 3000, true)]
+  },
+  'POST /v1/messages': {
+    'claude-sonnet': [detail(10, 'sk-alpha1234567890', '', 2000)]
+  }
+});
+
+const masker = (value: string) => `${value.slice(0, 5)}***`;
+const names: Record<string, string> = { a1: 'alice.json', b2: 'bob.json' };
+const resolve = (authIndex: string) => names[authIndex] ?? authIndex;
+
+describe('collectUsageRequests', () => {
+  it('flattens details with endpoint, masked source and cost', () => {
+    const rows = collectUsageRequests(
+      usage,
+      { 'gpt-5': { prompt: 1, completion: 0, cache: 0 } },
+      masker
+    );
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({
+      model: 'gpt-5',
+      endpoint: 'POST /v1/chat/completions',
+      source: 'sk-al***',
+      authIndex: 'a1',
+      inputTokens: 1000,
+      cachedTokens: 50,
+      reasoningTokens: 10,
+      totalTokens: 1110,
+      failed: false
+    });
+    expect(rows[0].cost).toBeCloseTo(0.00095);
+  });
+});
+
+describe('filter and sort', () => {
+  const rows = collectUsageRequests(usage, {}, masker);
+
+  it('combines column filters', () => {
+    const filtered = filterUsageRequests(
+      rows,
+      { ...DEFAULT_USAGE_REQUEST_FILTERS, model: 'CLAUDE', authFile: 'bob' },
+      resolve
+    );
+    expect(filtered.map((row) => row.timestamp)).toEqual([at(11)]);
+
+    expect(
+      filterUsageRequests(rows, {
+        ...DEFAULT_USAGE_REQUEST_FILTERS,
+        status: 'success',
+        minTokens: 2000
+      })
+    ).toHaveLength(1);
+  });
+
+  it('sorts by resolved auth file names and numbers', () => {
+    const byAuth = sortUsageRequests(rows, { key: 'authFile', direction: 'asc' }, resolve);
+    expect(byAuth.map((row) => row.authIndex)).toEqual(['', 'a1', 'b2']);
+
+    const byInput = sortUsageRequests(rows, { key: 'inputTokens', direction: 'desc' });
+    expect(byInput.map((row) => row.inputTokens)).toEqual([3000, 2000, 1000]);
+  });
+
+  it('exports the given rows as CSV', () => {
+    const csv = parseCsv(usageRequestsToCsv(rows.slice(0, 1), resolve));
+    expect(csv[0].slice(0, 5)).toEqual(['time', 'model', 'endpoint', 'source', 'auth_file']);
+    expect(csv[1].slice(1, 6)).toEqual([
+      'gpt-5',
+      'POST /v1/chat/completions',
+      'sk-al***',
+      'alice.json',
+      'a1'
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Per-request usage rows: flatten, filter, sort and CSV export
+ */
+
+import { toCsv, type CsvCell } from '../csv';
+import { normalizeAuthIndexValue } from '../quota/parsers';
+import {
+  calculateCost,
+  extractTotalTokens,
+  maskUsageSensitiveValue,
+  type ModelPrice,
+  type UsageDetail
+} from '../usage';
+import type { UsageTimeRange } from './range';
+
+export interface UsageRequestRow {
+  /** 行标识：接口 + 模型 + 明细序号 */
+  id: string;
+  timestamp: number;
+  model: string;
+  /** 遮罩后的接口 */
+  endpoint: string;
+  /** 遮罩后的客户端密钥 */
+  source: string;
+  authIndex: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number;
+  failed: boolean;
+}
+
+export type UsageRequestSortKey =
+  | 'timestamp'
+  | 'model'
+  | 'endpoint'
+  | 'source'
+  | 'authFile'
+  | 'inputTokens'
+  | 'outputTokens'
+  | 'cachedTokens'
+  | 'reasoningTokens'
+  | 'cost'
+  | 'failed';
+
+export interface UsageRequestSort {
+  key: UsageRequestSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export type UsageRequestStatusFilter = 'all' | 'success' | 'failed';
+
+/**
+ * 各列的过滤条件：文本列为不区分大小写的包含匹配，空字符串表示不过滤
+ */
+export interface UsageRequestFilters {
+  model: string;
+  endpoint: string;
+  source: string;
+  authFile: string;
+  status: UsageRequestStatusFilter;
+  /** 总 tokens 下限 */
+  minTokens: number | null;
+  /** 请求时间范围，例如从异常列表跳转到某个小时 */
+  timeRange: UsageTimeRange | null;
+}
+
+export const DEFAULT_USAGE_REQUEST_FILTERS: UsageRequestFilters = {
+  model: '',
+  endpoint: '',
+  source: '',
+  authFile: '',
+  status: 'all',
+  minTokens: null,
+  timeRange: null
+};
+
+export const DEFAULT_USAGE_REQUEST_SORT: UsageRequestSort = {
+  key: 'timestamp',
+  direction: 'desc'
+};
+
+/** auth_index → 显示名称（通常为认证文件名） */
+export type AuthFileResolver = (authIndex: string) => string;
+
+const identity: AuthFileResolver = (authIndex) => authIndex;
+
+const tokenValue = (value: unknown): number => {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.max(num, 0) : 0;
+};
+
+/**
+ * 展开为逐请求的行（保留接口信息，敏感字段已遮罩）
+ */
+export function collectUsageRequests(
+  usageData: unknown,
+  modelPrices: Record<string, ModelPrice> = {},
+  masker?: (value: string) => string
+): UsageRequestRow[] {
+  const rows: UsageRequestRow[] = [];
+  const apis = (usageData as { apis?: Record<string, unknown> } | null)?.apis ?? {};
+
+  Object.entries(apis).forEach(([rawEndpoint, apiEntry]) => {
+    const endpoint = maskUsageSensitiveValue(rawEndpoint, masker) || rawEndpoint;
+    const models = (apiEntry as { models?: Record<string, unknown> } | null)?.models ?? {};
+
+    Object.entries(models).forEach(([model, modelEntry]) => {
+      const details = (modelEntry as { details?: unknown } | null)?.details;
+      if (!Array.isArray(details)) return;
+
+      details.forEach((raw: UsageDetail, index) => {
+        const timestamp = Date.parse(raw?.timestamp ?? '');
+        if (Number.isNaN(timestamp)) return;
+        const detail = { ...raw, __modelName: model };
+        const tokens = detail.tokens ?? ({} as Partial<UsageDetail['tokens']>);
+        rows.push({
+          id: `${rawEndpoint}\u0000${model}\u0000${index}`,
+          timestamp,
+          model,
+          endpoint,
+          source: maskUsageSensitiveValue(detail.source, masker),
+          authIndex: normalizeAuthIndexValue(detail.auth_index) ?? '',
+          inputTokens: tokenValue(tokens.input_tokens),
+          outputTokens: tokenValue(tokens.output_tokens),
+          cachedTokens: Math.max(tokenValue(tokens.cached_tokens), tokenValue(tokens.cache_tokens)),
+          reasoningTokens: tokenValue(tokens.reasoning_tokens),
+          totalTokens: extractTotalTokens(detail),
+          cost: calculateCost(detail, modelPrices),
+          failed: detail.failed === true
+        });
+      });
+    });
+  });
+
+  return rows;
+}
+
+export function countActiveUsageRequestFilters(filters: UsageRequestFilters): number {
+  return (
+    [filters.model, filters.endpoint, filters.source, filters.authFile].filter((value) =>
+      value.trim()
+    ).length +
+    (filters.status !== 'all' ? 1 : 0) +
+    (filters.minTokens !== null ? 1 : 0) +
+    (filters.timeRange !== null ? 1 : 0)
+  );
+}
+
+const includesText = (value: string, query: string) =>
+  !query.trim() || value.toLowerCase().includes(query.trim().toLowerCase());
+
+export function filterUsageRequests(
+  rows: UsageRequestRow[],
+  filters: UsageRequestFilters,
+  resolveAuthFile: AuthFileResolver = identity
+): UsageRequestRow[] {
+  if (!countActiveUsageRequestFilters(filters)) {
+    return rows;
+  }
+  return rows.filter((row) => {
+    if (filters.status === 'failed' && !row.failed) return false;
+    if (filters.status === 'success' && row.failed) return false;
+    if (filters.minTokens !== null && row.totalTokens < filters.minTokens) return false;
+    if (
+      filters.timeRange &&
+      (row.timestamp < filters.timeRange.start || row.timestamp >= filters.timeRange.end)
+    ) {
+      return false;
+    }
+    return (
+      includesText(row.model, filters.model) &&
+      includesText(row.endpoint, filters.endpoint) &&
+      includesText(row.source, filters.source) &&
+      includesText(
+        row.authIndex ? `${resolveAuthFile(row.authIndex)} ${row.authIndex}` : '',
+        filters.authFile
+      )
+    );
+  });
+}
+
+export function sortUsageRequests(
+  rows: UsageRequestRow[],
+  sort: UsageRequestSort | null,
+  resolveAuthFile: AuthFileResolver = identity
+): UsageRequestRow[] {
+  if (!sort) {
+    return rows;
+  }
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const valueOf = (row: UsageRequestRow): string | number => {
+    switch (sort.key) {
+      case 'authFile':
+        return row.authIndex ? resolveAuthFile(row.authIndex) : '';
+      case 'failed':
+        return row.failed ? 1 : 0;
+      default:
+        return row[sort.key];
+    }
+  };
+
+  return [...rows].sort((a, b) => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    const result =
+      typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+    // 相同值按时间倒序，保证排序稳定
+    return result * factor || b.timestamp - a.timestamp;
+  });
+}
+
+export function usageRequestsToCsv(
+  rows: UsageRequestRow[],
+  resolveAuthFile: AuthFileResolver = identity
+): string {
+  const table: CsvCell[][] = [
+    [
+      'time',
+      'model',
+      'endpoint',
+      'source',
+      'auth_file',
+      'auth_index',
+      'input_tokens',
+      'output_tokens',
+      'cached_tokens',
+      'reasoning_tokens',
+      'total_tokens',
+      'cost_usd',
+      'failed'
+    ]
+  ];
+  rows.forEach((row) => {
+    table.push([
+      new Date(row.timestamp).toISOString(),
+      row.model,
+      row.endpoint,
+      row.source,
+      row.authIndex ? resolveAuthFile(row.authIndex) : '',
+      row.authIndex,
+      row.inputTokens,
+      row.outputTokens,
+      row.cachedTokens,
+      row.reasoningTokens,
+      row.totalTokens,
+      row.cost ? row.cost.toFixed(6) : 0,
+      row.failed
+    ]);
+  });
+  return toCsv(table);
+}
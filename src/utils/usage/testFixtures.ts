@@ -0,0 +1,76 @@
+/**
+ * Shared fixtures for usage utility tests
+ */
+
+export const CHAT_COMPLETIONS_ENDPOINT = 'POST /v1/chat/completions';
+
+export interface UsageDetailTokens {
+  input?: number;
+  output?: number;
+  cached?: number;
+  reasoning?: number;
+}
+
+export interface UsageDetailOptions {
+  source?: string;
+  authIndex?: string | number;
+  // 数字表示仅有输入 token
+  tokens?: number | UsageDetailTokens;
+  failed?: boolean;
+}
+
+/**
+ * 2026 年的本地时间戳，month 从 0 开始
+ */
+export const localTime = (month: number, day: number, hour = 0, minute = 0, second = 0, ms = 0) =>
+  new Date(2026, month, day, hour, minute, second, ms).getTime();
+
+/**
+ * 构造一条请求明细，total_tokens 为输入、输出与推理 token 之和
+ */
+export const usageDetail = (
+  time: number,
+  { source = 'sk-test', authIndex = 0, tokens = 0, failed = false }: UsageDetailOptions = {}
+) => {
+  const counts = typeof tokens === 'number' ? { input: tokens } : tokens;
+  const input = counts.input ?? 0;
+  const output = counts.output ?? 0;
+  const reasoning = counts.reasoning ?? 0;
+  return {
+    timestamp: new Date(time).toISOString(),
+    source,
+    auth_index: authIndex,
+    tokens: {
+      input_tokens: input,
+      output_tokens: output,
+      reasoning_tokens: reasoning,
+      cached_tokens: counts.cached ?? 0,
+      total_tokens: input + output + reasoning
+    },
+    failed
+  };
+};
+
+export type UsageDetailFixture = ReturnType<typeof usageDetail>;
+
+/**
+ * 按 端点 → 模型 → 明细 构造用量快照
+ */
+export const usageSnapshot = (apis: Record<string, Record<string, unknown[]>>) => ({
+  apis: Object.fromEntries(
+    Object.entries(apis).map(([endpoint, models]) => [
+      endpoint,
+      {
+        models: Object.fromEntries(
+          Object.entries(models).map(([model, details]) => [model, { details }])
+        )
+      }
+    ])
+  )
+});
+
+/**
+ * 仅包含 chat completions 端点的用量快照
+ */
+export const chatUsageSnapshot = (models: Record<string, unknown[]>) =>
+  usageSnapshot({ [CHAT_COMPLETIONS_ENDPOINT]: models });
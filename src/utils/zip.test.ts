@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import { crc32, createZip, readZip } from './zip';
+
+const readUint32 = (data: Uint8Array, offset: number) =>
+  new DataView(data.buffer, data.byteOffset).getUint32(offset, true);
+const readUint16 = (data: Uint8Array, offset: number) =>
+  new DataView(data.buffer, data.byteOffset).getUint16(offset, true);
+
+const deflatedText = '{"type":"codex","email":"a@example.com","pad":"aaaaaaaaaaaaaaaaaaaaaaaa"}';
+// 由 zlib.deflateRawSync 生成
+const deflated = new Uint8Array([
+  171, 86, 42, 169, 44, 72, 85, 178, 82, 74, 206, 79, 73, 173, 80, 210, 81, 74, 205, 77, 204, 204,
+  81, 178, 82, 74, 116, 72, 173, 72, 204, 45, 200, 73, 213, 75, 206, 207, 85, 210, 81, 42, 72, 76,
+  1, 137, 226, 0, 74, 181, 0,
+]);
+
+// 以 STORE 方式生成归档后，将数据替换为压缩数据并改写压缩方式与原始大小
+const createDeflatedZip = (size = deflatedText.length) => {
+  const zip = createZip([{ name: 'a.json', data: deflated }]);
+  const view = new DataView(zip.buffer);
+  const central = view.getUint32(zip.length - 22 + 16, true);
+  view.setUint16(8, 8, true);
+  view.setUint16(central + 10, 8, true);
+  view.setUint32(22, size, true);
+  view.setUint32(central + 24, size, true);
+  return zip;
+};
+
+describe('zip utils', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('stores entries with local headers and a central directory', () => {
+    const zip = createZip(
+      [
+        { name: 'a.json', data: '{"a":1}' },
+        { name: '认证.json', data: '{}' },
+      ],
+      new Date(2026, 0, 5, 10, 30, 20)
+    );
+    expect(readUint32(zip, 0)).toBe(0x04034b50);
+    expect(readUint32(zip, 14)).toBe(crc32(new TextEncoder().encode('{"a":1}')));
+    expect(new TextDecoder().decode(zip.slice(30, 36))).toBe('a.json');
+    expect(new TextDecoder().decode(zip.slice(36, 43))).toBe('{"a":1}');
+
+    const end = zip.length - 22;
+    expect(readUint32(zip, end)).toBe(0x06054b50);
+    expect(readUint16(zip, end + 10)).toBe(2);
+    const centralOffset = readUint32(zip, end + 16);
+    expect(readUint32(zip, centralOffset)).toBe(0x02014b50);
+    expect(centralOffset + readUint32(zip, end + 12)).toBe(end);
+  });
+
+  it('reads stored entries back and skips directories', async () => {
+    const zip = createZip([
+      { name: 'auth/', data: '' },
+      { name: 'auth/认证.json', data: '{"type":"codex"}' },
+    ]);
+    const entries = await readZip(zip);
+    expect(entries.map((entry) => entry.name)).toEqual(['auth/认证.json']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('{"type":"codex"}');
+    await expect(readZip(new Uint8Array(10))).rejects.toThrow('invalid zip archive');
+  });
+
+  it('inflates deflated entries', async () => {
+    const [entry] = await readZip(createDeflatedZip());
+    expect(new TextDecoder().decode(entry.data)).toBe(deflatedText);
+    expect(entry.size).toBe(deflatedText.length);
+  });
+
+  it('stops inflating once the output passes the recorded size', async () => {
+    await expect(readZip(createDeflatedZip(deflatedText.length - 1))).rejects.toThrow(
+      'a.json: size mismatch'
+    );
+  });
+
+  it('returns oversized entries without their content', async () => {
+    const zip = createZip([
+      { name: 'small.json', data: '{}' },
+      { name: 'big.json', data: 'x'.repeat(100) },
+    ]);
+    const entries = await readZip(zip, { maxEntrySize: 50 });
+    expect(entries.map((entry) => [entry.name, entry.size, entry.data.length])).toEqual([
+      ['small.json', 2, 2],
+      ['big.json', 100, 0],
+    ]);
+    const [deflatedEntry] = await readZip(createDeflatedZip(), { maxEntrySize: 10 });
+    expect(deflatedEntry.data.length).toBe(0);
+  });
+
+  it('rejects archives over the total size or entry count limits', async () => {
+    const zip = createZip([
+      { name: 'a.json', data: 'x'.repeat(40) },
+      { name: 'b.json', data: 'x'.repeat(40) },
+    ]);
+    await expect(readZip(zip, { maxTotalSize: 60 })).rejects.toThrow('exceeds 60 bytes');
+    await expect(readZip(zip, { maxEntries: 1 })).rejects.toThrow('more than 1 entries');
+    await expect(readZip(zip, { maxTotalSize: 80, maxEntries: 2 })).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * ZIP 工具
+ * 生成不压缩（STORE）的 ZIP 归档，用于批量下载认证文件等小型文本文件；
+ * 读取 STORE/DEFLATE 归档，用于批量导入认证文件
+ */
+
+export interface ZipEntry {
+  /** 归档内的文件名（UTF-8） */
+  name: string;
+  data: Uint8Array | string;
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * 计算 CRC-32（ZIP 使用的 IEEE 多项式）
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS 日期时间格式（本地时间，精度 2 秒，最早 1980 年）
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * 将文件打包为 ZIP 归档（不压缩）
+ */
+export function createZip(entries: ZipEntry[], now: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(entry.modified ?? now);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    // bit 11：文件名使用 UTF-8 编码
+    localView.setUint16(6, 0x0800, true);
+    localView.setUint16(8, 0, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...localParts, ...centralParts, end].forEach((part) => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+}
+
+export interface ZipReadEntry {
+  name: string;
+  /** 文件内容；超过 maxEntrySize 时不解压，为空数组 */
+  data: Uint8Array;
+  /** 中央目录记录的原始大小（字节） */
+  size: number;
+}
+
+export interface ZipReadOptions {
+  /** 单个文件的最大字节数，超出的文件只返回大小 */
+  maxEntrySize?: number;
+  /** 解压后的总字节数上限，超出时抛出异常 */
+  maxTotalSize?: number;
+  /** 归档内条目数（含目录项）上限，超出时抛出异常 */
+  maxEntries?: number;
+}
+
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+
+// 使用浏览器内置的 DecompressionStream 解压 DEFLATE 数据；
+// 输出超过 size 时立即停止读取并返回 null，避免压缩炸弹占满内存
+const inflateRaw = async (data: Uint8Array, size: number): Promise<Uint8Array | null> => {
+  const reader = new Blob([data as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > size) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * 读取 ZIP 归档中的文件（忽略目录项）；归档损坏、加密、使用不支持的压缩方式
+ * 或超出 options 中的总量限制时抛出异常
+ */
+export async function readZip(
+  archive: Uint8Array,
+  options: ZipReadOptions = {}
+): Promise<ZipReadEntry[]> {
+  const { maxEntrySize = Infinity, maxTotalSize = Infinity, maxEntries = Infinity } = options;
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  // EOCD 位于末尾，之后最多有 65535 字节的注释
+  let eocd = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('invalid zip archive');
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(eocd + 10, true);
+  if (count > maxEntries) throw new Error(`zip archive has more than ${maxEntries} entries`);
+  let position = view.getUint32(eocd + 16, true);
+  const entries: ZipReadEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== ZIP_CENTRAL_SIGNATURE) {
+      throw new Error('invalid zip central directory');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x0001) throw new Error(`${name}: encrypted entries are not supported`);
+    // 按中央目录记录的大小在解压前过滤，解压时再以该大小为上限
+    if (size > maxEntrySize) {
+      entries.push({ name, data: new Uint8Array(), size });
+      continue;
+    }
+    totalSize += size;
+    if (totalSize > maxTotalSize) {
+      throw new Error(`zip archive exceeds ${maxTotalSize} bytes when extracted`);
+    }
+    if (view.getUint32(localOffset, true) !== ZIP_LOCAL_SIGNATURE) {
+      throw new Error(`${name}: invalid local header`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      if (compressedSize !== size) throw new Error(`${name}: size mismatch`);
+      entries.push({ name, data: raw, size });
+    } else if (method === 8) {
+      const data = await inflateRaw(raw, size);
+      if (!data || data.length !== size) throw new Error(`${name}: size mismatch`);
+      entries.push({ name, data, size });
+    } else {
+      throw new Error(`${name}: unsupported compression method ${method}`);
+    }
+  }
+  return entries;
+}